@@ -21,6 +21,7 @@ import ProfilePage from "./pages/ProfilePage";
 import TransactionsPage from "./pages/TransactionsPage";
 import ExpensesPage from "./pages/ExpensesPage";
 import GoalsPage from "./pages/GoalsPage";
+import BudgetsPage from "./pages/BudgetsPage";
 import ReportsPage from "./pages/ReportsPage";
 import SchedulePage from "./pages/SchedulePage";
 import SettingsPage from "./pages/SettingsPage";
@@ -33,6 +34,7 @@ import ThankYouPage from "./pages/ThankYouPage";
 import AdminDashboard from "./pages/AdminDashboard";
 import AchievementsPage from "./pages/AchievementsPage";
 import CreditCardsPage from "./pages/CreditCardsPage";
+import TrashPage from "./pages/TrashPage";
 import SeedTestUserPage from "./pages/SeedTestUserPage";
 import PrivacyPolicyPage from "./pages/PrivacyPolicyPage";
 import TermsOfServicePage from "./pages/TermsOfServicePage";
@@ -66,6 +68,7 @@ function App() {
                         <Route path="/transactions" element={<TransactionsPage />} />
                         <Route path="/expenses" element={<ExpensesPage />} />
                         <Route path="/goals" element={<GoalsPage />} />
+                        <Route path="/budgets" element={<BudgetsPage />} />
                         <Route path="/reports" element={<ReportsPage />} />
                         <Route path="/schedule" element={<SchedulePage />} />
                         <Route path="/settings" element={<SettingsPage />} />
@@ -78,6 +81,7 @@ function App() {
                         
                         <Route path="/accounts" element={<AccountsPage />} />
                         <Route path="/credit-cards" element={<CreditCardsPage />} />
+                        <Route path="/trash" element={<TrashPage />} />
                         <Route path="/seed-test-user" element={<SeedTestUserPage />} />
                         
                         {/* Legal Pages */}
@@ -52,6 +52,7 @@ const AccountCard: React.FC<AccountCardProps> = ({ account, onDelete }) => {
             <h3 className="font-semibold text-base truncate">{account.name}</h3>
             <div className="flex items-center gap-2 mt-1">
               <Badge variant="outline">{meta.label}</Badge>
+              {account.currency && <Badge variant="outline">{account.currency}</Badge>}
               {account.is_default && (
                 <Badge variant="secondary" className="gap-1">
                   <Star className="h-3 w-3 fill-current" /> Padrão
@@ -9,6 +9,8 @@ import { Switch } from '@/components/ui/switch';
 import { useAccounts } from '@/hooks/useAccounts';
 import { useToast } from '@/hooks/use-toast';
 import { bankService, Bank } from '@/services/bankService';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { CURRENCIES } from '@/utils/transactionUtils';
 
 interface AccountCreateDialogProps {
   open: boolean;
@@ -21,12 +23,14 @@ interface FormValues {
   account_number?: string;
   agency?: string;
   type: 'checking' | 'savings' | 'cash' | 'credit_card' | string;
+  currency: string;
   is_default: boolean;
 }
 
 const AccountCreateDialog: React.FC<AccountCreateDialogProps> = ({ open, onOpenChange }) => {
   const { createAccount, isCreating } = useAccounts();
   const { toast } = useToast();
+  const { currency } = usePreferences();
   const [banks, setBanks] = useState<Bank[]>([]);
 
   const form = useForm<FormValues>({
@@ -36,6 +40,7 @@ const AccountCreateDialog: React.FC<AccountCreateDialogProps> = ({ open, onOpenC
       account_number: '',
       agency: '',
       type: 'checking',
+      currency,
       is_default: false,
     },
   });
@@ -63,6 +68,7 @@ const AccountCreateDialog: React.FC<AccountCreateDialogProps> = ({ open, onOpenC
         account_number: values.account_number?.trim() || undefined,
         agency: values.agency?.trim() || undefined,
         type: values.type,
+        currency: values.currency,
         is_default: values.is_default,
       });
       toast({ title: 'Conta criada', description: 'Sua conta foi adicionada com sucesso.' });
@@ -123,6 +129,19 @@ const AccountCreateDialog: React.FC<AccountCreateDialogProps> = ({ open, onOpenC
               </SelectContent>
             </Select>
           </div>
+          <div className="space-y-2">
+            <Label>Moeda</Label>
+            <Select value={form.watch('currency')} onValueChange={(v) => form.setValue('currency', v)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione a moeda" />
+              </SelectTrigger>
+              <SelectContent className="z-[60] bg-popover">
+                {CURRENCIES.map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div className="flex items-center justify-between rounded-md border p-3">
             <div>
               <Label className="!m-0">Conta Padrão</Label>
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,10 +6,15 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { useForm } from 'react-hook-form';
-import { Account } from '@/types/accounts';
-import { useAccounts } from '@/hooks/useAccounts';
+import { Account, AccountCheckpoint } from '@/types/accounts';
+import { useQuery } from '@tanstack/react-query';
+import { useAccounts, useAccountBalances } from '@/hooks/useAccounts';
+import { TRANSACTIONS_QUERY_KEY } from '@/hooks/usePaginatedTransactions';
 import { useToast } from '@/hooks/use-toast';
 import { bankService, Bank } from '@/services/bankService';
+import { hasAccountTransactions } from '@/services/accountService';
+import { CURRENCIES, formatCurrency, formatDate } from '@/utils/transactionUtils';
+import { Trash2 } from 'lucide-react';
 
 interface AccountEditDialogProps {
   open: boolean;
@@ -23,13 +28,43 @@ interface FormValues {
   account_number?: string;
   agency?: string;
   type: 'checking' | 'savings' | 'cash' | 'credit_card' | string;
+  currency: string;
   is_default: boolean;
+  opening_balance: string;
+  opening_balance_date?: string;
 }
 
+const todayKey = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
 const AccountEditDialog: React.FC<AccountEditDialogProps> = ({ open, onOpenChange, account }) => {
-  const { updateAccount, setDefaultAccount, isUpdating } = useAccounts() as any;
+  const { updateAccount, setDefaultAccount, isUpdating, checkpoints, createCheckpoint, deleteCheckpoint, isSavingCheckpoint } = useAccounts();
   const { toast } = useToast();
   const [banks, setBanks] = useState<Bank[]>([]);
+  const [bankBalance, setBankBalance] = useState('');
+  const [reconcileDate, setReconcileDate] = useState(todayKey());
+
+  const accountCheckpoints = useMemo(
+    () => ((checkpoints || []) as AccountCheckpoint[]).filter(c => c.account_id === account.id),
+    [checkpoints, account.id]
+  );
+
+  // Saldo calculado no fim do dia escolhido, sem considerar conciliações feitas nesse mesmo dia
+  const [year, month, day] = reconcileDate.split('-').map(Number);
+  const isValidReconcileDate = !!year && !!month && !!day;
+  const { balances } = useAccountBalances(isValidReconcileDate ? new Date(year, month - 1, day) : new Date(), true);
+  const calculatedBalance = isValidReconcileDate ? balances.byAccount[account.id] || 0 : 0;
+
+  // Os valores das transações estão na moeda da conta; ela só muda enquanto a conta não tem transações
+  const { data: hasTransactions = false } = useQuery({
+    queryKey: [...TRANSACTIONS_QUERY_KEY, 'account-has-transactions', account.id],
+    queryFn: () => hasAccountTransactions(account.id),
+    enabled: open
+  });
+
+  const difference = bankBalance !== '' ? Number(bankBalance) - calculatedBalance : null;
 
   const form = useForm<FormValues>({
     defaultValues: {
@@ -38,7 +73,10 @@ const AccountEditDialog: React.FC<AccountEditDialogProps> = ({ open, onOpenChang
       account_number: account.account_number || '',
       agency: account.agency || '',
       type: (account.type as any) || 'checking',
+      currency: account.currency || 'BRL',
       is_default: !!account.is_default,
+      opening_balance: String(account.opening_balance ?? 0),
+      opening_balance_date: account.opening_balance_date || '',
     },
     values: {
       name: account.name,
@@ -46,7 +84,10 @@ const AccountEditDialog: React.FC<AccountEditDialogProps> = ({ open, onOpenChang
       account_number: account.account_number || '',
       agency: account.agency || '',
       type: (account.type as any) || 'checking',
+      currency: account.currency || 'BRL',
       is_default: !!account.is_default,
+      opening_balance: String(account.opening_balance ?? 0),
+      opening_balance_date: account.opening_balance_date || '',
     }
   });
 
@@ -73,7 +114,10 @@ const AccountEditDialog: React.FC<AccountEditDialogProps> = ({ open, onOpenChang
         account_number: values.account_number?.trim() || null,
         agency: values.agency?.trim() || null,
         type: values.type,
+        currency: values.currency,
         is_default: values.is_default,
+        opening_balance: Number(values.opening_balance) || 0,
+        opening_balance_date: values.opening_balance_date || null,
       });
       toast({ title: 'Conta atualizada', description: 'As informações da conta foram salvas.' });
       onOpenChange(false);
@@ -82,13 +126,37 @@ const AccountEditDialog: React.FC<AccountEditDialogProps> = ({ open, onOpenChang
     }
   };
 
+  const handleReconcile = async () => {
+    if (bankBalance === '' || !reconcileDate) return;
+    try {
+      await createCheckpoint({
+        account_id: account.id,
+        balance: Number(bankBalance),
+        checkpoint_date: reconcileDate,
+        notes: difference ? `Diferença conciliada: ${formatCurrency(difference, account.currency)}` : null,
+      });
+      toast({ title: 'Saldo conciliado', description: 'O saldo da conta passa a partir deste ponto.' });
+      setBankBalance('');
+    } catch (e) {
+      toast({ title: 'Erro', description: (e instanceof Error && e.message) || 'Não foi possível salvar a conciliação', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteCheckpoint = async (checkpointId: string) => {
+    try {
+      await deleteCheckpoint(checkpointId);
+    } catch (e) {
+      toast({ title: 'Erro', description: (e instanceof Error && e.message) || 'Não foi possível excluir a conciliação', variant: 'destructive' });
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[520px] p-0 overflow-hidden">
         <DialogHeader className="bg-background p-6 border-b">
           <DialogTitle className="text-xl">Editar Conta</DialogTitle>
         </DialogHeader>
-        <div className="p-6 space-y-4">
+        <div className="p-6 space-y-4 max-h-[calc(85vh-160px)] overflow-y-auto">
           <div className="space-y-2">
             <Label>Nome da Conta</Label>
             <Input {...form.register('name', { required: true })} />
@@ -132,6 +200,22 @@ const AccountEditDialog: React.FC<AccountEditDialogProps> = ({ open, onOpenChang
               </SelectContent>
             </Select>
           </div>
+          <div className="space-y-2">
+            <Label>Moeda</Label>
+            <Select value={form.watch('currency')} onValueChange={(v) => form.setValue('currency', v)} disabled={hasTransactions}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione a moeda" />
+              </SelectTrigger>
+              <SelectContent className="z-[60] bg-popover">
+                {CURRENCIES.map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {hasTransactions && (
+              <p className="text-xs text-muted-foreground">A moeda não pode ser alterada em contas que já têm transações.</p>
+            )}
+          </div>
           <div className="flex items-center justify-between rounded-md border p-3">
             <div>
               <Label className="!m-0">Conta Padrão</Label>
@@ -139,6 +223,64 @@ const AccountEditDialog: React.FC<AccountEditDialogProps> = ({ open, onOpenChang
             </div>
             <Switch checked={form.watch('is_default')} onCheckedChange={(v) => form.setValue('is_default', v)} />
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Saldo Inicial</Label>
+              <Input type="number" step="0.01" placeholder="0,00" {...form.register('opening_balance')} />
+            </div>
+            <div className="space-y-2">
+              <Label>A partir de</Label>
+              <Input type="date" {...form.register('opening_balance_date')} />
+            </div>
+          </div>
+          <div className="space-y-3 rounded-md border p-3">
+            <div>
+              <Label className="!m-0">Conciliar Saldo</Label>
+              <p className="text-xs text-muted-foreground">Informe o saldo que aparece no app do banco. O saldo da conta passa a partir deste ponto.</p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Saldo no Banco</Label>
+                <Input type="number" step="0.01" placeholder="0,00" value={bankBalance} onChange={(e) => setBankBalance(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Data</Label>
+                <Input type="date" value={reconcileDate} onChange={(e) => setReconcileDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Saldo calculado</span>
+                <span>{formatCurrency(calculatedBalance, account.currency)}</span>
+              </div>
+              {difference !== null && (
+                <div className="flex justify-between font-medium">
+                  <span>Diferença a explicar</span>
+                  <span className={Math.abs(difference) < 0.005 ? 'text-green-600' : 'text-red-600'}>
+                    {formatCurrency(difference, account.currency)}
+                  </span>
+                </div>
+              )}
+            </div>
+            <Button type="button" variant="secondary" className="w-full" onClick={handleReconcile} disabled={bankBalance === '' || isSavingCheckpoint}>
+              Salvar Conciliação
+            </Button>
+            {accountCheckpoints.length > 0 && (
+              <div className="space-y-1">
+                {accountCheckpoints.slice(0, 5).map((checkpoint) => (
+                  <div key={checkpoint.id} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">{formatDate(checkpoint.checkpoint_date)}</span>
+                    <div className="flex items-center gap-2">
+                      <span>{formatCurrency(Number(checkpoint.balance), account.currency)}</span>
+                      <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDeleteCheckpoint(checkpoint.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
         <DialogFooter className="p-6 pt-0">
           <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import AmountInput from '@/components/common/AmountInput';
+import CategoryIcon from '@/components/categories/CategoryIcon';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { Budget } from '@/types/budgets';
+import { Category } from '@/types/categories';
+
+interface BudgetFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Expense categories that can receive a budget
+  categories: Category[];
+  initialData: Budget | null;
+  onSave: (budget: Omit<Budget, 'id'>) => Promise<void>;
+}
+
+const BudgetForm: React.FC<BudgetFormProps> = ({ open, onOpenChange, categories, initialData, onSave }) => {
+  const { t } = usePreferences();
+  const [categoryId, setCategoryId] = useState('');
+  const [amount, setAmount] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setCategoryId(initialData?.categoryId || '');
+      setAmount(initialData?.amount || 0);
+    }
+  }, [open, initialData]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({ categoryId, amount });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{initialData ? t('budgets.edit') : t('budgets.add')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t('common.category')}</Label>
+            <Select value={categoryId} onValueChange={setCategoryId} disabled={!!initialData}>
+              <SelectTrigger>
+                <SelectValue placeholder={t('budgets.selectCategory')} />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map(category => (
+                  <SelectItem key={category.id} value={category.id}>
+                    <div className="flex items-center gap-2">
+                      <CategoryIcon icon={category.icon} color={category.color} size={16} />
+                      {category.name}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('budgets.monthlyAmount')}</Label>
+            {/* Remounted when the dialog opens so the input starts from the edited amount */}
+            <AmountInput key={`${open}-${initialData?.id}`} value={initialData?.amount} onChange={setAmount} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !categoryId || !(amount > 0)}>
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BudgetForm;
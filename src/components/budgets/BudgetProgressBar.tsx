@@ -0,0 +1,67 @@
+import React from 'react';
+import CategoryIcon from '@/components/categories/CategoryIcon';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { formatCurrency } from '@/utils/transactionUtils';
+import { BudgetProgress } from '@/types/budgets';
+import { cn } from '@/lib/utils';
+
+interface BudgetProgressBarProps {
+  progress: BudgetProgress;
+  hideValues?: boolean;
+  // Shows the spent / committed / remaining breakdown below the bar
+  detailed?: boolean;
+}
+
+const statusColors = {
+  ok: { bar: 'bg-green-500', committed: 'bg-green-300', text: 'text-green-600' },
+  warning: { bar: 'bg-yellow-500', committed: 'bg-yellow-300', text: 'text-yellow-600' },
+  exceeded: { bar: 'bg-red-500', committed: 'bg-red-300', text: 'text-red-600' },
+};
+
+const BudgetProgressBar: React.FC<BudgetProgressBarProps> = ({ progress, hideValues = false, detailed = false }) => {
+  const { t, currency } = usePreferences();
+  const colors = statusColors[progress.status];
+  const planned = progress.budget.amount;
+  const spentWidth = Math.min((progress.spent / planned) * 100, 100);
+  const committedWidth = Math.min((progress.committed / planned) * 100, 100 - spentWidth);
+  const format = (value: number) => (hideValues ? '******' : formatCurrency(value, currency));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <CategoryIcon icon={progress.categoryIcon} color={progress.categoryColor} size={16} />
+          <span className="font-medium truncate">{progress.category}</span>
+        </div>
+        <div className="text-sm text-right whitespace-nowrap">
+          <span className={cn('font-semibold', colors.text)}>{progress.percentage}%</span>
+          <span className="text-muted-foreground"> · {format(progress.spent + progress.committed)} / {format(planned)}</span>
+        </div>
+      </div>
+
+      <div className="flex w-full h-2 bg-muted rounded-full overflow-hidden">
+        <div className={cn('h-full', colors.bar)} style={{ width: `${spentWidth}%` }} />
+        <div className={cn('h-full', colors.committed)} style={{ width: `${committedWidth}%` }} />
+      </div>
+
+      {detailed && (
+        <div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground">
+          <div>
+            {t('budgets.spent')}: <span className="text-foreground">{format(progress.spent)}</span>
+          </div>
+          <div title={t('budgets.committedHint')}>
+            {t('budgets.committed')}: <span className="text-foreground">{format(progress.committed)}</span>
+          </div>
+          <div className="text-right">
+            {progress.remaining >= 0 ? t('budgets.remaining') : t('budgets.over')}:{' '}
+            <span className={progress.remaining >= 0 ? 'text-foreground' : 'text-red-600'}>
+              {format(Math.abs(progress.remaining))}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetProgressBar;
@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import { subMonths } from 'date-fns';
+import { Copy, Inbox } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import CategoryIcon from '@/components/categories/CategoryIcon';
+import { useAppContext } from '@/contexts/AppContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useToast } from "@/hooks/use-toast";
+import { useEnvelopes } from '@/hooks/useBudgets';
+import { formatCurrency } from '@/utils/transactionUtils';
+import { getEnvelopeMonth } from '@/utils/budgetUtils';
+import { Envelope, EnvelopeBalance } from '@/types/budgets';
+import { cn } from '@/lib/utils';
+
+interface EnvelopesViewProps {
+  currentMonth: Date;
+  hideValues: boolean;
+}
+
+type EnvelopeChanges = Pick<Envelope, 'allocated' | 'leftoverAction' | 'goalId'>;
+
+// Leftover select values: roll over, or "goal:<id>" to sweep into that goal
+const ROLLOVER = 'rollover';
+const GOAL_PREFIX = 'goal:';
+
+interface EnvelopeRowProps {
+  balance: EnvelopeBalance;
+  format: (value: number) => string;
+  onChange: (balance: EnvelopeBalance, changes: EnvelopeChanges) => Promise<void>;
+}
+
+const EnvelopeRow: React.FC<EnvelopeRowProps> = ({ balance, format, onChange }) => {
+  const { t } = usePreferences();
+  const { goals } = useAppContext();
+  const [allocated, setAllocated] = useState(balance.allocated.toString());
+
+  useEffect(() => {
+    setAllocated(balance.allocated.toString());
+  }, [balance.allocated]);
+
+  const leftoverAction = balance.envelope?.leftoverAction || 'rollover';
+  const goalId = balance.envelope?.goalId;
+
+  const handleAllocatedBlur = () => {
+    const amount = parseFloat(allocated.replace(',', '.'));
+    if (isNaN(amount) || amount < 0) {
+      setAllocated(balance.allocated.toString());
+      return;
+    }
+    if (amount !== balance.allocated) {
+      onChange(balance, { allocated: amount, leftoverAction, goalId });
+    }
+  };
+
+  const handleLeftoverChange = (value: string) => {
+    const sweepGoalId = value.startsWith(GOAL_PREFIX) ? value.slice(GOAL_PREFIX.length) : undefined;
+    onChange(balance, {
+      allocated: balance.allocated,
+      leftoverAction: sweepGoalId ? 'sweep' : 'rollover',
+      goalId: sweepGoalId
+    });
+  };
+
+  return (
+    <TableRow>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <CategoryIcon icon={balance.categoryIcon} color={balance.categoryColor} size={16} />
+          <span className="font-medium">{balance.category}</span>
+        </div>
+      </TableCell>
+      <TableCell className="text-right text-muted-foreground">{format(balance.carried)}</TableCell>
+      <TableCell className="text-right">
+        <Input
+          type="number"
+          step="0.01"
+          min="0"
+          value={allocated}
+          onChange={(e) => setAllocated(e.target.value)}
+          onBlur={handleAllocatedBlur}
+          className="h-8 w-28 ml-auto text-right"
+        />
+      </TableCell>
+      <TableCell className="text-right">{format(balance.spent)}</TableCell>
+      <TableCell className={cn('text-right font-semibold', balance.available < 0 ? 'text-red-600' : 'text-green-600')}>
+        {format(balance.available)}
+      </TableCell>
+      <TableCell>
+        <Select
+          value={leftoverAction === 'sweep' && goalId ? `${GOAL_PREFIX}${goalId}` : ROLLOVER}
+          onValueChange={handleLeftoverChange}
+        >
+          <SelectTrigger className="h-8 w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ROLLOVER}>{t('envelopes.rollover')}</SelectItem>
+            {goals.map(goal => (
+              <SelectItem key={goal.id} value={`${GOAL_PREFIX}${goal.id}`}>
+                {t('envelopes.sweepTo')} {goal.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {balance.pendingSweep > 0 && (
+          <p className="text-xs text-muted-foreground mt-1">
+            {format(balance.pendingSweep)} {t('envelopes.pendingSweep')}
+          </p>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+};
+
+const EnvelopesView: React.FC<EnvelopesViewProps> = ({ currentMonth, hideValues }) => {
+  const { t, currency } = usePreferences();
+  const { toast } = useToast();
+  const { getGoals } = useAppContext();
+  const {
+    envelopes,
+    summary,
+    monthKey,
+    isLoading,
+    saveEnvelope,
+    copyEnvelopes,
+    sweepLeftovers,
+    isCopying,
+    isSweeping
+  } = useEnvelopes(currentMonth);
+
+  const format = (value: number) => (hideValues ? '******' : formatCurrency(value, currency));
+  const previousMonthKey = getEnvelopeMonth(subMonths(currentMonth, 1));
+  const previousEnvelopes = envelopes.filter(envelope => envelope.month === previousMonthKey);
+  const hasEnvelopes = summary.balances.some(balance => balance.envelope);
+  const pendingSweeps = summary.balances.filter(balance => balance.envelope && balance.pendingSweep > 0);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t('common.error'),
+      description: (error instanceof Error && error.message) || t('common.somethingWentWrong'),
+      variant: "destructive",
+    });
+  };
+
+  const handleChange = async (balance: EnvelopeBalance, changes: EnvelopeChanges) => {
+    try {
+      await saveEnvelope({ categoryId: balance.categoryId, month: monthKey, ...changes });
+    } catch (error) {
+      console.error('Error saving envelope:', error);
+      showError(error);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      const copied = await copyEnvelopes(previousEnvelopes, monthKey);
+      toast({ title: t('envelopes.copied'), description: `${copied} ${t('envelopes.envelopesCopied')}` });
+    } catch (error) {
+      console.error('Error copying envelopes:', error);
+      showError(error);
+    }
+  };
+
+  const handleSweep = async () => {
+    try {
+      const total = await sweepLeftovers(
+        pendingSweeps.map(balance => ({ envelope: balance.envelope as Envelope, amount: balance.pendingSweep }))
+      );
+      toast({ title: t('envelopes.swept'), description: format(total) });
+      await getGoals();
+    } catch (error) {
+      console.error('Error sweeping envelope leftovers:', error);
+      showError(error);
+    }
+  };
+
+  const readyToAssignColor = summary.readyToAssign < 0
+    ? 'text-red-600'
+    : summary.readyToAssign > 0 ? 'text-yellow-600' : 'text-green-600';
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>{t('envelopes.income')}</CardDescription>
+            <CardTitle className="text-2xl">{format(summary.income)}</CardTitle>
+          </CardHeader>
+          {summary.carried !== 0 && (
+            <CardContent className="pt-0 text-xs text-muted-foreground">
+              {t('envelopes.carried')}: {format(summary.carried)}
+            </CardContent>
+          )}
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>{t('envelopes.allocated')}</CardDescription>
+            <CardTitle className="text-2xl">{format(summary.allocated)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>{t('envelopes.readyToAssign')}</CardDescription>
+            <CardTitle className={cn('text-2xl', readyToAssignColor)}>{format(summary.readyToAssign)}</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 text-xs text-muted-foreground">
+            {summary.readyToAssign < 0 ? t('envelopes.overAssigned') : t('envelopes.readyToAssignHint')}
+          </CardContent>
+        </Card>
+      </div>
+
+      {(!hasEnvelopes && previousEnvelopes.length > 0) || pendingSweeps.length > 0 ? (
+        <div className="flex flex-wrap justify-end gap-2">
+          {!hasEnvelopes && previousEnvelopes.length > 0 && (
+            <Button variant="outline" onClick={handleCopy} disabled={isCopying}>
+              <Copy className="mr-2 h-4 w-4" /> {t('envelopes.copyPrevious')}
+            </Button>
+          )}
+          {pendingSweeps.length > 0 && (
+            <Button onClick={handleSweep} disabled={isSweeping}>
+              <Inbox className="mr-2 h-4 w-4" /> {t('envelopes.closeMonth')}
+            </Button>
+          )}
+        </div>
+      ) : null}
+
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('common.category')}</TableHead>
+                <TableHead className="text-right">{t('envelopes.carried')}</TableHead>
+                <TableHead className="text-right">{t('envelopes.allocated')}</TableHead>
+                <TableHead className="text-right">{t('budgets.spent')}</TableHead>
+                <TableHead className="text-right">{t('budgets.remaining')}</TableHead>
+                <TableHead>{t('envelopes.leftover')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!isLoading && summary.balances.map(balance => (
+                <EnvelopeRow key={balance.categoryId} balance={balance} format={format} onChange={handleChange} />
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default EnvelopesView;
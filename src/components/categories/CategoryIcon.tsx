@@ -23,6 +23,7 @@ import {
   Scissors,
   Shirt,
   Plane,
+  ArrowLeftRight,
   LucideProps
 } from 'lucide-react';
 
@@ -60,7 +61,8 @@ const iconMap: Record<string, LucideIconComponent> = {
   'smartphone': Smartphone,
   'scissors': Scissors,
   'shirt': Shirt,
-  'plane': Plane
+  'plane': Plane,
+  'arrow-left-right': ArrowLeftRight
 };
 
 const CategoryIcon: React.FC<CategoryIconProps> = ({ icon, color, size = 20 }) => {
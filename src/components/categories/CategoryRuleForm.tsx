@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useAppContext } from '@/contexts/AppContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { Category, CategoryRule } from '@/types/categories';
+import { CreditCard } from '@/types/creditCards';
+import { getCategories } from '@/services/categoryService';
+import { creditCardService } from '@/services/creditCardService';
+import { isValidRulePattern } from '@/services/categoryRuleService';
+import { normalizeTags } from '@/services/tagService';
+
+interface CategoryRuleFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Existing rule (edit) or a prefilled suggestion (create)
+  initialData: (Omit<CategoryRule, 'id'> & { id?: string }) | null;
+  onSave: (rule: Omit<CategoryRule, 'id'> & { id?: string }) => Promise<void>;
+}
+
+interface RuleFormValues {
+  name: string;
+  priority: number;
+  isActive: boolean;
+  transactionType: 'income' | 'expense';
+  matchType: 'contains' | 'regex';
+  pattern: string;
+  minAmount: string;
+  maxAmount: string;
+  accountId: string;
+  creditCardId: string;
+  categoryId: string;
+  tags: string;
+  goalId: string;
+}
+
+const NONE = 'none';
+
+const toFormValues = (rule: CategoryRuleFormProps['initialData']): RuleFormValues => ({
+  name: rule?.name || '',
+  priority: rule?.priority ?? 0,
+  isActive: rule?.isActive ?? true,
+  transactionType: rule?.transactionType || 'expense',
+  matchType: rule?.matchType || 'contains',
+  pattern: rule?.pattern || '',
+  minAmount: rule?.minAmount?.toString() || '',
+  maxAmount: rule?.maxAmount?.toString() || '',
+  accountId: rule?.accountId || NONE,
+  creditCardId: rule?.creditCardId || NONE,
+  categoryId: rule?.categoryId || NONE,
+  tags: (rule?.tags || []).join(', '),
+  goalId: rule?.goalId || NONE
+});
+
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value.replace(',', '.'));
+  return isNaN(amount) ? undefined : amount;
+};
+
+const fromSelect = (value: string) => (value === NONE ? undefined : value);
+
+const CategoryRuleForm: React.FC<CategoryRuleFormProps> = ({ open, onOpenChange, initialData, onSave }) => {
+  const { t } = usePreferences();
+  const { goals } = useAppContext();
+  const { accounts } = useAccounts();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [cards, setCards] = useState<CreditCard[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { register, handleSubmit, setValue, watch, reset, setError, formState: { errors } } = useForm<RuleFormValues>({
+    defaultValues: toFormValues(initialData)
+  });
+
+  useEffect(() => {
+    getCategories().then(setCategories);
+    creditCardService.getAllCards().then(setCards).catch((error) => console.error('Erro ao carregar cartões:', error));
+  }, []);
+
+  // Initialize form when the dialog opens with another rule
+  useEffect(() => {
+    if (open) reset(toFormValues(initialData));
+  }, [open, initialData, reset]);
+
+  const transactionType = watch('transactionType');
+  const matchType = watch('matchType');
+  const visibleCategories = categories.filter(category => category.type === transactionType);
+
+  const onSubmit = async (values: RuleFormValues) => {
+    if (values.matchType === 'regex' && !isValidRulePattern(values.pattern)) {
+      setError('pattern', { message: t('rules.invalidPattern') });
+      return;
+    }
+
+    const tags = normalizeTags(values.tags.split(','));
+    const categoryId = fromSelect(values.categoryId);
+    const goalId = fromSelect(values.goalId);
+    if (!categoryId && !goalId && tags.length === 0) {
+      setError('categoryId', { message: t('rules.nothingToApply') });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        id: initialData?.id,
+        name: values.name,
+        priority: Number(values.priority) || 0,
+        isActive: values.isActive,
+        transactionType: values.transactionType,
+        matchType: values.matchType,
+        pattern: values.pattern,
+        minAmount: parseAmount(values.minAmount),
+        maxAmount: parseAmount(values.maxAmount),
+        accountId: fromSelect(values.accountId),
+        creditCardId: values.transactionType === 'expense' ? fromSelect(values.creditCardId) : undefined,
+        categoryId,
+        tags,
+        goalId
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initialData?.id ? t('rules.edit') : t('rules.add')}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">{t('rules.name')}</Label>
+            <Input
+              id="rule-name"
+              {...register('name', { required: true })}
+              className={errors.name ? "border-destructive" : ""}
+            />
+            {errors.name && (
+              <p className="text-sm text-destructive">{t('validation.required')}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>{t('common.type')}</Label>
+              <Select
+                value={transactionType}
+                onValueChange={(value) => {
+                  setValue('transactionType', value as 'income' | 'expense');
+                  // Categories and cards belong to the previous type
+                  setValue('categoryId', NONE);
+                  setValue('creditCardId', NONE);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="expense">{t('common.expense')}</SelectItem>
+                  <SelectItem value="income">{t('common.income')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-priority">{t('rules.priority')}</Label>
+              <Input id="rule-priority" type="number" {...register('priority', { valueAsNumber: true })} />
+              <p className="text-xs text-muted-foreground">{t('rules.priorityHint')}</p>
+            </div>
+          </div>
+
+          <h4 className="text-sm font-semibold pt-2">{t('rules.when')}</h4>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Select value={matchType} onValueChange={(value) => setValue('matchType', value as 'contains' | 'regex')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="contains">{t('rules.contains')}</SelectItem>
+                  <SelectItem value="regex">{t('rules.regex')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Input
+                {...register('pattern')}
+                placeholder={t('rules.patternPlaceholder')}
+                aria-label={t('rules.pattern')}
+                className={errors.pattern ? "border-destructive" : ""}
+              />
+            </div>
+          </div>
+          {errors.pattern?.message && (
+            <p className="text-sm text-destructive">{errors.pattern.message}</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="rule-min">{t('rules.minAmount')}</Label>
+              <Input id="rule-min" inputMode="decimal" {...register('minAmount')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-max">{t('rules.maxAmount')}</Label>
+              <Input id="rule-max" inputMode="decimal" {...register('maxAmount')} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <Select value={watch('accountId')} onValueChange={(value) => setValue('accountId', value)}>
+              <SelectTrigger aria-label="Conta">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>{t('rules.anyAccount')}</SelectItem>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {transactionType === 'expense' && cards.length > 0 && (
+              <Select value={watch('creditCardId')} onValueChange={(value) => setValue('creditCardId', value)}>
+                <SelectTrigger aria-label="Cartão">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>{t('rules.anyCard')}</SelectItem>
+                  {cards.map(card => (
+                    <SelectItem key={card.id} value={card.id}>{card.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <h4 className="text-sm font-semibold pt-2">{t('rules.then')}</h4>
+
+          <div className="space-y-2">
+            <Label>{t('common.category')}</Label>
+            <Select value={watch('categoryId')} onValueChange={(value) => setValue('categoryId', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-[300px]">
+                <SelectItem value={NONE}>{t('rules.keepCategory')}</SelectItem>
+                {visibleCategories.map(category => (
+                  <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.categoryId?.message && (
+              <p className="text-sm text-destructive">{errors.categoryId.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-tags">{t('transactions.tags')} ({t('common.optional')})</Label>
+            <Input id="rule-tags" {...register('tags')} placeholder={t('rules.tagsPlaceholder')} />
+          </div>
+
+          {goals.length > 0 && (
+            <div className="space-y-2">
+              <Label>{t('goals.title')} ({t('common.optional')})</Label>
+              <Select value={watch('goalId')} onValueChange={(value) => setValue('goalId', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>{t('common.none')}</SelectItem>
+                  {goals.map(goal => (
+                    <SelectItem key={goal.id} value={goal.id}>{goal.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="rule-active"
+              checked={watch('isActive')}
+              onCheckedChange={(checked) => setValue('isActive', checked)}
+            />
+            <Label htmlFor="rule-active">{t('rules.active')}</Label>
+          </div>
+
+          <DialogFooter className="pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {initialData?.id ? t('common.save') : t('common.add')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CategoryRuleForm;
@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Edit, MoreVertical, RefreshCw, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useAppContext } from '@/contexts/AppContext';
+import { useToast } from "@/hooks/use-toast";
+import { Category, CategoryRule } from '@/types/categories';
+import { getCategories } from '@/services/categoryService';
+import {
+  getCategoryRules,
+  saveCategoryRule,
+  deleteCategoryRule,
+  rerunCategoryRules
+} from '@/services/categoryRuleService';
+import CategoryRuleForm from './CategoryRuleForm';
+import CategoryIcon from './CategoryIcon';
+
+interface CategoryRulesSectionProps {
+  // Prefilled rule from the "create rule" action after recategorizing a transaction
+  suggestedRule?: Omit<CategoryRule, 'id'> | null;
+  onSuggestedRuleOpened?: () => void;
+}
+
+type RuleDraft = Omit<CategoryRule, 'id'> & { id?: string };
+
+const CategoryRulesSection: React.FC<CategoryRulesSectionProps> = ({ suggestedRule, onSuggestedRuleOpened }) => {
+  const { t } = usePreferences();
+  const { toast } = useToast();
+  const { getTransactions, getGoals } = useAppContext();
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<RuleDraft | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<CategoryRule | null>(null);
+  const [rerunOpen, setRerunOpen] = useState(false);
+  const [onlyUncategorized, setOnlyUncategorized] = useState(true);
+  const [rerunning, setRerunning] = useState(false);
+
+  const loadRules = async () => {
+    setRules(await getCategoryRules());
+  };
+
+  useEffect(() => {
+    loadRules();
+    getCategories().then(setCategories);
+  }, []);
+
+  useEffect(() => {
+    if (suggestedRule) {
+      setEditingRule(suggestedRule);
+      setFormOpen(true);
+      onSuggestedRuleOpened?.();
+    }
+  }, [suggestedRule, onSuggestedRuleOpened]);
+
+  const handleAddRule = () => {
+    setEditingRule(null);
+    setFormOpen(true);
+  };
+
+  const handleSaveRule = async (rule: RuleDraft) => {
+    try {
+      await saveCategoryRule(rule);
+      toast({ title: t('rules.saved'), description: rule.name });
+      setFormOpen(false);
+      await loadRules();
+    } catch (error) {
+      console.error('Error saving category rule:', error);
+      toast({
+        title: t('common.error'),
+        description: (error instanceof Error && error.message) || t('common.somethingWentWrong'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmDeleteRule = async () => {
+    if (!ruleToDelete) return;
+    const success = await deleteCategoryRule(ruleToDelete.id);
+    if (success) {
+      toast({ title: t('rules.deleted'), description: ruleToDelete.name });
+      await loadRules();
+    } else {
+      toast({
+        title: t('common.error'),
+        description: t('common.somethingWentWrong'),
+        variant: "destructive",
+      });
+    }
+    setRuleToDelete(null);
+  };
+
+  const handleRerun = async () => {
+    setRerunning(true);
+    try {
+      const updated = await rerunCategoryRules({ onlyUncategorized });
+      toast({ title: t('rules.rerun'), description: `${updated} ${t('rules.rerunDone')}` });
+      if (updated > 0) {
+        await Promise.all([getTransactions(), getGoals()]);
+      }
+      setRerunOpen(false);
+    } catch (error) {
+      console.error('Error re-running category rules:', error);
+      toast({
+        title: t('common.error'),
+        description: (error instanceof Error && error.message) || t('common.somethingWentWrong'),
+        variant: "destructive",
+      });
+    } finally {
+      setRerunning(false);
+    }
+  };
+
+  const describeCondition = (rule: CategoryRule) => {
+    const parts: string[] = [];
+    if (rule.pattern) {
+      parts.push(rule.matchType === 'regex' ? `/${rule.pattern}/` : `"${rule.pattern}"`);
+    }
+    if (rule.minAmount !== undefined) parts.push(`≥ ${rule.minAmount}`);
+    if (rule.maxAmount !== undefined) parts.push(`≤ ${rule.maxAmount}`);
+    return parts.join(' · ') || '*';
+  };
+
+  return (
+    <div className="space-y-3 pt-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            {t('rules.title')}
+          </h2>
+          <p className="text-sm text-muted-foreground">{t('rules.description')}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setRerunOpen(true)} disabled={rules.length === 0}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {t('rules.rerun')}
+          </Button>
+          <Button onClick={handleAddRule}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('rules.add')}
+          </Button>
+        </div>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">{t('rules.noData')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {rules.map((rule) => {
+            const category = categories.find(item => item.id === rule.categoryId);
+            return (
+              <li key={rule.id} className="bg-card p-3 rounded-lg flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  {category && <CategoryIcon icon={category.icon} color={category.color} />}
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{rule.name}</span>
+                      {!rule.isActive && <Badge variant="outline">{t('rules.inactive')}</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {rule.priority} · {rule.transactionType === 'income' ? t('common.income') : t('common.expense')} · {describeCondition(rule)}
+                      {category && ` → ${category.name}`}
+                      {rule.tags.map(tag => ` #${tag}`).join('')}
+                    </p>
+                  </div>
+                </div>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm">
+                      <MoreVertical className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => { setEditingRule(rule); setFormOpen(true); }}>
+                      <Edit className="mr-2 h-4 w-4" />
+                      {t('common.edit')}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-destructive" onClick={() => setRuleToDelete(rule)}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      {t('common.delete')}
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <CategoryRuleForm
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        initialData={editingRule}
+        onSave={handleSaveRule}
+      />
+
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('rules.deleteConfirmation')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('rules.deleteWarning')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDeleteRule}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={rerunOpen} onOpenChange={setRerunOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('rules.rerun')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('rules.rerunDescription')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="rules-only-uncategorized"
+              checked={onlyUncategorized}
+              onCheckedChange={(checked) => setOnlyUncategorized(checked === true)}
+            />
+            <Label htmlFor="rules-only-uncategorized" className="text-sm font-normal leading-snug">
+              {t('rules.onlyUncategorized')}
+            </Label>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={rerunning}>{t('common.cancel')}</AlertDialogCancel>
+            <Button onClick={handleRerun} disabled={rerunning}>
+              {rerunning && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+              {t('rules.rerun')}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default CategoryRulesSection;
@@ -7,13 +7,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 
 interface AccountSelectorProps {
   form: UseFormReturn<TransactionFormValues>;
+  name?: 'accountId' | 'destinationAccountId';
+  label?: string;
 }
 
-const AccountSelector: React.FC<AccountSelectorProps> = ({ form }) => {
+const AccountSelector: React.FC<AccountSelectorProps> = ({ form, name = 'accountId', label = 'Conta' }) => {
   const { accounts, isLoading } = useAccounts();
+  const error = form.formState.errors[name];
 
-  // Set default account when available
+  // Set default account when available (destination of a transfer is always chosen by the user)
   useEffect(() => {
+    if (name !== 'accountId') return;
     const current = form.getValues('accountId');
     if (!current && accounts.length > 0) {
       const def = accounts.find(a => a.is_default) || accounts[0];
@@ -23,13 +27,13 @@ const AccountSelector: React.FC<AccountSelectorProps> = ({ form }) => {
 
   return (
     <div className="space-y-2">
-      <Label htmlFor="account">Conta</Label>
+      <Label htmlFor={name}>{label}</Label>
       <Select
-        value={form.watch('accountId') || ''}
-        onValueChange={(val) => form.setValue('accountId', val, { shouldValidate: true })}
+        value={form.watch(name) || ''}
+        onValueChange={(val) => form.setValue(name, val, { shouldValidate: true })}
         disabled={isLoading}
       >
-        <SelectTrigger id="account">
+        <SelectTrigger id={name}>
           <SelectValue placeholder={isLoading ? 'Carregando...' : 'Selecione a conta'} />
         </SelectTrigger>
         <SelectContent className="z-[60] bg-popover">
@@ -40,6 +44,9 @@ const AccountSelector: React.FC<AccountSelectorProps> = ({ form }) => {
           ))}
         </SelectContent>
       </Select>
+      {error?.message && (
+        <p className="text-sm font-medium text-destructive">{String(error.message)}</p>
+      )}
     </div>
   );
 };
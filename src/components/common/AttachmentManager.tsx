@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { Paperclip } from 'lucide-react';
+import { Attachment } from '@/types';
+import { AttachmentOwner, ATTACHMENT_MIME_TYPES, deleteAttachments, uploadAttachment } from '@/services/attachmentService';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import AttachmentPreview from './AttachmentPreview';
+
+interface AttachmentManagerProps {
+  // Registro já salvo: os arquivos são vinculados na hora.
+  // Sem owner (registro novo), os uploads ficam pendentes até o registro ser salvo.
+  owner?: AttachmentOwner;
+  attachments: Attachment[];
+  onChange: (attachments: Attachment[]) => void;
+  // Versão compacta para linhas de lista: miniaturas pequenas e botão só com ícone
+  compact?: boolean;
+}
+
+const AttachmentManager: React.FC<AttachmentManagerProps> = ({ owner, attachments, onChange, compact = false }) => {
+  const { t } = usePreferences();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    try {
+      const uploaded: Attachment[] = [];
+      for (const file of files) {
+        uploaded.push(await uploadAttachment(file, owner));
+      }
+      onChange([...attachments, ...uploaded]);
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      toast({
+        title: t('common.error'),
+        description: (error instanceof Error && error.message) || 'Erro ao enviar o comprovante',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    try {
+      await deleteAttachments([attachment]);
+      onChange(attachments.filter(current => current.id !== attachment.id));
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      toast({
+        title: t('common.error'),
+        description: (error instanceof Error && error.message) || 'Erro ao excluir o comprovante',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className={compact ? 'flex flex-wrap items-center gap-2' : 'space-y-2'}>
+      {!compact && <Label>{t('transactions.attachments')} ({t('common.optional')})</Label>}
+      <AttachmentPreview attachments={attachments} onDelete={handleDelete} size={compact ? 'sm' : 'md'} />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ATTACHMENT_MIME_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      {compact ? (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          title={t('transactions.addAttachment')}
+        >
+          <Paperclip className="h-4 w-4" />
+        </Button>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+        >
+          <Paperclip className="h-4 w-4 mr-1" />
+          {uploading ? t('transactions.uploadingAttachment') : t('transactions.addAttachment')}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentManager;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { ExternalLink, FileText, X } from 'lucide-react';
+import { Attachment } from '@/types';
+import { isImageAttachment } from '@/services/attachmentService';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+
+interface AttachmentPreviewProps {
+  attachments: Attachment[];
+  onDelete?: (attachment: Attachment) => void;
+  size?: 'sm' | 'md';
+}
+
+// Miniaturas dos comprovantes; clicar abre a imagem/PDF em um dialog
+const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ attachments, onDelete, size = 'md' }) => {
+  const { t } = usePreferences();
+  const [selected, setSelected] = useState<Attachment | null>(null);
+  const thumbSize = size === 'sm' ? 'h-10 w-10' : 'h-16 w-16';
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {attachments.map(attachment => (
+          <div key={attachment.id} className="relative group">
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                setSelected(attachment);
+              }}
+              className={cn(thumbSize, 'rounded-md border overflow-hidden bg-muted flex items-center justify-center')}
+              title={attachment.fileName}
+            >
+              {isImageAttachment(attachment) ? (
+                <img src={attachment.url} alt={attachment.fileName} className="h-full w-full object-cover" loading="lazy" />
+              ) : (
+                <FileText className="h-5 w-5 text-muted-foreground" />
+              )}
+            </button>
+            {onDelete && (
+              <button
+                type="button"
+                onClick={() => onDelete(attachment)}
+                className="absolute -top-1.5 -right-1.5 rounded-full bg-destructive text-destructive-foreground p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+                aria-label={`${t('common.delete')} ${attachment.fileName}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle className="truncate pr-6">{selected?.fileName}</DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-3">
+              {isImageAttachment(selected) ? (
+                <img src={selected.url} alt={selected.fileName} className="max-h-[70vh] w-full object-contain rounded-md" />
+              ) : (
+                <iframe src={selected.url} title={selected.fileName} className="h-[70vh] w-full rounded-md border" />
+              )}
+              <a
+                href={selected.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+              >
+                <ExternalLink className="h-4 w-4" />
+                {t('transactions.openAttachment')}
+              </a>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default AttachmentPreview;
@@ -0,0 +1,517 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileUp, Loader2, Save, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useAppContext } from '@/contexts/AppContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { Category } from '@/types/categories';
+import { getCategories } from '@/services/categoryService';
+import {
+  CSVImportField,
+  CSVImportMapping,
+  deleteImportProfile,
+  getImportProfiles,
+  ImportProfile,
+  saveImportProfile
+} from '@/services/importProfileService';
+import { buildCSVImportRows, CSVImportRow, findMissingCategories, getCSVHeaders, importCSVRows } from '@/services/importService';
+import {
+  CSV_DATE_FORMATS,
+  CSVDelimiter,
+  decodeCSVFile,
+  detectDateFormat,
+  detectDelimiter,
+  detectNumberFormat,
+  parseCSV
+} from '@/utils/csvParser';
+import { formatCurrency } from '@/utils/transactionUtils';
+
+interface CSVImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = 'file' | 'mapping' | 'preview';
+
+const FIELDS: { field: CSVImportField; required?: boolean }[] = [
+  { field: 'date', required: true },
+  { field: 'amount', required: true },
+  { field: 'description' },
+  { field: 'category' },
+  { field: 'account' },
+  { field: 'type' },
+  { field: 'tags' },
+];
+
+// Nomes de coluna reconhecidos automaticamente (inclui o CSV gerado em Relatórios)
+const COLUMN_HINTS: Record<CSVImportField, string[]> = {
+  date: ['data', 'date', 'data da transação', 'data de pagamento'],
+  amount: ['valor', 'amount', 'value', 'quantia'],
+  description: ['descrição', 'descricao', 'description', 'histórico', 'historico'],
+  category: ['categoria', 'category'],
+  account: ['conta', 'account', 'carteira'],
+  type: ['tipo', 'type'],
+  tags: ['tags', 'etiquetas'],
+};
+
+const NONE = '__none__';
+const PREVIEW_LIMIT = 200;
+
+const guessMapping = (content: string, rows: string[][]): CSVImportMapping => {
+  const headers = getCSVHeaders(rows, true);
+  const columns: CSVImportMapping['columns'] = {};
+  (Object.keys(COLUMN_HINTS) as CSVImportField[]).forEach(field => {
+    const match = headers.find(header => COLUMN_HINTS[field].includes(header.trim().toLowerCase()));
+    if (match) columns[field] = match;
+  });
+
+  const samples = (column?: string) => {
+    const index = column ? headers.indexOf(column) : -1;
+    return index >= 0 ? rows.slice(1, 30).map(row => row[index] || '') : [];
+  };
+
+  return {
+    delimiter: detectDelimiter(content),
+    hasHeader: true,
+    dateFormat: detectDateFormat(samples(columns.date)),
+    numberFormat: detectNumberFormat(samples(columns.amount)),
+    columns,
+    negativeIsExpense: true,
+  };
+};
+
+const CSVImportDialog: React.FC<CSVImportDialogProps> = ({ open, onOpenChange }) => {
+  const { t, currency } = usePreferences();
+  const { toast } = useToast();
+  const { formatDate } = useDateFormat();
+  const { getTransactions } = useAppContext();
+  const { accounts } = useAccounts();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [mapping, setMapping] = useState<CSVImportMapping | null>(null);
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [profileId, setProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [previewRows, setPreviewRows] = useState<CSVImportRow[]>([]);
+  const [createMissingCategories, setCreateMissingCategories] = useState(true);
+  const [defaultAccountId, setDefaultAccountId] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    getImportProfiles().then(setProfiles);
+    getCategories().then(setCategories);
+  }, [open]);
+
+  useEffect(() => {
+    if (!defaultAccountId && accounts.length > 0) {
+      setDefaultAccountId((accounts.find(account => account.is_default) || accounts[0]).id);
+    }
+  }, [accounts, defaultAccountId]);
+
+  // Só o separador e o cabeçalho mudam a leitura do arquivo; o resto do mapeamento não
+  const delimiter = mapping?.delimiter;
+  const hasHeader = mapping?.hasHeader ?? true;
+  const rows = useMemo(() => (content && delimiter ? parseCSV(content, delimiter) : []), [content, delimiter]);
+  const headers = useMemo(() => getCSVHeaders(rows, hasHeader), [rows, hasHeader]);
+  const missingCategories = useMemo(() => findMissingCategories(previewRows, categories), [previewRows, categories]);
+
+  const reset = () => {
+    setStep('file');
+    setFileName('');
+    setContent('');
+    setMapping(null);
+    setProfileId('');
+    setProfileName('');
+    setPreviewRows([]);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = decodeCSVFile(await file.arrayBuffer());
+      const profile = profiles.find(item => item.id === profileId);
+      const parsed = parseCSV(text, profile?.mapping.delimiter);
+      if (parsed.length === 0) {
+        toast({ title: t('import.emptyStatement'), variant: 'destructive' });
+        return;
+      }
+
+      setFileName(file.name);
+      setContent(text);
+      setMapping(profile ? profile.mapping : guessMapping(text, parsed));
+      setProfileName(profile?.name || '');
+      setStep('mapping');
+    } catch (error) {
+      console.error('Erro ao ler arquivo CSV:', error);
+      toast({ title: t('common.error'), description: error instanceof Error ? error.message : t('common.somethingWentWrong'), variant: 'destructive' });
+    }
+  };
+
+  const updateMapping = (changes: Partial<CSVImportMapping>) => {
+    setMapping(current => current ? { ...current, ...changes } : current);
+  };
+
+  const setColumn = (field: CSVImportField, column: string) => {
+    if (!mapping) return;
+    updateMapping({ columns: { ...mapping.columns, [field]: column === NONE ? undefined : column } });
+  };
+
+  const handleSaveProfile = async () => {
+    if (!mapping || !profileName.trim()) return;
+
+    setSavingProfile(true);
+    try {
+      const saved = await saveImportProfile(profileName, mapping);
+      setProfiles(current => [...current.filter(profile => profile.id !== saved.id), saved]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setProfileId(saved.id);
+      toast({ title: t('import.profileSaved'), description: saved.name });
+    } catch (error) {
+      console.error('Erro ao salvar perfil de importação:', error);
+      toast({ title: t('common.error'), description: error instanceof Error ? error.message : t('common.somethingWentWrong'), variant: 'destructive' });
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!profileId) return;
+    if (await deleteImportProfile(profileId)) {
+      setProfiles(current => current.filter(profile => profile.id !== profileId));
+      setProfileId('');
+    }
+  };
+
+  const goToPreview = () => {
+    if (!mapping) return;
+    setPreviewRows(buildCSVImportRows(rows, mapping));
+    setStep('preview');
+  };
+
+  const toggleRow = (index: number, selected: boolean) => {
+    setPreviewRows(current => current.map((row, i) => i === index ? { ...row, selected } : row));
+  };
+
+  const selectedCount = previewRows.filter(row => row.selected).length;
+  const errorCount = previewRows.filter(row => row.error).length;
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const { created, categoriesCreated } = await importCSVRows(previewRows, {
+        defaultAccountId: defaultAccountId || undefined,
+        createMissingCategories
+      });
+
+      await getTransactions();
+      toast({
+        title: t('import.success'),
+        description: `${created} ${t('import.importedCount')}` +
+          (categoriesCreated > 0 ? ` • ${categoriesCreated} ${t('import.categoriesCreated')}` : '')
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Erro ao importar CSV:', error);
+      toast({ title: t('common.error'), description: error instanceof Error ? error.message : t('common.somethingWentWrong'), variant: 'destructive' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const canPreview = !!mapping?.columns.date && !!mapping?.columns.amount;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('import.csvTitle')}</DialogTitle>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-4">
+            {profiles.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="csv-profile">{t('import.profile')}</Label>
+                <div className="flex gap-2">
+                  <Select value={profileId || NONE} onValueChange={(value) => setProfileId(value === NONE ? '' : value)}>
+                    <SelectTrigger id="csv-profile">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-[60] bg-popover">
+                      <SelectItem value={NONE}>{t('import.noProfile')}</SelectItem>
+                      {profiles.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {profileId && (
+                    <Button type="button" variant="ghost" size="icon" onClick={handleDeleteProfile}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,text/csv"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="mr-2 h-4 w-4" />
+              {t('import.chooseCsvFile')}
+            </Button>
+          </div>
+        )}
+
+        {step === 'mapping' && mapping && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">{fileName} • {rows.length} {t('import.lines')}</p>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="csv-delimiter">{t('import.delimiter')}</Label>
+                <Select value={mapping.delimiter} onValueChange={(value) => updateMapping({ delimiter: value as CSVDelimiter })}>
+                  <SelectTrigger id="csv-delimiter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[60] bg-popover">
+                    <SelectItem value=";">;</SelectItem>
+                    <SelectItem value=",">,</SelectItem>
+                    <SelectItem value={'\t'}>Tab</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="csv-date-format">{t('import.dateFormat')}</Label>
+                <Select value={mapping.dateFormat} onValueChange={(value) => updateMapping({ dateFormat: value as CSVImportMapping['dateFormat'] })}>
+                  <SelectTrigger id="csv-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[60] bg-popover">
+                    {CSV_DATE_FORMATS.map(format => (
+                      <SelectItem key={format} value={format}>{format}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="csv-number-format">{t('import.numberFormat')}</Label>
+                <Select value={mapping.numberFormat} onValueChange={(value) => updateMapping({ numberFormat: value as CSVImportMapping['numberFormat'] })}>
+                  <SelectTrigger id="csv-number-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[60] bg-popover">
+                    <SelectItem value="br">1.234,56</SelectItem>
+                    <SelectItem value="us">1,234.56</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="csv-has-header"
+                checked={mapping.hasHeader}
+                onCheckedChange={(checked) => updateMapping({ hasHeader: checked, columns: {} })}
+              />
+              <Label htmlFor="csv-has-header">{t('import.hasHeader')}</Label>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              {FIELDS.map(({ field, required }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`csv-column-${field}`}>
+                    {t(`import.fields.${field}`)}{required ? ' *' : ` (${t('common.optional')})`}
+                  </Label>
+                  <Select value={mapping.columns[field] || NONE} onValueChange={(value) => setColumn(field, value)}>
+                    <SelectTrigger id={`csv-column-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-[60] bg-popover max-h-[300px]">
+                      <SelectItem value={NONE}>{t('import.notMapped')}</SelectItem>
+                      {headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {!mapping.columns.type && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="csv-negative-expense"
+                  checked={mapping.negativeIsExpense}
+                  onCheckedChange={(checked) => updateMapping({ negativeIsExpense: checked })}
+                />
+                <Label htmlFor="csv-negative-expense">{t('import.negativeIsExpense')}</Label>
+              </div>
+            )}
+
+            <div className="flex items-end gap-2 border-t pt-4">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="csv-profile-name">{t('import.saveAsProfile')}</Label>
+                <Input
+                  id="csv-profile-name"
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  placeholder="Mobills, Organizze..."
+                />
+              </div>
+              <Button type="button" variant="outline" onClick={handleSaveProfile} disabled={!profileName.trim() || savingProfile}>
+                {savingProfile ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                {t('common.save')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="csv-default-account">{t('import.defaultAccount')}</Label>
+                <Select value={defaultAccountId} onValueChange={setDefaultAccountId}>
+                  <SelectTrigger id="csv-default-account">
+                    <SelectValue placeholder={t('import.selectTarget')} />
+                  </SelectTrigger>
+                  <SelectContent className="z-[60] bg-popover">
+                    {accounts.map(account => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {missingCategories.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 pt-7">
+                    <Switch
+                      id="csv-create-categories"
+                      checked={createMissingCategories}
+                      onCheckedChange={setCreateMissingCategories}
+                    />
+                    <Label htmlFor="csv-create-categories">
+                      {t('import.createMissingCategories')} ({missingCategories.length})
+                    </Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {missingCategories.map(category => category.name).join(', ')}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              {selectedCount}/{previewRows.length} {t('import.selected')}
+              {errorCount > 0 && ` • ${errorCount} ${t('import.withErrors')}`}
+            </p>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10"></TableHead>
+                    <TableHead>{t('common.date')}</TableHead>
+                    <TableHead>{t('common.description')}</TableHead>
+                    <TableHead>{t('common.category')}</TableHead>
+                    <TableHead className="text-right">{t('common.amount')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.slice(0, PREVIEW_LIMIT).map((row, index) => (
+                    <TableRow key={row.line} className={row.selected ? '' : 'opacity-60'}>
+                      <TableCell>
+                        <Checkbox
+                          checked={row.selected}
+                          disabled={!!row.error}
+                          onCheckedChange={(checked) => toggleRow(index, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{row.date ? formatDate(row.date) : '-'}</TableCell>
+                      <TableCell>
+                        {row.description}
+                        {row.error && (
+                          <Badge variant="destructive" className="ml-2">
+                            {t('import.line')} {row.line}: {row.error}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{row.categoryName || '-'}</TableCell>
+                      <TableCell className={`text-right whitespace-nowrap ${row.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                        {row.type === 'income' ? '+' : '-'}{formatCurrency(row.amount, currency)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {previewRows.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                +{previewRows.length - PREVIEW_LIMIT} {t('import.moreLines')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'file' && (
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+          )}
+          {step === 'mapping' && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep('file')}>
+                {t('import.back')}
+              </Button>
+              <Button type="button" onClick={goToPreview} disabled={!canPreview}>
+                {t('import.next')}
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep('mapping')}>
+                {t('import.back')}
+              </Button>
+              <Button type="button" onClick={handleImport} disabled={selectedCount === 0 || importing}>
+                {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('import.importButton')} ({selectedCount})
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CSVImportDialog;
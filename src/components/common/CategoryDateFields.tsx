@@ -8,13 +8,15 @@ import { TransactionFormValues } from '@/schemas/transactionSchema';
 import { usePreferences } from '@/contexts/PreferencesContext';
 import { getCategoriesByType } from '@/services/categoryService';
 import CategoryIcon from '@/components/categories/CategoryIcon';
+import { TransactionType } from '@/types';
 
 interface CategoryDateFieldsProps {
   form: UseFormReturn<TransactionFormValues>;
-  transactionType: 'income' | 'expense';
+  transactionType: TransactionType;
+  hideCategory?: boolean; // category comes from split lines
 }
 
-const CategoryDateFields: React.FC<CategoryDateFieldsProps> = ({ form, transactionType }) => {
+const CategoryDateFields: React.FC<CategoryDateFieldsProps> = ({ form, transactionType, hideCategory = false }) => {
   const { t } = usePreferences();
   
   console.log("CategoryDateFields rendering with transactionType:", transactionType);
@@ -27,6 +29,13 @@ const CategoryDateFields: React.FC<CategoryDateFieldsProps> = ({ form, transacti
   // Load categories from Supabase
   React.useEffect(() => {
     const loadCategories = async () => {
+      // Transfers have no category
+      if (transactionType === 'transfer') {
+        setCategories([]);
+        setLoading(false);
+        return;
+      }
+
       setLoading(true);
       try {
         const filteredCategories = await getCategoriesByType(transactionType);
@@ -58,54 +67,56 @@ const CategoryDateFields: React.FC<CategoryDateFieldsProps> = ({ form, transacti
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-      <FormField
-        control={form.control}
-        name="category"
-        render={({ field }) => (
-          <FormItem key={`category-${key}-${transactionType}`}>
-            <FormLabel>{t('transactions.category')}</FormLabel>
-            <Select 
-              onValueChange={(value) => {
-                console.log("Category selected:", value);
-                field.onChange(value);
-              }} 
-              value={field.value}
-              defaultValue={field.value}
-              disabled={loading}
-            >
-              <FormControl>
-                <SelectTrigger className="w-full">
-                  <SelectValue placeholder={loading ? "Carregando..." : t('transactions.selectCategory')} />
-                </SelectTrigger>
-              </FormControl>
-              <SelectContent 
-                position="popper" 
-                className="w-full max-h-[300px] overflow-y-auto" 
-                sideOffset={5}
-                align="center"
-                avoidCollisions={false}
+      {transactionType !== 'transfer' && !hideCategory && (
+        <FormField
+          control={form.control}
+          name="category"
+          render={({ field }) => (
+            <FormItem key={`category-${key}-${transactionType}`}>
+              <FormLabel>{t('transactions.category')}</FormLabel>
+              <Select 
+                onValueChange={(value) => {
+                  console.log("Category selected:", value);
+                  field.onChange(value);
+                }} 
+                value={field.value}
+                defaultValue={field.value}
+                disabled={loading}
               >
-                {categories.map((category) => {
-                  const categoryId = category.id;
-                  return (
-                    <SelectItem 
-                      key={categoryId} 
-                      value={categoryId} 
-                      className="flex items-center gap-2"
-                    >
-                      <div className="flex items-center gap-2">
-                        <CategoryIcon icon={category.icon} color={category.color} size={16} />
-                        <span>{category.name}</span>
-                      </div>
-                    </SelectItem>
-                  );
-                })}
-              </SelectContent>
-            </Select>
-            <FormMessage />
-          </FormItem>
-        )}
-      />
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder={loading ? "Carregando..." : t('transactions.selectCategory')} />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent 
+                  position="popper" 
+                  className="w-full max-h-[300px] overflow-y-auto" 
+                  sideOffset={5}
+                  align="center"
+                  avoidCollisions={false}
+                >
+                  {categories.map((category) => {
+                    const categoryId = category.id;
+                    return (
+                      <SelectItem 
+                        key={categoryId} 
+                        value={categoryId} 
+                        className="flex items-center gap-2"
+                      >
+                        <div className="flex items-center gap-2">
+                          <CategoryIcon icon={category.icon} color={category.color} size={16} />
+                          <span>{category.name}</span>
+                        </div>
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
 
       <FormField
         control={form.control}
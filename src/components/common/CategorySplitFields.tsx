@@ -0,0 +1,125 @@
+import React from 'react';
+import { useFieldArray, UseFormReturn } from 'react-hook-form';
+import { Plus, Trash2 } from 'lucide-react';
+import { TransactionFormValues } from '@/schemas/transactionSchema';
+import { Category } from '@/types/categories';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { getCategoriesByType } from '@/services/categoryService';
+import { formatCurrency } from '@/utils/transactionUtils';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import CategoryIcon from '@/components/categories/CategoryIcon';
+import AmountInput from './AmountInput';
+
+interface CategorySplitFieldsProps {
+  form: UseFormReturn<TransactionFormValues>;
+  transactionType: 'income' | 'expense';
+}
+
+const CategorySplitFields: React.FC<CategorySplitFieldsProps> = ({ form, transactionType }) => {
+  const { t, currency } = usePreferences();
+  const [categories, setCategories] = React.useState<Category[]>([]);
+  const { fields, append, remove, replace } = useFieldArray({ control: form.control, name: 'splits' });
+
+  React.useEffect(() => {
+    getCategoriesByType(transactionType)
+      .then(setCategories)
+      .catch((error) => console.error("Error loading categories for split:", error));
+  }, [transactionType]);
+
+  const splits = form.watch('splits') || [];
+  const amount = Number(form.watch('amount')) || 0;
+  const splitTotal = splits.reduce((sum, split) => sum + (Number(split.amount) || 0), 0);
+  const remaining = Math.round((amount - splitTotal) * 100) / 100;
+  const splitError = form.formState.errors.splits;
+
+  // Ao ativar, a categoria atual fica com o valor total e uma segunda linha vazia é criada
+  const handleToggle = (enabled: boolean) => {
+    if (enabled) {
+      replace([
+        { category: form.getValues('category') || '', amount },
+        { category: '', amount: 0 },
+      ]);
+    } else {
+      const firstCategory = splits[0]?.category;
+      replace([]);
+      if (firstCategory) {
+        form.setValue('category', firstCategory);
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="split-toggle">{t('transactions.splitCategories')}</Label>
+        <Switch id="split-toggle" checked={fields.length > 0} onCheckedChange={handleToggle} />
+      </div>
+
+      {fields.length > 0 && (
+        <div className="space-y-2 rounded-md border p-3">
+          {fields.map((field, index) => (
+            <div key={field.id} className="flex items-center gap-2">
+              <Select
+                value={splits[index]?.category || ''}
+                onValueChange={(value) => form.setValue(`splits.${index}.category`, value, { shouldValidate: true })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder={t('transactions.selectCategory')} />
+                </SelectTrigger>
+                <SelectContent className="z-[60] bg-popover max-h-[300px]">
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      <div className="flex items-center gap-2">
+                        <CategoryIcon icon={category.icon} color={category.color} size={16} />
+                        <span>{category.name}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <AmountInput
+                className="w-32"
+                value={field.amount}
+                onChange={(value) => form.setValue(`splits.${index}.amount`, value, { shouldValidate: true })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 shrink-0"
+                onClick={() => remove(index)}
+                disabled={fields.length <= 2}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append({ category: '', amount: remaining > 0 ? remaining : 0 })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              {t('transactions.addSplitLine')}
+            </Button>
+            <span className={`text-sm ${remaining === 0 ? 'text-muted-foreground' : 'text-red-600'}`}>
+              {t('transactions.splitRemaining')}: {formatCurrency(remaining, currency)}
+            </span>
+          </div>
+
+          {splitError?.message && (
+            <p className="text-sm font-medium text-destructive">{String(splitError.message)}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategorySplitFields;
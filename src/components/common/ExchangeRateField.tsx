@@ -0,0 +1,82 @@
+import React, { useEffect, useRef } from 'react';
+import { UseFormReturn } from 'react-hook-form';
+import { Input } from '@/components/ui/input';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { TransactionFormValues } from '@/schemas/transactionSchema';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { formatCurrency } from '@/utils/transactionUtils';
+
+interface ExchangeRateFieldProps {
+  form: UseFormReturn<TransactionFormValues>;
+}
+
+// The transaction currency follows the selected account; in another currency than the base
+// one, the rate is filled in from the stored rates for the date and can be adjusted
+const ExchangeRateField: React.FC<ExchangeRateFieldProps> = ({ form }) => {
+  const { t, currency: baseCurrency } = usePreferences();
+  const { accounts } = useAccounts();
+  const { findRate, isLoading } = useExchangeRates();
+  const lastRateKey = useRef<string>();
+
+  const accountId = form.watch('accountId');
+  const currency = form.watch('currency') || baseCurrency;
+  const date = form.watch('date');
+  const amount = Number(form.watch('amount')) || 0;
+  const exchangeRate = Number(form.watch('exchangeRate')) || 0;
+
+  useEffect(() => {
+    const account = accounts.find(item => item.id === accountId);
+    if (account) {
+      form.setValue('currency', account.currency || baseCurrency);
+    }
+  }, [form, accountId, accounts, baseCurrency]);
+
+  // Fill in the stored rate when the currency or the date changes (a rate loaded with the
+  // transaction being edited is kept)
+  useEffect(() => {
+    if (isLoading || currency === baseCurrency) return;
+    const key = `${currency}|${date}`;
+    const changed = lastRateKey.current !== undefined && lastRateKey.current !== key;
+    lastRateKey.current = key;
+    if (!changed && form.getValues('exchangeRate')) return;
+
+    const rate = findRate(currency, baseCurrency, date);
+    form.setValue('exchangeRate', rate ? Number(rate.toFixed(6)) : undefined, { shouldValidate: !!rate });
+  }, [form, findRate, currency, date, baseCurrency, isLoading]);
+
+  if (currency === baseCurrency) return null;
+
+  return (
+    <FormField
+      control={form.control}
+      name="exchangeRate"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>
+            {t('currency.exchangeRate')} (1 {currency} = ? {baseCurrency})
+          </FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              step="any"
+              min="0"
+              placeholder="0,00"
+              value={field.value ?? ''}
+              onChange={(e) => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+            />
+          </FormControl>
+          {exchangeRate > 0 && amount > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {formatCurrency(amount, currency)} ≈ {formatCurrency(amount * exchangeRate, baseCurrency)}
+            </p>
+          )}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+};
+
+export default ExchangeRateField;
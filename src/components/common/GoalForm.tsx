@@ -117,7 +117,9 @@ const GoalForm: React.FC<GoalFormProps> = ({
 
   // Get currency symbol with space
   const getCurrencySymbol = () => {
-    return currency === 'USD' ? '$ ' : 'R$ ';
+    if (currency === 'USD') return '$ ';
+    if (currency === 'EUR') return '€ ';
+    return 'R$ ';
   };
 
   return (
@@ -1,14 +1,35 @@
 
 import React from 'react';
 import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { usePreferences, Currency, Language } from '@/contexts/PreferencesContext';
+import { usePreferences, Language } from '@/contexts/PreferencesContext';
+import { Currency } from '@/types';
+import { useAppContext } from '@/contexts/AppContext';
+import { useToast } from '@/hooks/use-toast';
+import { rebaseTransactions } from '@/services/exchangeRateService';
 import { Flag, Globe } from 'lucide-react';
 
 const LanguageCurrencySelector = () => {
   const { currency, setCurrency, language, setLanguage, t } = usePreferences();
+  const { getTransactions } = useAppContext();
+  const { toast } = useToast();
 
-  const handleCurrencyChange = (value: string) => {
+  // The base currency changed: record on each transaction the rate to the new one
+  const handleCurrencyChange = async (value: string) => {
     setCurrency(value as Currency);
+    try {
+      const { missing } = await rebaseTransactions(value);
+      await getTransactions();
+      if (missing > 0) {
+        toast({
+          title: t('currency.missingRatesTitle'),
+          description: `${missing} ${t('currency.missingRatesDescription')} ${value}.`,
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Error converting transactions to the new base currency:', error);
+      toast({ title: t('common.error'), description: t('currency.rebaseError'), variant: 'destructive' });
+    }
   };
   
   const handleLanguageChange = (value: string) => {
@@ -39,6 +60,7 @@ const LanguageCurrencySelector = () => {
         <label htmlFor="currency-select" className="text-sm font-medium">
           {t('settings.currency')}
         </label>
+        <p className="text-xs text-muted-foreground">{t('currency.baseCurrencyHint')}</p>
         <Select value={currency} onValueChange={handleCurrencyChange}>
           <SelectTrigger id="currency-select" className="w-[200px]">
             <Flag className="mr-2 h-4 w-4" />
@@ -48,6 +70,7 @@ const LanguageCurrencySelector = () => {
             <SelectGroup>
               <SelectItem value="USD">USD ($)</SelectItem>
               <SelectItem value="BRL">BRL (R$)</SelectItem>
+              <SelectItem value="EUR">EUR (€)</SelectItem>
             </SelectGroup>
           </SelectContent>
         </Select>
@@ -0,0 +1,45 @@
+import React, { useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { usePreferences } from '@/contexts/PreferencesContext';
+
+interface LoadMoreSentinelProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+// Placed at the end of a list: calls onLoadMore when it scrolls into view (infinite scroll).
+// The button is a fallback for when the observer does not fire (e.g. very tall screens).
+const LoadMoreSentinel: React.FC<LoadMoreSentinelProps> = ({ hasMore, isLoading, onLoadMore }) => {
+  const { t } = usePreferences();
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = ref.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) onLoadMore();
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore && !isLoading) return null;
+
+  return (
+    <div ref={ref} className="flex justify-center py-4">
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      ) : (
+        <Button variant="ghost" size="sm" onClick={onLoadMore}>
+          {t('transactions.loadMore')}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default LoadMoreSentinel;
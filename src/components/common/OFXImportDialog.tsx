@@ -0,0 +1,330 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileUp, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useAppContext } from '@/contexts/AppContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { Category } from '@/types/categories';
+import { CreditCard } from '@/types/creditCards';
+import { creditCardService } from '@/services/creditCardService';
+import { getCategoriesByType } from '@/services/categoryService';
+import {
+  buildBankImportPreview,
+  buildCardImportPreview,
+  ImportCandidate,
+  importBankStatement,
+  importCardStatement
+} from '@/services/importService';
+import { decodeOFXFile, OFXStatement, parseOFX } from '@/utils/ofxParser';
+import { formatCurrency } from '@/utils/transactionUtils';
+
+interface OFXImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const OFXImportDialog: React.FC<OFXImportDialogProps> = ({ open, onOpenChange }) => {
+  const { t, currency } = usePreferences();
+  const { toast } = useToast();
+  const { formatDate } = useDateFormat();
+  const { getTransactions } = useAppContext();
+  const { accounts } = useAccounts();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState('');
+  const [statement, setStatement] = useState<OFXStatement | null>(null);
+  const [targetId, setTargetId] = useState('');
+  const [cards, setCards] = useState<CreditCard[]>([]);
+  const [incomeCategories, setIncomeCategories] = useState<Category[]>([]);
+  const [expenseCategories, setExpenseCategories] = useState<Category[]>([]);
+  const [incomeCategoryId, setIncomeCategoryId] = useState('');
+  const [expenseCategoryId, setExpenseCategoryId] = useState('');
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const isCardStatement = statement?.kind === 'creditcard';
+
+  useEffect(() => {
+    if (!open) return;
+    creditCardService.getAllCards().then(setCards).catch((error) => console.error('Erro ao carregar cartões:', error));
+    getCategoriesByType('income').then(setIncomeCategories).catch((error) => console.error('Erro ao carregar categorias:', error));
+    getCategoriesByType('expense').then(setExpenseCategories).catch((error) => console.error('Erro ao carregar categorias:', error));
+  }, [open]);
+
+  // Recalcula a prévia (e as duplicatas) sempre que o destino muda
+  useEffect(() => {
+    if (!statement || !targetId) {
+      setCandidates([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingPreview(true);
+    const buildPreview = isCardStatement ? buildCardImportPreview : buildBankImportPreview;
+
+    buildPreview(statement, targetId)
+      .then((rows) => !cancelled && setCandidates(rows))
+      .catch((error) => {
+        console.error('Erro ao montar prévia da importação:', error);
+        toast({ title: t('common.error'), description: error.message, variant: 'destructive' });
+      })
+      .finally(() => !cancelled && setLoadingPreview(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [statement, targetId, isCardStatement, toast, t]);
+
+  const reset = () => {
+    setFileName('');
+    setStatement(null);
+    setTargetId('');
+    setCandidates([]);
+    setIncomeCategoryId('');
+    setExpenseCategoryId('');
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseOFX(decodeOFXFile(await file.arrayBuffer()));
+      setFileName(file.name);
+      setStatement(parsed);
+      setTargetId('');
+      if (parsed.transactions.length === 0) {
+        toast({ title: t('import.emptyStatement'), variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Erro ao ler arquivo OFX:', error);
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('common.somethingWentWrong'),
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const toggleCandidate = (index: number, selected: boolean) => {
+    setCandidates(current => current.map((candidate, i) => i === index ? { ...candidate, selected } : candidate));
+  };
+
+  const selectable = candidates.filter(candidate => !candidate.skipReason);
+  const selectedCount = candidates.filter(candidate => candidate.selected).length;
+  const duplicateCount = candidates.filter(candidate => candidate.duplicate).length;
+
+  const toggleAll = (selected: boolean) => {
+    setCandidates(current => current.map(candidate => candidate.skipReason ? candidate : { ...candidate, selected }));
+  };
+
+  const handleImport = async () => {
+    if (!targetId || selectedCount === 0) return;
+
+    setImporting(true);
+    try {
+      const created = isCardStatement
+        ? await importCardStatement(candidates, targetId, expenseCategoryId || undefined)
+        : await importBankStatement(candidates, targetId, {
+            incomeCategoryId: incomeCategoryId || undefined,
+            expenseCategoryId: expenseCategoryId || undefined
+          });
+
+      await getTransactions();
+      toast({
+        title: t('import.success'),
+        description: `${created} ${t('import.importedCount')}`
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Erro ao importar extrato:', error);
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('common.somethingWentWrong'),
+        variant: 'destructive'
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const targets = useMemo(() => (
+    isCardStatement
+      ? cards.filter(card => card.is_active).map(card => ({
+          id: card.id,
+          label: `${card.name}${card.last_four_digits ? ` •••• ${card.last_four_digits}` : ''}`
+        }))
+      : accounts.map(account => ({ id: account.id, label: account.name }))
+  ), [isCardStatement, cards, accounts]);
+
+  const renderCategorySelect = (
+    id: string,
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    categories: Category[]
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value || 'default'} onValueChange={(v) => onChange(v === 'default' ? '' : v)}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="z-[60] bg-popover max-h-[300px]">
+          <SelectItem value="default">{t('import.defaultCategory')}</SelectItem>
+          {categories.map(category => (
+            <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('import.ofxTitle')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ofx,.qfx"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="mr-2 h-4 w-4" />
+              {t('import.chooseFile')}
+            </Button>
+            {fileName && (
+              <span className="text-sm text-muted-foreground">
+                {fileName} • {isCardStatement ? t('import.cardStatement') : t('import.bankStatement')}
+              </span>
+            )}
+          </div>
+
+          {statement && (
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="import-target">
+                  {isCardStatement ? t('import.targetCard') : t('import.targetAccount')}
+                </Label>
+                <Select value={targetId} onValueChange={setTargetId}>
+                  <SelectTrigger id="import-target">
+                    <SelectValue placeholder={t('import.selectTarget')} />
+                  </SelectTrigger>
+                  <SelectContent className="z-[60] bg-popover">
+                    {targets.map(target => (
+                      <SelectItem key={target.id} value={target.id}>{target.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {!isCardStatement && renderCategorySelect(
+                'import-income-category',
+                t('import.incomeCategory'),
+                incomeCategoryId,
+                setIncomeCategoryId,
+                incomeCategories
+              )}
+              {renderCategorySelect(
+                'import-expense-category',
+                t('import.expenseCategory'),
+                expenseCategoryId,
+                setExpenseCategoryId,
+                expenseCategories
+              )}
+            </div>
+          )}
+
+          {loadingPreview && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!loadingPreview && candidates.length > 0 && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {selectedCount}/{candidates.length} {t('import.selected')}
+                {duplicateCount > 0 && ` • ${duplicateCount} ${t('import.duplicatesFound')}`}
+              </p>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={selectable.length > 0 && selectable.every(candidate => candidate.selected)}
+                          onCheckedChange={(checked) => toggleAll(checked === true)}
+                        />
+                      </TableHead>
+                      <TableHead>{t('common.date')}</TableHead>
+                      <TableHead>{t('common.description')}</TableHead>
+                      <TableHead className="text-right">{t('common.amount')}</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {candidates.map((candidate, index) => (
+                      <TableRow key={`${candidate.fitId}-${index}`} className={candidate.selected ? '' : 'opacity-60'}>
+                        <TableCell>
+                          <Checkbox
+                            checked={candidate.selected}
+                            disabled={!!candidate.skipReason}
+                            onCheckedChange={(checked) => toggleCandidate(index, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDate(candidate.date)}</TableCell>
+                        <TableCell>{candidate.description}</TableCell>
+                        <TableCell className={`text-right whitespace-nowrap ${candidate.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                          {candidate.type === 'income' ? '+' : '-'}{formatCurrency(candidate.amount, currency)}
+                        </TableCell>
+                        <TableCell>
+                          {candidate.skipReason && <Badge variant="outline">{candidate.skipReason}</Badge>}
+                          {candidate.duplicate === 'fitid' && <Badge variant="secondary">{t('import.duplicateFitId')}</Badge>}
+                          {candidate.duplicate === 'similar' && <Badge variant="outline">{t('import.possibleDuplicate')}</Badge>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button type="button" onClick={handleImport} disabled={!targetId || selectedCount === 0 || importing}>
+            {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('import.importButton')} ({selectedCount})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OFXImportDialog;
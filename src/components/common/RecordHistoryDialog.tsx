@@ -0,0 +1,44 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { getRecordHistory } from '@/services/recordHistoryService';
+import { RecordHistoryType } from '@/types';
+import RecordHistoryTimeline from './RecordHistoryTimeline';
+
+interface RecordHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recordType: RecordHistoryType;
+  recordId: string;
+  description?: string;
+}
+
+const RecordHistoryDialog: React.FC<RecordHistoryDialogProps> = ({
+  open,
+  onOpenChange,
+  recordType,
+  recordId,
+  description
+}) => {
+  const { t } = usePreferences();
+  const { data: entries, isLoading } = useQuery({
+    queryKey: ['record-history', recordType, recordId],
+    queryFn: () => getRecordHistory(recordType, recordId),
+    enabled: open
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('history.title')}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        <RecordHistoryTimeline entries={entries || []} isLoading={isLoading} />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordHistoryDialog;
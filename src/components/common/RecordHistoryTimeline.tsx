@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useAppContext } from '@/contexts/AppContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { formatCurrency } from '@/utils/transactionUtils';
+import { getCategories } from '@/services/categoryService';
+import { Category } from '@/types/categories';
+import { RecordFieldChange, RecordHistoryEntry } from '@/types';
+
+interface RecordHistoryTimelineProps {
+  entries: RecordHistoryEntry[];
+  isLoading?: boolean;
+  // Show which record each entry belongs to (timelines with more than one record)
+  showRecordLabel?: boolean;
+}
+
+// Fields shown in the timeline; other columns (bill links, external ids...) are internal
+const AMOUNT_FIELDS = ['amount', 'installment_amount', 'paid_amount', 'current_amount', 'target_amount'];
+const DATE_FIELDS = ['date', 'purchase_date', 'payment_date', 'scheduled_date', 'paid_date', 'deadline', 'start_date', 'end_date'];
+const TEXT_FIELDS = ['description', 'name', 'merchant', 'notes', 'type', 'status', 'recurrence', 'payment_method', 'installments', 'tags'];
+const REFERENCE_FIELDS = ['category_id', 'account_id', 'destination_account_id', 'goal_id'];
+const VISIBLE_FIELDS = [...AMOUNT_FIELDS, ...DATE_FIELDS, ...TEXT_FIELDS, ...REFERENCE_FIELDS];
+
+const RecordHistoryTimeline: React.FC<RecordHistoryTimelineProps> = ({ entries, isLoading, showRecordLabel }) => {
+  const { t, currency } = usePreferences();
+  const { goals } = useAppContext();
+  const { accounts } = useAccounts();
+  const { formatDate } = useDateFormat();
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    getCategories().then(setCategories);
+  }, []);
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (AMOUNT_FIELDS.includes(field)) return formatCurrency(Number(value), currency);
+    if (DATE_FIELDS.includes(field)) return formatDate(String(value));
+    if (field === 'tags') return (value as string[]).map(tag => `#${tag}`).join(' ') || '—';
+    if (field === 'category_id') return categories.find(item => item.id === value)?.name || '—';
+    if (field === 'goal_id') return goals.find(item => item.id === value)?.name || '—';
+    if (field === 'account_id' || field === 'destination_account_id') {
+      return accounts.find(item => item.id === value)?.name || '—';
+    }
+    if (field === 'type') return t(`common.${value}`);
+    return String(value);
+  };
+
+  const visibleChanges = (entry: RecordHistoryEntry): RecordFieldChange[] =>
+    entry.changes.filter(change => VISIBLE_FIELDS.includes(change.field));
+
+  // Updates that only touched internal columns are left out
+  const visibleEntries = entries.filter(entry => entry.action !== 'UPDATE' || visibleChanges(entry).length > 0);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (visibleEntries.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4 text-center">{t('history.noData')}</p>;
+  }
+
+  return (
+    <ol className="border-l border-border ml-2 space-y-4">
+      {visibleEntries.map(entry => (
+        <li key={entry.id} className="relative ml-4">
+          <span className="absolute -left-[1.3rem] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">{t(`history.actions.${entry.action}`)}</span>
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+              {t(`history.sources.${entry.source}`)}
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {formatDate(entry.changedAt, 'dd/MM/yyyy HH:mm')}
+            {showRecordLabel && ` · ${t(`history.records.${entry.recordType}`)}${entry.label ? `: ${entry.label}` : ''}`}
+          </p>
+          {visibleChanges(entry).length > 0 && (
+            <ul className="mt-1 space-y-0.5 text-xs">
+              {visibleChanges(entry).map(change => (
+                <li key={change.field}>
+                  <span className="text-muted-foreground">{t(`history.fields.${change.field}`)}: </span>
+                  {entry.action === 'UPDATE' && (
+                    <>
+                      <span className="line-through text-muted-foreground">{formatValue(change.field, change.before)}</span>
+                      {' → '}
+                    </>
+                  )}
+                  <span className="font-medium">{formatValue(change.field, change.after)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default RecordHistoryTimeline;
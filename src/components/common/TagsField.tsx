@@ -0,0 +1,100 @@
+import React from 'react';
+import { UseFormReturn } from 'react-hook-form';
+import { X } from 'lucide-react';
+import { TransactionFormValues } from '@/schemas/transactionSchema';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { getUserTags, normalizeTag, TagUsage } from '@/services/tagService';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface TagsFieldProps {
+  form: UseFormReturn<TransactionFormValues>;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const TagsField: React.FC<TagsFieldProps> = ({ form }) => {
+  const { t } = usePreferences();
+  const [input, setInput] = React.useState('');
+  const [knownTags, setKnownTags] = React.useState<TagUsage[]>([]);
+
+  React.useEffect(() => {
+    getUserTags().then(setKnownTags);
+  }, []);
+
+  const tags = form.watch('tags') || [];
+  const query = normalizeTag(input);
+
+  // Tags já usadas que ainda não estão na transação, filtradas pelo que foi digitado
+  const suggestions = knownTags
+    .filter(({ tag }) => !tags.includes(tag) && (!query || tag.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) {
+      form.setValue('tags', [...tags, tag], { shouldDirty: true });
+    }
+    setInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    form.setValue('tags', tags.filter(current => current !== tag), { shouldDirty: true });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="tags">{t('transactions.tags')} ({t('common.optional')})</Label>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              #{tag}
+              <button type="button" onClick={() => removeTag(tag)} aria-label={`Remover ${tag}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id="tags"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => input && addTag(input)}
+        placeholder={t('transactions.tagsPlaceholder')}
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {suggestions.map(({ tag }) => (
+            <Badge
+              key={tag}
+              variant="outline"
+              className="cursor-pointer hover:bg-accent"
+              // onMouseDown para adicionar antes do blur do input
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag);
+              }}
+            >
+              #{tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagsField;
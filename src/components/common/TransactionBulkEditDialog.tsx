@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useAppContext } from '@/contexts/AppContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { Category } from '@/types/categories';
+import { CreditCard } from '@/types/creditCards';
+import { getCategories } from '@/services/categoryService';
+import { creditCardService } from '@/services/creditCardService';
+import { TransactionBulkChanges } from '@/services/transactionService';
+
+interface TransactionBulkEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectedCount: number;
+  onApply: (changes: TransactionBulkChanges) => Promise<void>;
+}
+
+const KEEP = 'keep';
+const REMOVE_GOAL = 'remove';
+
+const TransactionBulkEditDialog: React.FC<TransactionBulkEditDialogProps> = ({
+  open,
+  onOpenChange,
+  selectedCount,
+  onApply
+}) => {
+  const { t } = usePreferences();
+  const { goals } = useAppContext();
+  const { accounts } = useAccounts();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [cards, setCards] = useState<CreditCard[]>([]);
+  const [categoryId, setCategoryId] = useState(KEEP);
+  const [accountId, setAccountId] = useState(KEEP);
+  const [goalId, setGoalId] = useState(KEEP);
+  const [creditCardId, setCreditCardId] = useState(KEEP);
+  const [date, setDate] = useState<Date | undefined>();
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    getCategories().then(setCategories);
+    creditCardService.getAllCards().then(setCards).catch((error) => console.error('Erro ao carregar cartões:', error));
+  }, []);
+
+  // Every time the dialog opens, nothing is changed until the user picks a field
+  useEffect(() => {
+    if (open) {
+      setCategoryId(KEEP);
+      setAccountId(KEEP);
+      setGoalId(KEEP);
+      setCreditCardId(KEEP);
+      setDate(undefined);
+    }
+  }, [open]);
+
+  const changes: TransactionBulkChanges = {
+    categoryId: categoryId === KEEP ? undefined : categoryId,
+    accountId: accountId === KEEP ? undefined : accountId,
+    goalId: goalId === KEEP ? undefined : goalId === REMOVE_GOAL ? null : goalId,
+    creditCardId: creditCardId === KEEP ? undefined : creditCardId,
+    // Same storage as the transaction form (the day at 00:00 UTC)
+    date: date ? new Date(format(date, 'yyyy-MM-dd')).toISOString() : undefined
+  };
+  const hasChanges = Object.values(changes).some(value => value !== undefined);
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      await onApply(changes);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const categoryGroups: { type: 'expense' | 'income'; label: string }[] = [
+    { type: 'expense', label: t('common.expense') },
+    { type: 'income', label: t('common.income') }
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{t('transactions.bulkEditTitle')}</DialogTitle>
+          <DialogDescription>
+            {selectedCount} {t('transactions.bulkEditDescription')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t('common.category')}</Label>
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-[300px]">
+                <SelectItem value={KEEP}>{t('transactions.keepUnchanged')}</SelectItem>
+                {categoryGroups.map(group => (
+                  <SelectGroup key={group.type}>
+                    <SelectLabel>{group.label}</SelectLabel>
+                    {categories.filter(category => category.type === group.type).map(category => (
+                      <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Conta</Label>
+            <Select value={accountId} onValueChange={setAccountId} disabled={creditCardId !== KEEP}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP}>{t('transactions.keepUnchanged')}</SelectItem>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {cards.length > 0 && (
+            <div className="space-y-2">
+              <Label>{t('transactions.moveToCard')}</Label>
+              <Select
+                value={creditCardId}
+                onValueChange={(value) => {
+                  setCreditCardId(value);
+                  // Card purchases have no account or goal
+                  if (value !== KEEP) {
+                    setAccountId(KEEP);
+                    setGoalId(KEEP);
+                  }
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>{t('transactions.keepUnchanged')}</SelectItem>
+                  {cards.map(card => (
+                    <SelectItem key={card.id} value={card.id}>{card.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {creditCardId !== KEEP && (
+                <p className="text-xs text-muted-foreground">{t('transactions.moveToCardHint')}</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{t('goals.title')}</Label>
+            <Select value={goalId} onValueChange={setGoalId} disabled={creditCardId !== KEEP}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP}>{t('transactions.keepUnchanged')}</SelectItem>
+                <SelectItem value={REMOVE_GOAL}>{t('transactions.removeGoal')}</SelectItem>
+                {goals.map(goal => (
+                  <SelectItem key={goal.id} value={goal.id}>{goal.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('common.date')}</Label>
+            <DatePicker date={date} setDate={setDate} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={applying}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleApply} disabled={!hasChanges || applying}>
+            {applying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('transactions.bulkEditApply')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransactionBulkEditDialog;
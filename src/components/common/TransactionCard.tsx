@@ -1,7 +1,7 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Transaction } from '@/types';
-import { formatCurrency, formatDate } from '@/utils/transactionUtils';
-import { MoreHorizontal, Target, ArrowUp, ArrowDown, Wallet } from 'lucide-react';
+import { formatBaseAmount, formatCurrency, formatDate, getCategoryLabel } from '@/utils/transactionUtils';
+import { MoreHorizontal, Target, ArrowUp, ArrowDown, ArrowLeftRight, Wallet } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -16,6 +16,8 @@ import { usePreferences } from '@/contexts/PreferencesContext';
 import { cn } from '@/lib/utils';
 import { motion } from 'framer-motion';
 import CategoryIcon from '../categories/CategoryIcon';
+import AttachmentPreview from './AttachmentPreview';
+import RecordHistoryDialog from './RecordHistoryDialog';
 
 interface TransactionCardProps {
   transaction: Transaction;
@@ -40,6 +42,7 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
 }) => {
   const { goals } = useAppContext();
   const { t, currency } = usePreferences();
+  const [historyOpen, setHistoryOpen] = useState(false);
 
   // Helper to get goal name
   const getGoalName = (goalId?: string) => {
@@ -53,8 +56,9 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
     return '******';
   };
 
-  const iconColor = transaction.type === 'income' ? '#26DE81' : '#EF4444';
   const isIncome = transaction.type === 'income';
+  const isTransfer = transaction.type === 'transfer';
+  const iconColor = isIncome ? '#26DE81' : isTransfer ? '#3B82F6' : '#EF4444';
 
   return (
     <motion.div
@@ -80,10 +84,12 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
         <div className="flex items-center gap-3">
           <div className={cn(
             "w-10 h-10 rounded-full flex items-center justify-center",
-            isIncome ? "bg-green-100" : "bg-red-100"
+            isIncome ? "bg-green-100" : isTransfer ? "bg-blue-100" : "bg-red-100"
           )}>
             {isIncome ? (
               <ArrowUp className="w-5 h-5 text-green-600" />
+            ) : isTransfer ? (
+              <ArrowLeftRight className="w-5 h-5 text-blue-600" />
             ) : (
               <ArrowDown className="w-5 h-5 text-red-600" />
             )}
@@ -91,11 +97,14 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
           <div>
             <span className={cn(
               "text-lg font-semibold",
-              isIncome ? "text-green-600" : "text-red-600"
+              isIncome ? "text-green-600" : isTransfer ? "text-blue-600" : "text-red-600"
             )}>
-              {isIncome ? '+' : '-'}
-              {hideValues ? renderHiddenValue() : formatCurrency(transaction.amount, currency)}
+              {isIncome ? '+' : isTransfer ? '' : '-'}
+              {hideValues ? renderHiddenValue() : formatCurrency(transaction.amount, transaction.currency || currency)}
             </span>
+            {!hideValues && formatBaseAmount(transaction) && (
+              <p className="text-xs text-muted-foreground">{formatBaseAmount(transaction)}</p>
+            )}
             <p className="text-sm text-muted-foreground">
               {formatDate(transaction.date)}
             </p>
@@ -116,6 +125,9 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
                 {t('common.edit')}
               </DropdownMenuItem>
             )}
+            <DropdownMenuItem onClick={() => setHistoryOpen(true)}>
+              {t('history.title')}
+            </DropdownMenuItem>
             {onDelete && (
               <DropdownMenuItem 
                 onClick={() => onDelete(transaction.id)}
@@ -132,7 +144,7 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
       <div className="space-y-2 mb-3">
         <div className="flex items-center gap-2">
           <CategoryIcon 
-            icon={transaction.type === 'income' ? 'trending-up' : transaction.type === 'expense' ? transaction.category.toLowerCase().includes('food') ? 'utensils' : 'shopping-bag' : 'circle'} 
+            icon={transaction.type === 'income' ? 'trending-up' : isTransfer ? 'arrow-left-right' : transaction.type === 'expense' ? transaction.category.toLowerCase().includes('food') ? 'utensils' : 'shopping-bag' : 'circle'} 
             color={iconColor} 
             size={16}
           />
@@ -140,9 +152,11 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
             "text-xs",
             isIncome 
               ? "bg-green-50 text-green-600 border-green-200"
-              : "bg-red-50 text-red-600 border-red-200"
+              : isTransfer
+                ? "bg-blue-50 text-blue-600 border-blue-200"
+                : "bg-red-50 text-red-600 border-red-200"
           )}>
-            {transaction.category}
+            {getCategoryLabel(transaction)}
           </Badge>
         </div>
         
@@ -151,13 +165,30 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
             {transaction.description}
           </p>
         )}
+
+        {transaction.tags && transaction.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {transaction.tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="text-[10px] px-1.5 py-0">
+                #{tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {transaction.attachments && transaction.attachments.length > 0 && (
+          <AttachmentPreview attachments={transaction.attachments} size="sm" />
+        )}
       </div>
 
       {/* Account info */}
       {transaction.accountName && (
         <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
           <Wallet className="h-4 w-4" />
-          <span>{transaction.accountName}</span>
+          <span>
+            {transaction.accountName}
+            {isTransfer && transaction.destinationAccountName && ` → ${transaction.destinationAccountName}`}
+          </span>
         </div>
       )}
 
@@ -170,6 +201,14 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
           </span>
         </div>
       )}
+
+      <RecordHistoryDialog
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        recordType="transaction"
+        recordId={transaction.id}
+        description={transaction.description}
+      />
     </motion.div>
   );
 };
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { Category } from '@/types/categories';
+import { CreditCard } from '@/types/creditCards';
+import { TransactionType } from '@/types';
+import { getCategories } from '@/services/categoryService';
+import { creditCardService } from '@/services/creditCardService';
+import { getUserTags, TagUsage } from '@/services/tagService';
+import { TransactionFilters, TransactionSort } from '@/services/transactionService';
+
+interface TransactionFiltersBarProps {
+  filters: TransactionFilters;
+  onFiltersChange: (filters: TransactionFilters) => void;
+  sort: TransactionSort;
+  onSortChange: (sort: TransactionSort) => void;
+  total?: number;
+}
+
+const ALL = 'all';
+const SEARCH_DEBOUNCE_MS = 400;
+
+const SORT_OPTIONS: { value: string; sort: TransactionSort; label: string }[] = [
+  { value: 'date-desc', sort: { column: 'date', ascending: false }, label: 'transactions.sortNewest' },
+  { value: 'date-asc', sort: { column: 'date', ascending: true }, label: 'transactions.sortOldest' },
+  { value: 'amount-desc', sort: { column: 'amount', ascending: false }, label: 'transactions.sortHighest' },
+  { value: 'amount-asc', sort: { column: 'amount', ascending: true }, label: 'transactions.sortLowest' },
+  { value: 'description-asc', sort: { column: 'description', ascending: true }, label: 'transactions.sortDescription' },
+];
+
+const toDate = (value?: string) => (value ? new Date(`${value}T00:00:00`) : undefined);
+const fromDate = (date?: Date) => (date ? format(date, 'yyyy-MM-dd') : undefined);
+
+const TransactionFiltersBar: React.FC<TransactionFiltersBarProps> = ({
+  filters,
+  onFiltersChange,
+  sort,
+  onSortChange,
+  total
+}) => {
+  const { t } = usePreferences();
+  const { accounts } = useAccounts();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [cards, setCards] = useState<CreditCard[]>([]);
+  const [tags, setTags] = useState<TagUsage[]>([]);
+  const [search, setSearch] = useState(filters.search || '');
+
+  useEffect(() => {
+    getCategories().then(setCategories);
+    creditCardService.getAllCards().then(setCards).catch((error) => console.error('Erro ao carregar cartões:', error));
+    getUserTags().then(setTags);
+  }, []);
+
+  // A busca só vai ao servidor depois que o usuário para de digitar. Filtros alterados nesse
+  // meio-tempo reiniciam a espera, e a busca é aplicada sobre os filtros mais recentes
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if ((filters.search || '') !== search) {
+        onFiltersChange({ ...filters, search: search || undefined });
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, filters, onFiltersChange]);
+
+  const update = (changes: Partial<TransactionFilters>) => onFiltersChange({ ...filters, ...changes });
+  const selectValue = (value?: string) => value || ALL;
+  const fromSelect = (value: string) => (value === ALL ? undefined : value);
+
+  const visibleCategories = filters.type && filters.type !== 'transfer'
+    ? categories.filter(category => category.type === filters.type)
+    : categories;
+
+  const hasFilters = Object.values(filters).some(Boolean);
+  const sortValue = SORT_OPTIONS.find(option =>
+    option.sort.column === sort.column && option.sort.ascending === sort.ascending
+  )?.value || 'date-desc';
+
+  return (
+    <div className="space-y-3 mb-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('transactions.searchPlaceholder')}
+            className="pl-8"
+          />
+        </div>
+        <Select
+          value={sortValue}
+          onValueChange={(value) => {
+            const option = SORT_OPTIONS.find(item => item.value === value);
+            if (option) onSortChange(option.sort);
+          }}
+        >
+          <SelectTrigger className="sm:w-[200px]" aria-label={t('transactions.sortBy')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{t(option.label)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 xl:grid-cols-7 gap-2">
+        <DatePicker date={toDate(filters.startDate)} setDate={(date) => update({ startDate: fromDate(date) })} />
+        <DatePicker date={toDate(filters.endDate)} setDate={(date) => update({ endDate: fromDate(date) })} />
+
+        <Select
+          value={selectValue(filters.type)}
+          onValueChange={(value) => update({ type: fromSelect(value) as TransactionType | undefined, categoryId: undefined })}
+        >
+          <SelectTrigger aria-label={t('common.type')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{t('transactions.allTypes')}</SelectItem>
+            <SelectItem value="income">{t('common.income')}</SelectItem>
+            <SelectItem value="expense">{t('common.expense')}</SelectItem>
+            <SelectItem value="transfer">{t('common.transfer')}</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={selectValue(filters.categoryId)} onValueChange={(value) => update({ categoryId: fromSelect(value) })}>
+          <SelectTrigger aria-label={t('common.category')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="max-h-[300px]">
+            <SelectItem value={ALL}>{t('transactions.allCategories')}</SelectItem>
+            {visibleCategories.map(category => (
+              <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={selectValue(filters.accountId)} onValueChange={(value) => update({ accountId: fromSelect(value) })}>
+          <SelectTrigger aria-label="Conta">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Todas as contas</SelectItem>
+            {accounts.map(account => (
+              <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {cards.length > 0 && (
+          <Select value={selectValue(filters.creditCardId)} onValueChange={(value) => update({ creditCardId: fromSelect(value) })}>
+            <SelectTrigger aria-label="Cartão">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos os cartões</SelectItem>
+              {cards.map(card => (
+                <SelectItem key={card.id} value={card.id}>{card.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {tags.length > 0 && (
+          <Select value={selectValue(filters.tag)} onValueChange={(value) => update({ tag: fromSelect(value) })}>
+            <SelectTrigger aria-label={t('transactions.filterByTag')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t('transactions.allTags')}</SelectItem>
+              {tags.map(({ tag }) => (
+                <SelectItem key={tag} value={tag}>#{tag}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>{total !== undefined && `${total} ${t('transactions.found')}`}</span>
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setSearch('');
+              onFiltersChange({});
+            }}
+          >
+            <X className="h-4 w-4 mr-1" />
+            {t('common.clearAll')}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TransactionFiltersBar;
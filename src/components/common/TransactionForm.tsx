@@ -1,19 +1,27 @@
 
 import React, { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Form } from '@/components/ui/form';
-import { Transaction } from '@/types';
+import { Transaction, TransactionType } from '@/types';
 import { useAppContext } from '@/contexts/AppContext';
 import { usePreferences } from '@/contexts/PreferencesContext';
 import { useTransactionForm } from '@/hooks/useTransactionForm';
 import TransactionTypeSelector from './TransactionTypeSelector';
 import AmountInput from './AmountInput';
 import CategoryDateFields from './CategoryDateFields';
+import CategorySplitFields from './CategorySplitFields';
 import DescriptionField from './DescriptionField';
+import TagsField from './TagsField';
+import AttachmentManager from './AttachmentManager';
 import GoalSelector from './GoalSelector';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { getCategoriesByType } from '@/services/categoryService';
+import { suggestRuleFromTransaction } from '@/services/categoryRuleService';
 import AccountSelector from './AccountSelector';
+import ExchangeRateField from './ExchangeRateField';
 import { CreditCardSelector } from './CreditCardSelector';
 
 interface TransactionFormProps {
@@ -21,7 +29,7 @@ interface TransactionFormProps {
   onOpenChange: (open: boolean) => void;
   initialData?: Transaction | null;
   mode: 'create' | 'edit';
-  defaultType?: 'income' | 'expense';
+  defaultType?: TransactionType;
 }
 
 const TransactionForm: React.FC<TransactionFormProps> = ({
@@ -34,22 +42,54 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
   const { t } = usePreferences();
   const { setCustomDateRange, getTransactions, getGoals } = useAppContext();
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const [attachmentsChanged, setAttachmentsChanged] = React.useState(false);
   
   // Initialize form
-  const { form, selectedType, handleTypeChange, onSubmit } = useTransactionForm({
+  const { form, selectedType, handleTypeChange, onSubmit, discardPendingAttachments } = useTransactionForm({
     initialData: initialData || undefined,
     mode,
     onComplete: async () => {
       console.log("TransactionForm: Transaction completed successfully");
       
-      // Show success message
-      toast({
-        title: mode === 'create' ? t('transactions.added') : t('transactions.updated'),
-        description: mode === 'create' ? t('transactions.addSuccess') : t('transactions.updateSuccess'),
-      });
-      
+      // Recategorized by hand: offer a rule so similar transactions get this category automatically
+      const values = form.getValues();
+      const recategorized = mode === 'edit' && initialData && values.type !== 'transfer' &&
+        !values.splits?.length && !!values.category && values.category !== initialData.category_id &&
+        !!values.description?.trim();
+
       // Close dialog
+      setAttachmentsChanged(false);
       onOpenChange(false);
+
+      if (recategorized) {
+        const categories = await getCategoriesByType(values.type as 'income' | 'expense');
+        const category = categories.find(item => item.id === values.category);
+        const suggestedRule = suggestRuleFromTransaction(
+          { type: values.type, description: values.description },
+          values.category,
+          category?.name
+        );
+
+        toast({
+          title: t('transactions.updated'),
+          description: `${t('rules.suggestDescription')} "${suggestedRule.pattern}"?`,
+          action: (
+            <ToastAction
+              altText={t('rules.createRule')}
+              onClick={() => navigate('/categories', { state: { suggestedRule } })}
+            >
+              {t('rules.createRule')}
+            </ToastAction>
+          ),
+        });
+      } else {
+        // Show success message
+        toast({
+          title: mode === 'create' ? t('transactions.added') : t('transactions.updated'),
+          description: mode === 'create' ? t('transactions.addSuccess') : t('transactions.updateSuccess'),
+        });
+      }
       
       // Data is already updated by the AppContext after add/update operations
       // No need for additional refresh calls here
@@ -57,6 +97,20 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
     defaultType,
   });
 
+  const hasSplits = (form.watch('splits') || []).length > 0;
+
+  // Closing without saving: drop receipts of a new transaction, refresh the list
+  // when receipts of an existing one were added or removed
+  const handleClose = () => {
+    if (mode === 'create') {
+      discardPendingAttachments();
+    } else if (attachmentsChanged) {
+      getTransactions();
+    }
+    setAttachmentsChanged(false);
+    onOpenChange(false);
+  };
+
   // Debug form state
   useEffect(() => {
     if (open) {
@@ -76,17 +130,21 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
   }
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={(isOpen) => isOpen ? onOpenChange(true) : handleClose()}>
       <DialogContent className="sm:max-w-[500px] p-0 overflow-hidden">
         <DialogHeader className="bg-background p-6 border-b">
           <DialogTitle className="text-xl">
             {mode === 'create' 
               ? selectedType === 'income' 
                 ? t('transactions.addIncome') 
-                : t('transactions.addExpense')
+                : selectedType === 'transfer'
+                  ? t('transactions.addTransfer')
+                  : t('transactions.addExpense')
               : selectedType === 'income'
                 ? t('transactions.editIncome')
-                : t('transactions.editExpense')
+                : selectedType === 'transfer'
+                  ? t('transactions.editTransfer')
+                  : t('transactions.editExpense')
             }
           </DialogTitle>
         </DialogHeader>
@@ -96,14 +154,34 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <TransactionTypeSelector form={form} onTypeChange={handleTypeChange} />
               <AmountInput form={form} />
-              <CategoryDateFields form={form} transactionType={selectedType} />
+              <CategoryDateFields form={form} transactionType={selectedType} hideCategory={hasSplits} />
+              {selectedType !== 'transfer' && (
+                <CategorySplitFields form={form} transactionType={selectedType} />
+              )}
               <DescriptionField form={form} />
+              <TagsField form={form} />
+              <AttachmentManager
+                owner={mode === 'edit' && initialData ? { transactionId: initialData.id } : undefined}
+                attachments={form.watch('attachments') || []}
+                onChange={(attachments) => {
+                  form.setValue('attachments', attachments);
+                  setAttachmentsChanged(true);
+                }}
+              />
               
               {selectedType === 'expense' && (
                 <CreditCardSelector form={form} />
               )}
               
-              <AccountSelector form={form} />
+              {selectedType === 'transfer' ? (
+                <>
+                  <AccountSelector form={form} label={t('transactions.sourceAccount')} />
+                  <AccountSelector form={form} name="destinationAccountId" label={t('transactions.destinationAccount')} />
+                </>
+              ) : (
+                <AccountSelector form={form} />
+              )}
+              <ExchangeRateField form={form} />
               
               {selectedType === 'income' && (
                 <GoalSelector form={form} />
@@ -113,13 +191,13 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
                 <Button 
                   type="button" 
                   variant="outline" 
-                  onClick={() => onOpenChange(false)}
+                  onClick={handleClose}
                 >
                   {t('common.cancel')}
                 </Button>
                 <Button 
                   type="submit" 
-                  className={selectedType === 'income' ? 'bg-green-600 hover:bg-green-700' : ''}
+                  className={selectedType === 'income' ? 'bg-green-600 hover:bg-green-700' : selectedType === 'transfer' ? 'bg-blue-600 hover:bg-blue-700' : ''}
                   onClick={(e) => {
                     console.log("Save button clicked");
                     console.log("Form state:", form.formState);
@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { 
   Table,
   TableBody,
@@ -16,9 +16,10 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Transaction } from '@/types';
-import { formatCurrency, formatDate } from '@/utils/transactionUtils';
-import { MoreHorizontal, TrendingUp, TrendingDown, Target, ArrowUp, ArrowDown, Trash2, CheckSquare, Square } from 'lucide-react';
+import { formatBaseAmount, formatCurrency, formatDate, getCategoryLabel } from '@/utils/transactionUtils';
+import { MoreHorizontal, TrendingUp, TrendingDown, Target, ArrowUp, ArrowDown, ArrowLeftRight, Trash2, CheckSquare, Square, Tag, Paperclip, Pencil } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { useAppContext } from '@/contexts/AppContext';
 import { usePreferences } from '@/contexts/PreferencesContext';
@@ -26,6 +27,8 @@ import { cn } from '@/lib/utils';
 import { motion } from 'framer-motion';
 import CategoryIcon from '../categories/CategoryIcon';
 import TransactionCard from './TransactionCard';
+import LoadMoreSentinel from './LoadMoreSentinel';
+import RecordHistoryDialog from './RecordHistoryDialog';
 import { useIsMobile } from '@/hooks/use-mobile';
 
 interface TransactionListProps {
@@ -33,9 +36,17 @@ interface TransactionListProps {
   onEdit?: (transaction: Transaction) => void;
   onDelete?: (id: string) => void;
   onDeleteMultiple?: (ids: string[]) => void;
+  // Opens the bulk edit for the selected ids; the caller turns selection mode off when done
+  onBulkEdit?: (ids: string[]) => void;
   hideValues?: boolean;
   selectionMode?: boolean;
   onSelectionModeChange?: (enabled: boolean) => void;
+  // Infinite scroll: onLoadMore is called when the end of the list becomes visible
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Hide the local tag filter when the caller already filters on the server
+  showTagFilter?: boolean;
 }
 
 const TransactionList: React.FC<TransactionListProps> = ({
@@ -43,9 +54,14 @@ const TransactionList: React.FC<TransactionListProps> = ({
   onEdit,
   onDelete,
   onDeleteMultiple,
+  onBulkEdit,
   hideValues = false,
   selectionMode = false,
-  onSelectionModeChange
+  onSelectionModeChange,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  showTagFilter = true
 }) => {
   const { goals } = useAppContext();
   const { t, currency } = usePreferences();
@@ -54,6 +70,21 @@ const TransactionList: React.FC<TransactionListProps> = ({
   // Selection state
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
+  useEffect(() => {
+    if (!selectionMode) setSelectedIds([]);
+  }, [selectionMode]);
+
+  // Tag filter ('all' shows everything)
+  const [selectedTag, setSelectedTag] = useState<string>('all');
+  const [historyTransaction, setHistoryTransaction] = useState<Transaction | null>(null);
+  const availableTags = useMemo(
+    () => Array.from(new Set(transactions.flatMap(transaction => transaction.tags || []))).sort(),
+    [transactions]
+  );
+  const visibleTransactions = selectedTag === 'all'
+    ? transactions
+    : transactions.filter(transaction => transaction.tags?.includes(selectedTag));
+
   // Helper to get goal name
   const getGoalName = (goalId?: string) => {
     if (!goalId) return null;
@@ -72,7 +103,7 @@ const TransactionList: React.FC<TransactionListProps> = ({
   };
 
   const handleSelectAll = () => {
-    const allIds = transactions.map(t => t.id);
+    const allIds = visibleTransactions.map(t => t.id);
     setSelectedIds(allIds);
   };
 
@@ -101,6 +132,33 @@ const TransactionList: React.FC<TransactionListProps> = ({
     return '******';
   };
 
+  const loadMoreFooter = onLoadMore && (
+    <LoadMoreSentinel hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={onLoadMore} />
+  );
+
+  const tagFilter = showTagFilter && availableTags.length > 0 && (
+    <div className="flex items-center gap-2">
+      <Tag className="h-4 w-4 text-muted-foreground" />
+      <Select
+        value={selectedTag}
+        onValueChange={(tag) => {
+          setSelectedTag(tag);
+          setSelectedIds([]);
+        }}
+      >
+        <SelectTrigger className="w-[200px] h-8" aria-label={t('transactions.filterByTag')}>
+          <SelectValue placeholder={t('transactions.filterByTag')} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">{t('transactions.allTags')}</SelectItem>
+          {availableTags.map(tag => (
+            <SelectItem key={tag} value={tag}>#{tag}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   if (transactions.length === 0) {
     return (
       <div className="text-center py-10">
@@ -123,6 +181,7 @@ const TransactionList: React.FC<TransactionListProps> = ({
   if (isMobile) {
     return (
       <div className="space-y-3">
+        {tagFilter}
         {selectionMode && (
           <div className="flex items-center justify-between bg-blue-50 p-3 rounded-lg">
             <div className="flex items-center gap-2">
@@ -134,9 +193,9 @@ const TransactionList: React.FC<TransactionListProps> = ({
               <Button
                 size="sm"
                 variant="outline"
-                onClick={selectedIds.length === transactions.length ? handleDeselectAll : handleSelectAll}
+                onClick={selectedIds.length === visibleTransactions.length ? handleDeselectAll : handleSelectAll}
               >
-                {selectedIds.length === transactions.length ? (
+                {selectedIds.length === visibleTransactions.length ? (
                   <>
                     <Square className="h-4 w-4 mr-1" />
                     Desmarcar Todos
@@ -148,6 +207,17 @@ const TransactionList: React.FC<TransactionListProps> = ({
                   </>
                 )}
               </Button>
+              {onBulkEdit && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onBulkEdit(selectedIds)}
+                  disabled={selectedIds.length === 0}
+                >
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Editar
+                </Button>
+              )}
               <Button
                 size="sm"
                 variant="destructive"
@@ -168,194 +238,253 @@ const TransactionList: React.FC<TransactionListProps> = ({
           </div>
         )}
         
-        {transactions.map((transaction, index) => (
+        {visibleTransactions.map((transaction, index) => (
           <TransactionCard
             key={transaction.id}
             transaction={transaction}
             onEdit={onEdit}
             onDelete={onDelete}
             hideValues={hideValues}
-            index={index}
+            index={Math.min(index, 10)}
             selectionMode={selectionMode}
             isSelected={selectedIds.includes(transaction.id)}
             onSelect={(checked) => handleSelectTransaction(transaction.id, checked)}
           />
         ))}
+        {loadMoreFooter}
       </div>
     );
   }
 
   return (
-    <div className="border rounded-lg overflow-hidden shadow-sm">
-      {selectionMode && (
-        <div className="flex items-center justify-between bg-blue-50 border-b p-3">
-          <div className="flex items-center gap-2">
-            <span className="text-sm font-medium text-blue-900">
-              {selectedIds.length} de {transactions.length} selecionado(s)
-            </span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={selectedIds.length === transactions.length ? handleDeselectAll : handleSelectAll}
-            >
-              {selectedIds.length === transactions.length ? (
-                <>
-                  <Square className="h-4 w-4 mr-1" />
-                  Desmarcar Todos
-                </>
-              ) : (
-                <>
-                  <CheckSquare className="h-4 w-4 mr-1" />
-                  Marcar Todos
-                </>
+    <div className="space-y-3">
+      {tagFilter}
+      <div className="border rounded-lg overflow-hidden shadow-sm">
+        {selectionMode && (
+          <div className="flex items-center justify-between bg-blue-50 border-b p-3">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-blue-900">
+                {selectedIds.length} de {visibleTransactions.length} selecionado(s)
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={selectedIds.length === visibleTransactions.length ? handleDeselectAll : handleSelectAll}
+              >
+                {selectedIds.length === visibleTransactions.length ? (
+                  <>
+                    <Square className="h-4 w-4 mr-1" />
+                    Desmarcar Todos
+                  </>
+                ) : (
+                  <>
+                    <CheckSquare className="h-4 w-4 mr-1" />
+                    Marcar Todos
+                  </>
+                )}
+              </Button>
+              {onBulkEdit && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onBulkEdit(selectedIds)}
+                  disabled={selectedIds.length === 0}
+                >
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Editar ({selectedIds.length})
+                </Button>
               )}
-            </Button>
-            <Button
-              size="sm"
-              variant="destructive"
-              onClick={handleDeleteSelected}
-              disabled={selectedIds.length === 0}
-            >
-              <Trash2 className="h-4 w-4 mr-1" />
-              Excluir ({selectedIds.length})
-            </Button>
-            <Button
-              size="sm"
-              variant="ghost"
-              onClick={handleCancelSelection}
-            >
-              Cancelar
-            </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={handleDeleteSelected}
+                disabled={selectedIds.length === 0}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Excluir ({selectedIds.length})
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleCancelSelection}
+              >
+                Cancelar
+              </Button>
+            </div>
           </div>
-        </div>
-      )}
+        )}
       
-      <Table>
-        <TableHeader className="bg-muted/30">
-          <TableRow>
-            {selectionMode && <TableHead className="w-10"></TableHead>}
-            <TableHead>{t('common.type')}</TableHead>
-            <TableHead>{t('common.date')}</TableHead>
-            <TableHead>{t('common.category')}</TableHead>
-            <TableHead>Conta</TableHead>
-            <TableHead>{t('common.description')}</TableHead>
-            <TableHead>{t('nav.goals')}</TableHead>
-            <TableHead className="text-right">{t('common.amount')}</TableHead>
-            <TableHead className="w-10"></TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {transactions.map((transaction, index) => {
-            // Use different icons and colors based on transaction type
-            const iconColor = transaction.type === 'income' ? '#26DE81' : '#EF4444';
-            const isSelected = selectedIds.includes(transaction.id);
+        <Table>
+          <TableHeader className="bg-muted/30">
+            <TableRow>
+              {selectionMode && <TableHead className="w-10"></TableHead>}
+              <TableHead>{t('common.type')}</TableHead>
+              <TableHead>{t('common.date')}</TableHead>
+              <TableHead>{t('common.category')}</TableHead>
+              <TableHead>Conta</TableHead>
+              <TableHead>{t('common.description')}</TableHead>
+              <TableHead>{t('nav.goals')}</TableHead>
+              <TableHead className="text-right">{t('common.amount')}</TableHead>
+              <TableHead className="w-10"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleTransactions.map((transaction, index) => {
+              // Use different icons and colors based on transaction type
+              const isTransfer = transaction.type === 'transfer';
+              const iconColor = transaction.type === 'income' ? '#26DE81' : isTransfer ? '#3B82F6' : '#EF4444';
+              const isSelected = selectedIds.includes(transaction.id);
             
-            return (
-              <motion.tr
-                key={transaction.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05, duration: 0.3 }}
-                className={cn("group", isSelected && "bg-blue-50")}
-              >
-                {selectionMode && (
+              return (
+                <motion.tr
+                  key={transaction.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  // Atraso limitado: com rolagem infinita a lista pode ter centenas de linhas
+                  transition={{ delay: Math.min(index, 10) * 0.05, duration: 0.3 }}
+                  className={cn("group", isSelected && "bg-blue-50")}
+                >
+                  {selectionMode && (
+                    <TableCell>
+                      <Checkbox
+                        checked={isSelected}
+                        onCheckedChange={(checked) => handleSelectTransaction(transaction.id, checked as boolean)}
+                      />
+                    </TableCell>
+                  )}
                   <TableCell>
-                    <Checkbox
-                      checked={isSelected}
-                      onCheckedChange={(checked) => handleSelectTransaction(transaction.id, checked as boolean)}
-                    />
-                  </TableCell>
-                )}
-                <TableCell>
-                  {transaction.type === 'income' ? (
-                    <div className="flex items-center">
-                      <div className="w-7 h-7 rounded-full bg-metacash-success flex items-center justify-center mr-2">
-                        <ArrowUp className="w-4 h-4 text-white" />
+                    {transaction.type === 'income' ? (
+                      <div className="flex items-center">
+                        <div className="w-7 h-7 rounded-full bg-metacash-success flex items-center justify-center mr-2">
+                          <ArrowUp className="w-4 h-4 text-white" />
+                        </div>
+                        <span className="text-xs md:text-sm">{t('income.title')}</span>
                       </div>
-                      <span className="text-xs md:text-sm">{t('income.title')}</span>
-                    </div>
-                  ) : (
-                    <div className="flex items-center">
-                      <div className="w-7 h-7 rounded-full bg-metacash-error flex items-center justify-center mr-2">
-                        <ArrowDown className="w-4 h-4 text-white" />
+                    ) : isTransfer ? (
+                      <div className="flex items-center">
+                        <div className="w-7 h-7 rounded-full bg-blue-500 flex items-center justify-center mr-2">
+                          <ArrowLeftRight className="w-4 h-4 text-white" />
+                        </div>
+                        <span className="text-xs md:text-sm">{t('common.transfer')}</span>
                       </div>
-                      <span className="text-xs md:text-sm">{t('expense.title')}</span>
-                    </div>
-                  )}
-                </TableCell>
-                <TableCell className="font-medium text-xs md:text-sm">
-                  {formatDate(transaction.date)}
-                </TableCell>
-                <TableCell>
-                  <div className="flex items-center gap-2">
-                    <CategoryIcon 
-                      icon={transaction.type === 'income' ? 'trending-up' : transaction.type === 'expense' ? transaction.category.toLowerCase().includes('food') ? 'utensils' : 'shopping-bag' : 'circle'} 
-                      color={iconColor} 
-                      size={16}
-                    />
-                    <Badge variant="outline" className={cn(
-                      "text-xs",
-                      transaction.type === 'income' 
-                        ? "bg-green-50 text-green-600 hover:bg-green-100 border-green-200"
-                        : "bg-red-50 text-red-600 hover:bg-red-100 border-red-200"
-                    )}>
-                      {transaction.category}
-                    </Badge>
-                  </div>
-                </TableCell>
-                <TableCell className="text-xs md:text-sm">
-                  {transaction.accountName || '—'}
-                </TableCell>
-                <TableCell className="text-xs md:text-sm">
-                  {transaction.description}
-                </TableCell>
-                <TableCell>
-                  {transaction.goalId && (
-                    <div className="flex items-center gap-1">
-                      <Target className="h-3 w-3 text-metacash-blue" />
-                      <span className="text-xs">{getGoalName(transaction.goalId)}</span>
+                    ) : (
+                      <div className="flex items-center">
+                        <div className="w-7 h-7 rounded-full bg-metacash-error flex items-center justify-center mr-2">
+                          <ArrowDown className="w-4 h-4 text-white" />
+                        </div>
+                        <span className="text-xs md:text-sm">{t('expense.title')}</span>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-medium text-xs md:text-sm">
+                    {formatDate(transaction.date)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <CategoryIcon 
+                        icon={transaction.type === 'income' ? 'trending-up' : isTransfer ? 'arrow-left-right' : transaction.type === 'expense' ? transaction.category.toLowerCase().includes('food') ? 'utensils' : 'shopping-bag' : 'circle'} 
+                        color={iconColor} 
+                        size={16}
+                      />
+                      <Badge variant="outline" className={cn(
+                        "text-xs",
+                        transaction.type === 'income' 
+                          ? "bg-green-50 text-green-600 hover:bg-green-100 border-green-200"
+                          : isTransfer
+                            ? "bg-blue-50 text-blue-600 hover:bg-blue-100 border-blue-200"
+                            : "bg-red-50 text-red-600 hover:bg-red-100 border-red-200"
+                      )}>
+                        {getCategoryLabel(transaction)}
+                      </Badge>
                     </div>
-                  )}
-                </TableCell>
-                <TableCell className={cn(
-                  "text-right font-semibold text-xs md:text-sm",
-                  transaction.type === 'income' ? 'text-metacash-success' : 'text-metacash-error'
-                )}>
-                  {transaction.type === 'income' ? '+' : '-'}
-                  {hideValues ? renderHiddenValue() : formatCurrency(transaction.amount, currency)}
-                </TableCell>
-                <TableCell>
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="ghost" className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <MoreHorizontal className="h-4 w-4" />
-                        <span className="sr-only">{t('common.edit')}</span>
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      {onEdit && (
-                        <DropdownMenuItem onClick={() => onEdit(transaction)}>
-                          {t('common.edit')}
-                        </DropdownMenuItem>
-                      )}
-                      {onDelete && (
-                        <DropdownMenuItem 
-                          onClick={() => onDelete(transaction.id)}
-                          className="text-metacash-error"
-                        >
-                          {t('common.delete')}
+                  </TableCell>
+                  <TableCell className="text-xs md:text-sm">
+                    {transaction.accountName || '—'}
+                    {isTransfer && transaction.destinationAccountName && ` → ${transaction.destinationAccountName}`}
+                  </TableCell>
+                  <TableCell className="text-xs md:text-sm">
+                    {transaction.description}
+                    {transaction.attachments && transaction.attachments.length > 0 && (
+                      <span className="inline-flex items-center gap-0.5 ml-1 text-muted-foreground" title={t('transactions.attachments')}>
+                        <Paperclip className="h-3 w-3" />
+                        {transaction.attachments.length}
+                      </span>
+                    )}
+                    {transaction.tags && transaction.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {transaction.tags.map(tag => (
+                          <Badge key={tag} variant="secondary" className="text-[10px] px-1.5 py-0">
+                            #{tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {transaction.goalId && (
+                      <div className="flex items-center gap-1">
+                        <Target className="h-3 w-3 text-metacash-blue" />
+                        <span className="text-xs">{getGoalName(transaction.goalId)}</span>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className={cn(
+                    "text-right font-semibold text-xs md:text-sm",
+                    transaction.type === 'income' ? 'text-metacash-success' : isTransfer ? 'text-blue-600' : 'text-metacash-error'
+                  )}>
+                    {transaction.type === 'income' ? '+' : isTransfer ? '' : '-'}
+                    {hideValues ? renderHiddenValue() : formatCurrency(transaction.amount, transaction.currency || currency)}
+                    {!hideValues && formatBaseAmount(transaction) && (
+                      <div className="text-xs font-normal text-muted-foreground">{formatBaseAmount(transaction)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <MoreHorizontal className="h-4 w-4" />
+                          <span className="sr-only">{t('common.edit')}</span>
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {onEdit && (
+                          <DropdownMenuItem onClick={() => onEdit(transaction)}>
+                            {t('common.edit')}
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem onClick={() => setHistoryTransaction(transaction)}>
+                          {t('history.title')}
                         </DropdownMenuItem>
-                      )}
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                </TableCell>
-              </motion.tr>
-            );
-          })}
-        </TableBody>
-      </Table>
+                        {onDelete && (
+                          <DropdownMenuItem 
+                            onClick={() => onDelete(transaction.id)}
+                            className="text-metacash-error"
+                          >
+                            {t('common.delete')}
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </motion.tr>
+              );
+            })}
+          </TableBody>
+        </Table>
+        {loadMoreFooter}
+      </div>
+
+      {historyTransaction && (
+        <RecordHistoryDialog
+          open={!!historyTransaction}
+          onOpenChange={(open) => !open && setHistoryTransaction(null)}
+          recordType="transaction"
+          recordId={historyTransaction.id}
+          description={historyTransaction.description}
+        />
+      )}
     </div>
   );
 };
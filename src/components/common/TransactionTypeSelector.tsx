@@ -5,10 +5,11 @@ import { UseFormReturn } from 'react-hook-form';
 import { TransactionFormValues } from '@/schemas/transactionSchema';
 import { usePreferences } from '@/contexts/PreferencesContext';
 import { Button } from '@/components/ui/button';
+import { TransactionType } from '@/types';
 
 interface TransactionTypeSelectorProps {
   form: UseFormReturn<TransactionFormValues>;
-  onTypeChange: (type: 'income' | 'expense') => void;
+  onTypeChange: (type: TransactionType) => void;
 }
 
 const TransactionTypeSelector: React.FC<TransactionTypeSelectorProps> = ({ 
@@ -18,7 +19,7 @@ const TransactionTypeSelector: React.FC<TransactionTypeSelectorProps> = ({
   const { t } = usePreferences();
   const currentType = form.watch('type');
   
-  const handleTypeSelect = (type: 'income' | 'expense') => {
+  const handleTypeSelect = (type: TransactionType) => {
     // First update the form value
     form.setValue('type', type, { shouldValidate: true });
     
@@ -51,6 +52,14 @@ const TransactionTypeSelector: React.FC<TransactionTypeSelectorProps> = ({
               >
                 {t('common.expense')}
               </Button>
+              <Button
+                type="button"
+                variant={currentType === 'transfer' ? 'default' : 'outline'}
+                className={`flex-1 ${currentType === 'transfer' ? 'bg-blue-600 hover:bg-blue-700' : ''}`}
+                onClick={() => handleTypeSelect('transfer')}
+              >
+                {t('common.transfer')}
+              </Button>
             </div>
           </FormControl>
           <FormMessage />
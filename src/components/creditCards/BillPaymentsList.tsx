@@ -7,6 +7,7 @@ import { formatCurrency } from "@/lib/utils";
 import { CreditCardBill, CreditCardPayment } from "@/types/creditCards";
 import { creditCardService } from "@/services/creditCardService";
 import { useToast } from "@/hooks/use-toast";
+import AttachmentManager from "@/components/common/AttachmentManager";
 
 interface BillPaymentsListProps {
   bill: CreditCardBill;
@@ -140,6 +141,16 @@ export function BillPaymentsList({ bill, onUpdate }: BillPaymentsListProps) {
                         Obs: {payment.notes}
                       </p>
                     )}
+                    <div className="mt-2">
+                      <AttachmentManager
+                        compact
+                        owner={{ paymentId: payment.id }}
+                        attachments={payment.attachments || []}
+                        onChange={(attachments) => setPayments(prev =>
+                          prev.map(p => p.id === payment.id ? { ...p, attachments } : p)
+                        )}
+                      />
+                    </div>
                   </div>
                 </div>
                 
@@ -144,6 +144,9 @@ export function CreditCardBillsList({ bills, isLoading, cardId, onUpdate }: Cred
     }
   };
 
+  const hasCharges = (bill: CreditCardBill) =>
+    (bill.previous_balance ?? 0) > 0 || bill.interest_amount > 0 || bill.late_fee > 0;
+
   const getMonthName = (month: number) => {
     const months = [
       'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
@@ -275,6 +278,36 @@ export function CreditCardBillsList({ bills, isLoading, cardId, onUpdate }: Cred
               </div>
             </div>
 
+            {/* Encargos trazidos da fatura anterior, calculados pelo processamento diário */}
+            {hasCharges(currentMonthBill) && (
+              <div className="mt-4 pt-4 border-t space-y-1 text-sm">
+                {(currentMonthBill.previous_balance ?? 0) > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Saldo anterior</span>
+                    <span className="font-medium">{formatCurrency(currentMonthBill.previous_balance ?? 0)}</span>
+                  </div>
+                )}
+                {currentMonthBill.interest_amount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Juros do rotativo</span>
+                    <span className="font-medium text-destructive">{formatCurrency(currentMonthBill.interest_amount)}</span>
+                  </div>
+                )}
+                {currentMonthBill.late_fee > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Multa por atraso</span>
+                    <span className="font-medium text-destructive">{formatCurrency(currentMonthBill.late_fee)}</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {(currentMonthBill.carried_amount ?? 0) > 0 && (
+              <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                {formatCurrency(currentMonthBill.carried_amount ?? 0)} não pagos foram transferidos para a próxima fatura, com juros do rotativo
+              </div>
+            )}
+
             {/* Ações da fatura */}
             <div className="mt-4 pt-4 border-t space-y-3">
               {currentMonthBill.remaining_amount > 0 && (
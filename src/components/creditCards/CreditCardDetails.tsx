@@ -7,8 +7,16 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { formatCurrency } from "@/lib/utils";
 import { creditCardService } from "@/services/creditCardService";
+import { getCardHistory } from "@/services/recordHistoryService";
+import RecordHistoryTimeline from "@/components/common/RecordHistoryTimeline";
 import { CreditCardBillsList } from "./CreditCardBillsList";
 import { CreditCardPurchasesList } from "./CreditCardPurchasesList";
+import { useHolidays } from "@/hooks/useHolidays";
+import { getBestPurchaseDay, getBillingCycle } from "@/utils/billingCycleUtils";
+import { adjustToBusinessDay } from "@/utils/holidayUtils";
+import { toRecurrenceDate } from "@/utils/recurrenceUtils";
+import { differenceInCalendarDays } from "date-fns";
+import { ShoppingBag } from "lucide-react";
 
 interface CreditCardDetailsProps {
   card: CreditCard;
@@ -26,12 +34,30 @@ export function CreditCardDetails({ card, onUpdate }: CreditCardDetailsProps) {
     queryFn: () => creditCardService.getPurchasesByCard(card.id)
   });
 
+  // Linha do tempo das compras e pagamentos do cartão (poupeja_record_history)
+  const { data: history, isLoading: historyLoading, refetch: refetchHistory } = useQuery({
+    queryKey: ['credit-card-history', card.id],
+    queryFn: () => getCardHistory(card.id)
+  });
+
+  const { holidays } = useHolidays();
+
   const limitUsage = card.total_limit > 0 ? (card.used_limit / card.total_limit) * 100 : 0;
 
+  // Melhor dia de compra: o primeiro dia da próxima fatura, com o prazo mais longo até o vencimento
+  const today = new Date();
+  const currentCycle = getBillingCycle(card, today);
+  const bestDay = getBestPurchaseDay(card, today);
+  const getDueDate = (dueDate: string) =>
+    adjustToBusinessDay(toRecurrenceDate(dueDate), card.business_day_adjustment || 'next', holidays);
+  const todayDueDate = getDueDate(currentCycle.dueDate);
+  const bestDayDueDate = getDueDate(bestDay.cycle.dueDate);
+
   const handleUpdate = () => {
     onUpdate();
     refetchBills();
     refetchPurchases();
+    refetchHistory();
   };
 
   return (
@@ -80,6 +106,27 @@ export function CreditCardDetails({ card, onUpdate }: CreditCardDetailsProps) {
             </div>
           </div>
 
+          <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/30 text-sm">
+            <ShoppingBag className="h-5 w-5 text-primary mt-0.5" />
+            <div className="space-y-1">
+              <p className="font-medium">
+                {bestDay.isToday
+                  ? "Hoje é o melhor dia de compra"
+                  : `Melhor dia de compra: ${bestDay.date.toLocaleDateString('pt-BR')}`}
+                {" "}
+                <span className="text-muted-foreground font-normal">
+                  (vence em {bestDayDueDate.toLocaleDateString('pt-BR')}, {differenceInCalendarDays(bestDayDueDate, bestDay.date)} dias de prazo)
+                </span>
+              </p>
+              {!bestDay.isToday && (
+                <p className="text-muted-foreground">
+                  Compras feitas hoje entram na fatura que fecha em {toRecurrenceDate(currentCycle.closingDate).toLocaleDateString('pt-BR')} e
+                  vencem em {todayDueDate.toLocaleDateString('pt-BR')} ({differenceInCalendarDays(todayDueDate, today)} dias)
+                </p>
+              )}
+            </div>
+          </div>
+
           <div>
             <div className="flex justify-between text-sm mb-2">
               <span className="text-muted-foreground">Limite utilizado</span>
@@ -98,9 +145,10 @@ export function CreditCardDetails({ card, onUpdate }: CreditCardDetailsProps) {
 
       {/* Tabs para faturas e compras */}
       <Tabs defaultValue="bills" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="bills">Faturas</TabsTrigger>
           <TabsTrigger value="purchases">Compras</TabsTrigger>
+          <TabsTrigger value="history">Histórico</TabsTrigger>
         </TabsList>
         
         <TabsContent value="bills" className="space-y-4">
@@ -121,6 +169,18 @@ export function CreditCardDetails({ card, onUpdate }: CreditCardDetailsProps) {
             onUpdate={handleUpdate}
           />
         </TabsContent>
+
+        <TabsContent value="history" className="space-y-4">
+          <Card>
+            <CardContent className="pt-6">
+              <RecordHistoryTimeline
+                entries={history || []}
+                isLoading={historyLoading}
+                showRecordLabel
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -3,6 +3,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { CreditCard, CreditCardBrand } from "@/types/creditCards";
+import { BusinessDayAdjustment } from "@/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -20,6 +21,7 @@ const creditCardSchema = z.object({
   total_limit: z.number().min(0, "Limite deve ser positivo"),
   closing_day: z.number().min(1).max(31),
   due_day: z.number().min(1).max(31),
+  business_day_adjustment: z.enum(["none", "next", "previous"]),
   interest_rate: z.number().min(0).max(100).default(0),
   annual_fee: z.number().min(0).default(0),
   is_active: z.boolean(),
@@ -48,6 +50,12 @@ const CARD_COLORS = [
   { name: 'Dourado', value: '#f9a825' }
 ];
 
+const BUSINESS_DAY_ADJUSTMENT_LABELS: Record<BusinessDayAdjustment, string> = {
+  next: 'Próximo dia útil',
+  previous: 'Dia útil anterior',
+  none: 'Manter a data'
+};
+
 export function CreditCardForm({ card, onSuccess }: CreditCardFormProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [limitInput, setLimitInput] = useState(card?.total_limit?.toString() || "");
@@ -63,6 +71,7 @@ export function CreditCardForm({ card, onSuccess }: CreditCardFormProps) {
       total_limit: card?.total_limit || 0,
       closing_day: card?.closing_day || 5,
       due_day: card?.due_day || 10,
+      business_day_adjustment: card?.business_day_adjustment || 'next',
       interest_rate: card?.interest_rate || 0,
       annual_fee: card?.annual_fee || 0,
       is_active: card?.is_active ?? true,
@@ -87,6 +96,7 @@ export function CreditCardForm({ card, onSuccess }: CreditCardFormProps) {
           total_limit: data.total_limit,
           closing_day: data.closing_day,
           due_day: data.due_day,
+          business_day_adjustment: data.business_day_adjustment,
           interest_rate: data.interest_rate,
           annual_fee: data.annual_fee,
           is_active: data.is_active,
@@ -236,6 +246,29 @@ export function CreditCardForm({ card, onSuccess }: CreditCardFormProps) {
           />
         </div>
 
+        <FormField
+          control={form.control}
+          name="business_day_adjustment"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Vencimento em fim de semana ou feriado</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(BUSINESS_DAY_ADJUSTMENT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <div className="grid grid-cols-2 gap-4">
           <FormField
             control={form.control}
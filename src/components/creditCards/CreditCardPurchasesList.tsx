@@ -5,15 +5,32 @@ import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { ShoppingCart, Plus, Calendar, Edit, Trash2, MoreVertical, CheckSquare, Square } from "lucide-react";
+import { ShoppingCart, Plus, Calendar, Edit, Trash2, MoreVertical, CheckSquare, Square, History, FastForward } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
+import { useUndoDelete } from "@/hooks/useUndoDelete";
 import { creditCardService } from "@/services/creditCardService";
 import { formatCurrency } from "@/lib/utils";
 import { CreditCardPurchase } from "@/types/creditCards";
 import { CreditCardPurchaseForm } from "./CreditCardPurchaseForm";
+import AttachmentManager from "@/components/common/AttachmentManager";
+import RecordHistoryDialog from "@/components/common/RecordHistoryDialog";
 import { cn } from "@/lib/utils";
 
+// Parcela atual de uma compra parcelada ("3/12"): a primeira ainda não paga
+const getInstallmentProgress = (purchase: CreditCardPurchase) => {
+  const installments = purchase.installment_list || [];
+  if (purchase.installments <= 1 || installments.length === 0) return null;
+
+  const unpaid = installments.filter(installment => !installment.is_paid);
+  return {
+    current: unpaid[0]?.installment_number ?? purchase.installments,
+    total: purchase.installments,
+    unpaidCount: unpaid.length,
+    remainingAmount: unpaid.reduce((sum, installment) => sum + installment.amount, 0)
+  };
+};
+
 interface CreditCardPurchasesListProps {
   purchases: CreditCardPurchase[];
   isLoading: boolean;
@@ -26,11 +43,15 @@ export function CreditCardPurchasesList({ purchases, isLoading, cardId, availabl
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingPurchase, setEditingPurchase] = useState<CreditCardPurchase | null>(null);
   const [deletingPurchase, setDeletingPurchase] = useState<CreditCardPurchase | null>(null);
+  const [historyPurchase, setHistoryPurchase] = useState<CreditCardPurchase | null>(null);
+  const [anticipatingPurchase, setAnticipatingPurchase] = useState<CreditCardPurchase | null>(null);
+  const [isAnticipating, setIsAnticipating] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [isDeletingMultiple, setIsDeletingMultiple] = useState(false);
   const { toast } = useToast();
+  const showUndoDelete = useUndoDelete();
 
   const handleFormSuccess = () => {
     setIsFormOpen(false);
@@ -49,9 +70,12 @@ export function CreditCardPurchasesList({ purchases, isLoading, cardId, availabl
     setIsDeleting(true);
     try {
       await creditCardService.deletePurchase(deletingPurchase.id);
-      toast({
+      showUndoDelete({
+        itemType: 'purchase',
+        itemIds: [deletingPurchase.id],
         title: "Compra excluída",
-        description: "A compra foi excluída com sucesso."
+        description: "A compra foi movida para a lixeira.",
+        onRestored: onUpdate
       });
       onUpdate();
     } catch (error: any) {
@@ -66,6 +90,31 @@ export function CreditCardPurchasesList({ purchases, isLoading, cardId, availabl
     }
   };
 
+  const handleAnticipate = async () => {
+    if (!anticipatingPurchase) return;
+
+    setIsAnticipating(true);
+    try {
+      const count = await creditCardService.anticipateInstallments(anticipatingPurchase.id);
+      toast({
+        title: "Parcelas antecipadas",
+        description: count > 0
+          ? `${count} parcela(s) foram para a fatura aberta.`
+          : "Não há parcelas futuras para antecipar."
+      });
+      onUpdate();
+    } catch (error) {
+      toast({
+        title: "Erro ao antecipar parcelas",
+        description: (error instanceof Error && error.message) || "Não foi possível antecipar as parcelas.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsAnticipating(false);
+      setAnticipatingPurchase(null);
+    }
+  };
+
   const handleNewPurchase = () => {
     setEditingPurchase(null);
     setIsFormOpen(true);
@@ -97,9 +146,12 @@ export function CreditCardPurchasesList({ purchases, isLoading, cardId, availabl
       // Excluir todas as compras selecionadas
       await Promise.all(selectedIds.map(id => creditCardService.deletePurchase(id)));
       
-      toast({
+      showUndoDelete({
+        itemType: 'purchase',
+        itemIds: selectedIds,
         title: "Compras excluídas",
-        description: `${selectedIds.length} compra(s) foram excluídas com sucesso.`
+        description: `${selectedIds.length} compra(s) foram movidas para a lixeira.`,
+        onRestored: onUpdate
       });
       
       setSelectedIds([]);
@@ -248,6 +300,7 @@ export function CreditCardPurchasesList({ purchases, isLoading, cardId, availabl
         {/* Lista de compras */}
         {purchases.map((purchase) => {
           const isSelected = selectedIds.includes(purchase.id);
+          const progress = getInstallmentProgress(purchase);
           
           return (
             <div
@@ -280,6 +333,26 @@ export function CreditCardPurchasesList({ purchases, isLoading, cardId, availabl
                       </span>
                     )}
                   </div>
+                  {progress && (
+                    <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                      <Badge variant="secondary">{progress.current}/{progress.total}</Badge>
+                      <span>
+                        {progress.unpaidCount > 0
+                          ? `Restam ${formatCurrency(progress.remainingAmount)}`
+                          : "Quitada"}
+                      </span>
+                    </div>
+                  )}
+                  {!selectionMode && (
+                    <div className="mt-2">
+                      <AttachmentManager
+                        compact
+                        owner={{ purchaseId: purchase.id }}
+                        attachments={purchase.attachments || []}
+                        onChange={onUpdate}
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
               
@@ -300,6 +373,16 @@ export function CreditCardPurchasesList({ purchases, isLoading, cardId, availabl
                         <Edit className="h-4 w-4 mr-2" />
                         Editar
                       </DropdownMenuItem>
+                      {progress && progress.unpaidCount > 1 && (
+                        <DropdownMenuItem onClick={() => setAnticipatingPurchase(purchase)}>
+                          <FastForward className="h-4 w-4 mr-2" />
+                          Antecipar parcelas
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem onClick={() => setHistoryPurchase(purchase)}>
+                        <History className="h-4 w-4 mr-2" />
+                        Histórico
+                      </DropdownMenuItem>
                       <DropdownMenuItem 
                         onClick={() => setDeletingPurchase(purchase)}
                         className="text-destructive"
@@ -338,6 +421,35 @@ export function CreditCardPurchasesList({ purchases, isLoading, cardId, availabl
         </DialogContent>
       </Dialog>
 
+      {historyPurchase && (
+        <RecordHistoryDialog
+          open={!!historyPurchase}
+          onOpenChange={(open) => !open && setHistoryPurchase(null)}
+          recordType="purchase"
+          recordId={historyPurchase.id}
+          description={historyPurchase.description}
+        />
+      )}
+
+      {/* Dialog de confirmação para antecipação */}
+      <AlertDialog open={!!anticipatingPurchase} onOpenChange={(open) => !open && setAnticipatingPurchase(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Antecipar Parcelas</AlertDialogTitle>
+            <AlertDialogDescription>
+              As parcelas em aberto de "{anticipatingPurchase?.description}" que cairiam nas próximas
+              faturas serão lançadas na fatura aberta.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isAnticipating}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleAnticipate} disabled={isAnticipating}>
+              {isAnticipating ? "Antecipando..." : "Antecipar"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Dialog de confirmação para exclusão */}
       <AlertDialog open={!!deletingPurchase} onOpenChange={(open) => !open && setDeletingPurchase(null)}>
         <AlertDialogContent>
@@ -345,7 +457,7 @@ export function CreditCardPurchasesList({ purchases, isLoading, cardId, availabl
             <AlertDialogTitle>Excluir Compra</AlertDialogTitle>
             <AlertDialogDescription>
               Tem certeza que deseja excluir a compra "{deletingPurchase?.description}"? 
-              Esta ação não pode ser desfeita.
+              Ela ficará na lixeira por 30 dias.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
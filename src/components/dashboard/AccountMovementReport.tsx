@@ -1,20 +1,24 @@
 import React, { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { usePreferences } from '@/contexts/PreferencesContext';
-import { useAccounts } from '@/hooks/useAccounts';
+import { useAccounts, useAccountBalances } from '@/hooks/useAccounts';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
 import { motion } from 'framer-motion';
-import { formatCurrency } from '@/utils/transactionUtils';
+import { formatCurrency, getMonthBalanceDate } from '@/utils/transactionUtils';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 
 interface Transaction {
   id: string;
   amount: number;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'transfer';
   date: string;
   accountId?: string;
   account_id?: string;
   accountName?: string;
+  destinationAccountId?: string;
+  destinationAccountName?: string;
+  exchangeRate?: number;
   account?: {
     id: string;
     name: string;
@@ -31,33 +35,38 @@ interface AccountMovementReportProps {
 interface AccountSummary {
   id: string;
   name: string;
+  currency: string;
   color: string;
   lastTransaction: string;
   transactionCount: number;
   income: number;
   expense: number;
+  transfers: number;
   balance: number;
 }
 
+// Cores predefinidas para as contas
+const accountColors = [
+  '#EF4444', // vermelho
+  '#10B981', // verde
+  '#3B82F6', // azul
+  '#F59E0B', // amarelo
+  '#8B5CF6', // roxo
+  '#EC4899', // rosa
+  '#F97316', // laranja
+  '#6B7280', // cinza
+];
+
 const AccountMovementReport: React.FC<AccountMovementReportProps> = ({
   transactions,
   currentMonth,
   hideValues
 }) => {
-  const { t } = usePreferences();
+  const { t, currency } = usePreferences();
   const { accounts } = useAccounts();
-
-  // Cores predefinidas para as contas
-  const accountColors = [
-    '#EF4444', // vermelho
-    '#10B981', // verde
-    '#3B82F6', // azul
-    '#F59E0B', // amarelo
-    '#8B5CF6', // roxo
-    '#EC4899', // rosa
-    '#F97316', // laranja
-    '#6B7280', // cinza
-  ];
+  const { toBaseCurrency } = useExchangeRates();
+  // Saldo das contas cadastradas até o fim do mês, sem contar transações futuras
+  const { balances } = useAccountBalances(getMonthBalanceDate(currentMonth));
 
   const accountSummaries = useMemo(() => {
     const accountMap = new Map<string, AccountSummary>();
@@ -65,22 +74,19 @@ const AccountMovementReport: React.FC<AccountMovementReportProps> = ({
     // Criar mapa de contas para busca rápida
     const accountsMap = new Map(accounts.map(acc => [acc.id, acc.name]));
     
-    transactions.forEach((transaction, index) => {
-      const accountId = transaction.accountId || transaction.account_id || 'default';
-      const accountName = transaction.accountName || 
-                         transaction.account?.name ||
-                         accountsMap.get(accountId) || 
-                         'Conta Principal';
-      
+    const getSummary = (accountId: string, accountName: string, date: string) => {
       if (!accountMap.has(accountId)) {
         accountMap.set(accountId, {
           id: accountId,
           name: accountName,
+          // Valores de cada conta na moeda dela; sem conta cadastrada, na moeda base
+          currency: accounts.find(acc => acc.id === accountId)?.currency || currency,
           color: accountColors[accountMap.size % accountColors.length],
-          lastTransaction: transaction.date,
+          lastTransaction: date,
           transactionCount: 0,
           income: 0,
           expense: 0,
+          transfers: 0,
           balance: 0
         });
       }
@@ -89,34 +95,68 @@ const AccountMovementReport: React.FC<AccountMovementReportProps> = ({
       summary.transactionCount++;
       
       // Atualizar última transação (mais recente)
-      if (new Date(transaction.date) > new Date(summary.lastTransaction)) {
-        summary.lastTransaction = transaction.date;
+      if (new Date(date) > new Date(summary.lastTransaction)) {
+        summary.lastTransaction = date;
       }
 
+      return summary;
+    };
+    
+    transactions.forEach((transaction, index) => {
+      const accountId = transaction.accountId || transaction.account_id || 'default';
+      const accountName = transaction.accountName || 
+                         transaction.account?.name ||
+                         accountsMap.get(accountId) || 
+                         'Conta Principal';
+      
+      const summary = getSummary(accountId, accountName, transaction.date);
+
       if (transaction.type === 'income') {
         summary.income += transaction.amount;
-      } else {
+      } else if (transaction.type === 'expense') {
         summary.expense += transaction.amount;
+      } else if (transaction.destinationAccountId) {
+        // Transferências não são receitas nem despesas, só movem saldo entre as contas
+        const destination = getSummary(
+          transaction.destinationAccountId,
+          transaction.destinationAccountName || accountsMap.get(transaction.destinationAccountId) || 'Conta Principal',
+          transaction.date
+        );
+        summary.transfers -= transaction.amount;
+        destination.transfers += transaction.amount;
+        destination.balance = destination.income - destination.expense + destination.transfers;
       }
       
-      summary.balance = summary.income - summary.expense;
+      summary.balance = summary.income - summary.expense + summary.transfers;
+    });
+
+    // Saldo das contas cadastradas parte do último ponto de conciliação (ou do saldo inicial)
+    accountMap.forEach(summary => {
+      if (accounts.some(acc => acc.id === summary.id)) {
+        summary.balance = balances.byAccount[summary.id] || 0;
+      }
     });
 
     return Array.from(accountMap.values()).sort((a, b) => a.name.localeCompare(b.name));
-  }, [transactions, accounts]);
+  }, [transactions, accounts, balances, currency]);
 
-  const totals = useMemo(() => ({
-    income: accountSummaries.reduce((sum, acc) => sum + acc.income, 0),
-    expense: accountSummaries.reduce((sum, acc) => sum + acc.expense, 0),
-    balance: accountSummaries.reduce((sum, acc) => sum + acc.balance, 0),
-    transactionCount: accountSummaries.reduce((sum, acc) => sum + acc.transactionCount, 0)
-  }), [accountSummaries]);
+  // Total geral na moeda base: receitas e despesas com a cotação registrada em cada transação,
+  // saldos das contas em outra moeda com a cotação cadastrada mais recente
+  const totals = useMemo(() => {
+    const baseAmount = (transaction: Transaction) => transaction.amount * (transaction.exchangeRate ?? 1);
+    return {
+      income: transactions.filter(tr => tr.type === 'income').reduce((sum, tr) => sum + baseAmount(tr), 0),
+      expense: transactions.filter(tr => tr.type === 'expense').reduce((sum, tr) => sum + baseAmount(tr), 0),
+      balance: accountSummaries.reduce((sum, acc) => sum + toBaseCurrency(acc.balance, acc.currency), 0),
+      transactionCount: accountSummaries.reduce((sum, acc) => sum + acc.transactionCount, 0)
+    };
+  }, [transactions, accountSummaries, toBaseCurrency]);
 
   const monthName = format(currentMonth, 'MMMM', { locale: ptBR });
 
-  const formatValue = (value: number) => {
+  const formatValue = (value: number, valueCurrency: string = currency) => {
     if (hideValues) return '***';
-    return formatCurrency(value, 'BRL');
+    return formatCurrency(value, valueCurrency);
   };
 
   const formatDate = (dateStr: string) => {
@@ -171,12 +211,12 @@ const AccountMovementReport: React.FC<AccountMovementReportProps> = ({
                     </td>
                     <td className="p-4 text-right">
                       <span className="text-green-600 font-medium">
-                        ↑ {formatValue(account.income)}
+                        ↑ {formatValue(account.income, account.currency)}
                       </span>
                     </td>
                     <td className="p-4 text-right">
                       <span className="text-red-600 font-medium">
-                        ↓ {formatValue(account.expense)}
+                        ↓ {formatValue(account.expense, account.currency)}
                       </span>
                     </td>
                     <td className="p-4 text-right">
@@ -185,7 +225,7 @@ const AccountMovementReport: React.FC<AccountMovementReportProps> = ({
                           account.balance >= 0 ? 'text-green-600' : 'text-red-600'
                         }`}
                       >
-                        {formatValue(account.balance)}
+                        {formatValue(account.balance, account.currency)}
                       </span>
                     </td>
                   </tr>
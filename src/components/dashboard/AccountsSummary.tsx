@@ -1,7 +1,7 @@
 import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { usePreferences } from '@/contexts/PreferencesContext';
-import { useAccounts } from '@/hooks/useAccounts';
+import { useAccounts, useAccountBalances } from '@/hooks/useAccounts';
 import { formatCurrency } from '@/utils/transactionUtils';
 import { Transaction } from '@/types';
 interface AccountsSummaryProps {
@@ -18,6 +18,9 @@ const AccountsSummary: React.FC<AccountsSummaryProps> = ({
   const {
     accounts
   } = useAccounts();
+  const {
+    balances: accountBalances
+  } = useAccountBalances();
   const balances = React.useMemo(() => {
     const map = new Map<string, {
       name: string;
@@ -65,9 +68,29 @@ const AccountsSummary: React.FC<AccountsSummaryProps> = ({
       curr.amount += delta;
       curr.name = accountName || 'Conta Principal';
       map.set(key, curr);
+
+      // Transferência: o valor que saiu da conta de origem entra na conta de destino
+      if (t.type === 'transfer' && t.destinationAccountId) {
+        const destinationName = t.destinationAccountName || accountsMap.get(t.destinationAccountId) || 'Conta Principal';
+        const destination = map.get(t.destinationAccountId) || {
+          name: destinationName,
+          amount: 0
+        };
+        destination.amount += t.amount;
+        map.set(t.destinationAccountId, destination);
+      }
+    }
+
+    // Contas cadastradas: saldo a partir do último ponto de conciliação (ou do saldo inicial)
+    for (const account of accounts) {
+      if (account.type === 'credit_card') continue;
+      map.set(account.id, {
+        name: account.name,
+        amount: accountBalances.byAccount[account.id] || 0
+      });
     }
     return Array.from(map.values()).sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount)).slice(0, 6);
-  }, [transactions, accounts]);
+  }, [transactions, accounts, accountBalances]);
   if (balances.length === 0) return null;
   const renderHidden = () => '******';
   return <Card className="shadow-lg border-0">
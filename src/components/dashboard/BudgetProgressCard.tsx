@@ -0,0 +1,45 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { PiggyBank } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import BudgetProgressBar from '@/components/budgets/BudgetProgressBar';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useBudgetProgress, useBudgetAlerts } from '@/hooks/useBudgets';
+
+interface BudgetProgressCardProps {
+  currentMonth: Date;
+  hideValues: boolean;
+}
+
+// Categories closest to (or over) their limit come first
+const MAX_ITEMS = 5;
+
+const BudgetProgressCard: React.FC<BudgetProgressCardProps> = ({ currentMonth, hideValues }) => {
+  const { t } = usePreferences();
+  const { progress } = useBudgetProgress(currentMonth);
+  useBudgetAlerts(progress, currentMonth);
+
+  if (progress.length === 0) return null;
+
+  return (
+    <Card className="shadow-lg border-0">
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-xl flex items-center gap-2">
+          <PiggyBank className="h-5 w-5" />
+          {t('budgets.title')}
+        </CardTitle>
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/budgets">{t('budgets.viewAll')}</Link>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {progress.slice(0, MAX_ITEMS).map(item => (
+          <BudgetProgressBar key={item.budget.id} progress={item} hideValues={hideValues} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BudgetProgressCard;
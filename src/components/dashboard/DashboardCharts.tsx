@@ -2,7 +2,7 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, PieChart, Pie, Cell, BarChart, Bar } from 'recharts';
-import { formatCurrency, createLocalDate } from '@/utils/transactionUtils';
+import { formatCurrency, createLocalDate, getBaseAmount } from '@/utils/transactionUtils';
 import { useAppContext } from '@/contexts/AppContext';
 import { usePreferences } from '@/contexts/PreferencesContext';
 import { calculateCategorySummaries } from '@/utils/transactionUtils';
@@ -53,9 +53,9 @@ const generateChartData = (transactions: any[], month: Date) => {
     };
     
     if (transaction.type === 'income') {
-      dayData.income += transaction.amount;
-    } else {
-      dayData.expenses += transaction.amount;
+      dayData.income += getBaseAmount(transaction);
+    } else if (transaction.type === 'expense') {
+      dayData.expenses += getBaseAmount(transaction);
     }
     
     transactionsByDay.set(day, dayData);
@@ -145,7 +145,7 @@ const DashboardCharts: React.FC<DashboardChartsProps> = ({
     (transactionsToUse || []).forEach((tx: any) => {
       const key = tx.accountName || 'Sem conta';
       const current = map.get(key) || { account: key, income: 0, expenses: 0, balance: 0 };
-      if (tx.type === 'income') current.income += tx.amount; else current.expenses += tx.amount;
+      if (tx.type === 'income') current.income += tx.amount; else if (tx.type === 'expense') current.expenses += tx.amount;
       current.balance = current.income - current.expenses;
       map.set(key, current);
     });
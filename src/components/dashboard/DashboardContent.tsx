@@ -13,6 +13,7 @@ import { usePreferences } from '@/contexts/PreferencesContext';
 import { Goal, ScheduledTransaction } from '@/types';
 import { motion } from 'framer-motion';
 import AccountsSummary from '@/components/dashboard/AccountsSummary';
+import BudgetProgressCard from '@/components/dashboard/BudgetProgressCard';
 
 interface DashboardContentProps {
   filteredTransactions: any[];
@@ -67,6 +68,11 @@ const DashboardContent: React.FC<DashboardContentProps> = ({
         <GoalNavigation goals={goals} currentGoalIndex={currentGoalIndex} onGoalChange={onGoalChange} />
       </motion.div>
 
+      {/* Progresso dos orçamentos */}
+      <motion.div variants={itemVariants}>
+        <BudgetProgressCard currentMonth={currentMonth} hideValues={hideValues} />
+      </motion.div>
+
       {/* Resumo por contas */}
       <motion.div variants={itemVariants}>
         <AccountsSummary transactions={filteredTransactions} hideValues={hideValues} />
@@ -7,8 +7,10 @@ import { AlertTriangle, Clock, Calendar, ChevronRight } from 'lucide-react';
 import { ScheduledTransaction } from '@/types';
 import { formatCurrency } from '@/utils/transactionUtils';
 import { usePreferences } from '@/contexts/PreferencesContext';
-import { format } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { useHolidays } from '@/hooks/useHolidays';
+import { getEffectiveDueDay } from '@/utils/holidayUtils';
+import { toRecurrenceDate } from '@/utils/recurrenceUtils';
+import { differenceInCalendarDays } from 'date-fns';
 import { Link } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 
@@ -22,18 +24,20 @@ const UpcomingExpensesAlert: React.FC<UpcomingExpensesAlertProps> = ({
   onMarkAsPaid
 }) => {
   const { t, currency } = usePreferences();
+  const { holidays } = useHolidays();
 
   // Filtrar apenas despesas pendentes
   const pendingExpenses = scheduledTransactions.filter(
     transaction => transaction.type === 'expense' && 
-    (!transaction.status || transaction.status === 'pending')
+    (!transaction.status || transaction.status === 'pending' || transaction.status === 'overdue')
   );
 
-  // Categorizar por urgência
+  // Categorizar por urgência, em dias de calendário até o vencimento efetivo (uma conta que
+  // vence no sábado só atrasa se não for paga até segunda)
   const today = new Date();
   const categorizedExpenses = pendingExpenses.reduce((acc, transaction) => {
-    const transactionDate = new Date(transaction.nextExecutionDate || transaction.scheduledDate);
-    const daysUntilDue = Math.ceil((transactionDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    const dueDate = toRecurrenceDate(getEffectiveDueDay(transaction, holidays));
+    const daysUntilDue = differenceInCalendarDays(dueDate, today);
 
     if (daysUntilDue < 0) {
       acc.overdue.push(transaction);
@@ -4,7 +4,7 @@ import { NavLink, useNavigate, useLocation } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { usePreferences } from '@/contexts/PreferencesContext';
 import { useUserRole } from '@/hooks/useUserRole';
-import { LayoutDashboard, Receipt, Settings, Crown, Plus, Target, Calendar, Shield, User, FileText, Wallet, CreditCard, Tag } from 'lucide-react';
+import { LayoutDashboard, Receipt, Settings, Crown, Plus, Target, Calendar, Shield, User, FileText, Wallet, CreditCard, Tag, Trash2, PiggyBank } from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Button } from '@/components/ui/button';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -46,6 +46,16 @@ const MobileNavBar: React.FC<MobileNavBarProps> = ({
       color: 'text-blue-600',
       bgColor: 'bg-blue-50 hover:bg-blue-100'
     },
+    {
+      icon: PiggyBank,
+      label: t('nav.budgets') || 'Orçamentos',
+      action: () => {
+        navigate('/budgets');
+        setIsQuickActionsOpen(false);
+      },
+      color: 'text-green-600',
+      bgColor: 'bg-green-50 hover:bg-green-100'
+    },
     {
       icon: Calendar,
       label: 'Agendamentos',
@@ -75,6 +85,16 @@ const MobileNavBar: React.FC<MobileNavBarProps> = ({
       },
       color: 'text-indigo-600',
       bgColor: 'bg-indigo-50 hover:bg-indigo-100'
+    },
+    {
+      icon: Trash2,
+      label: t('nav.trash') || 'Lixeira',
+      action: () => {
+        navigate('/trash');
+        setIsQuickActionsOpen(false);
+      },
+      color: 'text-red-600',
+      bgColor: 'bg-red-50 hover:bg-red-100'
     }
   ];
 
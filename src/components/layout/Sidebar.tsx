@@ -8,7 +8,7 @@ import { usePreferences } from '@/contexts/PreferencesContext';
 import { useUserRole } from '@/hooks/useUserRole';
 import { BrandLogo } from '@/components/common/BrandLogo';
 import { ThemeToggle } from '@/components/theme/ThemeToggle';
-import { LayoutDashboard, Receipt, BarChart3, Target, User, Settings, FolderOpen, Calendar, Crown, LogOut, Shield, Wallet, CreditCard } from 'lucide-react';
+import { LayoutDashboard, Receipt, BarChart3, Target, User, Settings, FolderOpen, Calendar, Crown, LogOut, Shield, Wallet, CreditCard, Trash2, PiggyBank } from 'lucide-react';
 
 interface SidebarProps {
   onProfileClick?: () => void;
@@ -126,6 +126,11 @@ const Sidebar: React.FC<SidebarProps> = ({ onProfileClick, onConfigClick }) => {
       label: t('nav.goals'),
       href: '/goals'
     },
+    {
+      icon: PiggyBank,
+      label: t('nav.budgets'),
+      href: '/budgets'
+    },
     {
       icon: Calendar,
       label: t('schedule.title'),
@@ -175,6 +180,11 @@ const Sidebar: React.FC<SidebarProps> = ({ onProfileClick, onConfigClick }) => {
       label: t('nav.settings'),
       href: '/settings'
     },
+    {
+      icon: Trash2,
+      label: t('nav.trash'),
+      href: '/trash'
+    },
   ];
 
   if (!user) return null;
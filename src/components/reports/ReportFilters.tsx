@@ -24,6 +24,9 @@ interface ReportFiltersProps {
   setEndDate: (date: Date | undefined) => void;
   accountId?: string;
   setAccountId?: (id: string) => void;
+  tag?: string;
+  setTag?: (tag: string) => void;
+  availableTags?: string[];
   onDownload: (format: ReportFormat) => void;
 }
 
@@ -36,6 +39,9 @@ const ReportFilters: React.FC<ReportFiltersProps> = ({
   setEndDate,
   accountId,
   setAccountId,
+  tag,
+  setTag,
+  availableTags = [],
   onDownload
 }) => {
   const { t } = usePreferences();
@@ -84,6 +90,22 @@ const ReportFilters: React.FC<ReportFiltersProps> = ({
             <label className="block text-sm font-medium">{t('reports.endDate')}</label>
             <DatePicker date={endDate} setDate={setEndDate} />
           </div>
+          {setTag && availableTags.length > 0 && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium">{t('transactions.tags')}</label>
+              <Select value={tag || 'all'} onValueChange={setTag}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder={t('transactions.allTags')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('transactions.allTags')}</SelectItem>
+                  {availableTags.map(item => (
+                    <SelectItem key={item} value={item}>#{item}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
         
         <div className="flex flex-col sm:flex-row justify-end gap-2 mt-4">
@@ -8,12 +8,14 @@ interface ReportSummaryProps {
   totalIncome: number;
   totalExpenses: number;
   balance: number;
+  tagSummaries?: { tag: string; income: number; expenses: number }[];
 }
 
 const ReportSummary: React.FC<ReportSummaryProps> = ({
   totalIncome,
   totalExpenses,
-  balance
+  balance,
+  tagSummaries = []
 }) => {
   const { t, currency } = usePreferences();
   
@@ -26,6 +28,7 @@ const ReportSummary: React.FC<ReportSummaryProps> = ({
   };
 
   return (
+    <>
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 lg:gap-6 mb-6 lg:mb-8">
       <Card className="border border-border/50 shadow-sm">
         <CardHeader className="pb-3">
@@ -66,6 +69,34 @@ const ReportSummary: React.FC<ReportSummaryProps> = ({
         </CardContent>
       </Card>
     </div>
+
+    {tagSummaries.length > 0 && (
+      <Card className="border border-border/50 shadow-sm mb-6 lg:mb-8">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm lg:text-base font-medium text-muted-foreground">
+            {t('reports.tagTotals')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y">
+            {tagSummaries.map(({ tag, income, expenses }) => (
+              <div key={tag} className="flex items-center justify-between py-2 text-sm">
+                <span className="font-medium">#{tag}</span>
+                <div className="flex gap-4">
+                  {income > 0 && (
+                    <span className="text-green-600 dark:text-green-400">+{formatCurrency(income)}</span>
+                  )}
+                  {expenses > 0 && (
+                    <span className="text-red-600 dark:text-red-400">-{formatCurrency(expenses)}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    )}
+    </>
   );
 };
 
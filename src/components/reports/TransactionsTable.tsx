@@ -5,22 +5,35 @@ import { Transaction } from '@/types';
 import { usePreferences } from '@/contexts/PreferencesContext';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useAccounts } from '@/hooks/useAccounts';
+import { getCategoryLabel } from '@/utils/transactionUtils';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, TrendingUp, TrendingDown, FileText, Wallet } from 'lucide-react';
+import { Calendar, TrendingUp, TrendingDown, ArrowLeftRight, FileText, Wallet } from 'lucide-react';
+import LoadMoreSentinel from '@/components/common/LoadMoreSentinel';
 
 interface TransactionsTableProps {
   transactions: Transaction[];
+  // Infinite scroll (server-side pages)
+  total?: number;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-const TransactionsTable: React.FC<TransactionsTableProps> = ({ transactions }) => {
+const TransactionsTable: React.FC<TransactionsTableProps> = ({
+  transactions,
+  total,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore
+}) => {
   const { t, currency } = usePreferences();
   const isMobile = useIsMobile();
   
   // Format currency based on currency preference
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, amountCurrency: string = currency) => {
     return new Intl.NumberFormat('pt-BR', { 
       style: 'currency', 
-      currency: currency 
+      currency: amountCurrency 
     }).format(amount);
   };
 
@@ -52,7 +65,10 @@ const TransactionsTable: React.FC<TransactionsTableProps> = ({ transactions }) =
     <Card>
       <CardHeader>
         <CardTitle>{t('reports.transactionsList')}</CardTitle>
-        <CardDescription>{t('reports.transactionsDescription')}</CardDescription>
+        <CardDescription>
+          {t('reports.transactionsDescription')}
+          {total !== undefined && ` • ${total} ${t('transactions.found')}`}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         {isMobile ? (
@@ -64,17 +80,19 @@ const TransactionsTable: React.FC<TransactionsTableProps> = ({ transactions }) =
                   <div className="flex items-center gap-2">
                     {transaction.type === 'income' ? (
                       <TrendingUp className="h-4 w-4 text-green-500" />
+                    ) : transaction.type === 'transfer' ? (
+                      <ArrowLeftRight className="h-4 w-4 text-blue-500" />
                     ) : (
                       <TrendingDown className="h-4 w-4 text-red-500" />
                     )}
                     <Badge variant={transaction.type === 'income' ? 'default' : 'secondary'}>
-                      {transaction.type === 'income' ? t('common.income') : t('common.expense')}
+                      {transaction.type === 'income' ? t('common.income') : transaction.type === 'transfer' ? t('common.transfer') : t('common.expense')}
                     </Badge>
                   </div>
                   <span className={`font-semibold ${
-                    transaction.type === 'income' ? 'text-green-500' : 'text-red-500'
+                    transaction.type === 'income' ? 'text-green-500' : transaction.type === 'transfer' ? 'text-blue-500' : 'text-red-500'
                   }`}>
-                    {formatCurrency(transaction.amount)}
+                    {formatCurrency(transaction.amount, transaction.currency)}
                   </span>
                 </div>
                 
@@ -83,7 +101,7 @@ const TransactionsTable: React.FC<TransactionsTableProps> = ({ transactions }) =
                     <Calendar className="h-3 w-3" />
                     <span>{new Date(transaction.date).toLocaleDateString('pt-BR')}</span>
                   </div>
-                  <div className="font-medium">{transaction.category}</div>
+                  <div className="font-medium">{getCategoryLabel(transaction)}</div>
                   <div className="flex items-center gap-2 text-muted-foreground">
                     <Wallet className="h-3 w-3" />
                     <span>{getAccountName(transaction)}</span>
@@ -114,15 +132,15 @@ const TransactionsTable: React.FC<TransactionsTableProps> = ({ transactions }) =
                   <tr key={transaction.id} className="border-b hover:bg-muted">
                     <td className="py-2 px-4">{new Date(transaction.date).toLocaleDateString('pt-BR')}</td>
                     <td className="py-2 px-4">
-                      {transaction.type === 'income' ? t('common.income') : t('common.expense')}
+                      {transaction.type === 'income' ? t('common.income') : transaction.type === 'transfer' ? t('common.transfer') : t('common.expense')}
                     </td>
-                    <td className="py-2 px-4">{transaction.category}</td>
+                    <td className="py-2 px-4">{getCategoryLabel(transaction)}</td>
                     <td className="py-2 px-4">{getAccountName(transaction)}</td>
                     <td className="py-2 px-4">{transaction.description}</td>
                     <td className={`py-2 px-4 text-right ${
-                      transaction.type === 'income' ? 'text-green-500' : 'text-red-500'
+                      transaction.type === 'income' ? 'text-green-500' : transaction.type === 'transfer' ? 'text-blue-500' : 'text-red-500'
                     }`}>
-                      {formatCurrency(transaction.amount)}
+                      {formatCurrency(transaction.amount, transaction.currency)}
                     </td>
                   </tr>
                 ))}
@@ -130,6 +148,9 @@ const TransactionsTable: React.FC<TransactionsTableProps> = ({ transactions }) =
             </table>
           </div>
         )}
+        {onLoadMore && (
+          <LoadMoreSentinel hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={onLoadMore} />
+        )}
       </CardContent>
     </Card>
   );
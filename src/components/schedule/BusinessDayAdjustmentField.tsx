@@ -0,0 +1,63 @@
+import React from 'react';
+import { UseFormReturn } from 'react-hook-form';
+import { ScheduledTransactionFormValues } from '@/schemas/scheduledTransactionSchema';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useHolidays } from '@/hooks/useHolidays';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BUSINESS_DAY_ADJUSTMENTS, adjustToBusinessDay, getHoliday } from '@/utils/holidayUtils';
+import { formatRecurrenceDate, toRecurrenceDate } from '@/utils/recurrenceUtils';
+
+interface BusinessDayAdjustmentFieldProps {
+  form: UseFormReturn<ScheduledTransactionFormValues>;
+}
+
+// What happens when an occurrence falls on a weekend or holiday, with the due date the
+// scheduled date actually gets
+const BusinessDayAdjustmentField: React.FC<BusinessDayAdjustmentFieldProps> = ({ form }) => {
+  const { t } = usePreferences();
+  const { formatDate } = useDateFormat();
+  const { holidays } = useHolidays();
+  const scheduledDate = form.watch('scheduledDate');
+  const adjustment = form.watch('businessDayAdjustment');
+
+  const getHint = () => {
+    if (!scheduledDate) return null;
+    const date = toRecurrenceDate(scheduledDate);
+    const dueDate = adjustToBusinessDay(date, adjustment, holidays);
+    if (formatRecurrenceDate(dueDate) === scheduledDate) return null;
+
+    const holiday = getHoliday(date, holidays);
+    return `${holiday ? `${holiday.name}: ` : ''}${t('schedule.dueOn')} ${formatDate(dueDate, 'EEEE, dd/MM/yyyy')}`;
+  };
+  const hint = getHint();
+
+  return (
+    <FormField
+      control={form.control}
+      name="businessDayAdjustment"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{t('schedule.nonBusinessDay')}</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {BUSINESS_DAY_ADJUSTMENTS.map(value => (
+                <SelectItem key={value} value={value}>{t(`schedule.businessDayAdjustment.${value}`)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+          {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+        </FormItem>
+      )}
+    />
+  );
+};
+
+export default BusinessDayAdjustmentField;
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScheduledTransaction } from '@/types';
 import { formatCurrency, createLocalDate } from '@/utils/transactionUtils';
+import { isSettledOccurrence } from '@/utils/recurrenceUtils';
 import { usePreferences } from '@/contexts/PreferencesContext';
 import { Calendar, TrendingUp, AlertCircle, CheckCircle, Clock } from 'lucide-react';
 
@@ -19,7 +20,7 @@ const FixedExpensesOverview: React.FC<FixedExpensesOverviewProps> = ({ scheduled
 
   // Calcular total mensal de despesas fixas (pendentes)
   const monthlyTotal = expenses
-    .filter(transaction => transaction.recurrence === 'monthly' && transaction.status !== 'paid')
+    .filter(transaction => transaction.recurrence === 'monthly' && !isSettledOccurrence(transaction))
     .reduce((total, transaction) => total + transaction.amount, 0);
 
   // Calcular total pago neste mês
@@ -39,21 +40,21 @@ const FixedExpensesOverview: React.FC<FixedExpensesOverviewProps> = ({ scheduled
   nextWeek.setDate(today.getDate() + 7);
 
   const upcomingPayments = expenses.filter(transaction => {
-    if (transaction.status === 'paid') return false;
+    if (isSettledOccurrence(transaction)) return false;
     const transactionDate = createLocalDate(transaction.nextExecutionDate || transaction.scheduledDate);
     return transactionDate >= today && transactionDate <= nextWeek;
   });
 
   // Calcular transações vencidas
   const overdueTransactions = expenses.filter(transaction => {
-    if (transaction.status === 'paid') return false;
+    if (isSettledOccurrence(transaction)) return false;
     const transactionDate = createLocalDate(transaction.nextExecutionDate || transaction.scheduledDate);
     return transactionDate < today;
   });
 
   // Contar por tipo de recorrência
   const recurrenceStats = expenses
-    .filter(transaction => transaction.status !== 'paid')
+    .filter(transaction => !isSettledOccurrence(transaction))
     .reduce((stats, transaction) => {
       const recurrence = transaction.recurrence || 'once';
       stats[recurrence] = (stats[recurrence] || 0) + 1;
@@ -129,7 +130,7 @@ const FixedExpensesOverview: React.FC<FixedExpensesOverviewProps> = ({ scheduled
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">
-            {expenses.filter(t => t.status !== 'paid').length}
+            {expenses.filter(t => !isSettledOccurrence(t)).length}
           </div>
           <div className="flex flex-wrap gap-1 mt-1">
             {Object.entries(recurrenceStats).slice(0, 3).map(([recurrence, count]) => (
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { OccurrenceEditScope } from '@/types';
+
+interface OccurrenceScopeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (scope: OccurrenceEditScope) => void;
+}
+
+const SCOPES: OccurrenceEditScope[] = ['this', 'following', 'all'];
+
+// Asked when saving an occurrence of a recurring series
+const OccurrenceScopeDialog: React.FC<OccurrenceScopeDialogProps> = ({ open, onOpenChange, onSelect }) => {
+  const { t } = usePreferences();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>{t('schedule.editRecurring')}</DialogTitle>
+          <DialogDescription>{t('schedule.editRecurringDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-2">
+          {SCOPES.map(scope => (
+            <Button
+              key={scope}
+              type="button"
+              variant={scope === 'this' ? 'default' : 'outline'}
+              className="justify-start"
+              onClick={() => onSelect(scope)}
+            >
+              {t(`schedule.editScope.${scope}`)}
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OccurrenceScopeDialog;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { UseFormReturn } from 'react-hook-form';
+import { ScheduledTransactionFormValues } from '@/schemas/scheduledTransactionSchema';
+import { useQuery } from '@tanstack/react-query';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { creditCardService } from '@/services/creditCardService';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface PaymentSourceSelectProps {
+  form: UseFormReturn<ScheduledTransactionFormValues>;
+}
+
+// One select for where the money comes from: "none", "account:<id>" or "card:<id>".
+// Cards only pay expenses
+const PaymentSourceSelect: React.FC<PaymentSourceSelectProps> = ({ form }) => {
+  const { t } = usePreferences();
+  const { accounts } = useAccounts();
+  const { data: creditCards } = useQuery({
+    queryKey: ['credit-cards'],
+    queryFn: creditCardService.getAllCards
+  });
+  const type = form.watch('type');
+
+  const activeCreditCards = type === 'expense' ? creditCards?.filter(card => card.is_active) || [] : [];
+
+  return (
+    <FormField
+      control={form.control}
+      name="paymentSource"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{t('schedule.paymentSource')}</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value="none">{t('schedule.noPaymentSource')}</SelectItem>
+              {accounts.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>{t('schedule.accounts')}</SelectLabel>
+                  {accounts.map(account => (
+                    <SelectItem key={account.id} value={`account:${account.id}`}>
+                      {account.name}{account.bank_name ? ` • ${account.bank_name}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+              {activeCreditCards.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>{t('schedule.creditCards')}</SelectLabel>
+                  {activeCreditCards.map(card => (
+                    <SelectItem key={card.id} value={`card:${card.id}`}>
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: card.color }} />
+                        <span>{card.name}</span>
+                        <span className="text-xs text-muted-foreground">•••• {card.last_four_digits}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+          {field.value?.startsWith('card:') && (
+            <p className="text-xs text-muted-foreground">{t('schedule.creditCardHint')}</p>
+          )}
+        </FormItem>
+      )}
+    />
+  );
+};
+
+export default PaymentSourceSelect;
@@ -0,0 +1,225 @@
+import React from 'react';
+import { UseFormReturn } from 'react-hook-form';
+import { ScheduledTransactionFormValues } from '@/schemas/scheduledTransactionSchema';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { RECURRENCE_FREQUENCIES, getWeekdayDate } from '@/utils/recurrenceUtils';
+
+interface RecurrenceRuleFieldsProps {
+  form: UseFormReturn<ScheduledTransactionFormValues>;
+}
+
+// Sunday to Saturday, matching the rule's 0-6 weekday numbers
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const RecurrenceRuleFields: React.FC<RecurrenceRuleFieldsProps> = ({ form }) => {
+  const { t } = usePreferences();
+  const { formatDate } = useDateFormat();
+  const recurrence = form.watch('recurrence');
+  const monthDayMode = form.watch('monthDayMode');
+  const endMode = form.watch('endMode');
+
+  const frequencyField = (
+    <FormField
+      control={form.control}
+      name="recurrence"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{t('schedule.recurrence')}</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder={t('schedule.recurrence')} />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {RECURRENCE_FREQUENCIES.map(frequency => (
+                <SelectItem key={frequency} value={frequency}>{t(`schedule.${frequency}`)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  if (recurrence === 'once') return frequencyField;
+
+  return (
+    <div className="space-y-4 rounded-md border p-3">
+      <div className="grid grid-cols-2 gap-3">
+        {frequencyField}
+
+        <FormField
+          control={form.control}
+          name="interval"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('schedule.repeatEvery')} ({t(`schedule.intervalUnit.${recurrence}`)})</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  {...field}
+                  onChange={e => field.onChange(parseInt(e.target.value, 10))}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      {recurrence === 'weekly' && (
+        <FormField
+          control={form.control}
+          name="weekdays"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('schedule.onWeekdays')}</FormLabel>
+              <FormControl>
+                <ToggleGroup
+                  type="multiple"
+                  variant="outline"
+                  className="flex-wrap justify-start"
+                  value={(field.value as number[]).map(String)}
+                  onValueChange={(values) => field.onChange(values.map(Number))}
+                >
+                  {WEEKDAYS.map(weekday => (
+                    <ToggleGroupItem key={weekday} value={String(weekday)} className="h-8 px-2 text-xs capitalize">
+                      {formatDate(getWeekdayDate(weekday), 'EEE')}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      {recurrence === 'monthly' && (
+        <div className="grid grid-cols-2 gap-3">
+          <FormField
+            control={form.control}
+            name="monthDayMode"
+            render={({ field }) => (
+              <FormItem className={monthDayMode === 'monthDay' || monthDayMode === 'businessDay' ? '' : 'col-span-2'}>
+                <FormLabel>{t('schedule.repeatOn')}</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="monthDay">{t('schedule.dayOfMonth')}</SelectItem>
+                    <SelectItem value="lastDay">{t('schedule.lastDayOfMonth')}</SelectItem>
+                    <SelectItem value="businessDay">{t('schedule.businessDayOfMonth')}</SelectItem>
+                    <SelectItem value="lastBusinessDay">{t('schedule.lastBusinessDay')}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {(monthDayMode === 'monthDay' || monthDayMode === 'businessDay') && (
+            <FormField
+              key={monthDayMode}
+              control={form.control}
+              name={monthDayMode === 'monthDay' ? 'monthDay' : 'businessDay'}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{monthDayMode === 'monthDay' ? t('schedule.day') : t('schedule.businessDayNumber')}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="1"
+                      max={monthDayMode === 'monthDay' ? 31 : 23}
+                      step="1"
+                      {...field}
+                      onChange={e => field.onChange(parseInt(e.target.value, 10))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <FormField
+          control={form.control}
+          name="endMode"
+          render={({ field }) => (
+            <FormItem className={endMode === 'never' ? 'col-span-2' : ''}>
+              <FormLabel>{t('schedule.ends')}</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="never">{t('schedule.endsNever')}</SelectItem>
+                  <SelectItem value="until">{t('schedule.endsOnDate')}</SelectItem>
+                  <SelectItem value="count">{t('schedule.endsAfterCount')}</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {endMode === 'until' && (
+          <FormField
+            control={form.control}
+            name="until"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('schedule.endDate')}</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {endMode === 'count' && (
+          <FormField
+            control={form.control}
+            name="count"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('schedule.occurrences')}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    {...field}
+                    onChange={e => field.onChange(parseInt(e.target.value, 10))}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceRuleFields;
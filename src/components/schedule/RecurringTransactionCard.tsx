@@ -7,30 +7,35 @@ import { ScheduledTransaction } from '@/types';
 import { formatCurrency, createLocalDate } from '@/utils/transactionUtils';
 import { usePreferences } from '@/contexts/PreferencesContext';
 import { useDateFormat } from '@/hooks/useDateFormat';
-import { Calendar, Edit, Trash2, CheckCircle, Clock, AlertTriangle } from 'lucide-react';
+import { Calendar, Edit, Trash2, CheckCircle, Clock, AlertTriangle, CreditCard, Wallet, SkipForward } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import TransactionStatusBadge from './TransactionStatusBadge';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { describeRecurrence, toRecurrenceDate } from '@/utils/recurrenceUtils';
 
 interface RecurringTransactionCardProps {
   transaction: ScheduledTransaction;
   onEdit: (transaction: ScheduledTransaction) => void;
   onDelete: (id: string) => void;
   onMarkAsPaid?: (transaction: ScheduledTransaction) => void;
+  onSkip?: (transaction: ScheduledTransaction) => void;
 }
 
 const RecurringTransactionCard: React.FC<RecurringTransactionCardProps> = ({
   transaction,
   onEdit,
   onDelete,
-  onMarkAsPaid
+  onMarkAsPaid,
+  onSkip
 }) => {
   const { t, currency } = usePreferences();
-  const { formatShortDate } = useDateFormat();
+  const { formatDate, formatShortDate } = useDateFormat();
   const isMobile = useIsMobile();
 
   // Verificar status da transação
   const isPaid = transaction.status === 'paid';
+  const isSkipped = transaction.status === 'skipped';
+  const isRecurring = !!transaction.recurrence && transaction.recurrence !== 'once';
   
   const today = new Date();
   const transactionDate = createLocalDate(transaction.nextExecutionDate || transaction.scheduledDate);
@@ -38,6 +43,8 @@ const RecurringTransactionCard: React.FC<RecurringTransactionCardProps> = ({
   const isUpcoming = daysUntilDue <= 3 && daysUntilDue >= 0;
   const isOverdue = daysUntilDue < 0;
 
+  const recurrenceRule = transaction.recurrenceRule || { frequency: transaction.recurrence || 'once', interval: 1 };
+
   const getRecurrenceColor = (recurrence?: string) => {
     switch (recurrence) {
       case 'monthly': return 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/30 dark:text-blue-200 dark:border-blue-700';
@@ -50,6 +57,7 @@ const RecurringTransactionCard: React.FC<RecurringTransactionCardProps> = ({
 
   const getCardStyle = () => {
     if (isPaid) return 'border-l-green-500 bg-green-50/30 dark:bg-green-900/20';
+    if (isSkipped) return 'border-l-gray-400 bg-gray-50 opacity-75 dark:bg-gray-900/20';
     if (isOverdue) return 'border-l-red-500 bg-red-50 dark:bg-red-900/20';
     if (isUpcoming) return 'border-l-orange-500 bg-orange-50 dark:bg-orange-900/20';
     return 'border-l-blue-500 bg-white dark:bg-card';
@@ -57,6 +65,7 @@ const RecurringTransactionCard: React.FC<RecurringTransactionCardProps> = ({
 
   const getStatusIcon = () => {
     if (isPaid) return <CheckCircle className="h-4 w-4 text-green-600" />;
+    if (isSkipped) return <SkipForward className="h-4 w-4 text-gray-500" />;
     if (isOverdue) return <AlertTriangle className="h-4 w-4 text-red-600" />;
     if (isUpcoming) return <Clock className="h-4 w-4 text-orange-600" />;
     return <Calendar className="h-4 w-4 text-blue-600" />;
@@ -80,12 +89,43 @@ const RecurringTransactionCard: React.FC<RecurringTransactionCardProps> = ({
               </div>
               
               <Badge className={cn("text-xs border", getRecurrenceColor(transaction.recurrence))}>
-                {t(`schedule.${transaction.recurrence || 'once'}`)}
+                {describeRecurrence(recurrenceRule, t, formatDate)}
               </Badge>
+
+              {recurrenceRule.count && transaction.occurrenceNumber && (
+                <Badge variant="outline" className="text-xs">
+                  {transaction.occurrenceNumber}/{recurrenceRule.count}
+                </Badge>
+              )}
               
               <Badge variant="outline" className="text-xs">
                 {transaction.category}
               </Badge>
+
+              {transaction.autoDebit && (
+                <Badge variant="outline" className="text-xs">
+                  {t('schedule.autoDebit')}
+                </Badge>
+              )}
+
+              {transaction.originalDate && (
+                <Badge variant="outline" className="text-xs">
+                  {t('schedule.movedFrom')} {formatShortDate(toRecurrenceDate(transaction.originalDate))}
+                </Badge>
+              )}
+
+              {transaction.originalAmount !== undefined && (
+                <Badge variant="outline" className="text-xs">
+                  {t('schedule.seriesAmount')}: {formatCurrency(transaction.originalAmount, currency)}
+                </Badge>
+              )}
+
+              {(transaction.creditCardName || transaction.accountName) && (
+                <Badge variant="outline" className="text-xs gap-1">
+                  {transaction.creditCardName ? <CreditCard className="h-3 w-3" /> : <Wallet className="h-3 w-3" />}
+                  {transaction.creditCardName || transaction.accountName}
+                </Badge>
+              )}
             </div>
             
             <div className={`flex ${isMobile ? 'flex-col gap-2' : 'items-center justify-between'}`}>
@@ -99,7 +139,20 @@ const RecurringTransactionCard: React.FC<RecurringTransactionCardProps> = ({
               </div>
               
               <div className={`flex items-center ${isMobile ? 'gap-1' : 'gap-2'}`}>
-                {onMarkAsPaid && !isPaid && (
+                {onSkip && isRecurring && !isPaid && !isSkipped && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onSkip(transaction)}
+                    title={t('schedule.skipOccurrence')}
+                    className={isMobile ? 'h-7 px-2 text-xs' : 'h-8 px-3'}
+                  >
+                    <SkipForward className="mr-1 h-3 w-3" />
+                    {t('schedule.skip')}
+                  </Button>
+                )}
+
+                {onMarkAsPaid && !isPaid && !isSkipped && (
                   <Button
                     size={isMobile ? "sm" : "sm"}
                     variant="outline"
@@ -0,0 +1,253 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { addMonths, addWeeks } from 'date-fns';
+import { ChevronLeft, ChevronRight, CreditCard, Target } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAppContext } from '@/contexts/AppContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useAccounts, useAccountBalances } from '@/hooks/useAccounts';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useHolidays } from '@/hooks/useHolidays';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useToast } from '@/hooks/use-toast';
+import { creditCardService } from '@/services/creditCardService';
+import { ScheduledTransaction } from '@/types';
+import { CalendarEvent, CalendarView } from '@/types/calendar';
+import { buildCalendarDays, buildCalendarEvents, getCalendarRange } from '@/utils/calendarUtils';
+import { formatRecurrenceDate, getWeekdayDate, isSettledOccurrence } from '@/utils/recurrenceUtils';
+import { sumAccountBalances, formatCurrency } from '@/utils/transactionUtils';
+import { cn } from '@/lib/utils';
+
+interface ScheduleCalendarProps {
+  scheduledTransactions: ScheduledTransaction[];
+  onSelectTransaction: (transaction: ScheduledTransaction) => void;
+}
+
+// Chips shown per day in the month view before "+N"
+const MONTH_VIEW_EVENTS = 3;
+
+const EVENT_ICONS: Partial<Record<CalendarEvent['kind'], React.ElementType>> = {
+  bill: CreditCard,
+  goal: Target,
+};
+
+// Month or week grid with scheduled transactions, paydays, card bill due dates and goal
+// deadlines, and the projected balance at the end of each day from today on. Open
+// occurrences can be dragged to another day to reschedule them (only that occurrence)
+const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({ scheduledTransactions, onSelectTransaction }) => {
+  const { t, currency } = usePreferences();
+  const { formatDate } = useDateFormat();
+  const { toast } = useToast();
+  const isMobile = useIsMobile();
+  const { goals, updateScheduledTransaction } = useAppContext();
+  const { accounts } = useAccounts();
+  const { balances } = useAccountBalances();
+  const { toBaseCurrency } = useExchangeRates();
+  const { holidays } = useHolidays();
+  const [view, setView] = useState<CalendarView>(isMobile ? 'week' : 'month');
+  const [referenceDate, setReferenceDate] = useState(new Date());
+  const [dragOverDay, setDragOverDay] = useState<string | null>(null);
+
+  const { start, end } = getCalendarRange(view, referenceDate);
+  const from = formatRecurrenceDate(start);
+  const to = formatRecurrenceDate(end);
+
+  const { data: bills = [] } = useQuery({
+    queryKey: ['credit-card-bills', from, to],
+    queryFn: () => creditCardService.getBillsDueBetween(from, to)
+  });
+
+  // Credit card accounts don't hold money: their spending shows up as bills
+  const currentBalance = useMemo(() => sumAccountBalances(
+    accounts.filter(account => account.type !== 'credit_card'),
+    balances,
+    { asOf: formatRecurrenceDate(new Date()), toBaseCurrency }
+  ), [accounts, balances, toBaseCurrency]);
+
+  const days = useMemo(() => {
+    const events = buildCalendarEvents({ scheduledTransactions, bills, goals, until: to, holidays });
+    return buildCalendarDays(start, end, events, currentBalance);
+    // start and end are derived from `from` and `to`
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scheduledTransactions, bills, goals, holidays, from, to, currentBalance]);
+
+  const todayKey = formatRecurrenceDate(new Date());
+  const currentMonth = referenceDate.getMonth();
+
+  const navigate = (step: number) => {
+    setReferenceDate(date => view === 'month' ? addMonths(date, step) : addWeeks(date, step));
+  };
+
+  const isMovable = (event: CalendarEvent) =>
+    !!event.scheduledTransaction && !isSettledOccurrence(event.scheduledTransaction);
+
+  const handleDrop = async (e: React.DragEvent, date: string) => {
+    e.preventDefault();
+    setDragOverDay(null);
+
+    const transaction = scheduledTransactions.find(item => item.id === e.dataTransfer.getData('text/plain'));
+    if (!transaction || transaction.scheduledDate.slice(0, 10) === date) return;
+
+    try {
+      await updateScheduledTransaction(transaction.id, { scheduledDate: new Date(date).toISOString() }, 'this');
+      toast({
+        title: t('schedule.rescheduled'),
+        description: `${transaction.description || transaction.category} • ${formatDate(date)}`
+      });
+    } catch (error) {
+      console.error('Error rescheduling transaction:', error);
+      toast({
+        title: t('common.error'),
+        description: t('common.somethingWentWrong'),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getEventLabel = (event: CalendarEvent) => {
+    switch (event.kind) {
+      case 'bill':
+        return `${t('schedule.billDue')}: ${event.title}`;
+      case 'goal':
+        return `${t('schedule.goalDeadline')}: ${event.title}`;
+      default:
+        return event.title;
+    }
+  };
+
+  const renderEvent = (event: CalendarEvent) => {
+    const Icon = EVENT_ICONS[event.kind];
+    const movable = isMovable(event);
+    const settled = event.scheduledTransaction && isSettledOccurrence(event.scheduledTransaction);
+
+    return (
+      <div
+        key={event.id}
+        draggable={movable}
+        onDragStart={(e) => e.dataTransfer.setData('text/plain', event.id)}
+        onClick={() => event.scheduledTransaction && onSelectTransaction(event.scheduledTransaction)}
+        title={`${getEventLabel(event)} • ${formatCurrency(Math.abs(event.amount), currency)}`}
+        className={cn(
+          'flex items-center gap-1 rounded px-1.5 py-0.5 text-xs truncate border-l-2 bg-muted/60',
+          event.scheduledTransaction && 'cursor-pointer hover:bg-muted',
+          movable && 'cursor-grab active:cursor-grabbing',
+          (event.projected || settled) && 'opacity-60',
+          settled && 'line-through'
+        )}
+        style={{ borderLeftColor: event.color }}
+      >
+        {Icon && <Icon className="h-3 w-3 flex-shrink-0" style={{ color: event.color }} />}
+        <span className="truncate flex-1">{event.title}</span>
+        {event.kind !== 'goal' && (
+          <span className={cn('flex-shrink-0', event.amount > 0 ? 'text-green-600' : 'text-red-600')}>
+            {formatCurrency(Math.abs(event.amount), currency)}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const title = view === 'month'
+    ? formatDate(referenceDate, 'MMMM yyyy')
+    : `${formatDate(start, 'dd MMM')} - ${formatDate(end, 'dd MMM yyyy')}`;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 space-y-0 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => navigate(-1)} aria-label={t('schedule.previous')}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setReferenceDate(new Date())}>
+            {t('schedule.today')}
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => navigate(1)} aria-label={t('schedule.next')}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="ml-2 font-semibold capitalize">{title}</h3>
+        </div>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={view}
+          onValueChange={(value) => value && setView(value as CalendarView)}
+        >
+          <ToggleGroupItem value="month" className="h-8 px-3 text-xs">{t('schedule.monthView')}</ToggleGroupItem>
+          <ToggleGroupItem value="week" className="h-8 px-3 text-xs">{t('schedule.weekView')}</ToggleGroupItem>
+        </ToggleGroup>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <div className="grid grid-cols-7 min-w-[640px] border-t border-l">
+          {Array.from({ length: 7 }, (_, weekday) => (
+            <div key={weekday} className="border-r border-b px-2 py-1 text-xs font-medium text-muted-foreground capitalize">
+              {formatDate(getWeekdayDate(weekday), 'EEE')}
+            </div>
+          ))}
+          {days.map(day => {
+            const dayDate = new Date(`${day.date}T00:00:00`);
+            const visibleEvents = view === 'month' ? day.events.slice(0, MONTH_VIEW_EVENTS) : day.events;
+            const hiddenCount = day.events.length - visibleEvents.length;
+
+            return (
+              <div
+                key={day.date}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDragOverDay(day.date);
+                }}
+                onDragLeave={() => setDragOverDay(current => current === day.date ? null : current)}
+                onDrop={(e) => handleDrop(e, day.date)}
+                className={cn(
+                  'border-r border-b p-1 flex flex-col gap-1',
+                  view === 'month' ? 'min-h-[110px]' : 'min-h-[260px]',
+                  view === 'month' && dayDate.getMonth() !== currentMonth && 'bg-muted/30 text-muted-foreground',
+                  dragOverDay === day.date && 'bg-primary/10'
+                )}
+              >
+                <div className="flex items-center justify-between text-xs">
+                  <span className={cn(
+                    'flex h-6 w-6 items-center justify-center rounded-full',
+                    day.date === todayKey && 'bg-primary text-primary-foreground font-semibold'
+                  )}>
+                    {dayDate.getDate()}
+                  </span>
+                  {day.projectedBalance !== undefined && (
+                    <span
+                      className={cn('font-medium', day.projectedBalance < 0 ? 'text-red-600' : 'text-muted-foreground')}
+                      title={t('schedule.projectedBalance')}
+                    >
+                      {formatCurrency(day.projectedBalance, currency)}
+                    </span>
+                  )}
+                </div>
+                {visibleEvents.map(renderEvent)}
+                {hiddenCount > 0 && (
+                  <button
+                    type="button"
+                    className="text-left text-xs text-muted-foreground hover:underline"
+                    onClick={() => {
+                      setReferenceDate(dayDate);
+                      setView('week');
+                    }}
+                  >
+                    +{hiddenCount} {t('schedule.more')}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <div className="mt-3 flex flex-wrap gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1"><CreditCard className="h-3 w-3" /> {t('schedule.billDue')}</span>
+          <span className="flex items-center gap-1"><Target className="h-3 w-3" /> {t('schedule.goalDeadline')}</span>
+          <span>{t('schedule.projectedBalanceHint')}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScheduleCalendar;
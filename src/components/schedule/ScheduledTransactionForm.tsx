@@ -3,18 +3,108 @@ import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '
 import { Button } from '@/components/ui/button';
 import { usePreferences } from '@/contexts/PreferencesContext';
 import { useAppContext } from '@/contexts/AppContext';
-import { z } from 'zod';
+import { useHolidays } from '@/hooks/useHolidays';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
+import { createScheduledTransactionSchema, ScheduledTransactionFormValues } from '@/schemas/scheduledTransactionSchema';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
-import { ScheduledTransaction } from '@/types';
+import { Switch } from '@/components/ui/switch';
+import { OccurrenceEditScope, RecurrenceRule, ScheduledTransaction } from '@/types';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import ScheduleTransactionTypeSelector from './ScheduleTransactionTypeSelector';
+import RecurrenceRuleFields from './RecurrenceRuleFields';
+import PaymentSourceSelect from './PaymentSourceSelect';
+import BusinessDayAdjustmentField from './BusinessDayAdjustmentField';
+import OccurrenceScopeDialog from './OccurrenceScopeDialog';
 import { getCategoriesByType } from '@/services/categoryService';
 import { Category } from '@/types/categories';
 import CategoryIcon from '@/components/categories/CategoryIcon';
+import {
+  BUSINESS_WEEKDAYS,
+  formatRecurrenceDate,
+  getFirstOccurrence,
+  toRecurrenceDate
+} from '@/utils/recurrenceUtils';
+
+type MonthDayMode = 'monthDay' | 'lastDay' | 'businessDay' | 'lastBusinessDay';
+type EndMode = 'never' | 'until' | 'count';
+
+interface RecurrenceValues {
+  recurrence: RecurrenceRule['frequency'];
+  interval: number;
+  weekdays: number[];
+  monthDayMode: MonthDayMode;
+  monthDay: number;
+  businessDay: number;
+  endMode: EndMode;
+  until: string;
+  count: number;
+}
+
+// Form fields for a rule: what the rule leaves unset follows the scheduled date
+const getRecurrenceValues = (rule: RecurrenceRule | undefined, scheduledDate: string): RecurrenceValues => {
+  const date = toRecurrenceDate(scheduledDate);
+  const isBusinessDayRule = !!rule?.bySetPos;
+  let monthDayMode: MonthDayMode = rule?.byMonthDay === -1 ? 'lastDay' : 'monthDay';
+  if (isBusinessDayRule) monthDayMode = rule.bySetPos === -1 ? 'lastBusinessDay' : 'businessDay';
+
+  return {
+    recurrence: rule?.frequency || 'once',
+    interval: rule?.interval || 1,
+    weekdays: !isBusinessDayRule && rule?.byWeekday?.length ? rule.byWeekday : [date.getDay()],
+    monthDayMode,
+    monthDay: rule?.byMonthDay && rule.byMonthDay > 0 ? rule.byMonthDay : date.getDate(),
+    businessDay: rule?.bySetPos && rule.bySetPos > 0 ? rule.bySetPos : 5,
+    endMode: rule?.count ? 'count' : rule?.until ? 'until' : 'never',
+    until: rule?.until || '',
+    count: rule?.count || 12,
+  };
+};
+
+const buildRecurrenceRule = (values: RecurrenceValues): RecurrenceRule => {
+  const rule: RecurrenceRule = { frequency: values.recurrence, interval: values.interval };
+
+  if (values.recurrence === 'weekly') {
+    rule.byWeekday = values.weekdays;
+  } else if (values.recurrence === 'yearly') {
+    rule.byMonthDay = values.monthDay;
+  } else if (values.recurrence === 'monthly') {
+    switch (values.monthDayMode) {
+      case 'monthDay':
+        rule.byMonthDay = values.monthDay;
+        break;
+      case 'lastDay':
+        rule.byMonthDay = -1;
+        break;
+      case 'businessDay':
+      case 'lastBusinessDay':
+        rule.byWeekday = BUSINESS_WEEKDAYS;
+        rule.bySetPos = values.monthDayMode === 'businessDay' ? values.businessDay : -1;
+        break;
+    }
+  }
+
+  if (values.endMode === 'until') rule.until = values.until;
+  if (values.endMode === 'count') rule.count = values.count;
+  return rule;
+};
+
+// The payment source select holds "none", "account:<id>" or "card:<id>"
+const getPaymentSource = (transaction?: ScheduledTransaction | null): string => {
+  if (transaction?.creditCardId) return `card:${transaction.creditCardId}`;
+  if (transaction?.accountId) return `account:${transaction.accountId}`;
+  return 'none';
+};
+
+const parsePaymentSource = (value: string): Pick<ScheduledTransaction, 'accountId' | 'creditCardId'> => {
+  const [kind, id] = value.split(':');
+  return {
+    accountId: kind === 'account' ? id : undefined,
+    creditCardId: kind === 'card' ? id : undefined,
+  };
+};
 
 interface ScheduledTransactionFormProps {
   open: boolean;
@@ -33,38 +123,35 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
 }) => {
   const { t } = usePreferences();
   const { addScheduledTransaction, updateScheduledTransaction, deleteScheduledTransaction } = useAppContext();
+  const { holidays } = useHolidays();
   const [selectedType, setSelectedType] = useState<'income' | 'expense'>(initialData?.type || 'expense');
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [isOnline] = useState(navigator.onLine);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loadingCategories, setLoadingCategories] = useState(true);
 
-  // Schema for the scheduled transaction form
-  const formSchema = z.object({
-    type: z.enum(['income', 'expense']),
-    description: z.string().min(1, { message: t('validation.required') }),
-    amount: z.number().positive({ message: t('validation.positive') }),
-    category: z.string().min(1, { message: t('validation.required') }),
-    scheduledDate: z.string().min(1, { message: t('validation.required') }),
-    recurrence: z.enum(['once', 'daily', 'weekly', 'monthly', 'yearly']),
-    goalId: z.string().optional(),
-  });
+  const formSchema = createScheduledTransactionSchema(t);
 
   // Default form values
+  const defaultScheduledDate = initialData?.scheduledDate 
+    ? new Date(initialData.scheduledDate).toISOString().split('T')[0] 
+    : new Date().toISOString().split('T')[0];
   const defaultValues = {
     type: initialData?.type || 'expense',
     description: initialData?.description || '',
     amount: initialData?.amount || 0,
     category: initialData?.category_id || '',
-    scheduledDate: initialData?.scheduledDate 
-      ? new Date(initialData.scheduledDate).toISOString().split('T')[0] 
-      : new Date().toISOString().split('T')[0],
-    recurrence: (initialData?.recurrence as 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly') || 'once',
+    scheduledDate: defaultScheduledDate,
+    ...getRecurrenceValues(initialData?.recurrenceRule, defaultScheduledDate),
+    autoDebit: initialData?.autoDebit || false,
+    // Boletos and bills due on a weekend or holiday are paid on the next business day
+    businessDayAdjustment: initialData?.businessDayAdjustment || 'next',
+    paymentSource: getPaymentSource(initialData),
     goalId: initialData?.goalId || undefined,
   };
 
   // Form setup
-  const form = useForm({
+  const form = useForm<ScheduledTransactionFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues,
   });
@@ -109,13 +196,20 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
       setSelectedType(defaultValues.type);
     } else if (open && initialData) {
       // Populate form with initial data when editing
+      const scheduledDate = new Date(initialData.scheduledDate).toISOString().split('T')[0];
       form.reset({
         type: initialData.type,
         description: initialData.description,
         amount: initialData.amount,
         category: initialData.category_id || '',
-        scheduledDate: new Date(initialData.scheduledDate).toISOString().split('T')[0],
-        recurrence: initialData.recurrence || 'once',
+        scheduledDate,
+        ...getRecurrenceValues(
+          initialData.recurrenceRule || (initialData.recurrence && { frequency: initialData.recurrence, interval: 1 }),
+          scheduledDate
+        ),
+        autoDebit: initialData.autoDebit || false,
+        businessDayAdjustment: initialData.businessDayAdjustment || 'none',
+        paymentSource: getPaymentSource(initialData),
         goalId: initialData.goalId,
       });
       setSelectedType(initialData.type);
@@ -126,38 +220,74 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
     setSelectedType(type);
     form.setValue('type', type);
     form.setValue('category', ''); // Reset category when type changes
+    // Income can't go to a credit card
+    if (type === 'income' && form.getValues('paymentSource').startsWith('card:')) {
+      form.setValue('paymentSource', 'none');
+    }
   };
 
-  // Form submission handler
-  const onSubmit = (values: z.infer<typeof formSchema>) => {
+  // A new date moves the day the series repeats on along with it
+  const handleScheduledDateChange = (value: string) => {
+    form.setValue('scheduledDate', value);
+    if (!value) return;
+    const date = toRecurrenceDate(value);
+    form.setValue('monthDay', date.getDate());
+    if (form.getValues('weekdays').length <= 1) {
+      form.setValue('weekdays', [date.getDay()]);
+    }
+  };
+
+  // Saving an open occurrence of a series asks which occurrences the changes apply to
+  const isSeriesOccurrence = !!initialData?.recurrence && initialData.recurrence !== 'once'
+    && initialData.status !== 'paid' && initialData.status !== 'skipped';
+  const [pendingValues, setPendingValues] = useState<ScheduledTransactionFormValues | null>(null);
+
+  const saveTransaction = async (values: ScheduledTransactionFormValues, scope: OccurrenceEditScope = 'this') => {
+    const recurrenceRule = buildRecurrenceRule(values as RecurrenceValues);
+    // The form shows when an occurrence is due; one moved off its series day (by hand or to a
+    // business day) keeps the series day unless its date was changed
+    const seriesDate = isSeriesOccurrence && initialData?.originalDate && values.scheduledDate === defaultScheduledDate
+      ? initialData.originalDate
+      : values.scheduledDate;
+    // The first date has to follow the rule too: "5th business day" from the 1st is a few days
+    // later. A single occurrence of a series goes exactly where it was moved
+    const firstDate = values.recurrence === 'once' || (isSeriesOccurrence && scope === 'this')
+      ? values.scheduledDate
+      : formatRecurrenceDate(getFirstOccurrence(recurrenceRule, toRecurrenceDate(seriesDate), holidays));
+    const paymentSource = parsePaymentSource(values.paymentSource);
+    // Find the selected category to get both name and id
+    const selectedCategory = categories.find(cat => cat.id === values.category);
+
     if (mode === 'create') {
-      // Find the selected category to get both name and id
-      const selectedCategory = categories.find(cat => cat.id === values.category);
-      
-      addScheduledTransaction({
+      await addScheduledTransaction({
         type: values.type,
         description: values.description,
         amount: values.amount,
         category: selectedCategory?.name || 'Outros',
         category_id: values.category,
-        scheduledDate: new Date(values.scheduledDate).toISOString(),
+        scheduledDate: new Date(firstDate).toISOString(),
         recurrence: values.recurrence,
+        recurrenceRule,
+        autoDebit: values.autoDebit,
+        businessDayAdjustment: values.businessDayAdjustment,
+        ...paymentSource,
         goalId: values.goalId,
       });
     } else if (initialData) {
-      // Find the selected category to get both name and id
-      const selectedCategory = categories.find(cat => cat.id === values.category);
-      
-      updateScheduledTransaction(initialData.id, {
+      await updateScheduledTransaction(initialData.id, {
         type: values.type,
         description: values.description,
         amount: values.amount,
         category: selectedCategory?.name || 'Outros',
         category_id: values.category,
-        scheduledDate: new Date(values.scheduledDate).toISOString(),
+        scheduledDate: new Date(firstDate).toISOString(),
         recurrence: values.recurrence,
+        recurrenceRule,
+        autoDebit: values.autoDebit,
+        businessDayAdjustment: values.businessDayAdjustment,
+        ...paymentSource,
         goalId: values.goalId,
-      });
+      }, scope);
     }
     onOpenChange(false);
     // Call onSuccess callback if provided
@@ -166,6 +296,20 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
     }
   };
 
+  // Form submission handler
+  const onSubmit = (values: ScheduledTransactionFormValues) => {
+    if (mode === 'edit' && isSeriesOccurrence) {
+      setPendingValues(values);
+      return;
+    }
+    saveTransaction(values);
+  };
+
+  const handleScopeSelect = (scope: OccurrenceEditScope) => {
+    if (pendingValues) saveTransaction(pendingValues, scope);
+    setPendingValues(null);
+  };
+
   // Delete handler
   const handleDelete = () => {
     if (initialData) {
@@ -266,34 +410,35 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
                   <FormItem>
                     <FormLabel>{t('schedule.scheduledFor')}</FormLabel>
                         <FormControl>
-                      <Input type="date" {...field} />
+                      <Input
+                        type="date"
+                        {...field}
+                        onChange={e => handleScheduledDateChange(e.target.value)}
+                      />
                         </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
               
+              <PaymentSourceSelect form={form} />
+
+              <RecurrenceRuleFields form={form} />
+
+              <BusinessDayAdjustmentField form={form} />
+
               <FormField
                 control={form.control}
-                name="recurrence"
+                name="autoDebit"
                 render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>{t('schedule.recurrence')}</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder={t('schedule.recurrence')} />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="once">{t('schedule.once')}</SelectItem>
-                        <SelectItem value="daily">{t('schedule.daily')}</SelectItem>
-                        <SelectItem value="weekly">{t('schedule.weekly')}</SelectItem>
-                        <SelectItem value="monthly">{t('schedule.monthly')}</SelectItem>
-                        <SelectItem value="yearly">{t('schedule.yearly')}</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
+                  <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3 space-y-0">
+                    <div>
+                      <FormLabel>{t('schedule.autoDebit')}</FormLabel>
+                      <p className="text-xs text-muted-foreground">{t('schedule.autoDebitHint')}</p>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
                   </FormItem>
                 )}
               />
@@ -333,6 +478,12 @@ const ScheduledTransactionForm: React.FC<ScheduledTransactionFormProps> = ({
         </DialogContent>
       </Dialog>
       
+      <OccurrenceScopeDialog
+        open={!!pendingValues}
+        onOpenChange={(isOpen) => !isOpen && setPendingValues(null)}
+        onSelect={handleScopeSelect}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
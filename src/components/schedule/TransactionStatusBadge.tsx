@@ -22,6 +22,15 @@ const TransactionStatusBadge: React.FC<TransactionStatusBadgeProps> = ({ transac
       };
     }
 
+    // Se foi pulado
+    if (transaction.status === 'skipped') {
+      return {
+        variant: 'secondary' as const,
+        text: t('schedule.skipped'),
+        className: 'bg-gray-100 text-gray-500 border-gray-200 line-through dark:bg-gray-800 dark:text-gray-400 dark:border-gray-600'
+      };
+    }
+
     const today = new Date();
     const transactionDate = createLocalDate(transaction.nextExecutionDate || transaction.scheduledDate);
     const daysUntilDue = Math.ceil((transactionDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
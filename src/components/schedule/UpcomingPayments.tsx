@@ -3,10 +3,11 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScheduledTransaction } from '@/types';
 import { formatCurrency, createLocalDate } from '@/utils/transactionUtils';
+import { isSettledOccurrence } from '@/utils/recurrenceUtils';
 import { usePreferences } from '@/contexts/PreferencesContext';
 import { useDateFormat } from '@/hooks/useDateFormat';
 import { Badge } from '@/components/ui/badge';
-import { AlertCircle, Calendar } from 'lucide-react';
+import { AlertCircle, Calendar, CreditCard, Wallet } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
 
 interface UpcomingPaymentsProps {
@@ -30,7 +31,7 @@ const UpcomingPayments: React.FC<UpcomingPaymentsProps> = ({
   const upcomingPayments = scheduledTransactions
     .filter(transaction => {
       const transactionDate = createLocalDate(transaction.scheduledDate);
-      return transactionDate >= today && transactionDate <= nextWeek && transaction.type === 'expense';
+      return transactionDate >= today && transactionDate <= nextWeek && transaction.type === 'expense' && !isSettledOccurrence(transaction);
     })
     .sort((a, b) => createLocalDate(a.scheduledDate).getTime() - createLocalDate(b.scheduledDate).getTime());
 
@@ -100,6 +101,15 @@ const UpcomingPayments: React.FC<UpcomingPaymentsProps> = ({
                     <span>•</span>
                     <span className="truncate">{transaction.category}</span>
                   </div>
+
+                  {(transaction.creditCardName || transaction.accountName) && (
+                    <div className={`flex items-center gap-1 text-muted-foreground mt-1 ${isMobile ? 'text-xs' : 'text-sm'}`}>
+                      {transaction.creditCardName
+                        ? <CreditCard className="h-3 w-3 flex-shrink-0" />
+                        : <Wallet className="h-3 w-3 flex-shrink-0" />}
+                      <span className="truncate">{transaction.creditCardName || transaction.accountName}</span>
+                    </div>
+                  )}
                 </div>
                 
                 <div className="text-right flex-shrink-0 ml-2">
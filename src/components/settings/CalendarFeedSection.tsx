@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CalendarPlus, Copy, Download, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useToast } from '@/hooks/use-toast';
+import {
+  createCalendarFeed,
+  downloadCalendarFile,
+  getCalendarFeed,
+  getCalendarFeedUrl,
+  revokeCalendarFeed
+} from '@/services/calendarFeedService';
+
+const CALENDAR_FEED_QUERY_KEY = ['calendar-feed'];
+
+// Subscription address (.ics feed) for Google/Apple Calendar and a one-off .ics download of
+// scheduled transactions, card bill due dates and goal deadlines
+const CalendarFeedSection: React.FC = () => {
+  const { t } = usePreferences();
+  const { formatDate } = useDateFormat();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [downloading, setDownloading] = useState(false);
+
+  const { data: feed, isLoading } = useQuery({
+    queryKey: CALENDAR_FEED_QUERY_KEY,
+    queryFn: getCalendarFeed
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createCalendarFeed,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: CALENDAR_FEED_QUERY_KEY }),
+    onError: (error: Error) => toast({ title: t('common.error'), description: error.message, variant: 'destructive' })
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeCalendarFeed,
+    onSuccess: (success) => {
+      if (success) {
+        toast({ title: t('calendarFeed.revoked') });
+      } else {
+        toast({ title: t('common.error'), description: t('common.somethingWentWrong'), variant: 'destructive' });
+      }
+      queryClient.invalidateQueries({ queryKey: CALENDAR_FEED_QUERY_KEY });
+    }
+  });
+
+  const feedUrl = feed ? getCalendarFeedUrl(feed.token) : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: t('calendarFeed.copied') });
+    } catch (error) {
+      console.error('Error copying calendar feed URL:', error);
+    }
+  };
+
+  const handleRegenerate = () => {
+    if (!confirm(t('calendarFeed.confirmRegenerate'))) return;
+    createMutation.mutate();
+  };
+
+  const handleRevoke = () => {
+    if (!confirm(t('calendarFeed.confirmRevoke'))) return;
+    revokeMutation.mutate();
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadCalendarFile();
+    } catch (error) {
+      console.error('Error downloading calendar file:', error);
+      toast({ title: t('common.error'), description: error instanceof Error ? error.message : t('common.somethingWentWrong'), variant: 'destructive' });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('calendarFeed.title')}</CardTitle>
+        <CardDescription>{t('calendarFeed.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>{t('calendarFeed.subscription')}</Label>
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : feed ? (
+            <>
+              <div className="flex gap-2">
+                <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+                <Button type="button" variant="outline" size="icon" onClick={handleCopy} aria-label={t('calendarFeed.copy')}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">{t('calendarFeed.subscriptionHint')}</p>
+              <p className="text-xs text-muted-foreground">
+                {feed.lastAccessedAt
+                  ? `${t('calendarFeed.lastAccessed')}: ${formatDate(feed.lastAccessedAt, 'dd/MM/yyyy HH:mm')}`
+                  : t('calendarFeed.neverAccessed')}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={handleRegenerate} disabled={createMutation.isPending}>
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  {t('calendarFeed.regenerate')}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="border-red-200 text-red-600 hover:bg-red-50"
+                  onClick={handleRevoke}
+                  disabled={revokeMutation.isPending}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  {t('calendarFeed.revoke')}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">{t('calendarFeed.noSubscription')}</p>
+              <Button type="button" onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+                {createMutation.isPending
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <CalendarPlus className="mr-2 h-4 w-4" />}
+                {t('calendarFeed.create')}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t('calendarFeed.download')}</Label>
+          <p className="text-xs text-muted-foreground">{t('calendarFeed.downloadHint')}</p>
+          <Button type="button" variant="outline" onClick={handleDownload} disabled={downloading}>
+            {downloading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            {t('calendarFeed.downloadButton')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalendarFeedSection;
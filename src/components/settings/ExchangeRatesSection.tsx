@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { CURRENCIES } from '@/utils/transactionUtils';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useToast } from '@/hooks/use-toast';
+
+const todayKey = () => format(new Date(), 'yyyy-MM-dd');
+
+const ExchangeRatesSection: React.FC = () => {
+  const { t, currency } = usePreferences();
+  const { rates, isLoading, saveRate, deleteRate, isSaving } = useExchangeRates();
+  const { isAdmin } = useUserRole();
+  const { formatDate } = useDateFormat();
+  const { toast } = useToast();
+
+  const [fromCurrency, setFromCurrency] = useState<string>(CURRENCIES.find(code => code !== currency) || 'USD');
+  const [toCurrency, setToCurrency] = useState<string>(currency);
+  const [rate, setRate] = useState('');
+  const [rateDate, setRateDate] = useState(todayKey());
+  const [isGlobal, setIsGlobal] = useState(false);
+
+  const handleSave = async () => {
+    try {
+      await saveRate({
+        fromCurrency,
+        toCurrency,
+        rate: Number(rate),
+        rateDate,
+        isGlobal: isAdmin && isGlobal
+      });
+      setRate('');
+      toast({ title: t('currency.rateSaved') });
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('common.somethingWentWrong'),
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteRate(id);
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('common.somethingWentWrong'),
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>{t('currency.ratesTitle')}</CardTitle>
+        <CardDescription>{t('currency.ratesDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+          <div className="space-y-2">
+            <Label>{t('currency.from')}</Label>
+            <Select value={fromCurrency} onValueChange={setFromCurrency}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map(code => <SelectItem key={code} value={code}>{code}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t('currency.to')}</Label>
+            <Select value={toCurrency} onValueChange={setToCurrency}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map(code => <SelectItem key={code} value={code}>{code}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t('currency.exchangeRate')}</Label>
+            <Input type="number" step="any" min="0" value={rate} onChange={(e) => setRate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('common.date')}</Label>
+            <Input type="date" value={rateDate} onChange={(e) => setRateDate(e.target.value)} />
+          </div>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !(Number(rate) > 0) || !rateDate || fromCurrency === toCurrency}
+          >
+            {t('common.add')}
+          </Button>
+        </div>
+
+        {isAdmin && (
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <Label className="!m-0">{t('currency.globalRate')}</Label>
+              <p className="text-xs text-muted-foreground">{t('currency.globalRateHint')}</p>
+            </div>
+            <Switch checked={isGlobal} onCheckedChange={setIsGlobal} />
+          </div>
+        )}
+
+        {!isLoading && rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('currency.noRates')}</p>
+        ) : (
+          <div className="divide-y">
+            {rates.map(item => (
+              <div key={item.id} className="flex items-center justify-between py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground w-24">{formatDate(item.rateDate)}</span>
+                  <span className="font-medium">1 {item.fromCurrency} = {item.rate} {item.toCurrency}</span>
+                  {item.isGlobal && <Badge variant="secondary">{t('currency.global')}</Badge>}
+                </div>
+                {(!item.isGlobal || isAdmin) && (
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(item.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExchangeRatesSection;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useHolidays } from '@/hooks/useHolidays';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useToast } from '@/hooks/use-toast';
+import { getNationalHolidays } from '@/utils/holidayUtils';
+
+// National holidays of the year (computed, read-only) and the user's municipal/state ones,
+// which due dates also skip
+const HolidaysSection: React.FC = () => {
+  const { t } = usePreferences();
+  const { holidays, isLoading, addHoliday, deleteHoliday, isAdding } = useHolidays();
+  const { formatDate } = useDateFormat();
+  const { toast } = useToast();
+
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+  const [recurring, setRecurring] = useState(true);
+
+  const nationalHolidays = getNationalHolidays(new Date().getFullYear());
+
+  const handleAdd = async () => {
+    try {
+      await addHoliday({ date, name, recurring });
+      setDate('');
+      setName('');
+      toast({ title: t('holidays.added') });
+    } catch (error) {
+      toast({ title: t('common.error'), description: error instanceof Error ? error.message : t('common.somethingWentWrong'), variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHoliday(id);
+    } catch (error) {
+      toast({ title: t('common.error'), description: error instanceof Error ? error.message : t('common.somethingWentWrong'), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>{t('holidays.title')}</CardTitle>
+        <CardDescription>{t('holidays.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-2">
+            <Label>{t('common.date')}</Label>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label>{t('holidays.name')}</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <Button onClick={handleAdd} disabled={isAdding || !date || !name.trim()}>
+            {t('common.add')}
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between rounded-md border p-3">
+          <div>
+            <Label className="!m-0">{t('holidays.recurring')}</Label>
+            <p className="text-xs text-muted-foreground">{t('holidays.recurringHint')}</p>
+          </div>
+          <Switch checked={recurring} onCheckedChange={setRecurring} />
+        </div>
+
+        {!isLoading && holidays.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('holidays.noHolidays')}</p>
+        ) : (
+          <div className="divide-y">
+            {holidays.map(holiday => (
+              <div key={holiday.id} className="flex items-center justify-between py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground w-24">
+                    {formatDate(holiday.date, holiday.recurring ? 'dd/MM' : 'dd/MM/yyyy')}
+                  </span>
+                  <span className="font-medium">{holiday.name}</span>
+                  {holiday.recurring && <Badge variant="secondary">{t('holidays.yearly')}</Badge>}
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(holiday.id!)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>{t('holidays.national')}</Label>
+          <div className="divide-y">
+            {nationalHolidays.map(holiday => (
+              <div key={holiday.date} className="flex items-center gap-2 py-2 text-sm">
+                <span className="text-muted-foreground w-24">{formatDate(holiday.date)}</span>
+                <span>{holiday.name}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HolidaysSection;
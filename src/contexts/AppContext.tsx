@@ -1,10 +1,18 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode, useState, useMemo, useCallback } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, ReactNode, useState, useMemo, useCallback, useRef } from 'react';
+import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
-import { Transaction, Goal, ScheduledTransaction } from '@/types';
+import { Transaction, TransactionType, Goal, ScheduledTransaction, RecurrenceFrequency, OccurrenceEditScope } from '@/types';
 import { setupAuthListener, getCurrentSession } from '@/services/authService';
 import { recalculateGoalAmounts as recalculateGoalAmountsService } from '@/services/goalService';
-import { addTransaction as addTransactionService, updateTransaction as updateTransactionService, deleteTransaction as deleteTransactionService } from '@/services/transactionService';
+import { addTransaction as addTransactionService, updateTransaction as updateTransactionService, deleteTransaction as deleteTransactionService, mapTransactionCurrency } from '@/services/transactionService';
+import { SPLITS_SELECT, mapSplits } from '@/services/transactionSplitService';
+import { ATTACHMENTS_SELECT, mapAttachments } from '@/services/attachmentService';
+import { moveTransactionsToTrash } from '@/services/trashService';
+import { SCHEDULED_TRANSACTION_SELECT, getScheduledTransactions as getScheduledTransactionsService, mapPaymentSource, mapRecurrenceRule, resolveDueDateColumns, toPaymentSourceColumns, toRecurrenceColumns, updateScheduledTransaction as updateScheduledTransactionService } from '@/services/scheduledTransactionService';
 import { useThemeOnLogin } from '@/hooks/useThemeOnLogin';
+import { TRANSACTIONS_QUERY_KEY } from '@/hooks/usePaginatedTransactions';
+import { ACCOUNT_BALANCES_QUERY_KEY } from '@/hooks/useAccounts';
+import { useQueryClient } from '@tanstack/react-query';
 
 // Use database types directly from Supabase
 interface Category {
@@ -97,7 +105,7 @@ interface AppContextType {
   deleteGoal: (id: string) => Promise<void>;
   // Scheduled Transaction actions
   addScheduledTransaction: (transaction: Omit<ScheduledTransaction, 'id' | 'created_at'>) => Promise<void>;
-  updateScheduledTransaction: (id: string, transaction: Partial<ScheduledTransaction>) => Promise<void>;
+  updateScheduledTransaction: (id: string, transaction: Partial<ScheduledTransaction>, scope?: OccurrenceEditScope) => Promise<void>;
   deleteScheduledTransaction: (id: string) => Promise<void>;
 }
 
@@ -203,9 +211,35 @@ function appReducer(state: AppState, action: AppAction): AppState {
   }
 }
 
+// First and last day of the selected time range
+const getTimeRangeBounds = (timeRange: string, customStartDate: Date | null, customEndDate: Date | null) => {
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  if (timeRange === 'custom' && customStartDate && customEndDate) {
+    return { startDate: customStartDate, endDate: customEndDate };
+  }
+
+  const daysAgo = (days: number) => new Date(today.getFullYear(), today.getMonth(), today.getDate() - days);
+  switch (timeRange) {
+    case 'today':
+      return { startDate: today, endDate: today };
+    case 'yesterday':
+      return { startDate: daysAgo(1), endDate: daysAgo(1) };
+    case '7days':
+      return { startDate: daysAgo(6), endDate: today };
+    case '14days':
+      return { startDate: daysAgo(13), endDate: today };
+    case '30days':
+    default:
+      return { startDate: daysAgo(29), endDate: today };
+  }
+};
+
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(appReducer, initialState);
   const [isInitialized, setIsInitialized] = useState(false);
+  const queryClient = useQueryClient();
   
   // Apply light theme on login
   useThemeOnLogin();
@@ -228,20 +262,27 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const transformTransaction = (dbTransaction: any): Transaction => {
     return {
       id: dbTransaction.id,
-      type: dbTransaction.type as 'income' | 'expense',
+      type: dbTransaction.type as TransactionType,
       amount: dbTransaction.amount,
-      category: dbTransaction.category?.name || 'Unknown',
-      categoryIcon: dbTransaction.category?.icon || 'circle',
+      category: dbTransaction.category?.name || (dbTransaction.type === 'transfer' ? 'Transferência' : 'Unknown'),
+      categoryIcon: dbTransaction.category?.icon || (dbTransaction.type === 'transfer' ? 'arrow-left-right' : 'circle'),
       categoryColor: dbTransaction.category?.color || '#607D8B',
       description: dbTransaction.description || '',
       date: dbTransaction.date,
       goalId: dbTransaction.goal_id,
       accountId: dbTransaction.account_id,
       accountName: dbTransaction.account?.name,
+      destinationAccountId: dbTransaction.destination_account_id,
+      destinationAccountName: dbTransaction.destination_account?.name,
       creditCardId: dbTransaction.credit_card_id,
+      splits: mapSplits(dbTransaction.splits),
+      tags: dbTransaction.tags || [],
+      ...mapTransactionCurrency(dbTransaction),
+      attachments: mapAttachments(dbTransaction.attachments),
       category_id: dbTransaction.category_id,
       goal_id: dbTransaction.goal_id,
       account_id: dbTransaction.account_id,
+      destination_account_id: dbTransaction.destination_account_id,
       credit_card_id: dbTransaction.credit_card_id,
       user_id: dbTransaction.user_id,
       created_at: dbTransaction.created_at,
@@ -285,9 +326,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       categoryColor: categoryColor,
       description: dbScheduledTransaction.description || '',
       scheduledDate: dbScheduledTransaction.scheduled_date,
-      recurrence: dbScheduledTransaction.recurrence as 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly',
+      recurrence: dbScheduledTransaction.recurrence as RecurrenceFrequency,
+      recurrenceRule: mapRecurrenceRule(dbScheduledTransaction),
+      occurrenceNumber: dbScheduledTransaction.occurrence_number,
+      originalDate: dbScheduledTransaction.original_date || undefined,
+      originalAmount: dbScheduledTransaction.original_amount ?? undefined,
+      seriesId: dbScheduledTransaction.series_id,
+      autoDebit: dbScheduledTransaction.auto_debit,
+      businessDayAdjustment: dbScheduledTransaction.business_day_adjustment,
+      ...mapPaymentSource(dbScheduledTransaction),
       goalId: dbScheduledTransaction.goal_id,
-      status: dbScheduledTransaction.status as 'pending' | 'paid' | 'overdue' | 'upcoming',
+      status: dbScheduledTransaction.status as 'pending' | 'paid' | 'overdue' | 'upcoming' | 'skipped',
       paidDate: dbScheduledTransaction.paid_date,
       paidAmount: dbScheduledTransaction.paid_amount,
       lastExecutionDate: dbScheduledTransaction.last_execution_date,
@@ -303,61 +352,35 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
   };
 
-  // Filter transactions based on time range
-  const filterTransactionsByTimeRange = (transactions: Transaction[]) => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    
-    let startDate: Date | null = null;
-    let endDate: Date | null = null;
-    
-    if (state.timeRange === 'custom' && state.customStartDate && state.customEndDate) {
-      startDate = state.customStartDate;
-      endDate = state.customEndDate;
-    } else {
-      switch (state.timeRange) {
-        case 'today':
-          startDate = today;
-          endDate = today;
-          break;
-        case 'yesterday':
-          const yesterday = new Date(today);
-          yesterday.setDate(yesterday.getDate() - 1);
-          startDate = yesterday;
-          endDate = yesterday;
-          break;
-        case '7days':
-          const sevenDaysAgo = new Date(today);
-          sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 6);
-          startDate = sevenDaysAgo;
-          endDate = today;
-          break;
-        case '14days':
-          const fourteenDaysAgo = new Date(today);
-          fourteenDaysAgo.setDate(fourteenDaysAgo.getDate() - 13);
-          startDate = fourteenDaysAgo;
-          endDate = today;
-          break;
-        case '30days':
-        default:
-          const thirtyDaysAgo = new Date(today);
-          thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 29);
-          startDate = thirtyDaysAgo;
-          endDate = today;
-          break;
-      }
-    }
-    
-    if (!startDate || !endDate) return transactions;
-    
-    return transactions.filter(transaction => {
-      const transactionDate = new Date(transaction.date);
-      const transactionDateOnly = new Date(transactionDate.getFullYear(), transactionDate.getMonth(), transactionDate.getDate());
-      return transactionDateOnly >= startDate && transactionDateOnly <= endDate;
-    });
+  // Only the transactions of the selected time range are loaded (YYYY-MM-DD bounds). Balances
+  // come from the database (useAccountBalances) and other periods from useTransactionsInRange
+  const { startDate: rangeStartDate, endDate: rangeEndDate } = getTimeRangeBounds(state.timeRange, state.customStartDate, state.customEndDate);
+  const rangeStart = format(rangeStartDate, 'yyyy-MM-dd');
+  const rangeEnd = format(rangeEndDate, 'yyyy-MM-dd');
+  const rangeRef = useRef({ start: rangeStart, end: rangeEnd });
+  rangeRef.current = { start: rangeStart, end: rangeEnd };
+  const loadedRangeRef = useRef<string | null>(null);
+
+  const fetchTransactionsInRange = (userId: string) => {
+    const { start, end } = rangeRef.current;
+    loadedRangeRef.current = `${start}|${end}`;
+    return supabase.from('poupeja_transactions')
+      .select(`
+        *,
+        category:poupeja_categories(id, name, icon, color, type),
+        account:poupeja_accounts!account_id(id, name, type),
+        destination_account:poupeja_accounts!destination_account_id(id, name, type),
+        ${SPLITS_SELECT},
+        ${ATTACHMENTS_SELECT}
+      `)
+      .eq('user_id', userId)
+      .gte('date', start)
+      .lte('date', `${end}T23:59:59`)
+      .order('date', { ascending: false });
   };
 
-  // Update filtered transactions when transactions or time range changes
+  // Update filtered transactions when transactions or time range changes (added or edited
+  // ones may fall outside the loaded range)
   useEffect(() => {
     // console.log('[DEBUG] AppContext: Filtering transactions...', {
     //   totalTransactions: state.transactions.length,
@@ -366,7 +389,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     //   customEndDate: state.customEndDate
     // });
     
-    const filtered = filterTransactionsByTimeRange(state.transactions);
+    const filtered = state.transactions.filter(transaction => {
+      const dateKey = transaction.date.slice(0, 10);
+      return dateKey >= rangeStart && dateKey <= rangeEnd;
+    });
     
     // console.log('[DEBUG] AppContext: Filtered transactions:', {
     //   filteredCount: filtered.length,
@@ -374,7 +400,14 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     // });
     
     dispatch({ type: 'SET_FILTERED_TRANSACTIONS', payload: filtered });
-  }, [state.transactions, state.timeRange, state.customStartDate, state.customEndDate]);
+  }, [state.transactions, rangeStart, rangeEnd]);
+
+  // Paginated lists (usePaginatedTransactions), period queries and account balances refetch
+  // whenever transactions change here
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: TRANSACTIONS_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ACCOUNT_BALANCES_QUERY_KEY });
+  }, [state.transactions, queryClient]);
 
   // Setup auth state listener and initial session check
   useEffect(() => {
@@ -463,22 +496,14 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       }
       
       // Load all data in parallel
+      // Transactions only for the selected time range; list screens (Transações, Relatórios)
+      // page on the server through usePaginatedTransactions
       const [transactionsRes, categoriesRes, goalsRes, scheduledRes] = await Promise.all([
-        supabase.from('poupeja_transactions')
-          .select(`
-            *,
-            category:poupeja_categories(id, name, icon, color, type),
-            account:poupeja_accounts(id, name, type)
-          `)
-          .eq('user_id', user.id)
-          .order('date', { ascending: false }),
+        fetchTransactionsInRange(user.id),
         supabase.from('poupeja_categories').select('*').eq('user_id', user.id),
         supabase.from('poupeja_goals').select('*').eq('user_id', user.id),
         supabase.from('poupeja_scheduled_transactions')
-          .select(`
-            *,
-            category:poupeja_categories(id, name, icon, color, type)
-          `)
+          .select(SCHEDULED_TRANSACTION_SELECT)
           .eq('user_id', user.id)
       ]);
 
@@ -550,15 +575,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       console.log('AppContext: Fetching transactions...');
       const user = await getCurrentUser();
-      const { data, error } = await supabase
-        .from('poupeja_transactions')
-        .select(`
-          *,
-          category:poupeja_categories(id, name, icon, color, type),
-          account:poupeja_accounts(id, name, type)
-        `)
-        .eq('user_id', user.id)
-        .order('date', { ascending: false });
+      const { data, error } = await fetchTransactionsInRange(user.id);
   
       if (error) throw error;
       
@@ -570,7 +587,13 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       console.error('Error fetching transactions:', error);
       throw error;
     }
-  }, []); // Empty dependencies as this function is self-contained
+  }, []); // Empty dependencies: the time range is read from rangeRef
+
+  // Reload when the selected time range changes
+  useEffect(() => {
+    if (!isInitialized || !state.user || loadedRangeRef.current === `${rangeStart}|${rangeEnd}`) return;
+    getTransactions().catch(() => undefined);
+  }, [isInitialized, state.user, rangeStart, rangeEnd, getTransactions]);
 
   const getGoals = useCallback(async (): Promise<Goal[]> => {
     try {
@@ -640,8 +663,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         console.log('AppContext: Transaction added successfully:', result);
         dispatch({ type: 'ADD_TRANSACTION', payload: result });
         
-        // Se a transação estiver associada a uma meta, recalcular os valores das metas
-        if (transaction.goalId) {
+        // Se a transação estiver associada a uma meta (inclusive por uma regra), recalcular os valores das metas
+        if (result.goalId) {
           console.log('AppContext: Recalculating goal amounts...');
           await recalculateGoalAmounts();
         }
@@ -673,8 +696,12 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         date: transaction.date || new Date().toISOString(),
         goalId: transaction.goalId,
         accountId: transaction.accountId || transaction.account_id,
+        destinationAccountId: transaction.destinationAccountId || transaction.destination_account_id,
         creditCardId: transaction.creditCardId || transaction.credit_card_id,
+        splits: transaction.splits,
+        tags: transaction.tags,
         account_id: transaction.account_id,
+        destination_account_id: transaction.destination_account_id,
         credit_card_id: transaction.credit_card_id
       };
       
@@ -705,22 +732,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   
   const deleteTransaction = async (id: string) => {
     try {
-      // Primeiro, obter a transação para verificar se está associada a uma meta
-      const { data: transactionData } = await supabase
-        .from('poupeja_transactions')
-        .select('goal_id')
-        .eq('id', id)
-        .single();
-        
+      // Mover para a lixeira (pode ser restaurada por 30 dias), com comprovantes e divisões
+      const [transactionData] = await moveTransactionsToTrash([id]);
+
       const hasGoal = transactionData?.goal_id;
-      
-      // Agora excluir a transação
-      const { error } = await supabase
-        .from('poupeja_transactions')
-        .delete()
-        .eq('id', id);
-  
-      if (error) throw error;
       dispatch({ type: 'DELETE_TRANSACTION', payload: id });
       
       // Se a transação estava associada a uma meta, recalcular os valores das metas
@@ -865,13 +880,16 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           amount: transaction.amount,
           category_id: transaction.category_id,
           description: transaction.description,
-          scheduled_date: transaction.scheduledDate || transaction.scheduled_date,
-          recurrence: transaction.recurrence,
+          ...await resolveDueDateColumns(transaction.scheduledDate || transaction.scheduled_date || '', transaction.businessDayAdjustment),
+          ...toRecurrenceColumns(transaction),
+          auto_debit: transaction.autoDebit,
+          business_day_adjustment: transaction.businessDayAdjustment,
+          ...toPaymentSourceColumns(transaction),
           goal_id: transaction.goalId || transaction.goal_id,
           status: transaction.status,
           user_id: user.id,
         })
-        .select()
+        .select(SCHEDULED_TRANSACTION_SELECT)
         .single();
   
       if (error) throw error;
@@ -883,27 +901,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const updateScheduledTransaction = async (id: string, transaction: Partial<ScheduledTransaction>) => {
+  // Edits of a whole series (or its following occurrences) touch several rows: reload them all
+  const updateScheduledTransaction = async (id: string, transaction: Partial<ScheduledTransaction>, scope: OccurrenceEditScope = 'this') => {
     try {
-      const { data, error } = await supabase
-        .from('poupeja_scheduled_transactions')
-        .update({
-          type: transaction.type,
-          amount: transaction.amount,
-          category_id: transaction.category_id,
-          description: transaction.description,
-          scheduled_date: transaction.scheduledDate || transaction.scheduled_date,
-          recurrence: transaction.recurrence,
-          goal_id: transaction.goalId || transaction.goal_id,
-          status: transaction.status,
-        })
-        .eq('id', id)
-        .select()
-        .single();
-  
-      if (error) throw error;
-      const transformedTransaction = transformScheduledTransaction(data);
-      dispatch({ type: 'UPDATE_SCHEDULED_TRANSACTION', payload: transformedTransaction });
+      const updated = await updateScheduledTransactionService({ ...transaction, id }, scope);
+      if (!updated) throw new Error('Failed to update scheduled transaction');
+
+      if (scope === 'this') {
+        dispatch({ type: 'UPDATE_SCHEDULED_TRANSACTION', payload: updated });
+      } else {
+        dispatch({ type: 'SET_SCHEDULED_TRANSACTIONS', payload: await getScheduledTransactionsService() });
+      }
     } catch (error) {
       console.error('Error updating scheduled transaction:', error);
       throw error;
@@ -1,12 +1,14 @@
 
 import React, { createContext, useState, useContext, useEffect } from 'react';
 import translations from '@/translations';
+import { Currency } from '@/types';
 
 // Define available language types
 export type Language = 'pt' | 'en';
 
-// Define the Currency type
-export type Currency = 'USD' | 'BRL';
+// Budgets page: monthly limits per category, or envelopes (zero-based: the month's income
+// is assigned to categories)
+export type BudgetMode = 'limits' | 'envelopes';
 
 interface PreferencesContextProps {
   language: Language;
@@ -14,6 +16,8 @@ interface PreferencesContextProps {
   t: (key: string, fallback?: string) => string;
   currency: Currency;
   setCurrency: (currency: Currency) => void;
+  budgetMode: BudgetMode;
+  setBudgetMode: (mode: BudgetMode) => void;
 }
 
 const PreferencesContext = createContext<PreferencesContextProps>({
@@ -22,6 +26,8 @@ const PreferencesContext = createContext<PreferencesContextProps>({
   t: (key: string, fallback?: string) => fallback || key,
   currency: 'BRL',
   setCurrency: () => {},
+  budgetMode: 'limits',
+  setBudgetMode: () => {},
 });
 
 interface PreferencesProviderProps {
@@ -38,6 +44,10 @@ const PreferencesProvider: React.FC<PreferencesProviderProps> = ({ children }) =
     (localStorage.getItem('currency') as Currency) || 'BRL'
   );
 
+  const [budgetMode, setBudgetMode] = useState<BudgetMode>(
+    (localStorage.getItem('budgetMode') as BudgetMode) || 'limits'
+  );
+
   // Save preferences to localStorage when they change
   useEffect(() => {
     localStorage.setItem('language', language);
@@ -47,6 +57,10 @@ const PreferencesProvider: React.FC<PreferencesProviderProps> = ({ children }) =
     localStorage.setItem('currency', currency);
   }, [currency]);
 
+  useEffect(() => {
+    localStorage.setItem('budgetMode', budgetMode);
+  }, [budgetMode]);
+
   // Create translation function that supports multiple languages and fallback
   const t = (key: string, fallback?: string) => {
     const keyParts = key.split('.');
@@ -69,7 +83,9 @@ const PreferencesProvider: React.FC<PreferencesProviderProps> = ({ children }) =
       setLanguage,
       t,
       currency,
-      setCurrency 
+      setCurrency,
+      budgetMode,
+      setBudgetMode
     }}>
       {children}
     </PreferencesContext.Provider>
@@ -1,8 +1,11 @@
+import { format } from 'date-fns';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Account } from '@/types/accounts';
-import { getAccounts, createAccount, setDefaultAccount, deleteAccount, ensureDefaultAccount, updateAccount as svcUpdateAccount } from '@/services/accountService';
+import { Account, AccountBalances, AccountCheckpoint } from '@/types/accounts';
+import { getAccounts, createAccount, setDefaultAccount, deleteAccount, ensureDefaultAccount, updateAccount as svcUpdateAccount, getAccountCheckpoints, createAccountCheckpoint, deleteAccountCheckpoint, getAccountBalances } from '@/services/accountService';
 
 export const ACCOUNTS_QUERY_KEY = ['accounts'];
+export const ACCOUNT_CHECKPOINTS_QUERY_KEY = ['account-checkpoints'];
+export const ACCOUNT_BALANCES_QUERY_KEY = ['account-balances'];
 
 export const useAccounts = () => {
   const qc = useQueryClient();
@@ -16,6 +19,11 @@ export const useAccounts = () => {
     }
   });
 
+  const checkpointsQuery = useQuery<AccountCheckpoint[]>({
+    queryKey: ACCOUNT_CHECKPOINTS_QUERY_KEY,
+    queryFn: getAccountCheckpoints
+  });
+
   const createMut = useMutation({
     mutationFn: createAccount,
     onSuccess: () => qc.invalidateQueries({ queryKey: ACCOUNTS_QUERY_KEY })
@@ -26,6 +34,8 @@ export const useAccounts = () => {
     onSuccess: () => qc.invalidateQueries({ queryKey: ACCOUNTS_QUERY_KEY })
   });
 
+  const invalidateBalances = () => qc.invalidateQueries({ queryKey: ACCOUNT_BALANCES_QUERY_KEY });
+
   const updateMut = useMutation({
     mutationFn: ({ id, payload }: { id: string; payload: Partial<Account> & { is_default?: boolean } }) =>
       svcUpdateAccount(id, {
@@ -34,26 +44,74 @@ export const useAccounts = () => {
         account_number: payload.account_number ?? null,
         agency: payload.agency ?? null,
         type: payload.type,
+        currency: payload.currency,
         is_default: payload.is_default,
+        opening_balance: payload.opening_balance,
+        opening_balance_date: payload.opening_balance_date,
       }),
-    onSuccess: () => qc.invalidateQueries({ queryKey: ACCOUNTS_QUERY_KEY })
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ACCOUNTS_QUERY_KEY });
+      invalidateBalances();
+    }
   });
 
   const deleteMut = useMutation({
     mutationFn: deleteAccount,
-    onSuccess: () => qc.invalidateQueries({ queryKey: ACCOUNTS_QUERY_KEY })
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ACCOUNTS_QUERY_KEY });
+      qc.invalidateQueries({ queryKey: ACCOUNT_CHECKPOINTS_QUERY_KEY });
+      invalidateBalances();
+    }
+  });
+
+  const createCheckpointMut = useMutation({
+    mutationFn: createAccountCheckpoint,
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ACCOUNT_CHECKPOINTS_QUERY_KEY });
+      invalidateBalances();
+    }
+  });
+
+  const deleteCheckpointMut = useMutation({
+    mutationFn: deleteAccountCheckpoint,
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ACCOUNT_CHECKPOINTS_QUERY_KEY });
+      invalidateBalances();
+    }
   });
 
   return {
     ...query,
     accounts: query.data || [],
+    checkpoints: checkpointsQuery.data || [],
     createAccount: createMut.mutateAsync,
     setDefaultAccount: setDefaultMut.mutateAsync,
     deleteAccount: deleteMut.mutateAsync,
     updateAccount: (id: string, payload: Partial<Account> & { is_default?: boolean }) => updateMut.mutateAsync({ id, payload }),
+    createCheckpoint: createCheckpointMut.mutateAsync,
+    deleteCheckpoint: deleteCheckpointMut.mutateAsync,
     isCreating: createMut.isPending,
     isSettingDefault: setDefaultMut.isPending,
     isDeleting: deleteMut.isPending,
     isUpdating: updateMut.isPending,
+    isSavingCheckpoint: createCheckpointMut.isPending,
+  };
+};
+
+const NO_BALANCES: AccountBalances = { byAccount: {}, unassigned: 0 };
+
+// Balances at the end of the day, calculated in the database (get_account_balances) instead of
+// from the whole transaction history. AppContext invalidates them whenever transactions change
+export const useAccountBalances = (asOf: Date = new Date(), beforeAsOfCheckpoints = false) => {
+  const asOfKey = format(asOf, 'yyyy-MM-dd');
+
+  const query = useQuery<AccountBalances>({
+    queryKey: [...ACCOUNT_BALANCES_QUERY_KEY, asOfKey, beforeAsOfCheckpoints],
+    queryFn: () => getAccountBalances(asOfKey, beforeAsOfCheckpoints)
+  });
+
+  return {
+    ...query,
+    balances: query.data || NO_BALANCES
   };
 };
@@ -0,0 +1,183 @@
+import { useEffect, useMemo } from 'react';
+import { format, startOfMonth, endOfMonth, isSameMonth } from 'date-fns';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Budget, BudgetProgress, Envelope, EnvelopeMonthSummary } from '@/types/budgets';
+import { Category } from '@/types/categories';
+import { useAppContext } from '@/contexts/AppContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useToast } from '@/hooks/use-toast';
+import { useTransactionsInRange } from '@/hooks/useTransactionsInRange';
+import { getBudgets, saveBudget, deleteBudget, getCardSpendingByCategory } from '@/services/budgetService';
+import { getEnvelopes, saveEnvelope, copyEnvelopes, sweepEnvelopeLeftovers } from '@/services/envelopeService';
+import { getCategories } from '@/services/categoryService';
+import { calculateBudgetProgress, calculateEnvelopeMonth, getEnvelopeMonth } from '@/utils/budgetUtils';
+
+export const BUDGETS_QUERY_KEY = ['budgets'];
+export const ENVELOPES_QUERY_KEY = ['envelopes'];
+export const BUDGET_CARD_SPENDING_QUERY_KEY = ['budget-card-spending'];
+
+export const useBudgets = () => {
+  const qc = useQueryClient();
+
+  const query = useQuery<Budget[]>({
+    queryKey: BUDGETS_QUERY_KEY,
+    queryFn: getBudgets
+  });
+
+  const categoriesQuery = useQuery<Category[]>({
+    queryKey: ['categories'],
+    queryFn: getCategories
+  });
+
+  const saveMut = useMutation({
+    mutationFn: saveBudget,
+    onSuccess: () => qc.invalidateQueries({ queryKey: BUDGETS_QUERY_KEY })
+  });
+
+  const deleteMut = useMutation({
+    mutationFn: deleteBudget,
+    onSuccess: () => qc.invalidateQueries({ queryKey: BUDGETS_QUERY_KEY })
+  });
+
+  return {
+    ...query,
+    budgets: query.data || [],
+    categories: categoriesQuery.data || [],
+    saveBudget: saveMut.mutateAsync,
+    deleteBudget: deleteMut.mutateAsync,
+    isSaving: saveMut.isPending,
+    isDeleting: deleteMut.isPending,
+  };
+};
+
+// Planned vs actual of every budget in a month, with the committed spending of pending
+// scheduled expenses (AppContext) and unpaid card bills
+export const useBudgetProgress = (month: Date) => {
+  const { scheduledTransactions } = useAppContext();
+  const { budgets, categories, isLoading } = useBudgets();
+
+  const startDate = format(startOfMonth(month), 'yyyy-MM-dd');
+  const endDate = format(endOfMonth(month), 'yyyy-MM-dd');
+  const { transactions, isLoading: isLoadingTransactions } = useTransactionsInRange(startDate, endDate);
+
+  const cardQuery = useQuery({
+    queryKey: [...BUDGET_CARD_SPENDING_QUERY_KEY, startDate],
+    queryFn: () => getCardSpendingByCategory(startDate, endDate),
+    enabled: budgets.length > 0
+  });
+
+  const progress = useMemo<BudgetProgress[]>(() => calculateBudgetProgress({
+    budgets,
+    categories,
+    month,
+    transactions,
+    scheduledTransactions,
+    cardSpending: cardQuery.data
+  }), [budgets, categories, month, transactions, scheduledTransactions, cardQuery.data]);
+
+  return {
+    progress,
+    isLoading: isLoading || isLoadingTransactions || cardQuery.isLoading
+  };
+};
+
+// Envelope balances of a month (envelope mode), with the leftovers rolled over since the
+// first month with envelopes
+export const useEnvelopes = (month: Date) => {
+  const qc = useQueryClient();
+
+  const query = useQuery<Envelope[]>({
+    queryKey: ENVELOPES_QUERY_KEY,
+    queryFn: getEnvelopes
+  });
+
+  const categoriesQuery = useQuery<Category[]>({
+    queryKey: ['categories'],
+    queryFn: getCategories
+  });
+
+  const envelopes = useMemo(() => query.data || [], [query.data]);
+  const monthKey = getEnvelopeMonth(month);
+  const startDate = envelopes.reduce((first, envelope) => (envelope.month < first ? envelope.month : first), monthKey);
+  const endDate = format(endOfMonth(month), 'yyyy-MM-dd');
+
+  const cardQuery = useQuery({
+    queryKey: [...BUDGET_CARD_SPENDING_QUERY_KEY, startDate, endDate],
+    queryFn: () => getCardSpendingByCategory(startDate, endDate),
+    enabled: query.isSuccess
+  });
+  const transactionsQuery = useTransactionsInRange(startDate, endDate, query.isSuccess);
+  const { transactions } = transactionsQuery;
+
+  const summary = useMemo<EnvelopeMonthSummary>(() => calculateEnvelopeMonth({
+    envelopes,
+    categories: categoriesQuery.data || [],
+    month,
+    transactions,
+    cardSpending: cardQuery.data
+  }), [envelopes, categoriesQuery.data, month, transactions, cardQuery.data]);
+
+  const invalidate = () => qc.invalidateQueries({ queryKey: ENVELOPES_QUERY_KEY });
+
+  const saveMut = useMutation({
+    mutationFn: saveEnvelope,
+    onSuccess: invalidate
+  });
+
+  const copyMut = useMutation({
+    mutationFn: ({ from, to }: { from: Envelope[]; to: string }) => copyEnvelopes(from, to),
+    onSuccess: invalidate
+  });
+
+  const sweepMut = useMutation({
+    mutationFn: sweepEnvelopeLeftovers,
+    onSuccess: invalidate
+  });
+
+  return {
+    ...query,
+    envelopes,
+    summary,
+    monthKey,
+    isLoading: query.isLoading || categoriesQuery.isLoading || cardQuery.isLoading || transactionsQuery.isLoading,
+    saveEnvelope: saveMut.mutateAsync,
+    copyEnvelopes: (from: Envelope[], to: string) => copyMut.mutateAsync({ from, to }),
+    sweepLeftovers: sweepMut.mutateAsync,
+    isCopying: copyMut.isPending,
+    isSweeping: sweepMut.isPending,
+  };
+};
+
+const ALERTS_STORAGE_KEY = 'budgetAlerts';
+
+// Toasts once per category and threshold (80% and 100%) when the current month's spending
+// crosses it. Thresholds already shown are remembered in localStorage
+export const useBudgetAlerts = (progress: BudgetProgress[], month: Date) => {
+  const { t } = usePreferences();
+  const { toast } = useToast();
+  const monthKey = format(month, 'yyyy-MM');
+  const isCurrentMonth = isSameMonth(month, new Date());
+
+  useEffect(() => {
+    if (!isCurrentMonth) return;
+
+    const shown: string[] = JSON.parse(localStorage.getItem(ALERTS_STORAGE_KEY) || '[]');
+    const newAlerts = progress.filter(item => item.status !== 'ok' && !shown.includes(`${monthKey}|${item.budget.id}|${item.status}`));
+    if (newAlerts.length === 0) return;
+
+    newAlerts.forEach(item => {
+      toast({
+        title: item.status === 'exceeded' ? t('budgets.exceededTitle') : t('budgets.warningTitle'),
+        description: `${item.category}: ${item.percentage}% ${t('budgets.ofPlanned')}`,
+        variant: item.status === 'exceeded' ? 'destructive' : 'default'
+      });
+    });
+
+    // Keep only the current month's keys so the list doesn't grow forever
+    const keys = newAlerts.map(item => `${monthKey}|${item.budget.id}|${item.status}`);
+    localStorage.setItem(
+      ALERTS_STORAGE_KEY,
+      JSON.stringify([...shown.filter(key => key.startsWith(monthKey)), ...keys])
+    );
+  }, [progress, monthKey, isCurrentMonth, t, toast]);
+};
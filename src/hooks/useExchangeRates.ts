@@ -0,0 +1,52 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ExchangeRate } from '@/types';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { getExchangeRates, saveExchangeRate, deleteExchangeRate, findExchangeRate } from '@/services/exchangeRateService';
+
+export const EXCHANGE_RATES_QUERY_KEY = ['exchange-rates'];
+
+export const useExchangeRates = () => {
+  const qc = useQueryClient();
+  const { currency } = usePreferences();
+
+  const query = useQuery<ExchangeRate[]>({
+    queryKey: EXCHANGE_RATES_QUERY_KEY,
+    queryFn: getExchangeRates
+  });
+  const rates = useMemo(() => query.data || [], [query.data]);
+
+  const saveMut = useMutation({
+    mutationFn: saveExchangeRate,
+    onSuccess: () => qc.invalidateQueries({ queryKey: EXCHANGE_RATES_QUERY_KEY })
+  });
+
+  const deleteMut = useMutation({
+    mutationFn: deleteExchangeRate,
+    onSuccess: () => qc.invalidateQueries({ queryKey: EXCHANGE_RATES_QUERY_KEY })
+  });
+
+  const findRate = useCallback(
+    (from: string, to: string, date?: string) => findExchangeRate(rates, from, to, date),
+    [rates]
+  );
+
+  // Converts an amount to the base currency with the stored rates. Amounts without a known
+  // rate are returned unchanged
+  const toBaseCurrency = useCallback((amount: number, from: string, date?: string) => {
+    const rate = findExchangeRate(rates, from, currency, date);
+    return rate === null ? amount : amount * rate;
+  }, [rates, currency]);
+
+  return {
+    ...query,
+    rates,
+    baseCurrency: currency,
+    findRate,
+    toBaseCurrency,
+    saveRate: saveMut.mutateAsync,
+    deleteRate: deleteMut.mutateAsync,
+    isSaving: saveMut.isPending,
+    isDeleting: deleteMut.isPending,
+  };
+};
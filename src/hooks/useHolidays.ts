@@ -0,0 +1,35 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Holiday } from '@/types';
+import { getHolidays, addHoliday, deleteHoliday } from '@/services/holidayService';
+
+export const HOLIDAYS_QUERY_KEY = ['holidays'];
+
+// The user's municipal and state holidays (national ones come from holidayUtils)
+export const useHolidays = () => {
+  const qc = useQueryClient();
+
+  const query = useQuery<Holiday[]>({
+    queryKey: HOLIDAYS_QUERY_KEY,
+    queryFn: getHolidays
+  });
+  const holidays = useMemo(() => query.data || [], [query.data]);
+
+  const addMut = useMutation({
+    mutationFn: addHoliday,
+    onSuccess: () => qc.invalidateQueries({ queryKey: HOLIDAYS_QUERY_KEY })
+  });
+
+  const deleteMut = useMutation({
+    mutationFn: deleteHoliday,
+    onSuccess: () => qc.invalidateQueries({ queryKey: HOLIDAYS_QUERY_KEY })
+  });
+
+  return {
+    ...query,
+    holidays,
+    addHoliday: addMut.mutateAsync,
+    deleteHoliday: deleteMut.mutateAsync,
+    isAdding: addMut.isPending,
+  };
+};
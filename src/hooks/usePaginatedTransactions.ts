@@ -0,0 +1,42 @@
+import { useCallback } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { Transaction } from '@/types';
+import {
+  getTransactionsPage,
+  TransactionFilters,
+  TransactionSort,
+  TRANSACTIONS_PAGE_SIZE
+} from '@/services/transactionService';
+
+export const TRANSACTIONS_QUERY_KEY = ['transactions'];
+
+const DEFAULT_SORT: TransactionSort = { column: 'date', ascending: false };
+
+// Server-side paginated transactions for list views (infinite scroll).
+// AppContext invalidates TRANSACTIONS_QUERY_KEY whenever transactions change.
+export const usePaginatedTransactions = (
+  filters: TransactionFilters = {},
+  sort: TransactionSort = DEFAULT_SORT,
+  pageSize = TRANSACTIONS_PAGE_SIZE
+) => {
+  const query = useInfiniteQuery({
+    queryKey: [...TRANSACTIONS_QUERY_KEY, filters, sort, pageSize],
+    queryFn: ({ pageParam }) => getTransactionsPage(filters, sort, pageParam, pageSize),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextPage
+  });
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = query;
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const transactions: Transaction[] = query.data?.pages.flatMap(page => page.transactions) || [];
+
+  return {
+    ...query,
+    transactions,
+    total: query.data?.pages[0]?.total ?? 0,
+    loadMore
+  };
+};
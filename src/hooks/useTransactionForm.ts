@@ -2,17 +2,28 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Transaction } from '@/types';
+import { Transaction, TransactionType } from '@/types';
 import { createTransactionSchema, TransactionFormValues } from '@/schemas/transactionSchema';
 import { useAppContext } from '@/contexts/AppContext';
 import { usePreferences } from '@/contexts/PreferencesContext';
 import { getCategoriesByType } from '@/services/categoryService';
+import { deleteAttachments } from '@/services/attachmentService';
+
+// Split lines as form values (category holds the category id, like the main category field)
+const toSplitValues = (transaction?: Transaction) =>
+  (transaction?.splits || []).map(split => ({ category: split.categoryId, amount: split.amount }));
+
+// The recorded rate is only reused while the base currency is the same
+const toCurrencyValues = (transaction: Transaction | undefined, baseCurrency: string) => ({
+  currency: transaction?.currency,
+  exchangeRate: transaction?.baseCurrency === baseCurrency ? transaction?.exchangeRate : undefined,
+});
 
 interface UseTransactionFormProps {
   initialData?: Transaction;
   mode: 'create' | 'edit';
   onComplete: () => void;
-  defaultType?: 'income' | 'expense';
+  defaultType?: TransactionType;
 }
 
 export const useTransactionForm = ({ 
@@ -22,16 +33,17 @@ export const useTransactionForm = ({
   defaultType = 'expense' 
 }: UseTransactionFormProps) => {
   const { addTransaction, updateTransaction, getTransactions, getGoals } = useAppContext();
-  const { t } = usePreferences();
-  const [selectedType, setSelectedType] = useState<'income' | 'expense'>(
+  const { t, currency: baseCurrency } = usePreferences();
+  const [selectedType, setSelectedType] = useState<TransactionType>(
     initialData?.type || defaultType
   );
 
-  const transactionSchema = createTransactionSchema(t);
+  const transactionSchema = createTransactionSchema(t, baseCurrency);
   
   // Get default category for selected type
   const getDefaultCategory = async () => {
     if (initialData?.category_id) return initialData.category_id;
+    if (selectedType === 'transfer') return '';
     const categories = await getCategoriesByType(selectedType);
     return categories.length > 0 ? categories[0].id : '';
   };
@@ -49,15 +61,29 @@ export const useTransactionForm = ({
         : new Date().toISOString().split('T')[0],
       goalId: initialData?.goalId || undefined,
       accountId: initialData?.account_id || '',
+      destinationAccountId: initialData?.destinationAccountId || undefined,
       creditCardId: initialData?.credit_card_id || undefined,
+      splits: toSplitValues(initialData),
+      tags: initialData?.tags || [],
+      attachments: initialData?.attachments || [],
+      ...toCurrencyValues(initialData, baseCurrency),
     },
   });
 
   // Simple type change handler that doesn't cause infinite loops
-  const handleTypeChange = async (type: 'income' | 'expense') => {
+  const handleTypeChange = async (type: TransactionType) => {
     if (type !== selectedType) {
       setSelectedType(type);
       
+      // Split lines belong to categories of the previous type
+      form.setValue('splits', []);
+
+      // Transfers have no category
+      if (type === 'transfer') {
+        form.setValue('category', '', { shouldValidate: true });
+        return;
+      }
+      
       // Update category when type changes
       const categories = await getCategoriesByType(type);
       if (categories.length > 0) {
@@ -71,10 +97,19 @@ export const useTransactionForm = ({
     console.log("Form validation state:", form.formState);
     
     // Convert "none" value and null back to undefined for goalId and creditCardId
+    // Transfers don't carry a category, goal or credit card
+    const isTransfer = values.type === 'transfer';
+    // Split lines replace the single category; the first line becomes the main category
+    const splits = !isTransfer && values.splits?.length
+      ? values.splits.map(split => ({ categoryId: split.category, amount: split.amount }))
+      : undefined;
     const processedValues = {
       ...values,
-      goalId: values.goalId === "none" || values.goalId === null ? undefined : values.goalId,
-      creditCardId: values.creditCardId === "none" || values.creditCardId === null ? undefined : values.creditCardId
+      category: isTransfer ? undefined : splits ? splits[0].categoryId : values.category,
+      splits,
+      goalId: isTransfer || values.goalId === "none" || values.goalId === null ? undefined : values.goalId,
+      creditCardId: isTransfer || values.creditCardId === "none" || values.creditCardId === null ? undefined : values.creditCardId,
+      destinationAccountId: isTransfer ? values.destinationAccountId : undefined
     };
     
     try {
@@ -88,9 +123,18 @@ export const useTransactionForm = ({
           date: new Date(processedValues.date).toISOString(),
           goalId: processedValues.goalId,
           accountId: processedValues.accountId,
+          destinationAccountId: processedValues.destinationAccountId,
           creditCardId: processedValues.creditCardId,
+          splits: processedValues.splits,
+          tags: processedValues.tags || [],
+          attachments: processedValues.attachments,
+          currency: processedValues.currency,
+          exchangeRate: processedValues.exchangeRate,
+          baseCurrency,
           category: '',
         });
+        // Receipts now belong to the saved transaction
+        form.setValue('attachments', []);
         
         console.log("Transaction created successfully, refreshing data...");
       } else if (initialData) {
@@ -104,8 +148,15 @@ export const useTransactionForm = ({
           goalId: processedValues.goalId,
           accountId: processedValues.accountId,
           account_id: processedValues.accountId,
+          destinationAccountId: processedValues.destinationAccountId,
+          destination_account_id: processedValues.destinationAccountId,
           creditCardId: processedValues.creditCardId,
           credit_card_id: processedValues.creditCardId,
+          splits: processedValues.splits,
+          tags: processedValues.tags || [],
+          currency: processedValues.currency,
+          exchangeRate: processedValues.exchangeRate,
+          baseCurrency,
         });
         
         console.log("Transaction updated successfully, refreshing data...");
@@ -147,7 +198,12 @@ export const useTransactionForm = ({
         date: new Date(initialData.date).toISOString().split('T')[0],
         goalId: initialData.goalId,
         accountId: initialData.account_id || initialData.accountId || '',
+        destinationAccountId: initialData.destinationAccountId || initialData.destination_account_id || undefined,
         creditCardId: initialData.credit_card_id || initialData.creditCardId || undefined,
+        splits: toSplitValues(initialData),
+        tags: initialData.tags || [],
+        attachments: initialData.attachments || [],
+        ...toCurrencyValues(initialData, baseCurrency),
       });
     } else {
       setSelectedType(defaultType);
@@ -159,15 +215,34 @@ export const useTransactionForm = ({
         date: new Date().toISOString().split('T')[0],
         goalId: undefined,
         accountId: '',
+        destinationAccountId: undefined,
         creditCardId: undefined,
+        splits: [],
+        tags: [],
+        attachments: [],
+        currency: undefined,
+        exchangeRate: undefined,
       });
     }
   }, [initialData, defaultType]);
 
+  // Receipts uploaded for a new transaction that was never saved
+  const discardPendingAttachments = async () => {
+    if (mode !== 'create') return;
+    const pending = form.getValues('attachments') || [];
+    try {
+      await deleteAttachments(pending);
+      form.setValue('attachments', []);
+    } catch (error) {
+      console.error("Error discarding pending attachments:", error);
+    }
+  };
+
   return {
     form,
     selectedType,
     handleTypeChange,
-    onSubmit
+    onSubmit,
+    discardPendingAttachments
   };
 };
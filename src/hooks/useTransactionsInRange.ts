@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { Transaction } from '@/types';
+import { getTransactions } from '@/services/transactionService';
+import { TRANSACTIONS_QUERY_KEY } from '@/hooks/usePaginatedTransactions';
+
+// Every transaction of a period (YYYY-MM-DD, inclusive), for calculations that need all of them
+// at once (dashboard month, budgets, reports). Keep the period bounded: balances come from
+// useAccountBalances, not from the transaction history.
+// AppContext invalidates TRANSACTIONS_QUERY_KEY whenever transactions change.
+export const useTransactionsInRange = (startDate: string, endDate: string, enabled = true) => {
+  const query = useQuery<Transaction[]>({
+    queryKey: [...TRANSACTIONS_QUERY_KEY, 'range', startDate, endDate],
+    queryFn: () => getTransactions(startDate, endDate),
+    enabled
+  });
+
+  return {
+    ...query,
+    transactions: query.data || []
+  };
+};
@@ -0,0 +1,52 @@
+import React, { useCallback } from 'react';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { restoreDeletedItems } from '@/services/trashService';
+import { TrashItemType } from '@/types';
+
+// Long enough to reach the button after a mis-tap (the default toast lasts 2s)
+const UNDO_TOAST_DURATION = 8000;
+
+interface UndoDeleteOptions {
+  itemType: TrashItemType;
+  itemIds: string[];
+  title: string;
+  description?: string;
+  // Reload whatever lists show the restored items
+  onRestored?: () => void | Promise<unknown>;
+}
+
+// Toast shown right after moving items to the trash, with a "Desfazer" action
+export const useUndoDelete = () => {
+  const { toast } = useToast();
+  const { t } = usePreferences();
+
+  return useCallback(({ itemType, itemIds, title, description, onRestored }: UndoDeleteOptions) => {
+    const handleUndo = async () => {
+      try {
+        await restoreDeletedItems(itemType, itemIds);
+        toast({ title: t('trash.restored') });
+        await onRestored?.();
+      } catch (error) {
+        console.error('Error restoring deleted items:', error);
+        toast({
+          title: t('common.error'),
+          description: (error instanceof Error && error.message) || t('trash.restoreError'),
+          variant: 'destructive',
+        });
+      }
+    };
+
+    toast({
+      title,
+      description: description || t('trash.movedToTrash'),
+      duration: UNDO_TOAST_DURATION,
+      action: (
+        <ToastAction altText={t('trash.undo')} onClick={handleUndo}>
+          {t('trash.undo')}
+        </ToastAction>
+      ),
+    });
+  }, [toast, t]);
+};
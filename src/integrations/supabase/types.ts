@@ -17,6 +17,8 @@ export type Database = {
       credit_card_bills: {
         Row: {
           card_id: string | null
+          carried_amount: number
+          carried_to_bill_id: string | null
           closing_date: string
           created_at: string | null
           due_date: string
@@ -28,6 +30,7 @@ export type Database = {
           opening_date: string
           paid_amount: number
           payment_date: string | null
+          previous_balance: number
           reference_month: number
           reference_year: number
           remaining_amount: number
@@ -37,6 +40,8 @@ export type Database = {
         }
         Insert: {
           card_id?: string | null
+          carried_amount?: number
+          carried_to_bill_id?: string | null
           closing_date: string
           created_at?: string | null
           due_date: string
@@ -48,6 +53,7 @@ export type Database = {
           opening_date: string
           paid_amount?: number
           payment_date?: string | null
+          previous_balance?: number
           reference_month: number
           reference_year: number
           remaining_amount?: number
@@ -57,6 +63,8 @@ export type Database = {
         }
         Update: {
           card_id?: string | null
+          carried_amount?: number
+          carried_to_bill_id?: string | null
           closing_date?: string
           created_at?: string | null
           due_date?: string
@@ -68,6 +76,7 @@ export type Database = {
           opening_date?: string
           paid_amount?: number
           payment_date?: string | null
+          previous_balance?: number
           reference_month?: number
           reference_year?: number
           remaining_amount?: number
@@ -83,6 +92,13 @@ export type Database = {
             referencedRelation: "credit_cards"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "credit_card_bills_carried_to_bill_id_fkey"
+            columns: ["carried_to_bill_id"]
+            isOneToOne: false
+            referencedRelation: "credit_card_bills"
+            referencedColumns: ["id"]
+          },
         ]
       }
       credit_card_installments: {
@@ -192,12 +208,14 @@ export type Database = {
           category_id: string | null
           created_at: string | null
           description: string
+          external_id: string | null
           id: string
           installment_amount: number
           installments: number
           is_installment: boolean | null
           merchant: string | null
           purchase_date: string
+          tags: string[]
           transaction_id: string | null
           updated_at: string | null
         }
@@ -208,12 +226,14 @@ export type Database = {
           category_id?: string | null
           created_at?: string | null
           description: string
+          external_id?: string | null
           id?: string
           installment_amount: number
           installments?: number
           is_installment?: boolean | null
           merchant?: string | null
           purchase_date: string
+          tags?: string[]
           transaction_id?: string | null
           updated_at?: string | null
         }
@@ -224,12 +244,14 @@ export type Database = {
           category_id?: string | null
           created_at?: string | null
           description?: string
+          external_id?: string | null
           id?: string
           installment_amount?: number
           installments?: number
           is_installment?: boolean | null
           merchant?: string | null
           purchase_date?: string
+          tags?: string[]
           transaction_id?: string | null
           updated_at?: string | null
         }
@@ -269,6 +291,7 @@ export type Database = {
           annual_fee: number | null
           available_limit: number
           brand: string
+          business_day_adjustment: string
           closing_day: number
           color: string | null
           created_at: string | null
@@ -287,6 +310,7 @@ export type Database = {
           annual_fee?: number | null
           available_limit?: number
           brand: string
+          business_day_adjustment?: string
           closing_day: number
           color?: string | null
           created_at?: string | null
@@ -305,6 +329,7 @@ export type Database = {
           annual_fee?: number | null
           available_limit?: number
           brand?: string
+          business_day_adjustment?: string
           closing_day?: number
           color?: string | null
           created_at?: string | null
@@ -321,6 +346,44 @@ export type Database = {
         }
         Relationships: []
       }
+      poupeja_account_checkpoints: {
+        Row: {
+          account_id: string
+          balance: number
+          checkpoint_date: string
+          created_at: string
+          id: string
+          notes: string | null
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          balance: number
+          checkpoint_date: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          balance?: number
+          checkpoint_date?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poupeja_account_checkpoints_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "poupeja_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       poupeja_accounts: {
         Row: {
           account_number: string | null
@@ -328,9 +391,12 @@ export type Database = {
           bank_id: string | null
           bank_name: string | null
           created_at: string
+          currency: string
           id: string
           is_default: boolean
           name: string
+          opening_balance: number
+          opening_balance_date: string | null
           type: string
           updated_at: string
           user_id: string
@@ -341,9 +407,12 @@ export type Database = {
           bank_id?: string | null
           bank_name?: string | null
           created_at?: string
+          currency?: string
           id?: string
           is_default?: boolean
           name: string
+          opening_balance?: number
+          opening_balance_date?: string | null
           type?: string
           updated_at?: string
           user_id: string
@@ -354,9 +423,12 @@ export type Database = {
           bank_id?: string | null
           bank_name?: string | null
           created_at?: string
+          currency?: string
           id?: string
           is_default?: boolean
           name?: string
+          opening_balance?: number
+          opening_balance_date?: string | null
           type?: string
           updated_at?: string
           user_id?: string
@@ -398,6 +470,65 @@ export type Database = {
         }
         Relationships: []
       }
+      poupeja_budgets: {
+        Row: {
+          amount: number
+          category_id: string
+          created_at: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category_id: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poupeja_budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "poupeja_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poupeja_calendar_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          last_accessed_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       poupeja_categories: {
         Row: {
           color: string
@@ -431,6 +562,95 @@ export type Database = {
         }
         Relationships: []
       }
+      poupeja_category_rules: {
+        Row: {
+          account_id: string | null
+          category_id: string | null
+          created_at: string
+          credit_card_id: string | null
+          goal_id: string | null
+          id: string
+          is_active: boolean
+          match_type: string
+          max_amount: number | null
+          min_amount: number | null
+          name: string
+          pattern: string
+          priority: number
+          tags: string[]
+          transaction_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          category_id?: string | null
+          created_at?: string
+          credit_card_id?: string | null
+          goal_id?: string | null
+          id?: string
+          is_active?: boolean
+          match_type?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name: string
+          pattern?: string
+          priority?: number
+          tags?: string[]
+          transaction_type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          category_id?: string | null
+          created_at?: string
+          credit_card_id?: string | null
+          goal_id?: string | null
+          id?: string
+          is_active?: boolean
+          match_type?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name?: string
+          pattern?: string
+          priority?: number
+          tags?: string[]
+          transaction_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poupeja_category_rules_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "poupeja_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poupeja_category_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "poupeja_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poupeja_category_rules_credit_card_id_fkey"
+            columns: ["credit_card_id"]
+            isOneToOne: false
+            referencedRelation: "credit_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poupeja_category_rules_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "poupeja_goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       poupeja_customers: {
         Row: {
           created_at: string | null
@@ -455,6 +675,93 @@ export type Database = {
         }
         Relationships: []
       }
+      poupeja_envelopes: {
+        Row: {
+          allocated: number
+          category_id: string
+          created_at: string
+          goal_id: string | null
+          id: string
+          leftover_action: string
+          month: string
+          swept_amount: number
+          swept_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          allocated?: number
+          category_id: string
+          created_at?: string
+          goal_id?: string | null
+          id?: string
+          leftover_action?: string
+          month: string
+          swept_amount?: number
+          swept_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          allocated?: number
+          category_id?: string
+          created_at?: string
+          goal_id?: string | null
+          id?: string
+          leftover_action?: string
+          month?: string
+          swept_amount?: number
+          swept_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poupeja_envelopes_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "poupeja_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poupeja_envelopes_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "poupeja_goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poupeja_exchange_rates: {
+        Row: {
+          created_at: string
+          from_currency: string
+          id: string
+          rate: number
+          rate_date: string
+          to_currency: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          from_currency: string
+          id?: string
+          rate: number
+          rate_date?: string
+          to_currency: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          from_currency?: string
+          id?: string
+          rate?: number
+          rate_date?: string
+          to_currency?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       poupeja_goals: {
         Row: {
           color: string | null
@@ -497,62 +804,207 @@ export type Database = {
         }
         Relationships: []
       }
+      poupeja_holidays: {
+        Row: {
+          created_at: string
+          holiday_date: string
+          id: string
+          name: string
+          recurring: boolean
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          holiday_date: string
+          id?: string
+          name: string
+          recurring?: boolean
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          holiday_date?: string
+          id?: string
+          name?: string
+          recurring?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
+      poupeja_import_profiles: {
+        Row: {
+          created_at: string
+          id: string
+          mapping: Json
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          mapping?: Json
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          mapping?: Json
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      poupeja_record_history: {
+        Row: {
+          action: string
+          card_id: string | null
+          changed_at: string
+          changed_by: string | null
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          record_type: string
+          source: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          card_id?: string | null
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          record_type: string
+          source?: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          card_id?: string | null
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          record_type?: string
+          source?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       poupeja_scheduled_transactions: {
         Row: {
+          account_id: string | null
           amount: number
+          auto_debit: boolean
+          business_day_adjustment: string
           category_id: string | null
           created_at: string | null
+          credit_card_id: string | null
           description: string | null
           goal_id: string | null
           id: string
           last_execution_date: string | null
           next_execution_date: string | null
+          occurrence_number: number
+          original_amount: number | null
+          original_date: string | null
           paid_amount: number | null
           paid_date: string | null
           recurrence: string | null
+          recurrence_by_month_day: number | null
+          recurrence_by_set_pos: number | null
+          recurrence_by_weekday: number[] | null
+          recurrence_count: number | null
+          recurrence_interval: number
+          recurrence_until: string | null
           scheduled_date: string
+          series_id: string
           status: string | null
           type: string
           updated_at: string | null
           user_id: string | null
         }
         Insert: {
+          account_id?: string | null
           amount: number
+          auto_debit?: boolean
+          business_day_adjustment?: string
           category_id?: string | null
           created_at?: string | null
+          credit_card_id?: string | null
           description?: string | null
           goal_id?: string | null
           id?: string
           last_execution_date?: string | null
           next_execution_date?: string | null
+          occurrence_number?: number
+          original_amount?: number | null
+          original_date?: string | null
           paid_amount?: number | null
           paid_date?: string | null
           recurrence?: string | null
+          recurrence_by_month_day?: number | null
+          recurrence_by_set_pos?: number | null
+          recurrence_by_weekday?: number[] | null
+          recurrence_count?: number | null
+          recurrence_interval?: number
+          recurrence_until?: string | null
           scheduled_date: string
+          series_id?: string
           status?: string | null
           type: string
           updated_at?: string | null
           user_id?: string | null
         }
         Update: {
+          account_id?: string | null
           amount?: number
+          auto_debit?: boolean
+          business_day_adjustment?: string
           category_id?: string | null
           created_at?: string | null
+          credit_card_id?: string | null
           description?: string | null
           goal_id?: string | null
           id?: string
           last_execution_date?: string | null
           next_execution_date?: string | null
+          occurrence_number?: number
+          original_amount?: number | null
+          original_date?: string | null
           paid_amount?: number | null
           paid_date?: string | null
           recurrence?: string | null
+          recurrence_by_month_day?: number | null
+          recurrence_by_set_pos?: number | null
+          recurrence_by_weekday?: number[] | null
+          recurrence_count?: number | null
+          recurrence_interval?: number
+          recurrence_until?: string | null
           scheduled_date?: string
+          series_id?: string
           status?: string | null
           type?: string
           updated_at?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "poupeja_scheduled_transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "poupeja_accounts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "poupeja_scheduled_transactions_category_id_fkey"
             columns: ["category_id"]
@@ -560,6 +1012,13 @@ export type Database = {
             referencedRelation: "poupeja_categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "poupeja_scheduled_transactions_credit_card_id_fkey"
+            columns: ["credit_card_id"]
+            isOneToOne: false
+            referencedRelation: "credit_cards"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "poupeja_scheduled_transactions_goal_id_fkey"
             columns: ["goal_id"]
@@ -697,17 +1156,75 @@ export type Database = {
         }
         Relationships: []
       }
+      poupeja_transaction_splits: {
+        Row: {
+          amount: number
+          category_id: string | null
+          created_at: string
+          id: string
+          purchase_id: string | null
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          purchase_id?: string | null
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          purchase_id?: string | null
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poupeja_transaction_splits_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "poupeja_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poupeja_transaction_splits_purchase_id_fkey"
+            columns: ["purchase_id"]
+            isOneToOne: false
+            referencedRelation: "credit_card_purchases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poupeja_transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "poupeja_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       poupeja_transactions: {
         Row: {
           account_id: string | null
           amount: number
+          base_currency: string
           category_id: string | null
           created_at: string | null
           credit_card_id: string | null
+          currency: string
           date: string
+          destination_account_id: string | null
           description: string | null
+          exchange_rate: number
+          external_id: string | null
           goal_id: string | null
           id: string
+          tags: string[]
           type: string
           updated_at: string | null
           user_id: string | null
@@ -715,13 +1232,19 @@ export type Database = {
         Insert: {
           account_id?: string | null
           amount: number
+          base_currency?: string
           category_id?: string | null
           created_at?: string | null
           credit_card_id?: string | null
+          currency?: string
           date: string
+          destination_account_id?: string | null
           description?: string | null
+          exchange_rate?: number
+          external_id?: string | null
           goal_id?: string | null
           id?: string
+          tags?: string[]
           type: string
           updated_at?: string | null
           user_id?: string | null
@@ -729,13 +1252,19 @@ export type Database = {
         Update: {
           account_id?: string | null
           amount?: number
+          base_currency?: string
           category_id?: string | null
           created_at?: string | null
           credit_card_id?: string | null
+          currency?: string
           date?: string
+          destination_account_id?: string | null
           description?: string | null
+          exchange_rate?: number
+          external_id?: string | null
           goal_id?: string | null
           id?: string
+          tags?: string[]
           type?: string
           updated_at?: string | null
           user_id?: string | null
@@ -762,6 +1291,13 @@ export type Database = {
             referencedRelation: "credit_cards"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "poupeja_transactions_destination_account_fk"
+            columns: ["destination_account_id"]
+            isOneToOne: false
+            referencedRelation: "poupeja_accounts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "poupeja_transactions_goal_id_fkey"
             columns: ["goal_id"]
@@ -771,6 +1307,36 @@ export type Database = {
           },
         ]
       }
+      poupeja_trash: {
+        Row: {
+          data: Json
+          deleted_at: string
+          expires_at: string
+          id: string
+          item_id: string
+          item_type: string
+          user_id: string
+        }
+        Insert: {
+          data: Json
+          deleted_at?: string
+          expires_at?: string
+          id?: string
+          item_id: string
+          item_type: string
+          user_id: string
+        }
+        Update: {
+          data?: Json
+          deleted_at?: string
+          expires_at?: string
+          id?: string
+          item_id?: string
+          item_type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       poupeja_uploads: {
         Row: {
           created_at: string | null
@@ -779,7 +1345,10 @@ export type Database = {
           file_size: number | null
           id: string
           mime_type: string | null
+          payment_id: string | null
+          purchase_id: string | null
           purpose: string | null
+          transaction_id: string | null
           user_id: string | null
         }
         Insert: {
@@ -789,7 +1358,10 @@ export type Database = {
           file_size?: number | null
           id?: string
           mime_type?: string | null
+          payment_id?: string | null
+          purchase_id?: string | null
           purpose?: string | null
+          transaction_id?: string | null
           user_id?: string | null
         }
         Update: {
@@ -799,10 +1371,34 @@ export type Database = {
           file_size?: number | null
           id?: string
           mime_type?: string | null
+          payment_id?: string | null
+          purchase_id?: string | null
           purpose?: string | null
+          transaction_id?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "poupeja_uploads_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "credit_card_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poupeja_uploads_purchase_id_fkey"
+            columns: ["purchase_id"]
+            isOneToOne: false
+            referencedRelation: "credit_card_purchases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poupeja_uploads_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "poupeja_transactions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "poupeja_uploads_user_id_fkey"
             columns: ["user_id"]
@@ -868,6 +1464,10 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      adjust_to_business_day: {
+        Args: { adjustment: string; day: string; user_id_param: string }
+        Returns: string
+      }
       auto_generate_credit_card_bills: {
         Args: { card_id_param: string }
         Returns: undefined
@@ -914,11 +1514,24 @@ export type Database = {
         Returns: undefined
       }
       create_update_goal_amount_function: { Args: never; Returns: undefined }
+      credit_card_bill_reference: {
+        Args: { closing_day: number; purchase_date: string }
+        Returns: string
+      }
       decrypt_setting_value: {
         Args: { p_encrypted_value: string }
         Returns: string
       }
+      easter_sunday: { Args: { year_val: number }; Returns: string }
       encrypt_setting_value: { Args: { p_value: string }; Returns: string }
+      find_exchange_rate: {
+        Args: {
+          from_currency_param: string
+          on_date: string
+          to_currency_param: string
+        }
+        Returns: number
+      }
       fix_credit_card_transactions: {
         Args: never
         Returns: {
@@ -931,8 +1544,19 @@ export type Database = {
         Args: { file_extension: string; user_id: string }
         Returns: string
       }
+      get_account_balances: {
+        Args: { as_of?: string; before_as_of_checkpoints?: boolean }
+        Returns: {
+          account_id: string | null
+          balance: number
+        }[]
+      }
       get_default_account_id: { Args: { p_user_id?: string }; Returns: string }
       get_file_public_url: { Args: { file_path: string }; Returns: string }
+      get_or_create_credit_card_bill: {
+        Args: { card_id_param: string; reference: string }
+        Returns: string
+      }
       get_setting: {
         Args: { p_category: string; p_key: string }
         Returns: string
@@ -957,6 +1581,13 @@ export type Database = {
           subscription_id: string
         }[]
       }
+      get_user_tags: {
+        Args: never
+        Returns: {
+          tag: string
+          usage_count: number
+        }[]
+      }
       grant_admin_access_to_user: {
         Args: { target_email: string }
         Returns: boolean
@@ -970,7 +1601,30 @@ export type Database = {
         Returns: boolean
       }
       is_admin: { Args: { user_id?: string }; Returns: boolean }
+      is_business_day: {
+        Args: { day: string; user_id_param: string }
+        Returns: boolean
+      }
       migrate_existing_auth_users: { Args: never; Returns: undefined }
+      process_credit_card_bills: {
+        Args: { card_id_param?: string; today?: string }
+        Returns: {
+          carried_total: number
+          closed_count: number
+          overdue_count: number
+        }[]
+      }
+      rebase_transactions: {
+        Args: { new_base_currency: string }
+        Returns: {
+          missing_count: number
+          updated_count: number
+        }[]
+      }
+      recalculate_credit_card_bill: {
+        Args: { bill_id_param: string; today?: string }
+        Returns: undefined
+      }
       recover_missing_users: {
         Args: never
         Returns: {
@@ -983,7 +1637,10 @@ export type Database = {
           p_file_path: string
           p_file_size?: number
           p_mime_type?: string
+          p_payment_id?: string
+          p_purchase_id?: string
           p_purpose?: string
+          p_transaction_id?: string
         }
         Returns: string
       }
@@ -1004,6 +1661,10 @@ export type Database = {
         }[]
       }
       test_user_creation_system: { Args: never; Returns: string }
+      transaction_category_ids: {
+        Args: { t: Database["public"]["Tables"]["poupeja_transactions"]["Row"] }
+        Returns: string[]
+      }
       update_credit_card_limits: {
         Args: { card_id_param: string }
         Returns: undefined
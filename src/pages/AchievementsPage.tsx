@@ -3,11 +3,35 @@ import React from 'react';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Award, Trophy, Star, TrendingUp } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
 import { useAppContext } from '@/contexts/AppContext';
-import { format } from 'date-fns';
+import { useBudgets, BUDGET_CARD_SPENDING_QUERY_KEY } from '@/hooks/useBudgets';
+import { useTransactionsInRange } from '@/hooks/useTransactionsInRange';
+import { getCardSpendingByCategory } from '@/services/budgetService';
+import { countMonthsWithinBudget } from '@/utils/budgetUtils';
+import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+
+// Consecutive months within budget needed for "Budget Master"
+const BUDGET_MASTER_MONTHS = 3;
 
 const AchievementsPage = () => {
   const { user } = useAppContext();
+  const { budgets, categories } = useBudgets();
+
+  const today = new Date();
+  const budgetStart = format(startOfMonth(subMonths(today, BUDGET_MASTER_MONTHS)), 'yyyy-MM-dd');
+  const budgetEnd = format(endOfMonth(subMonths(today, 1)), 'yyyy-MM-dd');
+  const { data: cardSpending = [] } = useQuery({
+    queryKey: [...BUDGET_CARD_SPENDING_QUERY_KEY, budgetStart, budgetEnd],
+    queryFn: () => getCardSpendingByCategory(budgetStart, budgetEnd),
+    enabled: budgets.length > 0
+  });
+  const { transactions } = useTransactionsInRange(budgetStart, budgetEnd, budgets.length > 0);
+  const monthsWithinBudget = countMonthsWithinBudget(
+    { budgets, categories, transactions, cardSpending },
+    BUDGET_MASTER_MONTHS,
+    today
+  );
 
   const achievementIcons: Record<string, React.ReactNode> = {
     'trophy': <Trophy className="h-6 w-6" />,
@@ -16,12 +40,12 @@ const AchievementsPage = () => {
     'trending-up': <TrendingUp className="h-6 w-6" />
   };
 
-  // Simulate upcoming achievements
+  // Simulate upcoming achievements (Budget Master comes from the real budgets)
   const upcomingAchievements = [
     {
       name: "Budget Master",
       description: "Stay within budget for 3 consecutive months",
-      progress: 66, // 66%
+      progress: Math.round((monthsWithinBudget / BUDGET_MASTER_MONTHS) * 100),
       icon: 'star'
     },
     {
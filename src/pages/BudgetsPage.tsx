@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import SubscriptionGuard from '@/components/subscription/SubscriptionGuard';
+import MonthNavigation from '@/components/common/MonthNavigation';
+import BudgetForm from '@/components/budgets/BudgetForm';
+import BudgetProgressBar from '@/components/budgets/BudgetProgressBar';
+import EnvelopesView from '@/components/budgets/EnvelopesView';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAppContext } from '@/contexts/AppContext';
+import { BudgetMode, usePreferences } from '@/contexts/PreferencesContext';
+import { useToast } from "@/hooks/use-toast";
+import { useBudgets, useBudgetProgress, useBudgetAlerts } from '@/hooks/useBudgets';
+import { formatCurrency } from '@/utils/transactionUtils';
+import { Budget, BudgetProgress } from '@/types/budgets';
+
+const BudgetsPage: React.FC = () => {
+  const { t, currency, budgetMode, setBudgetMode } = usePreferences();
+  const { toast } = useToast();
+  const { hideValues } = useAppContext();
+  const [currentMonth, setCurrentMonth] = useState(new Date());
+  const { budgets, categories, saveBudget, deleteBudget } = useBudgets();
+  const { progress, isLoading } = useBudgetProgress(currentMonth);
+  useBudgetAlerts(progress, currentMonth);
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+  const [budgetToDelete, setBudgetToDelete] = useState<BudgetProgress | null>(null);
+
+  // A category has at most one budget: only the ones without a budget can be added
+  const budgetedCategoryIds = new Set(budgets.map(budget => budget.categoryId));
+  const expenseCategories = categories.filter(category => category.type === 'expense');
+  const formCategories = editingBudget
+    ? expenseCategories.filter(category => category.id === editingBudget.categoryId)
+    : expenseCategories.filter(category => !budgetedCategoryIds.has(category.id));
+
+  const totals = progress.reduce(
+    (acc, item) => ({
+      planned: acc.planned + item.budget.amount,
+      spent: acc.spent + item.spent,
+      committed: acc.committed + item.committed
+    }),
+    { planned: 0, spent: 0, committed: 0 }
+  );
+  const formatValue = (value: number) => (hideValues ? '******' : formatCurrency(value, currency));
+
+  const handleAdd = () => {
+    setEditingBudget(null);
+    setFormOpen(true);
+  };
+
+  const handleEdit = (budget: Budget) => {
+    setEditingBudget(budget);
+    setFormOpen(true);
+  };
+
+  const handleSave = async (budget: Omit<Budget, 'id'>) => {
+    try {
+      await saveBudget(budget);
+      toast({ title: t('budgets.saved') });
+      setFormOpen(false);
+    } catch (error) {
+      console.error('Error saving budget:', error);
+      toast({
+        title: t('common.error'),
+        description: (error instanceof Error && error.message) || t('common.somethingWentWrong'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!budgetToDelete) return;
+    try {
+      await deleteBudget(budgetToDelete.budget.id);
+      toast({ title: t('budgets.deleted'), description: budgetToDelete.category });
+    } catch (error) {
+      console.error('Error deleting budget:', error);
+      toast({
+        title: t('common.error'),
+        description: (error instanceof Error && error.message) || t('common.somethingWentWrong'),
+        variant: "destructive",
+      });
+    } finally {
+      setBudgetToDelete(null);
+    }
+  };
+
+  return (
+    <MainLayout title={t('budgets.title')}>
+      <SubscriptionGuard>
+        <div className="space-y-6 min-h-0">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <h2 className="text-2xl font-bold">{t('budgets.title')}</h2>
+              <p className="text-muted-foreground">{t('budgets.description')}</p>
+            </div>
+            {budgetMode === 'limits' && (
+              <Button onClick={handleAdd}>
+                <Plus className="mr-2 h-4 w-4" /> {t('budgets.add')}
+              </Button>
+            )}
+          </div>
+
+          <Tabs value={budgetMode} onValueChange={(value) => setBudgetMode(value as BudgetMode)} className="w-full">
+            <TabsList className="grid grid-cols-2 w-full sm:w-96">
+              <TabsTrigger value="limits">{t('budgets.limitsMode')}</TabsTrigger>
+              <TabsTrigger value="envelopes">{t('envelopes.title')}</TabsTrigger>
+            </TabsList>
+
+            {/* Each month has its own allocation in envelope mode */}
+            <MonthNavigation currentMonth={currentMonth} onMonthChange={setCurrentMonth} />
+
+            <TabsContent value="envelopes" className="mt-4">
+              <p className="text-sm text-muted-foreground mb-4">{t('envelopes.description')}</p>
+              <EnvelopesView currentMonth={currentMonth} hideValues={hideValues} />
+            </TabsContent>
+
+            <TabsContent value="limits" className="mt-4 space-y-6">
+              {progress.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>{t('budgets.totalPlanned')}</CardDescription>
+                      <CardTitle className="text-2xl">{formatValue(totals.planned)}</CardTitle>
+                    </CardHeader>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>{t('budgets.spent')}</CardDescription>
+                      <CardTitle className="text-2xl">{formatValue(totals.spent)}</CardTitle>
+                    </CardHeader>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription title={t('budgets.committedHint')}>{t('budgets.committed')}</CardDescription>
+                      <CardTitle className="text-2xl">{formatValue(totals.committed)}</CardTitle>
+                    </CardHeader>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>{t('budgets.remaining')}</CardDescription>
+                      <CardTitle className="text-2xl">
+                        {formatValue(totals.planned - totals.spent - totals.committed)}
+                      </CardTitle>
+                    </CardHeader>
+                  </Card>
+                </div>
+              )}
+
+              {!isLoading && progress.length === 0 ? (
+                <Card className="p-8 text-center">
+                  <CardContent>
+                    <p className="font-medium">{t('budgets.noBudgets')}</p>
+                    <p className="mb-4 text-sm text-muted-foreground">{t('budgets.noBudgetsHint')}</p>
+                    <Button onClick={handleAdd}>
+                      <Plus className="mr-2 h-4 w-4" /> {t('budgets.add')}
+                    </Button>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardContent className="p-6 space-y-6">
+                    {progress.map(item => (
+                      <div key={item.budget.id} className="flex items-start gap-2">
+                        <div className="flex-1 min-w-0">
+                          <BudgetProgressBar progress={item} hideValues={hideValues} detailed />
+                        </div>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(item.budget)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setBudgetToDelete(item)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+
+        <BudgetForm
+          open={formOpen}
+          onOpenChange={setFormOpen}
+          categories={formCategories}
+          initialData={editingBudget}
+          onSave={handleSave}
+        />
+
+        <AlertDialog open={!!budgetToDelete} onOpenChange={(open) => !open && setBudgetToDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t('common.confirmDelete')}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {budgetToDelete?.category}: {t('budgets.deleteWarning')}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+              <AlertDialogAction onClick={confirmDelete}>{t('common.delete')}</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </SubscriptionGuard>
+    </MainLayout>
+  );
+};
+
+export default BudgetsPage;
@@ -1,16 +1,18 @@
 
 import React, { useState, useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
 import MainLayout from '@/components/layout/MainLayout';
 import SubscriptionGuard from '@/components/subscription/SubscriptionGuard';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Plus, Trash2, Edit, MoreVertical } from 'lucide-react';
 import { usePreferences } from '@/contexts/PreferencesContext';
-import { Category } from '@/types/categories';
+import { Category, CategoryRule } from '@/types/categories';
 import { getCategoriesByType, addCategory, updateCategory, deleteCategory } from '@/services/categoryService';
 import { useToast } from "@/hooks/use-toast";
 import CategoryForm from '@/components/categories/CategoryForm';
 import CategoryIcon from '@/components/categories/CategoryIcon';
+import CategoryRulesSection from '@/components/categories/CategoryRulesSection';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -31,6 +33,11 @@ import {
 const CategoriesPage: React.FC = () => {
   const { t } = usePreferences();
   const { toast } = useToast();
+  const location = useLocation();
+  // Set by the "create rule" action shown after a transaction is recategorized
+  const [suggestedRule, setSuggestedRule] = useState(
+    () => (location.state as { suggestedRule?: Omit<CategoryRule, 'id'> } | null)?.suggestedRule || null
+  );
   const [categories, setCategories] = useState<Category[]>([]);
   const [categoryFormOpen, setCategoryFormOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
@@ -278,6 +285,11 @@ const CategoriesPage: React.FC = () => {
               </ul>
             </TabsContent>
           </Tabs>
+
+          <CategoryRulesSection
+            suggestedRule={suggestedRule}
+            onSuggestedRuleOpened={() => setSuggestedRule(null)}
+          />
         </div>
 
         <CategoryForm
@@ -13,11 +13,13 @@ import TimeRangeSelector from '@/components/common/TimeRangeSelector';
 import { PieChart as RechartsPieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
 import { formatCurrency } from '@/utils/transactionUtils';
 import { useToast } from '@/components/ui/use-toast';
+import { useUndoDelete } from '@/hooks/useUndoDelete';
 
 const ExpensesPage = () => {
-  const { filteredTransactions, deleteTransaction } = useAppContext();
+  const { filteredTransactions, deleteTransaction, getTransactions, getGoals } = useAppContext();
   const { t, currency } = usePreferences();
   const { toast } = useToast();
+  const showUndoDelete = useUndoDelete();
   const expenses = filteredTransactions.filter(t => t.type === 'expense');
   const [transactionDialogOpen, setTransactionDialogOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<any>(null);
@@ -51,9 +53,11 @@ const ExpensesPage = () => {
   const handleDeleteTransaction = async (id: string) => {
     try {
       await deleteTransaction(id);
-      toast({
+      showUndoDelete({
+        itemType: 'transaction',
+        itemIds: [id],
         title: t('transactions.deleted'),
-        description: t('transactions.deleteSuccess'),
+        onRestored: () => Promise.all([getTransactions(), getGoals()]),
       });
     } catch (error) {
       console.error('Error deleting transaction:', error);
@@ -8,20 +8,24 @@ import DashboardStatCards from '@/components/dashboard/DashboardStatCards';
 import DashboardContent from '@/components/dashboard/DashboardContent';
 import { useAppContext } from '@/contexts/AppContext';
 import { usePreferences } from '@/contexts/PreferencesContext';
-import { calculateTotalIncome, calculateTotalExpenses, calculateMonthlyFinancialData, getGoalsForMonth } from '@/utils/transactionUtils';
+import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { calculateTotalIncome, calculateTotalExpenses, calculateMonthlyFinancialData, getGoalsForMonth, getMonthBalanceDate } from '@/utils/transactionUtils';
 import { useToast } from '@/components/ui/use-toast';
+import { useUndoDelete } from '@/hooks/useUndoDelete';
 import { markAsPaid } from '@/services/scheduledTransactionService';
-import { ScheduledTransaction } from '@/types';
+import { ScheduledTransaction, Transaction } from '@/types';
 import { motion } from 'framer-motion';
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '@/components/ui/select';
-import { useAccounts } from '@/hooks/useAccounts';
+import { useAccounts, useAccountBalances } from '@/hooks/useAccounts';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useTransactionsInRange } from '@/hooks/useTransactionsInRange';
 
 const Index = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const showUndoDelete = useUndoDelete();
   const {
     filteredTransactions,
-    transactions,
     setCustomDateRange,
     goals,
     hideValues,
@@ -40,7 +44,15 @@ const Index = () => {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [currentGoalIndex, setCurrentGoalIndex] = useState(0);
   const { accounts } = useAccounts();
+  const { toBaseCurrency } = useExchangeRates();
   const [selectedAccountId, setSelectedAccountId] = useState<string>('all');
+
+  // Só as transações do mês selecionado; o saldo acumulado vem calculado do banco
+  const { transactions } = useTransactionsInRange(
+    format(startOfMonth(currentMonth), 'yyyy-MM-dd'),
+    format(endOfMonth(currentMonth), 'yyyy-MM-dd')
+  );
+  const { balances } = useAccountBalances(getMonthBalanceDate(currentMonth));
   
   console.log("Dashboard rendered with:", {
     transactionsCount: transactions.length, 
@@ -53,7 +65,11 @@ const Index = () => {
   // Base de transações filtrada pela conta selecionada (quando aplicável)
   const baseTransactions = selectedAccountId === 'all'
     ? transactions
-    : transactions.filter((t: any) => t.accountId === selectedAccountId || t.account_id === selectedAccountId);
+    : transactions.filter((t: Transaction) =>
+        t.accountId === selectedAccountId ||
+        t.account_id === selectedAccountId ||
+        (t.type === 'transfer' && t.destinationAccountId === selectedAccountId)
+      );
   
   // Debug: Log para verificar o filtro
   console.log("Dashboard Filter Debug:", {
@@ -64,7 +80,14 @@ const Index = () => {
   });
   
   // Calcular dados do mês com o filtro de conta aplicado
-  const monthlyData = calculateMonthlyFinancialData(baseTransactions, currentMonth);
+  // O saldo de cada conta parte do último ponto de conciliação (ou do saldo inicial)
+  // e os valores são convertidos para a moeda base
+  const monthlyData = calculateMonthlyFinancialData(baseTransactions, currentMonth, {
+    accountId: selectedAccountId === 'all' ? undefined : selectedAccountId,
+    accounts,
+    balances,
+    toBaseCurrency
+  });
   const monthlyGoals = getGoalsForMonth(goals, currentMonth);
   
   const totalIncome = monthlyData.monthlyIncome;
@@ -123,9 +146,11 @@ const Index = () => {
   const handleDeleteTransaction = async (id: string) => {
     try {
       await deleteTransaction(id);
-      toast({
+      showUndoDelete({
+        itemType: 'transaction',
+        itemIds: [id],
         title: t('transactions.deleted'),
-        description: t('transactions.deleteSuccess'),
+        onRestored: () => Promise.all([getTransactions(), getGoals()]),
       });
       
       // Refresh transactions and goals
@@ -13,6 +13,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
 import { Phone, Camera, Mail, Key, Loader2 } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import CalendarFeedSection from '@/components/settings/CalendarFeedSection';
 
 const ProfilePage = () => {
   const { t } = usePreferences();
@@ -357,6 +358,7 @@ const ProfilePage = () => {
             <TabsList>
               <TabsTrigger value="info">Informações Pessoais</TabsTrigger>
               <TabsTrigger value="password">Senha</TabsTrigger>
+              <TabsTrigger value="calendar">{t('calendarFeed.tab')}</TabsTrigger>
             </TabsList>
             
             <TabsContent value="info">
@@ -513,6 +515,10 @@ const ProfilePage = () => {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="calendar">
+              <CalendarFeedSection />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -1,20 +1,24 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
 import MainLayout from '../components/layout/MainLayout';
 import SubscriptionGuard from '@/components/subscription/SubscriptionGuard';
 import { usePreferences } from '@/contexts/PreferencesContext';
-import { useAppContext } from '@/contexts/AppContext';
+import { useQuery } from '@tanstack/react-query';
 import { ReportFormat } from '@/types';
-import { calculateTotalIncome, calculateTotalExpenses } from '@/utils/transactionUtils';
+import { calculateTotalIncome, calculateTotalExpenses, calculateTagSummaries } from '@/utils/transactionUtils';
 import { generateReportData, downloadCSV, downloadPDF } from '@/utils/reportUtils';
 import { useBrandingConfig } from '@/hooks/useBrandingConfig';
 import ReportFilters from '@/components/reports/ReportFilters';
 import ReportSummary from '@/components/reports/ReportSummary';
 import TransactionsTable from '@/components/reports/TransactionsTable';
+import { usePaginatedTransactions } from '@/hooks/usePaginatedTransactions';
+import { useTransactionsInRange } from '@/hooks/useTransactionsInRange';
+import { TransactionFilters } from '@/services/transactionService';
+import { getUserTags } from '@/services/tagService';
 
 const ReportsPage = () => {
   const { t } = usePreferences();
-  const { transactions } = useAppContext();
   const { companyName } = useBrandingConfig();
   const [reportType, setReportType] = useState<string>('all');
   const [startDate, setStartDate] = useState<Date | undefined>(
@@ -22,10 +26,22 @@ const ReportsPage = () => {
   );
   const [endDate, setEndDate] = useState<Date | undefined>(new Date());
   const [accountId, setAccountId] = useState<string>('all');
+  const [tag, setTag] = useState<string>('all');
+
+  const { data: userTags = [] } = useQuery({
+    queryKey: ['user-tags'],
+    queryFn: getUserTags
+  });
+  const availableTags = useMemo(() => userTags.map(usage => usage.tag).sort(), [userTags]);
+
+  // Só as transações do período do relatório são carregadas
+  const reportStart = startDate ? format(startDate, 'yyyy-MM-dd') : '';
+  const reportEnd = endDate ? format(endDate, 'yyyy-MM-dd') : '';
+  const { transactions } = useTransactionsInRange(reportStart, reportEnd, !!startDate && !!endDate);
 
   const handleDownload = (format: ReportFormat) => {
     // Generate the report data
-    const reportData = generateReportData(transactions, reportType, startDate, endDate, accountId);
+    const reportData = generateReportData(transactions, reportType, startDate, endDate, accountId, tag);
     
     if (format === 'csv') {
       downloadCSV(reportData);
@@ -35,12 +51,23 @@ const ReportsPage = () => {
   };
   
   // Generate filtered transactions for display
-  const filteredTransactions = generateReportData(transactions, reportType, startDate, endDate, accountId);
+  const filteredTransactions = generateReportData(transactions, reportType, startDate, endDate, accountId, tag);
   
   // Calculate summary statistics
   const totalIncome = calculateTotalIncome(filteredTransactions);
   const totalExpenses = calculateTotalExpenses(filteredTransactions);
   const balance = totalIncome - totalExpenses;
+  const tagSummaries = calculateTagSummaries(filteredTransactions);
+
+  // A tabela pagina no servidor com os mesmos filtros do relatório
+  const tableFilters = useMemo<TransactionFilters>(() => ({
+    startDate: reportStart || undefined,
+    endDate: reportEnd || undefined,
+    type: reportType === 'income' ? 'income' : reportType === 'expenses' ? 'expense' : undefined,
+    accountId: accountId !== 'all' ? accountId : undefined,
+    tag: tag !== 'all' ? tag : undefined
+  }), [reportStart, reportEnd, reportType, accountId, tag]);
+  const tablePages = usePaginatedTransactions(tableFilters);
 
   return (
     <MainLayout>
@@ -57,6 +84,9 @@ const ReportsPage = () => {
             setEndDate={setEndDate}
             accountId={accountId}
             setAccountId={setAccountId}
+            tag={tag}
+            setTag={setTag}
+            availableTags={availableTags}
             onDownload={handleDownload}
           />
           
@@ -64,9 +94,16 @@ const ReportsPage = () => {
             totalIncome={totalIncome}
             totalExpenses={totalExpenses}
             balance={balance}
+            tagSummaries={tagSummaries}
           />
           
-          <TransactionsTable transactions={filteredTransactions} />
+          <TransactionsTable
+            transactions={tablePages.transactions}
+            total={tablePages.total}
+            hasMore={tablePages.hasNextPage}
+            isLoadingMore={tablePages.isFetchingNextPage}
+            onLoadMore={tablePages.loadMore}
+          />
         </div>
       </SubscriptionGuard>
     </MainLayout>
@@ -3,7 +3,7 @@ import MainLayout from '@/components/layout/MainLayout';
 import SubscriptionGuard from '@/components/subscription/SubscriptionGuard';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Plus, WifiOff, Filter, X } from 'lucide-react';
+import { Plus, WifiOff, Filter, X, List, CalendarDays } from 'lucide-react';
 import { useAppContext } from '@/contexts/AppContext';
 import { ScheduledTransaction } from '@/types';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
@@ -13,12 +13,15 @@ import TransactionForm from '@/components/common/TransactionForm';
 import FixedExpensesOverview from '@/components/schedule/FixedExpensesOverview';
 import RecurringTransactionCard from '@/components/schedule/RecurringTransactionCard';
 import ScheduleFilters from '@/components/schedule/ScheduleFilters';
+import ScheduleCalendar from '@/components/schedule/ScheduleCalendar';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { deleteScheduledTransaction, getScheduledTransactions, markAsPaid } from '@/services/scheduledTransactionService';
+import { deleteScheduledTransaction, getScheduledTransactions, markAsPaid, skipOccurrence } from '@/services/scheduledTransactionService';
 import { formatCurrency } from '@/utils/transactionUtils';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { describeRecurrence, isSettledOccurrence } from '@/utils/recurrenceUtils';
 import { useIsMobile } from '@/hooks/use-mobile';
 
 const SchedulePage = () => {
@@ -35,6 +38,7 @@ const SchedulePage = () => {
   const [selectedRecurrence, setSelectedRecurrence] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [selectedStatus, setSelectedStatus] = useState<string | null>(null);
+  const [displayMode, setDisplayMode] = useState<'list' | 'calendar'>('list');
   const { t, currency } = usePreferences();
   const { toast } = useToast();
   const isMobile = useIsMobile();
@@ -136,6 +140,24 @@ const SchedulePage = () => {
     }
   };
 
+  const handleSkip = async (transaction: ScheduledTransaction) => {
+    const success = await skipOccurrence(transaction.id);
+    if (success) {
+      toast({
+        title: t('schedule.occurrenceSkipped'),
+        description: t('schedule.occurrenceSkippedDescription')
+      });
+      setIsDialogOpen(false);
+      await refreshLocalScheduledTransactions();
+    } else {
+      toast({
+        title: t('common.error'),
+        description: t('common.somethingWentWrong'),
+        variant: "destructive"
+      });
+    }
+  };
+
   const filteredTransactions = localScheduledTransactions.filter(transaction => {
     if (selectedRecurrence && transaction.recurrence !== selectedRecurrence) return false;
     if (selectedCategory && transaction.category !== selectedCategory) return false;
@@ -153,7 +175,7 @@ const SchedulePage = () => {
   }, {} as Record<string, ScheduledTransaction[]>);
 
   const availableCategories = Array.from(new Set(localScheduledTransactions.map(t => t.category)));
-  const availableStatuses = ['pending', 'paid', 'overdue'];
+  const availableStatuses = ['pending', 'paid', 'overdue', 'skipped'];
 
   return (
     <MainLayout 
@@ -170,7 +192,20 @@ const SchedulePage = () => {
             </div>
             
             <div className="flex gap-2">
-              {isMobile && (
+              <Tabs value={displayMode} onValueChange={(value) => setDisplayMode(value as 'list' | 'calendar')}>
+                <TabsList>
+                  <TabsTrigger value="list" className="flex items-center gap-1">
+                    <List className="h-4 w-4" />
+                    <span className="hidden sm:inline">{t('schedule.listView')}</span>
+                  </TabsTrigger>
+                  <TabsTrigger value="calendar" className="flex items-center gap-1">
+                    <CalendarDays className="h-4 w-4" />
+                    <span className="hidden sm:inline">{t('schedule.calendar')}</span>
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {isMobile && displayMode === 'list' && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -201,8 +236,14 @@ const SchedulePage = () => {
           {/* Overview das Despesas Fixas */}
           <FixedExpensesOverview scheduledTransactions={localScheduledTransactions} />
 
-          {/* Mobile Layout */}
-          {isMobile ? (
+          {displayMode === 'calendar' ? (
+            /* Calendário: despesas, receitas, faturas e metas com o saldo previsto */
+            <ScheduleCalendar
+              scheduledTransactions={localScheduledTransactions}
+              onSelectTransaction={handleSelectTransaction}
+            />
+          ) : isMobile ? (
+            /* Mobile Layout */
             <div className="space-y-4">
               {/* Mobile Filters */}
               {showFilters && (
@@ -240,6 +281,7 @@ const SchedulePage = () => {
                                 onEdit={handleEditTransaction}
                                 onDelete={handleDeleteTransaction}
                                 onMarkAsPaid={handleMarkAsPaid}
+                                onSkip={handleSkip}
                               />
                             ))}
                           </div>
@@ -327,6 +369,7 @@ const SchedulePage = () => {
                                   onEdit={handleEditTransaction}
                                   onDelete={handleDeleteTransaction}
                                   onMarkAsPaid={handleMarkAsPaid}
+                                  onSkip={handleSkip}
                                 />
                               ))}
                             </div>
@@ -380,7 +423,13 @@ const SchedulePage = () => {
                   </div>
                   <div>
                     <p className="text-sm text-muted-foreground">{t('schedule.recurrence')}</p>
-                    <p className="capitalize">{t(`schedule.${selectedTransaction.recurrence || 'once'}`)}</p>
+                    <p>
+                      {describeRecurrence(
+                        selectedTransaction.recurrenceRule || { frequency: selectedTransaction.recurrence || 'once', interval: 1 },
+                        t,
+                        (date, formatString) => format(date, formatString, { locale: ptBR })
+                      )}
+                    </p>
                   </div>
                 </div>
 
@@ -396,6 +445,18 @@ const SchedulePage = () => {
                       {t('schedule.markAsPaid')}
                     </Button>
                   ) : null}
+
+                  {selectedTransaction.recurrence && selectedTransaction.recurrence !== 'once' &&
+                    !isSettledOccurrence(selectedTransaction) && (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleSkip(selectedTransaction)}
+                      disabled={!isOnline}
+                      size={isMobile ? "sm" : "default"}
+                    >
+                      {t('schedule.skipOccurrence')}
+                    </Button>
+                  )}
                   
                   <Button
                     variant="outline"
@@ -3,6 +3,8 @@ import React from 'react';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import PreferencesTab from '@/components/settings/PreferencesTab';
+import ExchangeRatesSection from '@/components/settings/ExchangeRatesSection';
+import HolidaysSection from '@/components/settings/HolidaysSection';
 import { usePreferences } from '@/contexts/PreferencesContext';
 
 const SettingsPage = () => {
@@ -14,6 +16,8 @@ const SettingsPage = () => {
         <h1 className="text-3xl font-bold mb-8">Configurações</h1>
         
         <PreferencesTab />
+        <ExchangeRatesSection />
+        <HolidaysSection />
       </div>
     </MainLayout>
   );
@@ -4,23 +4,51 @@ import MainLayout from '@/components/layout/MainLayout';
 import SubscriptionGuard from '@/components/subscription/SubscriptionGuard';
 import TransactionList from '@/components/common/TransactionList';
 import TransactionForm from '@/components/common/TransactionForm';
+import OFXImportDialog from '@/components/common/OFXImportDialog';
+import CSVImportDialog from '@/components/common/CSVImportDialog';
+import TransactionFiltersBar from '@/components/common/TransactionFiltersBar';
+import TransactionBulkEditDialog from '@/components/common/TransactionBulkEditDialog';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Plus, CheckSquare, Trash2 } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Plus, CheckSquare, Trash2, FileUp, FileSpreadsheet } from 'lucide-react';
 import { useAppContext } from '@/contexts/AppContext';
 import { Transaction } from '@/types';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { cn } from '@/lib/utils';
-import { deleteMultipleTransactions } from '@/services/transactionService';
+import {
+  bulkUpdateTransactions,
+  deleteMultipleTransactions,
+  TransactionBulkChanges,
+  TransactionFilters,
+  TransactionSort
+} from '@/services/transactionService';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { usePaginatedTransactions } from '@/hooks/usePaginatedTransactions';
 import { useToast } from '@/components/ui/use-toast';
+import { useUndoDelete } from '@/hooks/useUndoDelete';
 
 const TransactionsPage = () => {
   const [formOpen, setFormOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [selectionMode, setSelectionMode] = useState(false);
-  const { transactions, deleteTransaction, getTransactions } = useAppContext();
+  const [importOpen, setImportOpen] = useState(false);
+  const [csvImportOpen, setCsvImportOpen] = useState(false);
+  const [filters, setFilters] = useState<TransactionFilters>({});
+  const [sort, setSort] = useState<TransactionSort>({ column: 'date', ascending: false });
+  const [bulkEditIds, setBulkEditIds] = useState<string[]>([]);
+  const { deleteTransaction, getTransactions, getGoals } = useAppContext();
+  const { t } = usePreferences();
+  const {
+    transactions,
+    total,
+    hasNextPage,
+    isFetchingNextPage,
+    loadMore
+  } = usePaginatedTransactions(filters, sort);
   const isMobile = useIsMobile();
   const { toast } = useToast();
+  const showUndoDelete = useUndoDelete();
 
   const handleAddTransaction = () => {
     setEditingTransaction(null);
@@ -32,8 +60,25 @@ const TransactionsPage = () => {
     setFormOpen(true);
   };
 
-  const handleDeleteTransaction = (id: string) => {
-    deleteTransaction(id);
+  const refreshAfterRestore = () => Promise.all([getTransactions(), getGoals()]);
+
+  const handleDeleteTransaction = async (id: string) => {
+    try {
+      await deleteTransaction(id);
+      showUndoDelete({
+        itemType: 'transaction',
+        itemIds: [id],
+        title: t('transactions.deleted'),
+        onRestored: refreshAfterRestore,
+      });
+    } catch (error) {
+      console.error("Error deleting transaction:", error);
+      toast({
+        title: "Erro",
+        description: t('transactions.deleteError'),
+        variant: "destructive",
+      });
+    }
   };
 
   const handleDeleteMultiple = async (ids: string[]) => {
@@ -41,9 +86,12 @@ const TransactionsPage = () => {
       const success = await deleteMultipleTransactions(ids);
       
       if (success) {
-        toast({
+        showUndoDelete({
+          itemType: 'transaction',
+          itemIds: ids,
           title: "Sucesso",
-          description: `${ids.length} transação(ões) excluída(s) com sucesso.`,
+          description: `${ids.length} transação(ões) movida(s) para a lixeira.`,
+          onRestored: refreshAfterRestore,
         });
         
         // Refresh transactions from the context
@@ -65,6 +113,31 @@ const TransactionsPage = () => {
     }
   };
 
+  const handleBulkEdit = async (changes: TransactionBulkChanges) => {
+    try {
+      const { updated, skipped } = await bulkUpdateTransactions(bulkEditIds, changes);
+
+      toast({
+        title: "Sucesso",
+        description: `${updated} ${t('transactions.bulkEdited')}` +
+          (skipped > 0 ? ` (${skipped} ${t('transactions.bulkEditSkipped')})` : ''),
+      });
+
+      setBulkEditIds([]);
+      setSelectionMode(false);
+
+      // Refresh transactions (and goal amounts, recalculated by the service) from the context
+      await Promise.all([getTransactions(), getGoals()]);
+    } catch (error) {
+      console.error("Error bulk editing transactions:", error);
+      toast({
+        title: "Erro",
+        description: "Ocorreu um erro ao editar as transações.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleToggleSelectionMode = () => {
     setSelectionMode(!selectionMode);
   };
@@ -90,6 +163,25 @@ const TransactionsPage = () => {
                 <CheckSquare className="mr-2 h-4 w-4" />
                 {selectionMode ? "Cancelar Seleção" : "Selecionar Múltiplos"}
               </Button>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="lg">
+                    <FileUp className="mr-2 h-4 w-4" />
+                    Importar
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuItem onClick={() => setImportOpen(true)}>
+                    <FileUp className="mr-2 h-4 w-4" />
+                    Extrato OFX
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setCsvImportOpen(true)}>
+                    <FileSpreadsheet className="mr-2 h-4 w-4" />
+                    Planilha CSV
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           )}
           
@@ -101,41 +193,87 @@ const TransactionsPage = () => {
             {isMobile && (
               <div className="flex items-center justify-between mb-4">
                 <h1 className="text-xl font-semibold">Transações</h1>
-                <Button 
-                  onClick={handleToggleSelectionMode} 
-                  variant="outline" 
-                  size="sm"
-                  className={cn(selectionMode && "bg-blue-50 border-blue-300")}
-                >
-                  <CheckSquare className="mr-1 h-4 w-4" />
-                  {selectionMode ? "Cancelar" : "Selecionar"}
-                </Button>
+                <div className="flex items-center gap-2">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        <FileUp className="mr-1 h-4 w-4" />
+                        Importar
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => setImportOpen(true)}>
+                        <FileUp className="mr-2 h-4 w-4" />
+                        Extrato OFX
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setCsvImportOpen(true)}>
+                        <FileSpreadsheet className="mr-2 h-4 w-4" />
+                        Planilha CSV
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button 
+                    onClick={handleToggleSelectionMode} 
+                    variant="outline" 
+                    size="sm"
+                    className={cn(selectionMode && "bg-blue-50 border-blue-300")}
+                  >
+                    <CheckSquare className="mr-1 h-4 w-4" />
+                    {selectionMode ? "Cancelar" : "Selecionar"}
+                  </Button>
+                </div>
               </div>
             )}
             
             {/* Content */}
             {isMobile ? (
-              <TransactionList 
-                transactions={transactions}
-                onEdit={handleEditTransaction}
-                onDelete={handleDeleteTransaction}
-                onDeleteMultiple={handleDeleteMultiple}
-                selectionMode={selectionMode}
-                onSelectionModeChange={setSelectionMode}
-              />
+              <>
+                <TransactionFiltersBar
+                  filters={filters}
+                  onFiltersChange={setFilters}
+                  sort={sort}
+                  onSortChange={setSort}
+                  total={total}
+                />
+                <TransactionList 
+                  transactions={transactions}
+                  onEdit={handleEditTransaction}
+                  onDelete={handleDeleteTransaction}
+                  onDeleteMultiple={handleDeleteMultiple}
+                  onBulkEdit={setBulkEditIds}
+                  selectionMode={selectionMode}
+                  onSelectionModeChange={setSelectionMode}
+                  hasMore={hasNextPage}
+                  isLoadingMore={isFetchingNextPage}
+                  onLoadMore={loadMore}
+                  showTagFilter={false}
+                />
+              </>
             ) : (
               <Card>
                 <CardHeader>
                   <CardTitle>Transações Recentes</CardTitle>
                 </CardHeader>
                 <CardContent>
+                  <TransactionFiltersBar
+                    filters={filters}
+                    onFiltersChange={setFilters}
+                    sort={sort}
+                    onSortChange={setSort}
+                    total={total}
+                  />
                   <TransactionList 
                     transactions={transactions}
                     onEdit={handleEditTransaction}
                     onDelete={handleDeleteTransaction}
                     onDeleteMultiple={handleDeleteMultiple}
+                    onBulkEdit={setBulkEditIds}
                     selectionMode={selectionMode}
                     onSelectionModeChange={setSelectionMode}
+                    hasMore={hasNextPage}
+                    isLoadingMore={isFetchingNextPage}
+                    onLoadMore={loadMore}
+                    showTagFilter={false}
                   />
                 </CardContent>
               </Card>
@@ -163,6 +301,16 @@ const TransactionsPage = () => {
           initialData={editingTransaction}
           mode={editingTransaction ? 'edit' : 'create'}
         />
+
+        <TransactionBulkEditDialog
+          open={bulkEditIds.length > 0}
+          onOpenChange={(open) => !open && setBulkEditIds([])}
+          selectedCount={bulkEditIds.length}
+          onApply={handleBulkEdit}
+        />
+
+        <OFXImportDialog open={importOpen} onOpenChange={setImportOpen} />
+        <CSVImportDialog open={csvImportOpen} onOpenChange={setCsvImportOpen} />
       </SubscriptionGuard>
     </MainLayout>
   );
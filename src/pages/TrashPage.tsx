@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { CreditCard, Receipt, RotateCcw, Trash2 } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAppContext } from '@/contexts/AppContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from '@/utils/transactionUtils';
+import { cn } from '@/lib/utils';
+import { TrashItem } from '@/types';
+import { getTrashItems, restoreTrashItems, deleteTrashItems, emptyTrash } from '@/services/trashService';
+
+const TrashPage: React.FC = () => {
+  const { t, currency } = usePreferences();
+  const { toast } = useToast();
+  const { formatDate } = useDateFormat();
+  const { getTransactions, getGoals } = useAppContext();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [itemToDelete, setItemToDelete] = useState<TrashItem | null>(null);
+  const [emptyDialogOpen, setEmptyDialogOpen] = useState(false);
+
+  const loadItems = async () => {
+    setItems(await getTrashItems());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  const showError = (error: unknown, fallback = t('common.somethingWentWrong')) => {
+    toast({
+      title: t('common.error'),
+      description: (error instanceof Error && error.message) || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await restoreTrashItems([item.id]);
+      toast({ title: t('trash.restored'), description: item.description });
+      await loadItems();
+      if (item.itemType === 'transaction') {
+        await Promise.all([getTransactions(), getGoals()]);
+      }
+    } catch (error) {
+      console.error('Error restoring trash item:', error);
+      showError(error, t('trash.restoreError'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!itemToDelete) return;
+    try {
+      await deleteTrashItems([itemToDelete.id]);
+      toast({ title: t('trash.deletedForever'), description: itemToDelete.description });
+      await loadItems();
+    } catch (error) {
+      console.error('Error deleting trash item:', error);
+      showError(error);
+    } finally {
+      setItemToDelete(null);
+    }
+  };
+
+  const confirmEmpty = async () => {
+    try {
+      await emptyTrash();
+      toast({ title: t('trash.emptied') });
+      await loadItems();
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      showError(error);
+    } finally {
+      setEmptyDialogOpen(false);
+    }
+  };
+
+  const daysLeft = (item: TrashItem) =>
+    Math.max(0, differenceInCalendarDays(parseISO(item.expiresAt), new Date()));
+
+  return (
+    <MainLayout title={t('trash.title')}>
+      <div className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <div>
+            <h1 className="text-2xl font-bold">{t('trash.title')}</h1>
+            <p className="text-sm text-muted-foreground">{t('trash.description')}</p>
+          </div>
+          <Button variant="outline" onClick={() => setEmptyDialogOpen(true)} disabled={items.length === 0}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            {t('trash.empty')}
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">{t('trash.noData')}</p>
+        ) : (
+          <ul className="space-y-2">
+            {items.map((item) => {
+              const Icon = item.itemType === 'purchase' ? CreditCard : Receipt;
+              return (
+                <li key={item.id} className="bg-card p-3 rounded-lg flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Icon className="h-5 w-5 flex-shrink-0 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{item.description || '-'}</span>
+                        {item.itemType === 'purchase' && <Badge variant="outline">{t('trash.purchase')}</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {formatDate(item.date)} · {t('trash.deletedOn')} {formatDate(item.deletedAt)} · {daysLeft(item)} {t('trash.daysLeft')}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className={cn(
+                      "font-semibold text-sm",
+                      item.type === 'income' ? "text-green-600" : item.type === 'expense' ? "text-red-600" : ""
+                    )}>
+                      {formatCurrency(Math.abs(item.amount), currency)}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(item)}
+                      disabled={busyId === item.id}
+                    >
+                      <RotateCcw className={cn("h-4 w-4 sm:mr-2", busyId === item.id && "animate-spin")} />
+                      <span className="hidden sm:inline">{t('trash.restore')}</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setItemToDelete(item)}
+                      aria-label={t('trash.deleteForever')}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <AlertDialog open={!!itemToDelete} onOpenChange={(open) => !open && setItemToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('trash.deleteForever')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('trash.deleteForeverWarning')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={emptyDialogOpen} onOpenChange={setEmptyDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('trash.empty')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('trash.emptyWarning')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmEmpty}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t('trash.empty')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </MainLayout>
+  );
+};
+
+export default TrashPage;
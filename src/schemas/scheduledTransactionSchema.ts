@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { RecurrenceRule } from '@/types';
+import { RECURRENCE_FREQUENCIES } from '@/utils/recurrenceUtils';
+
+export const createScheduledTransactionSchema = (translationFn: (key: string) => string) => {
+  return z.object({
+    type: z.enum(['income', 'expense']),
+    description: z.string().min(1, { message: translationFn('validation.required') }),
+    amount: z.number().positive({ message: translationFn('validation.positive') }),
+    category: z.string().min(1, { message: translationFn('validation.required') }),
+    scheduledDate: z.string().min(1, { message: translationFn('validation.required') }),
+    // The rule fields (see RecurrenceRuleFields)
+    recurrence: z.enum(RECURRENCE_FREQUENCIES as [RecurrenceRule['frequency'], ...RecurrenceRule['frequency'][]]),
+    interval: z.number().int().min(1, { message: translationFn('validation.positive') }),
+    weekdays: z.array(z.number()),
+    monthDayMode: z.enum(['monthDay', 'lastDay', 'businessDay', 'lastBusinessDay']),
+    monthDay: z.number().int().min(1).max(31),
+    businessDay: z.number().int().min(1).max(23),
+    endMode: z.enum(['never', 'until', 'count']),
+    until: z.string(),
+    count: z.number().int().min(1, { message: translationFn('validation.positive') }),
+    autoDebit: z.boolean(),
+    businessDayAdjustment: z.enum(['none', 'next', 'previous']),
+    // "none", "account:<id>" or "card:<id>" (see PaymentSourceSelect)
+    paymentSource: z.string(),
+    goalId: z.string().optional(),
+  }).refine(values => values.recurrence === 'once' || values.endMode !== 'until' || values.until >= values.scheduledDate, {
+    message: translationFn('schedule.endDateBeforeStart'),
+    path: ['until'],
+  });
+};
+
+export type ScheduledTransactionFormValues = z.infer<ReturnType<typeof createScheduledTransactionSchema>>;
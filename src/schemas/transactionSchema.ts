@@ -1,16 +1,62 @@
 
 import { z } from 'zod';
+import { Attachment } from '@/types';
 
-export const createTransactionSchema = (translationFn: (key: string) => string) => {
+// baseCurrency: transactions in another currency need the rate used to convert them
+export const createTransactionSchema = (translationFn: (key: string) => string, baseCurrency?: string) => {
   return z.object({
-    type: z.enum(['income', 'expense']),
+    type: z.enum(['income', 'expense', 'transfer']),
     amount: z.coerce.number().positive(translationFn('validation.positive')),
-    category: z.string().min(1, translationFn('validation.required')),
+    category: z.string(),
     description: z.string().optional(),
     date: z.string().min(1, translationFn('validation.required')),
     goalId: z.union([z.string().min(1), z.literal("none"), z.null(), z.undefined()]).optional(),
     accountId: z.string().min(1, translationFn('validation.required')),
+    destinationAccountId: z.string().optional(),
     creditCardId: z.union([z.string().min(1), z.literal("none"), z.null(), z.undefined()]).optional(),
+    splits: z.array(z.object({
+      category: z.string().min(1, translationFn('validation.required')),
+      amount: z.coerce.number().positive(translationFn('validation.positive')),
+    })).optional(),
+    tags: z.array(z.string()).optional(),
+    // Already uploaded receipts (see attachmentService)
+    attachments: z.array(z.custom<Attachment>()).optional(),
+    // Account currency and the rate to the base currency (1 currency = exchangeRate base currency)
+    currency: z.string().optional(),
+    exchangeRate: z.coerce.number().optional(),
+  }).superRefine((values, ctx) => {
+    if (values.currency && baseCurrency && values.currency !== baseCurrency && !(Number(values.exchangeRate) > 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['exchangeRate'], message: translationFn('validation.positive') });
+    }
+
+    // Transfers have no category, but need a destination account different from the source
+    if (values.type !== 'transfer') {
+      const splits = values.splits || [];
+
+      if (splits.length === 0) {
+        if (!values.category) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['category'], message: translationFn('validation.required') });
+        }
+        return;
+      }
+
+      // Split lines replace the single category and must add up to the total (to the cent)
+      if (splits.length < 2) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['splits'], message: translationFn('validation.splitMinLines') });
+        return;
+      }
+      const splitCents = splits.reduce((sum, split) => sum + Math.round((split.amount || 0) * 100), 0);
+      if (splitCents !== Math.round(values.amount * 100)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['splits'], message: translationFn('validation.splitTotal') });
+      }
+      return;
+    }
+
+    if (!values.destinationAccountId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['destinationAccountId'], message: translationFn('validation.required') });
+    } else if (values.destinationAccountId === values.accountId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['destinationAccountId'], message: translationFn('validation.sameAccount') });
+    }
   });
 };
 
@@ -1,5 +1,5 @@
 import { supabase } from "@/integrations/supabase/client";
-import { Account } from "@/types/accounts";
+import { Account, AccountBalances, AccountCheckpoint } from "@/types/accounts";
 
 export const getAccounts = async (): Promise<Account[]> => {
   const { data, error } = await supabase
@@ -27,7 +27,7 @@ export const ensureDefaultAccount = async (): Promise<string | null> => {
   return data as string | null;
 };
 
-export const createAccount = async (payload: { name: string; bank_id?: string; account_number?: string; agency?: string; type?: string; is_default?: boolean; }): Promise<Account> => {
+export const createAccount = async (payload: { name: string; bank_id?: string; account_number?: string; agency?: string; type?: string; currency?: string; is_default?: boolean; opening_balance?: number; opening_balance_date?: string | null; }): Promise<Account> => {
   const { data: auth } = await supabase.auth.getUser();
   if (!auth?.user) throw new Error('Not authenticated');
 
@@ -41,6 +41,9 @@ export const createAccount = async (payload: { name: string; bank_id?: string; a
       account_number: payload.account_number || null,
       agency: payload.agency || null,
       type: payload.type || 'checking',
+      currency: payload.currency || 'BRL',
+      opening_balance: payload.opening_balance ?? 0,
+      opening_balance_date: payload.opening_balance_date || null,
       // don't set is_default here; handle via RPC to keep exclusivity
     })
     .select('*')
@@ -63,7 +66,7 @@ export const setDefaultAccount = async (accountId: string): Promise<boolean> =>
 
 export const updateAccount = async (
   accountId: string,
-  payload: { name?: string; bank_id?: string | null; account_number?: string | null; agency?: string | null; type?: string; is_default?: boolean }
+  payload: { name?: string; bank_id?: string | null; account_number?: string | null; agency?: string | null; type?: string; currency?: string; is_default?: boolean; opening_balance?: number; opening_balance_date?: string | null }
 ): Promise<Account> => {
   // Build update payload without setting is_default=true here to avoid unique constraint race
   const updateData: Record<string, any> = {
@@ -73,6 +76,13 @@ export const updateAccount = async (
     agency: payload.agency ?? null,
     type: payload.type,
   };
+  if (payload.opening_balance !== undefined) {
+    updateData.opening_balance = payload.opening_balance;
+    updateData.opening_balance_date = payload.opening_balance_date || null;
+  }
+  if (payload.currency) {
+    updateData.currency = payload.currency;
+  }
   if (payload.is_default === false) {
     updateData.is_default = false;
   }
@@ -101,3 +111,68 @@ export const deleteAccount = async (accountId: string): Promise<boolean> => {
   if (error) throw error;
   return true;
 };
+
+// Se a conta já tem transações (origem ou destino de transferências), sem carregá-las
+export const hasAccountTransactions = async (accountId: string): Promise<boolean> => {
+  const { count, error } = await supabase
+    .from('poupeja_transactions')
+    .select('id', { count: 'exact', head: true })
+    .or(`account_id.eq.${accountId},destination_account_id.eq.${accountId}`);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+};
+
+export const getAccountCheckpoints = async (): Promise<AccountCheckpoint[]> => {
+  const { data, error } = await supabase
+    .from('poupeja_account_checkpoints')
+    .select('*')
+    .order('checkpoint_date', { ascending: false })
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data as AccountCheckpoint[];
+};
+
+// Saldos calculados no banco ao final do dia asOf (YYYY-MM-DD). Com beforeAsOfCheckpoints,
+// conciliações do próprio dia são ignoradas
+export const getAccountBalances = async (asOf: string, beforeAsOfCheckpoints = false): Promise<AccountBalances> => {
+  const { data, error } = await supabase.rpc('get_account_balances', {
+    as_of: asOf,
+    before_as_of_checkpoints: beforeAsOfCheckpoints
+  });
+  if (error) throw error;
+
+  const balances: AccountBalances = { byAccount: {}, unassigned: 0 };
+  (data || []).forEach(row => {
+    if (row.account_id) balances.byAccount[row.account_id] = Number(row.balance);
+    else balances.unassigned += Number(row.balance);
+  });
+  return balances;
+};
+
+export const createAccountCheckpoint = async (payload: { account_id: string; balance: number; checkpoint_date: string; notes?: string | null; }): Promise<AccountCheckpoint> => {
+  const { data: auth } = await supabase.auth.getUser();
+  if (!auth?.user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('poupeja_account_checkpoints')
+    .insert({
+      user_id: auth.user.id,
+      account_id: payload.account_id,
+      balance: payload.balance,
+      checkpoint_date: payload.checkpoint_date,
+      notes: payload.notes || null,
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data as AccountCheckpoint;
+};
+
+export const deleteAccountCheckpoint = async (checkpointId: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('poupeja_account_checkpoints')
+    .delete()
+    .eq('id', checkpointId);
+  if (error) throw error;
+  return true;
+};
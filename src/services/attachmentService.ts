@@ -0,0 +1,180 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Attachment } from "@/types";
+
+const BUCKET = "uploads";
+
+// Same limits as the 'uploads' bucket
+export const ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024;
+export const ATTACHMENT_MIME_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp", "application/pdf"];
+
+// Embed for selects on poupeja_transactions, credit_card_purchases and credit_card_payments
+export const ATTACHMENTS_SELECT = "attachments:poupeja_uploads(id, file_name, file_path, file_size, mime_type, created_at)";
+
+export type AttachmentOwner = { transactionId?: string; purchaseId?: string; paymentId?: string };
+
+export interface UploadRow {
+  id: string;
+  file_name: string;
+  file_path: string;
+  file_size: number | null;
+  mime_type: string | null;
+  created_at: string | null;
+}
+
+type OwnerColumn = "transaction_id" | "purchase_id" | "payment_id";
+
+const ownerColumn = (owner: AttachmentOwner): { column: OwnerColumn; id: string } | null => {
+  if (owner.transactionId) return { column: "transaction_id", id: owner.transactionId };
+  if (owner.purchaseId) return { column: "purchase_id", id: owner.purchaseId };
+  if (owner.paymentId) return { column: "payment_id", id: owner.paymentId };
+  return null;
+};
+
+export const getAttachmentUrl = (filePath: string) =>
+  supabase.storage.from(BUCKET).getPublicUrl(filePath).data.publicUrl;
+
+export const isImageAttachment = (attachment: Attachment) =>
+  (attachment.mimeType || "").startsWith("image/");
+
+export const mapAttachments = (rows: UploadRow[] | null | undefined): Attachment[] | undefined => {
+  if (!rows || rows.length === 0) return undefined;
+
+  return rows.map((row) => ({
+    id: row.id,
+    fileName: row.file_name,
+    filePath: row.file_path,
+    fileSize: row.file_size ?? undefined,
+    mimeType: row.mime_type ?? undefined,
+    url: getAttachmentUrl(row.file_path),
+    createdAt: row.created_at ?? undefined
+  }));
+};
+
+export const getAttachments = async (owner: AttachmentOwner): Promise<Attachment[]> => {
+  const target = ownerColumn(owner);
+  if (!target) return [];
+
+  const { data, error } = await supabase
+    .from("poupeja_uploads")
+    .select("id, file_name, file_path, file_size, mime_type, created_at")
+    .eq(target.column, target.id)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return mapAttachments(data) || [];
+};
+
+// Upload a receipt to storage and register it in poupeja_uploads.
+// Without an owner the upload stays unlinked until linkAttachments is called (new records).
+export const uploadAttachment = async (file: File, owner: AttachmentOwner = {}): Promise<Attachment> => {
+  if (!ATTACHMENT_MIME_TYPES.includes(file.type)) {
+    throw new Error("Tipo de arquivo não permitido. Envie uma imagem ou PDF.");
+  }
+  if (file.size > ATTACHMENT_MAX_SIZE) {
+    throw new Error("Arquivo muito grande. O limite é 10MB.");
+  }
+
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) throw new Error("Not authenticated");
+
+  const extension = file.name.split(".").pop()?.toLowerCase() || "bin";
+  const { data: filePath, error: pathError } = await supabase.rpc("generate_upload_path", {
+    user_id: authData.user.id,
+    file_extension: extension
+  });
+
+  if (pathError) throw pathError;
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(filePath, file, { contentType: file.type });
+
+  if (uploadError) throw uploadError;
+
+  const { data: uploadId, error: registerError } = await supabase.rpc("register_upload", {
+    p_file_name: file.name,
+    p_file_path: filePath,
+    p_file_size: file.size,
+    p_mime_type: file.type,
+    p_purpose: "receipt",
+    p_transaction_id: owner.transactionId,
+    p_purchase_id: owner.purchaseId,
+    p_payment_id: owner.paymentId
+  });
+
+  if (registerError) {
+    // Não deixar arquivo órfão no storage
+    await supabase.storage.from(BUCKET).remove([filePath]);
+    throw registerError;
+  }
+
+  return {
+    id: uploadId,
+    fileName: file.name,
+    filePath,
+    fileSize: file.size,
+    mimeType: file.type,
+    url: getAttachmentUrl(filePath)
+  };
+};
+
+// Link uploads made before the record existed (or move them to another record)
+export const linkAttachments = async (attachmentIds: string[], owner: AttachmentOwner) => {
+  if (attachmentIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("poupeja_uploads")
+    .update({
+      transaction_id: owner.transactionId || null,
+      purchase_id: owner.purchaseId || null,
+      payment_id: owner.paymentId || null
+    })
+    .in("id", attachmentIds);
+
+  if (error) throw error;
+};
+
+export const deleteAttachments = async (attachments: Pick<Attachment, "id" | "filePath">[]) => {
+  if (attachments.length === 0) return;
+
+  const { error: storageError } = await supabase.storage
+    .from(BUCKET)
+    .remove(attachments.map((attachment) => attachment.filePath));
+
+  if (storageError) throw storageError;
+
+  const { error } = await supabase
+    .from("poupeja_uploads")
+    .delete()
+    .in("id", attachments.map((attachment) => attachment.id));
+
+  if (error) throw error;
+};
+
+// Remove the stored files of records about to be deleted.
+// The poupeja_uploads rows go away with the record (ON DELETE CASCADE), the storage objects don't.
+export const removeAttachmentFiles = async (
+  ownerType: "transaction" | "purchase" | "payment",
+  ownerIds: string[]
+) => {
+  if (ownerIds.length === 0) return;
+
+  try {
+    const { data, error } = await supabase
+      .from("poupeja_uploads")
+      .select("file_path")
+      .in(`${ownerType}_id` as OwnerColumn, ownerIds);
+
+    if (error) throw error;
+    if (!data || data.length === 0) return;
+
+    const { error: storageError } = await supabase.storage
+      .from(BUCKET)
+      .remove(data.map((row) => row.file_path));
+
+    if (storageError) throw storageError;
+  } catch (error) {
+    // A falha na limpeza do storage não deve impedir a exclusão do registro
+    console.error("Error removing attachment files:", error);
+  }
+};
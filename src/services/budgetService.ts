@@ -0,0 +1,85 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Budget, CardCategorySpending } from "@/types/budgets";
+import { SPLITS_SELECT, mapSplits } from "@/services/transactionSplitService";
+
+const mapBudgetRow = (item: Tables<"poupeja_budgets">): Budget => ({
+  id: item.id,
+  categoryId: item.category_id,
+  amount: Number(item.amount)
+});
+
+export const getBudgets = async (): Promise<Budget[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("poupeja_budgets")
+      .select("*")
+      .order("created_at");
+
+    if (error) throw error;
+    return data.map(mapBudgetRow);
+  } catch (error) {
+    console.error("Error fetching budgets:", error);
+    return [];
+  }
+};
+
+// One budget per category: saving a category that already has one replaces its amount
+export const saveBudget = async (budget: Omit<Budget, "id">): Promise<Budget> => {
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) {
+    throw new Error("You must be logged in to save a budget");
+  }
+  if (!(budget.amount > 0)) {
+    throw new Error("Budget amount must be greater than zero");
+  }
+
+  const { data, error } = await supabase
+    .from("poupeja_budgets")
+    .upsert(
+      { user_id: authData.user.id, category_id: budget.categoryId, amount: budget.amount },
+      { onConflict: "user_id,category_id" }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return mapBudgetRow(data);
+};
+
+export const deleteBudget = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("poupeja_budgets")
+    .delete()
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+// Card purchases of a period by category. Purchases linked to a transaction are left out
+// (the transaction already counts); the ones on a bill that isn't paid are committed
+export const getCardSpendingByCategory = async (startDate: string, endDate: string): Promise<CardCategorySpending[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("credit_card_purchases")
+      .select(`amount, category_id, purchase_date, bill:credit_card_bills(status), ${SPLITS_SELECT}`)
+      .gte("purchase_date", startDate)
+      .lte("purchase_date", endDate)
+      .is("transaction_id", null);
+
+    if (error) throw error;
+
+    return (data || []).flatMap((purchase) => {
+      const isCommitted = purchase.bill?.status !== "paid";
+      const purchaseDate = purchase.purchase_date;
+      const splits = mapSplits(purchase.splits);
+      if (splits) {
+        return splits.map((split) => ({ categoryId: split.categoryId, amount: split.amount, purchaseDate, isCommitted }));
+      }
+      return [{ categoryId: purchase.category_id, amount: Number(purchase.amount), purchaseDate, isCommitted }];
+    });
+  } catch (error) {
+    console.error("Error fetching card spending:", error);
+    return [];
+  }
+};
@@ -0,0 +1,98 @@
+import { SUPABASE_URL, supabase } from "@/integrations/supabase/client";
+
+// Edge function serving the .ics feed (supabase/functions/calendar-feed), on the project the
+// app is connected to
+const CALENDAR_FEED_URL = `${SUPABASE_URL}/functions/v1/calendar-feed`;
+
+export interface CalendarFeed {
+  token: string;
+  createdAt: string;
+  lastAccessedAt?: string | null;
+}
+
+// Address that Google/Apple Calendar subscribe to. Anyone with it can read the schedule
+export const getCalendarFeedUrl = (token: string): string => `${CALENDAR_FEED_URL}?token=${token}`;
+
+export const getCalendarFeed = async (): Promise<CalendarFeed | null> => {
+  try {
+    const { data, error } = await supabase
+      .from("poupeja_calendar_feeds")
+      .select("*")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      token: data.token,
+      createdAt: data.created_at,
+      lastAccessedAt: data.last_accessed_at
+    };
+  } catch (error) {
+    console.error("Error fetching calendar feed:", error);
+    return null;
+  }
+};
+
+// A new token replaces the current one: calendars subscribed with the old address stop updating
+export const createCalendarFeed = async (): Promise<CalendarFeed> => {
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) {
+    throw new Error("You must be logged in to create a calendar feed");
+  }
+
+  const { error: deleteError } = await supabase
+    .from("poupeja_calendar_feeds")
+    .delete()
+    .eq("user_id", authData.user.id);
+  if (deleteError) throw deleteError;
+
+  const { data, error } = await supabase
+    .from("poupeja_calendar_feeds")
+    .insert({ user_id: authData.user.id })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return {
+    token: data.token,
+    createdAt: data.created_at,
+    lastAccessedAt: data.last_accessed_at
+  };
+};
+
+export const revokeCalendarFeed = async (): Promise<boolean> => {
+  try {
+    const { data: authData } = await supabase.auth.getUser();
+    if (!authData?.user) return false;
+
+    const { error } = await supabase
+      .from("poupeja_calendar_feeds")
+      .delete()
+      .eq("user_id", authData.user.id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error revoking calendar feed:", error);
+    return false;
+  }
+};
+
+// One-off .ics file with the same events as the feed, without creating a token
+export const downloadCalendarFile = async (): Promise<void> => {
+  const { data, error } = await supabase.functions.invoke<string>("calendar-feed", { method: "GET" });
+  if (error) throw error;
+
+  const blob = new Blob([data || ""], { type: "text/calendar;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", "poupeja.ics");
+  link.style.display = "none";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
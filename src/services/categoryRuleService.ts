@@ -0,0 +1,315 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { CategoryRule } from "@/types/categories";
+import { Transaction } from "@/types";
+import { normalizeTags } from "@/services/tagService";
+import { recalculateGoalAmounts } from "@/services/goalService";
+
+// What a rule looks at in a transaction or card purchase
+export interface RuleSubject {
+  type: string;
+  description?: string | null;
+  amount: number;
+  accountId?: string | null;
+  creditCardId?: string | null;
+}
+
+// The edge function (create-transaction) has its own copy of the matching logic
+// in supabase/functions/_shared/categoryRules.ts — keep both in sync.
+const normalizeText = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+
+const mapRuleRow = (item: Tables<"poupeja_category_rules">): CategoryRule => ({
+  id: item.id,
+  name: item.name,
+  priority: item.priority,
+  isActive: item.is_active,
+  transactionType: item.transaction_type as CategoryRule["transactionType"],
+  matchType: item.match_type as CategoryRule["matchType"],
+  pattern: item.pattern || "",
+  minAmount: item.min_amount ?? undefined,
+  maxAmount: item.max_amount ?? undefined,
+  accountId: item.account_id || undefined,
+  creditCardId: item.credit_card_id || undefined,
+  categoryId: item.category_id || undefined,
+  tags: item.tags || [],
+  goalId: item.goal_id || undefined
+});
+
+export const isValidRulePattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const matchesRule = (rule: CategoryRule, subject: RuleSubject): boolean => {
+  if (!rule.isActive || rule.transactionType !== subject.type) return false;
+
+  const amount = Math.abs(subject.amount);
+  if (rule.minAmount !== undefined && amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && amount > rule.maxAmount) return false;
+  if (rule.accountId && rule.accountId !== subject.accountId) return false;
+  if (rule.creditCardId && rule.creditCardId !== subject.creditCardId) return false;
+
+  if (!rule.pattern) return true;
+  const description = subject.description || "";
+
+  if (rule.matchType === "regex") {
+    // An invalid expression never matches instead of breaking the insert
+    if (!isValidRulePattern(rule.pattern)) return false;
+    return new RegExp(rule.pattern, "i").test(description);
+  }
+
+  return normalizeText(description).includes(normalizeText(rule.pattern));
+};
+
+// Rules are evaluated by priority (lowest first); the first match wins
+export const findMatchingRule = (rules: CategoryRule[], subject: RuleSubject): CategoryRule | undefined =>
+  [...rules]
+    .sort((a, b) => a.priority - b.priority)
+    .find(rule => matchesRule(rule, subject));
+
+export const getCategoryRules = async (): Promise<CategoryRule[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("poupeja_category_rules")
+      .select("*")
+      .order("priority")
+      .order("created_at");
+
+    if (error) throw error;
+    return data.map(mapRuleRow);
+  } catch (error) {
+    console.error("Error fetching category rules:", error);
+    return [];
+  }
+};
+
+// Used by addTransaction: never blocks the insert if the rules can't be loaded
+export const getRuleForTransaction = async (subject: RuleSubject): Promise<CategoryRule | undefined> => {
+  const rules = await getCategoryRules();
+  return findMatchingRule(rules, subject);
+};
+
+// "Outros" (or no category at all) is what the rules are allowed to replace
+export const isUncategorized = async (categoryId?: string | null): Promise<boolean> => {
+  if (!categoryId) return true;
+
+  const { data } = await supabase
+    .from("poupeja_categories")
+    .select("name")
+    .eq("id", categoryId)
+    .maybeSingle();
+
+  return !data || data.name === "Outros";
+};
+
+export const saveCategoryRule = async (rule: Omit<CategoryRule, "id"> & { id?: string }): Promise<CategoryRule> => {
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) {
+    throw new Error("You must be logged in to save a rule");
+  }
+
+  if (rule.matchType === "regex" && !isValidRulePattern(rule.pattern)) {
+    throw new Error("Invalid regular expression");
+  }
+
+  const values = {
+    user_id: authData.user.id,
+    name: rule.name.trim(),
+    priority: rule.priority,
+    is_active: rule.isActive,
+    transaction_type: rule.transactionType,
+    match_type: rule.matchType,
+    pattern: rule.pattern.trim(),
+    min_amount: rule.minAmount ?? null,
+    max_amount: rule.maxAmount ?? null,
+    account_id: rule.accountId || null,
+    credit_card_id: rule.transactionType === "expense" ? rule.creditCardId || null : null,
+    category_id: rule.categoryId || null,
+    tags: normalizeTags(rule.tags),
+    goal_id: rule.goalId || null
+  };
+
+  const query = rule.id
+    ? supabase.from("poupeja_category_rules").update(values).eq("id", rule.id)
+    : supabase.from("poupeja_category_rules").insert(values);
+
+  const { data, error } = await query.select().single();
+  if (error) throw error;
+
+  return mapRuleRow(data);
+};
+
+export const deleteCategoryRule = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("poupeja_category_rules")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error deleting category rule:", error);
+    return false;
+  }
+};
+
+// Prefill for the "create rule" action shown after a transaction is recategorized
+export const suggestRuleFromTransaction = (
+  transaction: Pick<Transaction, "type" | "description">,
+  categoryId: string,
+  categoryName?: string
+): Omit<CategoryRule, "id"> => {
+  // Drop digits (dates, card endings, order numbers) so the rule matches the next purchase too
+  const description = (transaction.description || "").trim();
+  const pattern = description
+    .replace(/[\d*#/.:-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim() || description;
+
+  return {
+    name: categoryName ? `${pattern} → ${categoryName}` : pattern,
+    priority: 0,
+    isActive: true,
+    transactionType: transaction.type === "income" ? "income" : "expense",
+    matchType: "contains",
+    pattern,
+    categoryId,
+    tags: []
+  };
+};
+
+const RERUN_PAGE_SIZE = 1000;
+const RERUN_UPDATE_BATCH = 50;
+
+interface RerunRow {
+  id: string;
+  description: string | null;
+  amount: number;
+  category_id: string | null;
+  tags: string[] | null;
+  category?: { name?: string } | null;
+  splits?: { id: string }[];
+}
+
+const fetchAllRows = async <T>(fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += RERUN_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + RERUN_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < RERUN_PAGE_SIZE) return rows;
+  }
+};
+
+// What the matching rule changes in an existing row (null when nothing changes)
+const buildRuleChanges = (
+  rule: CategoryRule,
+  row: RerunRow,
+  onlyUncategorized: boolean,
+  currentGoalId?: string | null
+) => {
+  const changes: { category_id?: string; tags?: string[]; goal_id?: string } = {};
+  const uncategorized = !row.category_id || row.category?.name === "Outros";
+
+  if (rule.categoryId && rule.categoryId !== row.category_id && (uncategorized || !onlyUncategorized)) {
+    changes.category_id = rule.categoryId;
+  }
+
+  const tags = normalizeTags([...(row.tags || []), ...rule.tags]);
+  if (tags.length !== (row.tags || []).length) {
+    changes.tags = tags;
+  }
+
+  if (currentGoalId !== undefined && rule.goalId && rule.goalId !== currentGoalId && (!currentGoalId || !onlyUncategorized)) {
+    changes.goal_id = rule.goalId;
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+};
+
+const runUpdates = async (table: "poupeja_transactions" | "credit_card_purchases", updates: { id: string; changes: Record<string, unknown> }[]) => {
+  for (let i = 0; i < updates.length; i += RERUN_UPDATE_BATCH) {
+    const batch = updates.slice(i, i + RERUN_UPDATE_BATCH);
+    const results = await Promise.all(
+      batch.map(({ id, changes }) => supabase.from(table).update(changes).eq("id", id))
+    );
+    const failed = results.find(result => result.error);
+    if (failed?.error) throw failed.error;
+  }
+};
+
+// Applies the current rules to existing transactions and card purchases. With
+// onlyUncategorized, a rule only replaces "Outros" and fills an empty goal (the same
+// as for new transactions); otherwise the rule's category and goal win. Split
+// transactions keep their lines. Returns how many rows were changed.
+export const rerunCategoryRules = async ({ onlyUncategorized = true } = {}): Promise<number> => {
+  const rules = (await getCategoryRules()).filter(rule => rule.isActive);
+  if (rules.length === 0) return 0;
+
+  const transactions = await fetchAllRows<RerunRow & { type: string; account_id: string | null; goal_id: string | null }>(
+    (from, to) => supabase
+      .from("poupeja_transactions")
+      .select("id, type, description, amount, account_id, category_id, goal_id, tags, category:poupeja_categories(name), splits:poupeja_transaction_splits(id)")
+      .neq("type", "transfer")
+      .order("date", { ascending: false })
+      .order("id")
+      .range(from, to)
+  );
+
+  const purchases = await fetchAllRows<RerunRow & { card_id: string | null }>(
+    (from, to) => supabase
+      .from("credit_card_purchases")
+      .select("id, description, amount, card_id, category_id, tags, category:poupeja_categories(name), splits:poupeja_transaction_splits(id)")
+      .order("purchase_date", { ascending: false })
+      .order("id")
+      .range(from, to)
+  );
+
+  const transactionUpdates: { id: string; changes: Record<string, unknown> }[] = [];
+  let goalsChanged = false;
+
+  for (const row of transactions) {
+    if (row.splits?.length) continue;
+    const rule = findMatchingRule(rules, {
+      type: row.type,
+      description: row.description,
+      amount: row.amount,
+      accountId: row.account_id
+    });
+    const changes = rule && buildRuleChanges(rule, row, onlyUncategorized, row.goal_id);
+    if (!changes) continue;
+    if (changes.goal_id && row.type === "income") goalsChanged = true;
+    transactionUpdates.push({ id: row.id, changes });
+  }
+
+  const purchaseUpdates: { id: string; changes: Record<string, unknown> }[] = [];
+
+  for (const row of purchases) {
+    if (row.splits?.length) continue;
+    const rule = findMatchingRule(rules, {
+      type: "expense",
+      description: row.description,
+      amount: row.amount,
+      creditCardId: row.card_id
+    });
+    // Card purchases have no goal
+    const changes = rule && buildRuleChanges(rule, row, onlyUncategorized);
+    if (changes) purchaseUpdates.push({ id: row.id, changes });
+  }
+
+  await runUpdates("poupeja_transactions", transactionUpdates);
+  await runUpdates("credit_card_purchases", purchaseUpdates);
+
+  // Goal amounts are derived from the linked income transactions: recalculate once
+  if (goalsChanged) {
+    await recalculateGoalAmounts();
+  }
+
+  return transactionUpdates.length + purchaseUpdates.length;
+};
@@ -1,5 +1,12 @@
 import { supabase } from "@/integrations/supabase/client";
-import { CreditCard, CreditCardBill, CreditCardPurchase, CreditCardPayment, CreditCardSummary } from "@/types/creditCards";
+import { CreditCard, CreditCardBill, CreditCardBillWithCard, CreditCardPurchase, CreditCardPayment, CreditCardSummary } from "@/types/creditCards";
+import { SPLITS_SELECT, mapSplits, validateSplits, replaceSplits } from "@/services/transactionSplitService";
+import { normalizeTags } from "@/services/tagService";
+import { ATTACHMENTS_SELECT, mapAttachments, linkAttachments, removeAttachmentFiles } from "@/services/attachmentService";
+import { movePurchasesToTrash } from "@/services/trashService";
+import { getBillingCycle } from "@/utils/billingCycleUtils";
+
+const INSTALLMENTS_SELECT = "installment_list:credit_card_installments(*)";
 
 export const creditCardService = {
   // ========== CREDIT CARDS ==========
@@ -56,6 +63,19 @@ export const creditCardService = {
   },
 
   async deleteCard(id: string): Promise<void> {
+    // Compras e pagamentos saem em cascata com o cartão; remover antes os comprovantes do storage
+    const { data: purchases } = await supabase
+      .from('credit_card_purchases')
+      .select('id')
+      .eq('card_id', id);
+    const { data: payments } = await supabase
+      .from('credit_card_payments')
+      .select('id, bill:credit_card_bills!inner(card_id)')
+      .eq('bill.card_id', id);
+
+    await removeAttachmentFiles('purchase', (purchases || []).map(p => p.id));
+    await removeAttachmentFiles('payment', (payments || []).map(p => p.id));
+
     const { error } = await supabase
       .from('credit_cards')
       .delete()
@@ -208,30 +228,61 @@ export const creditCardService = {
     return (data || []) as CreditCardBill[];
   },
 
+  // Faturas de todos os cartões que vencem no período, mais as vencidas (calendário)
+  async getBillsDueBetween(from: string, to: string): Promise<CreditCardBillWithCard[]> {
+    const { data, error } = await supabase
+      .from('credit_card_bills')
+      .select('*, card:credit_cards(id, name, color)')
+      .or(`status.eq.overdue,and(due_date.gte.${from},due_date.lte.${to})`)
+      .order('due_date');
+
+    if (error) throw error;
+    return (data || []) as CreditCardBillWithCard[];
+  },
+
   // ========== PURCHASES ==========
   async getPurchasesByBill(billId: string): Promise<CreditCardPurchase[]> {
     const { data, error } = await supabase
       .from('credit_card_purchases')
-      .select('*')
+      .select(`*, ${SPLITS_SELECT}, ${ATTACHMENTS_SELECT}`)
       .eq('bill_id', billId)
       .order('purchase_date', { ascending: false });
     
     if (error) throw error;
-    return (data || []) as CreditCardPurchase[];
+    return (data || []).map(purchase => ({
+      ...purchase,
+      splits: mapSplits(purchase.splits),
+      attachments: mapAttachments(purchase.attachments)
+    })) as CreditCardPurchase[];
   },
 
   async getPurchasesByCard(cardId: string): Promise<CreditCardPurchase[]> {
     const { data, error } = await supabase
       .from('credit_card_purchases')
-      .select('*')
+      .select(`*, ${SPLITS_SELECT}, ${ATTACHMENTS_SELECT}, ${INSTALLMENTS_SELECT}`)
       .eq('card_id', cardId)
       .order('purchase_date', { ascending: false });
     
     if (error) throw error;
-    return (data || []) as CreditCardPurchase[];
+    return (data || []).map(purchase => ({
+      ...purchase,
+      splits: mapSplits(purchase.splits),
+      attachments: mapAttachments(purchase.attachments),
+      installment_list: [...(purchase.installment_list || [])].sort((a, b) => a.installment_number - b.installment_number)
+    })) as CreditCardPurchase[];
   },
 
-  async createPurchase(purchase: Omit<CreditCardPurchase, 'id' | 'created_at' | 'updated_at'>): Promise<CreditCardPurchase> {
+  async createPurchase(purchaseInput: Omit<CreditCardPurchase, 'id' | 'created_at' | 'updated_at'>): Promise<CreditCardPurchase> {
+    // Linhas de divisão por categoria ficam em poupeja_transaction_splits
+    // Comprovantes enviados antes da compra existir são vinculados depois do insert
+    const { splits, attachments, installment_list: _installmentList, ...purchase } = purchaseInput;
+    validateSplits(splits, purchase.amount);
+    if (splits?.length) {
+      purchase.category_id = splits[0].categoryId;
+    }
+    purchase.tags = normalizeTags(purchase.tags);
+
+
     // Primeiro, verificar o limite disponível do cartão
     const card = await this.getCard(purchase.card_id);
     if (!card) throw new Error('Cartão não encontrado');
@@ -247,14 +298,57 @@ export const creditCardService = {
       .single();
     
     if (error) throw error;
+
+    const savedSplits = splits?.length
+      ? await replaceSplits({ purchaseId: data.id }, splits)
+      : undefined;
+
+    await linkAttachments((attachments || []).map(a => a.id), { purchaseId: data.id });
     
     // Atualizar o limite usado do cartão
     await this.updateCardLimits(purchase.card_id);
     
-    return data as CreditCardPurchase;
+    return { ...data, splits: savedSplits, attachments } as CreditCardPurchase;
   },
 
-  async updatePurchase(id: string, updates: Partial<CreditCardPurchase>): Promise<CreditCardPurchase> {
+  // Compras importadas de um extrato (OFX). Não valida limite: as compras já aconteceram.
+  // Depois do insert, auto_generate_credit_card_bills coloca cada compra na fatura certa.
+  async importPurchases(cardId: string, purchases: Pick<CreditCardPurchase, 'description' | 'amount' | 'purchase_date' | 'category_id' | 'external_id'>[]): Promise<number> {
+    if (purchases.length === 0) return 0;
+
+    const { data, error } = await supabase
+      .from('credit_card_purchases')
+      .insert(purchases.map(purchase => ({
+        card_id: cardId,
+        description: purchase.description,
+        amount: purchase.amount,
+        purchase_date: purchase.purchase_date,
+        category_id: purchase.category_id || null,
+        installments: 1,
+        installment_amount: purchase.amount,
+        is_installment: false,
+        external_id: purchase.external_id || null
+      })))
+      .select('id');
+
+    if (error) throw error;
+
+    const { error: billError } = await supabase.rpc('auto_generate_credit_card_bills', {
+      card_id_param: cardId
+    });
+    if (billError) {
+      console.error('Erro ao gerar faturas das compras importadas:', billError);
+    }
+
+    await this.updateCardLimits(cardId);
+
+    return data?.length || 0;
+  },
+
+  async updatePurchase(id: string, updatesInput: Partial<CreditCardPurchase>): Promise<CreditCardPurchase> {
+    // Anexos são gerenciados pelo attachmentService, não pela compra
+    const { splits, attachments: _attachments, installment_list: _installmentList, ...updates } = updatesInput;
+
     // Buscar a compra original para validação de limite se o valor mudou
     const { data: originalPurchase } = await supabase
       .from('credit_card_purchases')
@@ -272,6 +366,16 @@ export const creditCardService = {
       }
     }
 
+    if (splits !== undefined) {
+      validateSplits(splits, updates.amount ?? originalPurchase?.amount ?? 0);
+      if (splits.length) {
+        updates.category_id = splits[0].categoryId;
+      }
+    }
+    if (updates.tags !== undefined) {
+      updates.tags = normalizeTags(updates.tags);
+    }
+
     const { data, error } = await supabase
       .from('credit_card_purchases')
       .update(updates)
@@ -280,29 +384,53 @@ export const creditCardService = {
       .single();
     
     if (error) throw error;
+
+    // Linhas de divisão só são substituídas quando enviadas
+    const savedSplits = splits !== undefined
+      ? await replaceSplits({ purchaseId: id }, splits)
+      : undefined;
     
     // Atualizar o limite usado do cartão
     if (originalPurchase) {
       await this.updateCardLimits(originalPurchase.card_id);
     }
     
-    return data as CreditCardPurchase;
+    return { ...data, splits: savedSplits } as CreditCardPurchase;
   },
 
-  async deletePurchase(id: string): Promise<void> {
-    // Buscar a compra para saber qual cartão atualizar
-    const { data: purchase } = await supabase
+  // Antecipação: as parcelas em aberto das faturas futuras passam para a fatura atual e o
+  // restante da compra é pago nela. Retorna quantas parcelas foram antecipadas.
+  async anticipateInstallments(purchaseId: string): Promise<number> {
+    const { data: purchase, error: purchaseError } = await supabase
       .from('credit_card_purchases')
       .select('card_id')
-      .eq('id', id)
+      .eq('id', purchaseId)
       .single();
 
-    const { error } = await supabase
-      .from('credit_card_purchases')
-      .delete()
-      .eq('id', id);
-    
+    if (purchaseError) throw purchaseError;
+
+    // A fatura do ciclo de hoje, mesmo que a do ciclo anterior ainda não tenha sido fechada
+    const bill = await this.getCurrentOrCreateBill(purchase.card_id, new Date());
+
+    // Os totais das faturas de origem e de destino são refeitos pelos triggers
+    const { data, error } = await supabase
+      .from('credit_card_installments')
+      .update({ bill_id: bill.id, due_date: bill.closing_date })
+      .eq('purchase_id', purchaseId)
+      .eq('is_paid', false)
+      .gt('due_date', bill.closing_date)
+      .select('id');
+
     if (error) throw error;
+
+    await this.updateCardLimits(purchase.card_id);
+
+    return data?.length || 0;
+  },
+
+  async deletePurchase(id: string): Promise<void> {
+    // A compra vai para a lixeira (pode ser restaurada por 30 dias)
+    const [purchase] = await movePurchasesToTrash([id]);
     
     // Atualizar o limite usado do cartão
     if (purchase) {
@@ -314,15 +442,20 @@ export const creditCardService = {
   async getPaymentsByBill(billId: string): Promise<CreditCardPayment[]> {
     const { data, error } = await supabase
       .from('credit_card_payments')
-      .select('*')
+      .select(`*, ${ATTACHMENTS_SELECT}`)
       .eq('bill_id', billId)
       .order('payment_date', { ascending: false });
     
     if (error) throw error;
-    return (data || []) as CreditCardPayment[];
+    return (data || []).map(payment => ({
+      ...payment,
+      attachments: mapAttachments(payment.attachments)
+    })) as CreditCardPayment[];
   },
 
-  async createPayment(payment: Omit<CreditCardPayment, 'id' | 'created_at'>): Promise<CreditCardPayment> {
+  async createPayment(paymentInput: Omit<CreditCardPayment, 'id' | 'created_at'>): Promise<CreditCardPayment> {
+    const { attachments, ...payment } = paymentInput;
+
     const { data, error } = await supabase
       .from('credit_card_payments')
       .insert(payment)
@@ -330,10 +463,15 @@ export const creditCardService = {
       .single();
     
     if (error) throw error;
-    return data as CreditCardPayment;
+
+    await linkAttachments((attachments || []).map(a => a.id), { paymentId: data.id });
+
+    return { ...data, attachments } as CreditCardPayment;
   },
 
-  async updatePayment(id: string, updates: Partial<CreditCardPayment>): Promise<CreditCardPayment> {
+  async updatePayment(id: string, updatesInput: Partial<CreditCardPayment>): Promise<CreditCardPayment> {
+    const { attachments: _attachments, ...updates } = updatesInput;
+
     const { data, error } = await supabase
       .from('credit_card_payments')
       .update(updates)
@@ -346,6 +484,8 @@ export const creditCardService = {
   },
 
   async deletePayment(id: string): Promise<void> {
+    await removeAttachmentFiles('payment', [id]);
+
     const { error } = await supabase
       .from('credit_card_payments')
       .delete()
@@ -355,99 +495,48 @@ export const creditCardService = {
   },
 
   // ========== HELPER FUNCTIONS ==========
-  async generateCurrentBill(cardId: string): Promise<CreditCardBill> {
+  // Fatura em que entra uma compra feita na data (hoje por padrão), criada se ainda não existir.
+  // O vencimento vai para o dia útil quando a fatura é gravada
+  async getCurrentOrCreateBill(cardId: string, purchaseDate: Date = new Date()): Promise<CreditCardBill> {
     const card = await this.getCard(cardId);
     if (!card) throw new Error('Cartão não encontrado');
 
-    const now = new Date();
-    const currentMonth = now.getMonth() + 1;
-    const currentYear = now.getFullYear();
-
-    // Calcular datas da fatura
-    const openingDate = new Date(currentYear, currentMonth - 2, card.closing_day + 1);
-    const closingDate = new Date(currentYear, currentMonth - 1, card.closing_day);
-    const dueDate = new Date(currentYear, currentMonth - 1, card.due_day);
-
-    // Se já passou do vencimento, calcular para o próximo mês
-    if (now > dueDate) {
-      const nextMonth = currentMonth === 12 ? 1 : currentMonth + 1;
-      const nextYear = currentMonth === 12 ? currentYear + 1 : currentYear;
-      
-      const nextOpeningDate = new Date(nextYear, nextMonth - 2, card.closing_day + 1);
-      const nextClosingDate = new Date(nextYear, nextMonth - 1, card.closing_day);
-      const nextDueDate = new Date(nextYear, nextMonth - 1, card.due_day);
-
-      return this.createBill({
-        card_id: cardId,
-        reference_month: nextMonth,
-        reference_year: nextYear,
-        opening_date: nextOpeningDate.toISOString().split('T')[0],
-        closing_date: nextClosingDate.toISOString().split('T')[0],
-        due_date: nextDueDate.toISOString().split('T')[0],
-        status: 'open',
-        interest_amount: 0,
-        late_fee: 0
-      });
-    }
+    const cycle = getBillingCycle(card, purchaseDate);
 
-    return this.createBill({
-      card_id: cardId,
-      reference_month: currentMonth,
-      reference_year: currentYear,
-      opening_date: openingDate.toISOString().split('T')[0],
-      closing_date: closingDate.toISOString().split('T')[0],
-      due_date: dueDate.toISOString().split('T')[0],
-      status: 'open',
-      interest_amount: 0,
-      late_fee: 0
-    });
-  },
-
-  async getCurrentOrCreateBill(cardId: string): Promise<CreditCardBill> {
-    const now = new Date();
-    const currentMonth = now.getMonth() + 1;
-    const currentYear = now.getFullYear();
-
-    // Tentar buscar fatura atual
     const { data: existingBill } = await supabase
       .from('credit_card_bills')
       .select('*')
       .eq('card_id', cardId)
-      .eq('reference_month', currentMonth)
-      .eq('reference_year', currentYear)
-      .single();
+      .eq('reference_month', cycle.referenceMonth)
+      .eq('reference_year', cycle.referenceYear)
+      .maybeSingle();
 
     if (existingBill) {
       return existingBill as CreditCardBill;
     }
 
-    // Se não existe, criar nova fatura
-    return this.generateCurrentBill(cardId);
+    return this.createBill({
+      card_id: cardId,
+      reference_month: cycle.referenceMonth,
+      reference_year: cycle.referenceYear,
+      opening_date: cycle.openingDate,
+      closing_date: cycle.closingDate,
+      due_date: cycle.dueDate,
+      status: 'open',
+      interest_amount: 0,
+      late_fee: 0
+    });
   },
 
   // ========== CARD LIMITS UPDATE ==========
   async updateCardLimits(cardId: string): Promise<void> {
-    // Calcular o total usado baseado nas compras
-    const { data: purchases } = await supabase
-      .from('credit_card_purchases')
-      .select('amount')
-      .eq('card_id', cardId);
-    
-    const totalUsed = purchases?.reduce((sum, purchase) => sum + purchase.amount, 0) || 0;
-    
-    // Buscar o limite total do cartão
-    const card = await this.getCard(cardId);
-    if (!card) return;
-    
-    const availableLimit = Math.max(0, card.total_limit - totalUsed);
-    
-    // Atualizar o cartão
-    await supabase
-      .from('credit_cards')
-      .update({
-        used_limit: totalUsed,
-        available_limit: availableLimit
-      })
-      .eq('id', cardId);
+    // O limite usado é o que falta pagar das faturas em aberto, mais o que ainda não tem
+    // fatura: parcelas liberam o limite conforme as faturas delas são pagas
+    const { error } = await supabase.rpc('update_credit_card_limits', {
+      card_id_param: cardId
+    });
+    if (error) {
+      console.error('Erro ao atualizar limites do cartão:', error);
+    }
   }
 };
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Envelope } from "@/types/budgets";
+
+const mapEnvelopeRow = (item: Tables<"poupeja_envelopes">): Envelope => ({
+  id: item.id,
+  categoryId: item.category_id,
+  month: item.month,
+  allocated: Number(item.allocated),
+  leftoverAction: item.leftover_action as Envelope["leftoverAction"],
+  goalId: item.goal_id || undefined,
+  sweptAmount: Number(item.swept_amount),
+  sweptAt: item.swept_at || undefined
+});
+
+// Every month is needed: leftovers roll over from the first month with envelopes
+export const getEnvelopes = async (): Promise<Envelope[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("poupeja_envelopes")
+      .select("*")
+      .order("month");
+
+    if (error) throw error;
+    return data.map(mapEnvelopeRow);
+  } catch (error) {
+    console.error("Error fetching envelopes:", error);
+    return [];
+  }
+};
+
+// One envelope per category and month: saving again replaces the allocation and the leftover action
+export const saveEnvelope = async (
+  envelope: Pick<Envelope, "categoryId" | "month" | "allocated" | "leftoverAction" | "goalId">
+): Promise<Envelope> => {
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) {
+    throw new Error("You must be logged in to save an envelope");
+  }
+  if (!(envelope.allocated >= 0)) {
+    throw new Error("Envelope amount can't be negative");
+  }
+  if (envelope.leftoverAction === "sweep" && !envelope.goalId) {
+    throw new Error("Choose the goal that receives the leftover");
+  }
+
+  const { data, error } = await supabase
+    .from("poupeja_envelopes")
+    .upsert(
+      {
+        user_id: authData.user.id,
+        category_id: envelope.categoryId,
+        month: envelope.month,
+        allocated: envelope.allocated,
+        leftover_action: envelope.leftoverAction,
+        goal_id: envelope.leftoverAction === "sweep" ? envelope.goalId : null
+      },
+      { onConflict: "user_id,category_id,month" }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return mapEnvelopeRow(data);
+};
+
+// Starts a month with the previous month's allocations. Categories that already have an
+// envelope in the target month are kept as they are
+export const copyEnvelopes = async (envelopes: Envelope[], toMonth: string): Promise<number> => {
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) {
+    throw new Error("You must be logged in to copy envelopes");
+  }
+  if (envelopes.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from("poupeja_envelopes")
+    .upsert(
+      envelopes.map(envelope => ({
+        user_id: authData.user.id,
+        category_id: envelope.categoryId,
+        month: toMonth,
+        allocated: envelope.allocated,
+        leftover_action: envelope.leftoverAction,
+        goal_id: envelope.goalId || null
+      })),
+      { onConflict: "user_id,category_id,month", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (error) throw error;
+  return data?.length || 0;
+};
+
+// Month end: moves each leftover to the envelope's goal. The swept amount is recorded on
+// the envelope, so running it again only moves what is still pending
+export const sweepEnvelopeLeftovers = async (items: { envelope: Envelope; amount: number }[]): Promise<number> => {
+  let total = 0;
+
+  for (const { envelope, amount } of items) {
+    if (!envelope.goalId || !(amount > 0)) continue;
+
+    const { error: goalError } = await supabase.rpc("update_goal_amount", {
+      p_goal_id: envelope.goalId,
+      p_amount_change: amount
+    });
+    if (goalError) throw goalError;
+
+    const { error } = await supabase
+      .from("poupeja_envelopes")
+      .update({ swept_amount: envelope.sweptAmount + amount, swept_at: new Date().toISOString() })
+      .eq("id", envelope.id);
+    if (error) throw error;
+
+    total += amount;
+  }
+
+  return total;
+};
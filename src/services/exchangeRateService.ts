@@ -0,0 +1,117 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { ExchangeRate } from "@/types";
+
+// The edge function (create-transaction) has its own copy of the rate lookup
+// in supabase/functions/_shared/exchangeRates.ts, and the database another one
+// (find_exchange_rate) — keep them in sync.
+
+const mapRateRow = (item: Tables<"poupeja_exchange_rates">): ExchangeRate => ({
+  id: item.id,
+  fromCurrency: item.from_currency,
+  toCurrency: item.to_currency,
+  rate: Number(item.rate),
+  rateDate: item.rate_date,
+  isGlobal: item.user_id === null
+});
+
+// The base currency is the currency chosen in the preferences (PreferencesContext keeps it in localStorage)
+export const getBaseCurrency = (): string => localStorage.getItem("currency") || "BRL";
+
+// Rate to convert 1 `from` into `to` on a date: the latest rate on or before the date
+// (the oldest one when every rate is newer), read directly or inverted. The user's own
+// rates win over the global ones of the same day
+export const findExchangeRate = (
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  date?: string
+): number | null => {
+  if (from === to) return 1;
+
+  const dateKey = (date || new Date().toISOString()).slice(0, 10);
+  const candidates = rates
+    .filter(rate =>
+      (rate.fromCurrency === from && rate.toCurrency === to) ||
+      (rate.fromCurrency === to && rate.toCurrency === from)
+    )
+    .sort((a, b) => b.rateDate.localeCompare(a.rateDate) || Number(a.isGlobal) - Number(b.isGlobal));
+
+  const match = candidates.find(rate => rate.rateDate <= dateKey) || candidates[candidates.length - 1];
+  if (!match) return null;
+  return match.fromCurrency === from ? match.rate : 1 / match.rate;
+};
+
+export const getExchangeRates = async (): Promise<ExchangeRate[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("poupeja_exchange_rates")
+      .select("*")
+      .order("rate_date", { ascending: false })
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data.map(mapRateRow);
+  } catch (error) {
+    console.error("Error fetching exchange rates:", error);
+    return [];
+  }
+};
+
+export const lookupExchangeRate = async (from: string, to: string, date?: string): Promise<number | null> => {
+  if (from === to) return 1;
+  return findExchangeRate(await getExchangeRates(), from, to, date);
+};
+
+// Global rates (no user) can only be saved by admins (RLS)
+export const saveExchangeRate = async (
+  rate: Omit<ExchangeRate, "id">
+): Promise<ExchangeRate> => {
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) {
+    throw new Error("You must be logged in to save an exchange rate");
+  }
+  if (rate.fromCurrency === rate.toCurrency) {
+    throw new Error("Exchange rates need two different currencies");
+  }
+  if (!(rate.rate > 0)) {
+    throw new Error("Exchange rate must be greater than zero");
+  }
+
+  const { data, error } = await supabase
+    .from("poupeja_exchange_rates")
+    .insert({
+      user_id: rate.isGlobal ? null : authData.user.id,
+      from_currency: rate.fromCurrency,
+      to_currency: rate.toCurrency,
+      rate: rate.rate,
+      rate_date: rate.rateDate
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return mapRateRow(data);
+};
+
+export const deleteExchangeRate = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("poupeja_exchange_rates")
+    .delete()
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+// Records the rate to a new base currency on every transaction that was converted to
+// another one. The database does it in a single update (rebase_transactions, with the same
+// rate rules as findExchangeRate); the ones without a known rate keep their previous
+// conversion and are counted in `missing`
+export const rebaseTransactions = async (baseCurrency: string): Promise<{ updated: number; missing: number }> => {
+  const { data, error } = await supabase.rpc("rebase_transactions", { new_base_currency: baseCurrency });
+
+  if (error) throw error;
+
+  const result = data?.[0];
+  return { updated: result?.updated_count ?? 0, missing: result?.missing_count ?? 0 };
+};
@@ -238,8 +238,21 @@ export const recalculateGoalAmounts = async (): Promise<boolean> => {
         continue;
       }
 
-      // Calcular o valor total das transações
-      const currentAmount = transactions.reduce((sum, t) => sum + t.amount, 0);
+      // Sobras de envelopes transferidas para a meta no fechamento do mês
+      const { data: sweeps, error: sweepsError } = await supabase
+        .from("poupeja_envelopes")
+        .select("swept_amount")
+        .eq("goal_id", goal.id)
+        .gt("swept_amount", 0);
+
+      if (sweepsError) {
+        console.error(`Erro ao buscar sobras de envelopes para meta ${goal.id}:`, sweepsError);
+        continue;
+      }
+
+      // Calcular o valor total das transações e das sobras
+      const currentAmount = transactions.reduce((sum, t) => sum + t.amount, 0)
+        + sweeps.reduce((sum, sweep) => sum + Number(sweep.swept_amount), 0);
       console.log(`Valor calculado para meta ${goal.id}: ${currentAmount}`);
 
       // Atualizar o valor atual da meta no banco de dados
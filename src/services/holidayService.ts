@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Holiday } from "@/types";
+
+const mapHolidayRow = (item: Tables<"poupeja_holidays">): Holiday => ({
+  id: item.id,
+  date: item.holiday_date,
+  name: item.name,
+  recurring: item.recurring
+});
+
+// The user's own (municipal or state) holidays. National ones are computed by holidayUtils
+export const getHolidays = async (): Promise<Holiday[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("poupeja_holidays")
+      .select("*")
+      .order("holiday_date");
+
+    if (error) throw error;
+    return data.map(mapHolidayRow);
+  } catch (error) {
+    console.error("Error fetching holidays:", error);
+    return [];
+  }
+};
+
+export const addHoliday = async (holiday: Omit<Holiday, "id" | "national">): Promise<Holiday> => {
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) {
+    throw new Error("You must be logged in to add a holiday");
+  }
+
+  const { data, error } = await supabase
+    .from("poupeja_holidays")
+    .insert({
+      user_id: authData.user.id,
+      holiday_date: holiday.date,
+      name: holiday.name.trim(),
+      recurring: holiday.recurring
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return mapHolidayRow(data);
+};
+
+export const deleteHoliday = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("poupeja_holidays")
+    .delete()
+    .eq("id", id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,87 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { CSVDateFormat, CSVDelimiter, CSVNumberFormat } from "@/utils/csvParser";
+
+// Fields a CSV column can be mapped to
+export type CSVImportField = 'date' | 'amount' | 'description' | 'category' | 'account' | 'type' | 'tags';
+
+// How a CSV file should be read. Columns are stored by header name so the same
+// profile keeps working when the app that exported the file reorders its columns.
+export interface CSVImportMapping {
+  delimiter: CSVDelimiter;
+  hasHeader: boolean;
+  dateFormat: CSVDateFormat;
+  numberFormat: CSVNumberFormat;
+  columns: Partial<Record<CSVImportField, string>>;
+  // When there is no type column: true means negative amounts are expenses (Mobills, banks)
+  negativeIsExpense: boolean;
+}
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  mapping: CSVImportMapping;
+  updatedAt?: string;
+}
+
+export const getImportProfiles = async (): Promise<ImportProfile[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("poupeja_import_profiles")
+      .select("*")
+      .order("name");
+
+    if (error) throw error;
+
+    return data.map((item) => ({
+      id: item.id,
+      name: item.name,
+      mapping: item.mapping as unknown as CSVImportMapping,
+      updatedAt: item.updated_at
+    }));
+  } catch (error) {
+    console.error("Error fetching import profiles:", error);
+    return [];
+  }
+};
+
+// Saving with an existing name overwrites that profile
+export const saveImportProfile = async (name: string, mapping: CSVImportMapping): Promise<ImportProfile> => {
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) {
+    throw new Error("You must be logged in to save an import profile");
+  }
+
+  const { data, error } = await supabase
+    .from("poupeja_import_profiles")
+    .upsert(
+      { user_id: authData.user.id, name: name.trim(), mapping: mapping as unknown as Json },
+      { onConflict: "user_id,name" }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return {
+    id: data.id,
+    name: data.name,
+    mapping: data.mapping as unknown as CSVImportMapping,
+    updatedAt: data.updated_at
+  };
+};
+
+export const deleteImportProfile = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("poupeja_import_profiles")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error deleting import profile:", error);
+    return false;
+  }
+};
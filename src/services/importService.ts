@@ -0,0 +1,333 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Category } from "@/types/categories";
+import { OFXStatement } from "@/utils/ofxParser";
+import { parseCSVAmount, parseCSVDate } from "@/utils/csvParser";
+import { importTransactions } from "./transactionService";
+import { creditCardService } from "./creditCardService";
+import { addCategory, getCategories } from "./categoryService";
+import { getAccounts } from "./accountService";
+import { CSVImportMapping } from "./importProfileService";
+import { normalizeTags } from "./tagService";
+
+// A statement line as shown in the import preview
+export interface ImportCandidate {
+  fitId: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // always positive
+  type: 'income' | 'expense';
+  description: string;
+  // 'fitid': same FITID already imported; 'similar': same amount within a few days
+  duplicate?: 'fitid' | 'similar';
+  // Lines that cannot be imported at all (e.g. payments on a card statement)
+  skipReason?: string;
+  selected: boolean;
+}
+
+interface ExistingEntry {
+  externalId?: string | null;
+  date: string;
+  amountCents: number; // signed, relative to the account or card
+}
+
+// How far apart two entries with the same amount may be to count as a possible duplicate
+export const SIMILAR_DATE_WINDOW_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (a: string, b: string) =>
+  Math.abs(new Date(`${a}T00:00:00`).getTime() - new Date(`${b}T00:00:00`).getTime()) / DAY_MS;
+
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00`);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+const toCents = (value: number) => Math.round(value * 100);
+
+const signedCents = (candidate: ImportCandidate) =>
+  candidate.type === 'income' ? toCents(candidate.amount) : -toCents(candidate.amount);
+
+// Flags candidates that already exist: first by FITID, then by amount and date proximity.
+// Each existing entry can only match one candidate, so two identical purchases on the
+// same day in the file are not both hidden by a single row in the database.
+export const markDuplicates = (candidates: ImportCandidate[], existing: ExistingEntry[]): ImportCandidate[] => {
+  const knownIds = new Set(existing.map((entry) => entry.externalId).filter(Boolean));
+  const unmatched = existing.filter((entry) => !entry.externalId);
+  const seenInFile = new Set<string>();
+
+  return candidates.map((candidate) => {
+    if (candidate.skipReason) return { ...candidate, selected: false };
+
+    if (knownIds.has(candidate.fitId) || seenInFile.has(candidate.fitId)) {
+      return { ...candidate, duplicate: 'fitid' as const, selected: false };
+    }
+    seenInFile.add(candidate.fitId);
+
+    const cents = signedCents(candidate);
+    const matchIndex = unmatched.findIndex((entry) =>
+      entry.amountCents === cents && daysBetween(entry.date, candidate.date) <= SIMILAR_DATE_WINDOW_DAYS
+    );
+    if (matchIndex >= 0) {
+      unmatched.splice(matchIndex, 1);
+      return { ...candidate, duplicate: 'similar' as const, selected: false };
+    }
+
+    return { ...candidate, duplicate: undefined, selected: true };
+  });
+};
+
+const statementRange = (statement: OFXStatement) => {
+  const dates = statement.transactions.map((transaction) => transaction.date).sort();
+  const start = statement.startDate || dates[0];
+  const end = statement.endDate || dates[dates.length - 1];
+  return {
+    from: shiftDate(start, -SIMILAR_DATE_WINDOW_DAYS),
+    to: shiftDate(end, SIMILAR_DATE_WINDOW_DAYS)
+  };
+};
+
+const toCandidates = (statement: OFXStatement): ImportCandidate[] =>
+  statement.transactions.map((transaction) => ({
+    fitId: transaction.fitId,
+    date: transaction.date,
+    amount: Math.abs(transaction.amount),
+    type: transaction.amount >= 0 ? 'income' : 'expense',
+    description: transaction.name || transaction.memo || 'Importado',
+    selected: true
+  }));
+
+export const buildBankImportPreview = async (statement: OFXStatement, accountId: string): Promise<ImportCandidate[]> => {
+  if (statement.transactions.length === 0) return [];
+  const { from, to } = statementRange(statement);
+
+  const { data, error } = await supabase
+    .from("poupeja_transactions")
+    .select("type, amount, date, account_id, destination_account_id, external_id")
+    .or(`account_id.eq.${accountId},destination_account_id.eq.${accountId}`)
+    .gte("date", from)
+    .lte("date", `${to}T23:59:59`);
+
+  if (error) throw error;
+
+  // Sign each row from the point of view of the selected account
+  const existing: ExistingEntry[] = (data || []).map((row) => {
+    const cents = toCents(Number(row.amount));
+    const isIncoming = row.type === 'income' ||
+      (row.type === 'transfer' && row.destination_account_id === accountId);
+    return {
+      externalId: row.account_id === accountId ? row.external_id : null,
+      date: row.date.slice(0, 10),
+      amountCents: isIncoming ? cents : -cents
+    };
+  });
+
+  return markDuplicates(toCandidates(statement), existing);
+};
+
+export const buildCardImportPreview = async (statement: OFXStatement, cardId: string): Promise<ImportCandidate[]> => {
+  if (statement.transactions.length === 0) return [];
+  const { from, to } = statementRange(statement);
+
+  const { data, error } = await supabase
+    .from("credit_card_purchases")
+    .select("amount, purchase_date, external_id")
+    .eq("card_id", cardId)
+    .gte("purchase_date", from)
+    .lte("purchase_date", to);
+
+  if (error) throw error;
+
+  const existing: ExistingEntry[] = (data || []).map((row) => ({
+    externalId: row.external_id,
+    date: row.purchase_date.slice(0, 10),
+    amountCents: -toCents(Number(row.amount))
+  }));
+
+  // Credits on a card statement are bill payments or refunds, not purchases
+  const candidates = toCandidates(statement).map((candidate) =>
+    candidate.type === 'income'
+      ? { ...candidate, skipReason: 'Pagamento ou estorno', selected: false }
+      : candidate
+  );
+
+  return markDuplicates(candidates, existing);
+};
+
+export const importBankStatement = async (
+  candidates: ImportCandidate[],
+  accountId: string,
+  categories: { incomeCategoryId?: string; expenseCategoryId?: string } = {}
+): Promise<number> => {
+  const selected = candidates.filter((candidate) => candidate.selected && !candidate.skipReason);
+
+  return importTransactions(selected.map((candidate) => ({
+    type: candidate.type,
+    amount: candidate.amount,
+    category: '',
+    category_id: candidate.type === 'income' ? categories.incomeCategoryId : categories.expenseCategoryId,
+    description: candidate.description,
+    date: candidate.date,
+    accountId,
+    externalId: candidate.fitId
+  })));
+};
+
+export const importCardStatement = async (
+  candidates: ImportCandidate[],
+  cardId: string,
+  categoryId?: string
+): Promise<number> => {
+  const selected = candidates.filter((candidate) => candidate.selected && !candidate.skipReason);
+
+  return creditCardService.importPurchases(cardId, selected.map((candidate) => ({
+    description: candidate.description,
+    amount: candidate.amount,
+    purchase_date: candidate.date,
+    category_id: categoryId,
+    external_id: candidate.fitId
+  })));
+};
+
+// CSV import (spreadsheets and exports from other apps)
+export interface CSVImportRow {
+  line: number; // 1-based line in the file, for error messages
+  date?: string; // YYYY-MM-DD
+  amount: number; // always positive
+  type: 'income' | 'expense';
+  description: string;
+  categoryName?: string;
+  accountName?: string;
+  tags: string[];
+  error?: string;
+  selected: boolean;
+}
+
+// Column names used by the mapping: the header row, or "Coluna N" for files without one
+export const getCSVHeaders = (rows: string[][], hasHeader: boolean): string[] => {
+  const width = Math.max(0, ...rows.slice(0, 20).map((row) => row.length));
+  return Array.from({ length: width }, (_, i) =>
+    (hasHeader && rows[0]?.[i]) || `Coluna ${i + 1}`
+  );
+};
+
+const INCOME_TYPES = ['income', 'receita', 'entrada', 'credito', 'crédito', 'c'];
+const EXPENSE_TYPES = ['expense', 'despesa', 'saida', 'saída', 'debito', 'débito', 'd'];
+const TRANSFER_TYPES = ['transfer', 'transferencia', 'transferência'];
+
+export const buildCSVImportRows = (rows: string[][], mapping: CSVImportMapping): CSVImportRow[] => {
+  const headers = getCSVHeaders(rows, mapping.hasHeader);
+  const indexOf = (field: keyof CSVImportMapping['columns']) => {
+    const column = mapping.columns[field];
+    return column ? headers.indexOf(column) : -1;
+  };
+  const columns = {
+    date: indexOf('date'),
+    amount: indexOf('amount'),
+    description: indexOf('description'),
+    category: indexOf('category'),
+    account: indexOf('account'),
+    type: indexOf('type'),
+    tags: indexOf('tags')
+  };
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index] || '' : '');
+  const firstLine = mapping.hasHeader ? 1 : 0;
+
+  return rows.slice(firstLine).map((row, i) => {
+    const date = parseCSVDate(cell(row, columns.date), mapping.dateFormat);
+    const signedAmount = parseCSVAmount(cell(row, columns.amount), mapping.numberFormat);
+    const typeValue = cell(row, columns.type).toLowerCase();
+
+    let type: 'income' | 'expense';
+    if (INCOME_TYPES.includes(typeValue)) type = 'income';
+    else if (EXPENSE_TYPES.includes(typeValue)) type = 'expense';
+    else if (mapping.negativeIsExpense) type = signedAmount < 0 ? 'expense' : 'income';
+    else type = signedAmount < 0 ? 'income' : 'expense';
+
+    let error: string | undefined;
+    if (!date) error = 'Data inválida';
+    else if (isNaN(signedAmount) || signedAmount === 0) error = 'Valor inválido';
+    else if (TRANSFER_TYPES.includes(typeValue)) error = 'Transferências não são importadas';
+
+    return {
+      line: firstLine + i + 1,
+      date,
+      amount: isNaN(signedAmount) ? 0 : Math.abs(signedAmount),
+      type,
+      description: cell(row, columns.description),
+      categoryName: cell(row, columns.category) || undefined,
+      accountName: cell(row, columns.account) || undefined,
+      tags: normalizeTags(cell(row, columns.tags).split(/[\s,;]+/)),
+      error,
+      selected: !error
+    };
+  });
+};
+
+const categoryKey = (type: string, name: string) => `${type}|${name.trim().toLowerCase()}`;
+
+// Category names in the file that do not exist yet for their type
+export const findMissingCategories = (rows: CSVImportRow[], categories: Category[]) => {
+  const known = new Set(categories.map((category) => categoryKey(category.type, category.name)));
+  const missing = new Map<string, { name: string; type: 'income' | 'expense' }>();
+
+  rows.filter((row) => row.selected && row.categoryName).forEach((row) => {
+    const key = categoryKey(row.type, row.categoryName!);
+    if (!known.has(key) && !missing.has(key)) {
+      missing.set(key, { name: row.categoryName!.trim(), type: row.type });
+    }
+  });
+
+  return Array.from(missing.values());
+};
+
+export const importCSVRows = async (
+  rows: CSVImportRow[],
+  options: { defaultAccountId?: string; createMissingCategories: boolean }
+): Promise<{ created: number; categoriesCreated: number }> => {
+  const selected = rows.filter((row) => row.selected && !row.error);
+  if (selected.length === 0) return { created: 0, categoriesCreated: 0 };
+
+  const categories = await getCategories();
+  const categoryIds = new Map(categories.map((category) => [categoryKey(category.type, category.name), category.id]));
+
+  let categoriesCreated = 0;
+  if (options.createMissingCategories) {
+    for (const missing of findMissingCategories(selected, categories)) {
+      const category = await addCategory({ ...missing, color: '#607D8B', icon: 'circle' });
+      if (category) {
+        categoryIds.set(categoryKey(category.type, category.name), category.id);
+        categoriesCreated++;
+      }
+    }
+  }
+
+  // downloadCSV exports accounts as "Nome • Banco"; match on the full label or just the name
+  const accounts = await getAccounts();
+  const accountIds = new Map<string, string>();
+  accounts.forEach((account) => {
+    accountIds.set(account.name.trim().toLowerCase(), account.id);
+    if (account.bank_name) {
+      accountIds.set(`${account.name} • ${account.bank_name}`.trim().toLowerCase(), account.id);
+    }
+  });
+  const resolveAccount = (name?: string) => {
+    if (!name) return options.defaultAccountId;
+    const label = name.trim().toLowerCase();
+    return accountIds.get(label) || accountIds.get(label.split(' • ')[0]) || options.defaultAccountId;
+  };
+
+  const created = await importTransactions(selected.map((row) => ({
+    type: row.type,
+    amount: row.amount,
+    category: row.categoryName || '',
+    // Sem categoria correspondente, importTransactions usa "Outros"
+    category_id: row.categoryName ? categoryIds.get(categoryKey(row.type, row.categoryName)) : undefined,
+    description: row.description,
+    date: row.date!,
+    accountId: resolveAccount(row.accountName),
+    tags: row.tags
+  })));
+
+  return { created, categoriesCreated };
+};
@@ -0,0 +1,86 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  RecordFieldChange,
+  RecordHistoryAction,
+  RecordHistoryEntry,
+  RecordHistorySource,
+  RecordHistoryType
+} from "@/types";
+
+type RecordData = Record<string, unknown>;
+
+// Bookkeeping columns that are not shown as changes
+const IGNORED_FIELDS = ["id", "user_id", "created_at", "updated_at"];
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const diffRecords = (oldData: RecordData | null, newData: RecordData | null): RecordFieldChange[] => {
+  const fields = new Set([...Object.keys(oldData || {}), ...Object.keys(newData || {})]);
+
+  return [...fields]
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .filter(field => !isSameValue(oldData?.[field], newData?.[field]))
+    // A new record only lists the fields that were filled in
+    .filter(field => oldData !== null || (newData?.[field] !== null && newData?.[field] !== ""))
+    .map(field => ({
+      field,
+      before: oldData ? oldData[field] ?? null : undefined,
+      after: newData ? newData[field] ?? null : undefined
+    }));
+};
+
+const mapHistoryRow = (item: Tables<"poupeja_record_history">): RecordHistoryEntry => {
+  const oldData = item.old_data as RecordData | null;
+  const newData = item.new_data as RecordData | null;
+  const data = newData || oldData || {};
+
+  return {
+    id: item.id,
+    recordType: item.record_type as RecordHistoryType,
+    recordId: item.record_id,
+    action: item.action as RecordHistoryAction,
+    source: item.source as RecordHistorySource,
+    changedAt: item.changed_at,
+    changedBy: item.changed_by || undefined,
+    label: String(data.description || data.name || data.notes || ""),
+    // Deletions keep the last state in old_data; there is nothing to compare it with
+    changes: item.action === "DELETE" ? [] : diffRecords(oldData, newData)
+  };
+};
+
+// Timeline of a single record, newest first
+export const getRecordHistory = async (recordType: RecordHistoryType, recordId: string): Promise<RecordHistoryEntry[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("poupeja_record_history")
+      .select("*")
+      .eq("record_type", recordType)
+      .eq("record_id", recordId)
+      .order("changed_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapHistoryRow);
+  } catch (error) {
+    console.error("Error fetching record history:", error);
+    return [];
+  }
+};
+
+// Purchases and payments of a credit card, newest first
+export const getCardHistory = async (cardId: string, limit = 100): Promise<RecordHistoryEntry[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("poupeja_record_history")
+      .select("*")
+      .eq("card_id", cardId)
+      .order("changed_at", { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(mapHistoryRow);
+  } catch (error) {
+    console.error("Error fetching card history:", error);
+    return [];
+  }
+};
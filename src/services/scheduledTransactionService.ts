@@ -1,38 +1,295 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { ScheduledTransaction } from "@/types";
+import { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { BusinessDayAdjustment, Holiday, OccurrenceEditScope, RecurrenceFrequency, RecurrenceRule, ScheduledTransaction } from "@/types";
 import { v4 as uuidv4 } from "uuid";
+import { getBaseCurrency, lookupExchangeRate } from "@/services/exchangeRateService";
+import { creditCardService } from "@/services/creditCardService";
+import { getHolidays } from "@/services/holidayService";
+import { addDays, differenceInCalendarDays } from "date-fns";
+import {
+  formatRecurrenceDate,
+  getFirstOccurrence,
+  getNextOccurrence,
+  isBusinessDayRule,
+  normalizeRecurrenceRule,
+  toRecurrenceDate
+} from "@/utils/recurrenceUtils";
+import { adjustToBusinessDay } from "@/utils/holidayUtils";
+
+type RecurrenceColumns = Pick<
+  Tables<"poupeja_scheduled_transactions">,
+  | "recurrence"
+  | "recurrence_interval"
+  | "recurrence_by_weekday"
+  | "recurrence_by_month_day"
+  | "recurrence_by_set_pos"
+  | "recurrence_until"
+  | "recurrence_count"
+>;
+
+export const mapRecurrenceRule = (item: RecurrenceColumns): RecurrenceRule => ({
+  frequency: (item.recurrence || "once") as RecurrenceFrequency,
+  interval: item.recurrence_interval || 1,
+  byWeekday: item.recurrence_by_weekday?.length ? item.recurrence_by_weekday : undefined,
+  byMonthDay: item.recurrence_by_month_day || undefined,
+  bySetPos: item.recurrence_by_set_pos || undefined,
+  until: item.recurrence_until || undefined,
+  count: item.recurrence_count || undefined
+});
+
+// Columns to save for the transaction's rule (or a plain frequency, which repeats every
+// period). The rule is normalized against the scheduled date, so monthly and yearly series
+// keep their day of the month instead of drifting after a shorter month
+export const toRecurrenceColumns = (
+  transaction: Pick<Partial<ScheduledTransaction>, "recurrence" | "recurrenceRule" | "scheduledDate" | "scheduled_date">
+): Partial<TablesUpdate<"poupeja_scheduled_transactions">> => {
+  const rule = transaction.recurrenceRule || (transaction.recurrence && { frequency: transaction.recurrence, interval: 1 });
+  const scheduledDate = transaction.scheduledDate || transaction.scheduled_date;
+  if (!rule || !scheduledDate) return {};
+
+  const normalized = normalizeRecurrenceRule(rule, toRecurrenceDate(scheduledDate));
+  return {
+    recurrence: normalized.frequency,
+    recurrence_interval: normalized.interval,
+    recurrence_by_weekday: normalized.byWeekday || null,
+    recurrence_by_month_day: normalized.byMonthDay || null,
+    recurrence_by_set_pos: normalized.bySetPos || null,
+    recurrence_until: normalized.frequency === "once" ? null : normalized.until || null,
+    recurrence_count: normalized.frequency === "once" ? null : normalized.count || null
+  };
+};
+
+export const SCHEDULED_TRANSACTION_SELECT = `
+  *,
+  category:poupeja_categories(id, name, icon, color, type),
+  account:poupeja_accounts(id, name, bank_name),
+  credit_card:credit_cards(id, name)
+`;
+
+type ScheduledTransactionRow = Tables<"poupeja_scheduled_transactions">;
+
+type PaymentSourceColumns = Pick<ScheduledTransactionRow, "account_id" | "credit_card_id"> & {
+  account?: Pick<Tables<"poupeja_accounts">, "name" | "bank_name"> | null;
+  credit_card?: Pick<Tables<"credit_cards">, "name"> | null;
+};
+
+// A row selected with SCHEDULED_TRANSACTION_SELECT
+type ScheduledTransactionWithRelations = ScheduledTransactionRow & PaymentSourceColumns & {
+  category: Pick<Tables<"poupeja_categories">, "name" | "icon" | "color"> | null;
+};
+
+export const mapPaymentSource = (item: PaymentSourceColumns): Pick<ScheduledTransaction, "accountId" | "accountName" | "creditCardId" | "creditCardName"> => ({
+  accountId: item.account_id || undefined,
+  accountName: item.account
+    ? `${item.account.name}${item.account.bank_name ? ` • ${item.account.bank_name}` : ""}`
+    : undefined,
+  creditCardId: item.credit_card_id || undefined,
+  creditCardName: item.credit_card?.name || undefined
+});
+
+// Only when the caller sent the payment source, so partial updates (e.g. the status) keep it.
+// Choosing one side clears the other; cards only pay expenses
+export const toPaymentSourceColumns = (
+  transaction: Pick<Partial<ScheduledTransaction>, "type" | "accountId" | "creditCardId">
+): Partial<TablesUpdate<"poupeja_scheduled_transactions">> => {
+  if (!("accountId" in transaction) && !("creditCardId" in transaction)) return {};
+
+  const creditCardId = transaction.type === "income" ? null : transaction.creditCardId || null;
+  return {
+    account_id: creditCardId ? null : transaction.accountId || null,
+    credit_card_id: creditCardId
+  };
+};
+
+// Payments are recorded like any transaction of the account: in its currency, with the rate
+// to the base currency on the day. Without an account they are in the base currency
+const resolveAccountCurrency = async (accountId: string | null, date: string) => {
+  const baseCurrency = getBaseCurrency();
+  const { data: account } = accountId
+    ? await supabase.from("poupeja_accounts").select("currency").eq("id", accountId).maybeSingle()
+    : { data: null };
+
+  const currency = account?.currency || baseCurrency;
+  const exchangeRate = currency === baseCurrency ? 1 : await lookupExchangeRate(currency, baseCurrency, date);
+  if (!exchangeRate) {
+    throw new Error(`No exchange rate from ${currency} to ${baseCurrency}`);
+  }
+
+  return { currency, exchange_rate: exchangeRate, base_currency: baseCurrency };
+};
+
+// Not paid or skipped yet
+const OPEN_STATUSES = "status.is.null,status.in.(pending,upcoming,overdue)";
+// A series that wasn't opened for a long time still stops at a sane number of new rows
+const MAX_NEW_OCCURRENCES = 400;
+
+const mapScheduledTransactionRow = (item: ScheduledTransactionWithRelations): ScheduledTransaction => ({
+  id: item.id,
+  type: item.type as 'income' | 'expense',
+  amount: item.amount,
+  category: item.category?.name || "Outros",
+  category_id: item.category_id,
+  categoryIcon: item.category?.icon || "circle",
+  categoryColor: item.category?.color || "#607D8B",
+  description: item.description || "",
+  scheduledDate: item.scheduled_date,
+  recurrence: item.recurrence as RecurrenceFrequency | undefined,
+  recurrenceRule: mapRecurrenceRule(item),
+  occurrenceNumber: item.occurrence_number,
+  originalDate: item.original_date || undefined,
+  originalAmount: item.original_amount ?? undefined,
+  seriesId: item.series_id,
+  autoDebit: item.auto_debit,
+  businessDayAdjustment: item.business_day_adjustment as BusinessDayAdjustment,
+  ...mapPaymentSource(item),
+  goalId: item.goal_id,
+  status: item.status as 'pending' | 'paid' | 'overdue' | 'upcoming' | 'skipped' | undefined,
+  paidDate: item.paid_date,
+  paidAmount: item.paid_amount,
+  lastExecutionDate: item.last_execution_date,
+  nextExecutionDate: item.next_execution_date,
+});
+
+// Get category ID - if it's already an ID, use it directly, otherwise find by name
+const resolveCategoryId = async (transaction: Partial<ScheduledTransaction>): Promise<string> => {
+  if (transaction.category_id) return transaction.category_id;
+
+  // Try to find by name if category_id is not provided
+  const { data: categoryByName } = await supabase
+    .from("poupeja_categories")
+    .select("id")
+    .eq("name", transaction.category)
+    .eq("type", transaction.type)
+    .single();
+
+  // Fallback to default "Outros" category
+  return categoryByName?.id || (transaction.type === 'income' ? 'other-income' : 'other-expense');
+};
+
+// The calendar day the series gives for the occurrence: a moved occurrence keeps it in original_date
+const getSeriesDay = (row: ScheduledTransactionRow): string => row.original_date || row.scheduled_date.slice(0, 10);
+
+// The user's holidays only matter when dates move to business days or the rule counts them
+const getHolidaysFor = async (adjustment: string | undefined, rule?: RecurrenceRule): Promise<Holiday[]> =>
+  (!adjustment || adjustment === "none") && !(rule && isBusinessDayRule(rule)) ? [] : getHolidays();
+
+// The occurrence is due on the series day or, when that is a weekend or holiday and the series
+// says so, on the next (or previous) business day. The series day is kept in original_date,
+// so the following occurrences don't drift. Stored like the form stores dates: midnight UTC
+const toDueDateColumns = (seriesDay: string, adjustment: string | undefined, holidays: Holiday[]) => {
+  const dueDay = formatRecurrenceDate(
+    adjustToBusinessDay(toRecurrenceDate(seriesDay), (adjustment || "none") as BusinessDayAdjustment, holidays)
+  );
+  const dueDate = new Date(dueDay).toISOString();
+  return {
+    scheduled_date: dueDate,
+    next_execution_date: dueDate,
+    original_date: dueDay === seriesDay ? null : seriesDay
+  };
+};
+
+// Due date columns of a new or edited occurrence that falls on `scheduledDate` by its series
+export const resolveDueDateColumns = async (scheduledDate: string, adjustment: string | undefined) =>
+  toDueDateColumns(scheduledDate.slice(0, 10), adjustment, await getHolidaysFor(adjustment));
+
+// The occurrence after `row`, or null when the series ended (one-off, all occurrences created or
+// past its end date). It follows the series, not the exceptions of `row`: the date comes from
+// the rule and the amount is the series amount
+const buildNextOccurrence = (
+  row: ScheduledTransactionRow,
+  holidays: Holiday[]
+): TablesInsert<"poupeja_scheduled_transactions"> | null => {
+  const nextDate = getNextOccurrence(
+    mapRecurrenceRule(row),
+    toRecurrenceDate(getSeriesDay(row)),
+    row.occurrence_number,
+    holidays
+  );
+  if (!nextDate) return null;
+
+  return {
+    user_id: row.user_id,
+    type: row.type,
+    amount: row.original_amount ?? row.amount,
+    category_id: row.category_id,
+    description: row.description,
+    ...toDueDateColumns(formatRecurrenceDate(nextDate), row.business_day_adjustment, holidays),
+    recurrence: row.recurrence,
+    recurrence_interval: row.recurrence_interval,
+    recurrence_by_weekday: row.recurrence_by_weekday,
+    recurrence_by_month_day: row.recurrence_by_month_day,
+    recurrence_by_set_pos: row.recurrence_by_set_pos,
+    recurrence_until: row.recurrence_until,
+    recurrence_count: row.recurrence_count,
+    occurrence_number: row.occurrence_number + 1,
+    series_id: row.series_id,
+    auto_debit: row.auto_debit,
+    business_day_adjustment: row.business_day_adjustment,
+    account_id: row.account_id,
+    credit_card_id: row.credit_card_id,
+    goal_id: row.goal_id,
+    status: 'pending'
+  };
+};
+
+// Creates the occurrence after `row` and, with `untilDay`, the following ones up to the first
+// after that day (what the daily job keeps created). The job may have created some of them
+// already: those are kept
+const createNextOccurrences = async (row: ScheduledTransactionRow, untilDay = ""): Promise<void> => {
+  const occurrences: TablesInsert<"poupeja_scheduled_transactions">[] = [];
+  const holidays = await getHolidaysFor(row.business_day_adjustment, mapRecurrenceRule(row));
+  let current = row;
+
+  while (occurrences.length < MAX_NEW_OCCURRENCES) {
+    const next = buildNextOccurrence(current, holidays);
+    if (!next) break;
+
+    occurrences.push(next);
+    current = { ...current, ...next, original_amount: null };
+    if (getSeriesDay(current) > untilDay) break;
+  }
+
+  if (occurrences.length === 0) return;
+
+  const { error } = await supabase
+    .from("poupeja_scheduled_transactions")
+    .upsert(occurrences, { onConflict: "series_id,occurrence_number", ignoreDuplicates: true });
+
+  if (error) throw error;
+};
+
+// A new date or amount for a single occurrence of a series is an exception: the occurrence
+// remembers what the series says, so the next ones aren't moved or changed along with it
+const toOverrideColumns = (
+  current: ScheduledTransactionRow,
+  transaction: Partial<ScheduledTransaction>
+): Partial<TablesUpdate<"poupeja_scheduled_transactions">> => {
+  const columns: Partial<TablesUpdate<"poupeja_scheduled_transactions">> = {};
+  const scheduledDate = transaction.scheduledDate || transaction.scheduled_date;
+
+  if (scheduledDate) {
+    const seriesDay = getSeriesDay(current);
+    columns.original_date = scheduledDate.slice(0, 10) === seriesDay ? null : seriesDay;
+  }
+  if (transaction.amount !== undefined) {
+    const seriesAmount = current.original_amount ?? current.amount;
+    columns.original_amount = transaction.amount === seriesAmount ? null : seriesAmount;
+  }
+
+  return columns;
+};
 
 export const getScheduledTransactions = async (): Promise<ScheduledTransaction[]> => {
   try {
     const { data, error } = await supabase
       .from("poupeja_scheduled_transactions")
-      .select(`
-        *,
-        category:poupeja_categories(id, name, icon, color, type)
-      `)
+      .select(SCHEDULED_TRANSACTION_SELECT)
       .order("scheduled_date", { ascending: true });
 
     if (error) throw error;
 
-    return data.map((item) => ({
-      id: item.id,
-      type: item.type as 'income' | 'expense',
-      amount: item.amount,
-      category: item.category?.name || "Outros",
-      category_id: item.category_id,
-      categoryIcon: item.category?.icon || "circle",
-      categoryColor: item.category?.color || "#607D8B",
-      description: item.description || "",
-      scheduledDate: item.scheduled_date,
-      recurrence: item.recurrence as 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly' | undefined,
-      goalId: item.goal_id,
-      status: item.status as 'pending' | 'paid' | 'overdue' | 'upcoming' | undefined,
-      paidDate: item.paid_date,
-      paidAmount: item.paid_amount,
-      lastExecutionDate: item.last_execution_date,
-      nextExecutionDate: item.next_execution_date,
-    }));
+    return data.map(mapScheduledTransactionRow);
   } catch (error) {
     console.error("Error fetching scheduled transactions:", error);
     return [];
@@ -52,27 +309,6 @@ export const addScheduledTransaction = async (
       throw new Error("User not authenticated");
     }
 
-    // Get category ID - if it's already an ID, use it directly, otherwise find by name
-    let categoryId = transaction.category_id;
-    
-    if (!categoryId) {
-      // Try to find by name if category_id is not provided
-      const { data: categoryByName } = await supabase
-        .from("poupeja_categories")
-        .select("id")
-        .eq("name", transaction.category)
-        .eq("type", transaction.type)
-        .single();
-      
-      if (categoryByName) {
-        categoryId = categoryByName.id;
-      } else {
-        // Fallback to default "Outros" category
-        const defaultCategoryId = transaction.type === 'income' ? 'other-income' : 'other-expense';
-        categoryId = defaultCategoryId;
-      }
-    }
-    
     const { data, error } = await supabase
       .from("poupeja_scheduled_transactions")
       .insert({
@@ -80,115 +316,145 @@ export const addScheduledTransaction = async (
         user_id: session.user.id,
         type: transaction.type,
         amount: transaction.amount,
-        category_id: categoryId,
+        category_id: await resolveCategoryId(transaction),
         description: transaction.description,
-        scheduled_date: transaction.scheduledDate,
-        recurrence: transaction.recurrence,
+        ...await resolveDueDateColumns(transaction.scheduledDate, transaction.businessDayAdjustment),
+        ...toRecurrenceColumns(transaction),
+        auto_debit: transaction.autoDebit ?? false,
+        business_day_adjustment: transaction.businessDayAdjustment || "none",
+        ...toPaymentSourceColumns(transaction),
         goal_id: transaction.goalId,
-        status: 'pending',
-        next_execution_date: transaction.scheduledDate
+        status: 'pending'
       })
-      .select(`
-        *,
-        category:poupeja_categories(id, name, icon, color, type)
-      `)
+      .select(SCHEDULED_TRANSACTION_SELECT)
       .single();
 
     if (error) throw error;
 
-    return {
-      id: data.id,
-      type: data.type as 'income' | 'expense',
-      amount: data.amount,
-      category: data.category?.name || "Outros",
-      category_id: data.category_id,
-      categoryIcon: data.category?.icon || "circle",
-      categoryColor: data.category?.color || "#607D8B",
-      description: data.description || "",
-      scheduledDate: data.scheduled_date,
-      recurrence: data.recurrence as 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly' | undefined,
-      goalId: data.goal_id,
-      status: data.status as 'pending' | 'paid' | 'overdue' | 'upcoming' | undefined,
-      paidDate: data.paid_date,
-      paidAmount: data.paid_amount,
-      lastExecutionDate: data.last_execution_date,
-      nextExecutionDate: data.next_execution_date,
-    };
+    return mapScheduledTransactionRow(data);
   } catch (error) {
     console.error("Error adding scheduled transaction:", error);
     return null;
   }
 };
 
+// Edits a scheduled transaction. For an occurrence of a recurring series the scope says which
+// occurrences change:
+//  - "this": only this one, and only its date and amount, kept as an exception (see
+//    toOverrideColumns). Everything else belongs to the series
+//  - "following": the series starts again from this occurrence with the new values
+//  - "all": the same, from the first occurrence not paid or skipped yet, moving it by as many
+//    days as this one moved
+// Paid and skipped occurrences are history and never change with the series. The open
+// occurrences after the new start (and their exceptions) are created again from it
 export const updateScheduledTransaction = async (
-  transaction: ScheduledTransaction
+  transaction: Partial<ScheduledTransaction> & Pick<ScheduledTransaction, "id">,
+  scope: OccurrenceEditScope = "this"
 ): Promise<ScheduledTransaction | null> => {
   try {
-    // Get category ID - if it's already an ID, use it directly, otherwise find by name
-    let categoryId = transaction.category_id;
-    
-    if (!categoryId) {
-      // Try to find by name if category_id is not provided
-      const { data: categoryByName } = await supabase
-        .from("poupeja_categories")
-        .select("id")
-        .eq("name", transaction.category)
-        .eq("type", transaction.type)
+    const { data: current, error: fetchError } = await supabase
+      .from("poupeja_scheduled_transactions")
+      .select("*")
+      .eq("id", transaction.id)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const seriesColumns = {
+      type: transaction.type,
+      amount: transaction.amount,
+      category_id: transaction.category_id || transaction.category ? await resolveCategoryId(transaction) : undefined,
+      description: transaction.description,
+      auto_debit: transaction.autoDebit,
+      business_day_adjustment: transaction.businessDayAdjustment,
+      ...toPaymentSourceColumns(transaction),
+      goal_id: transaction.goalId,
+    };
+    const adjustment = transaction.businessDayAdjustment || current.business_day_adjustment;
+    const scheduledDate = transaction.scheduledDate || transaction.scheduled_date;
+    const isRecurring = !!current.recurrence && current.recurrence !== "once";
+
+    if (!isRecurring || scope === "this") {
+      // A one-off moves to a business day like the occurrences of a series; a single occurrence
+      // of a series goes exactly where it was moved
+      const dateColumns = !isRecurring && scheduledDate
+        ? await resolveDueDateColumns(scheduledDate, adjustment)
+        : { scheduled_date: scheduledDate, next_execution_date: scheduledDate };
+
+      const { data, error } = await supabase
+        .from("poupeja_scheduled_transactions")
+        .update({
+          // The rest of an occurrence (description, category, rule...) is the series'
+          ...(isRecurring
+            ? { amount: transaction.amount, ...toOverrideColumns(current, transaction) }
+            : { ...seriesColumns, ...toRecurrenceColumns(transaction) }),
+          ...dateColumns,
+          status: transaction.status,
+          paid_date: transaction.paidDate,
+          paid_amount: transaction.paidAmount,
+          last_execution_date: transaction.lastExecutionDate,
+          updated_at: new Date().toISOString()
+        })
+        .eq("id", transaction.id)
+        .select(SCHEDULED_TRANSACTION_SELECT)
         .single();
-      
-      if (categoryByName) {
-        categoryId = categoryByName.id;
-      } else {
-        // Fallback to default "Outros" category
-        const defaultCategoryId = transaction.type === 'income' ? 'other-income' : 'other-expense';
-        categoryId = defaultCategoryId;
-      }
+
+      if (error) throw error;
+      return mapScheduledTransactionRow(data);
+    }
+
+    let start = current;
+    if (scope === "all") {
+      const { data: firstOpen, error: firstOpenError } = await supabase
+        .from("poupeja_scheduled_transactions")
+        .select("*")
+        .eq("series_id", current.series_id)
+        .or(OPEN_STATUSES)
+        .order("occurrence_number", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (firstOpenError) throw firstOpenError;
+      if (firstOpen) start = firstOpen;
     }
 
+    // The new start follows the (new) rule: "5th business day" moved to the 1st is a few days later
+    const rule = transaction.recurrenceRule
+      || (transaction.recurrence && { frequency: transaction.recurrence, interval: 1 })
+      || mapRecurrenceRule(current);
+    const shift = scheduledDate
+      ? differenceInCalendarDays(toRecurrenceDate(scheduledDate), toRecurrenceDate(getSeriesDay(current)))
+      : 0;
+    const startDay = addDays(toRecurrenceDate(getSeriesDay(start)), shift);
+    const startSeriesDay = formatRecurrenceDate(getFirstOccurrence(rule, startDay, await getHolidaysFor("none", rule)));
+
     const { data, error } = await supabase
       .from("poupeja_scheduled_transactions")
       .update({
-        type: transaction.type,
-        amount: transaction.amount,
-        category_id: categoryId,
-        description: transaction.description,
-        scheduled_date: transaction.scheduledDate,
-        recurrence: transaction.recurrence,
-        goal_id: transaction.goalId,
-        status: transaction.status,
-        paid_date: transaction.paidDate,
-        paid_amount: transaction.paidAmount,
-        last_execution_date: transaction.lastExecutionDate,
-        next_execution_date: transaction.nextExecutionDate,
+        ...seriesColumns,
+        ...toRecurrenceColumns({ recurrenceRule: rule, scheduledDate: startSeriesDay }),
+        ...await resolveDueDateColumns(startSeriesDay, adjustment),
+        original_amount: null,
         updated_at: new Date().toISOString()
       })
-      .eq("id", transaction.id)
-      .select(`
-        *,
-        category:poupeja_categories(id, name, icon, color, type)
-      `)
+      .eq("id", start.id)
+      .select(SCHEDULED_TRANSACTION_SELECT)
       .single();
 
     if (error) throw error;
 
-    return {
-      id: data.id,
-      type: data.type as 'income' | 'expense',
-      amount: data.amount,
-      category: data.category?.name || "Outros",
-      category_id: data.category_id,
-      categoryIcon: data.category?.icon || "circle",
-      categoryColor: data.category?.color || "#607D8B",
-      description: data.description || "",
-      scheduledDate: data.scheduled_date,
-      recurrence: data.recurrence as 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly' | undefined,
-      goalId: data.goal_id,
-      status: data.status as 'pending' | 'paid' | 'overdue' | 'upcoming' | undefined,
-      paidDate: data.paid_date,
-      paidAmount: data.paid_amount,
-      lastExecutionDate: data.last_execution_date,
-      nextExecutionDate: data.next_execution_date,
-    };
+    const { error: deleteError } = await supabase
+      .from("poupeja_scheduled_transactions")
+      .delete()
+      .eq("series_id", start.series_id)
+      .gt("occurrence_number", start.occurrence_number)
+      .or(OPEN_STATUSES);
+
+    if (deleteError) throw deleteError;
+
+    await createNextOccurrences(data, formatRecurrenceDate(new Date()));
+
+    return mapScheduledTransactionRow(data);
   } catch (error) {
     console.error("Error updating scheduled transaction:", error);
     return null;
@@ -216,20 +482,43 @@ export const markAsPaid = async (
     const actualPaidAmount = paidAmount || scheduledTransaction.amount;
     const now = new Date().toISOString();
 
-    // Create a real transaction
-    const { error: transactionError } = await supabase
-      .from("poupeja_transactions")
-      .insert({
-        user_id: session.user.id,
-        type: scheduledTransaction.type,
+    if (scheduledTransaction.credit_card_id && scheduledTransaction.type === "expense") {
+      // Paid with a card: a purchase on the bill of the occurrence's day, even when it is
+      // marked as paid later
+      await creditCardService.createPurchase({
+        card_id: scheduledTransaction.credit_card_id,
+        description: `${scheduledTransaction.description || "Compra no cartão"} (Agendado)`,
         amount: actualPaidAmount,
-        category_id: scheduledTransaction.category_id,
-        description: `${scheduledTransaction.description} (Agendado)`,
-        date: now,
-        goal_id: scheduledTransaction.goal_id
+        purchase_date: scheduledTransaction.scheduled_date.slice(0, 10),
+        installments: 1,
+        installment_amount: actualPaidAmount,
+        is_installment: false,
+        category_id: scheduledTransaction.category_id || undefined,
+        tags: []
       });
 
-    if (transactionError) throw transactionError;
+      const { error: billError } = await supabase.rpc("auto_generate_credit_card_bills", {
+        card_id_param: scheduledTransaction.credit_card_id
+      });
+      if (billError) console.error("Error generating credit card bills:", billError);
+    } else {
+      // Create a real transaction, in the account currency when it has one
+      const { error: transactionError } = await supabase
+        .from("poupeja_transactions")
+        .insert({
+          user_id: session.user.id,
+          type: scheduledTransaction.type,
+          amount: actualPaidAmount,
+          category_id: scheduledTransaction.category_id,
+          description: `${scheduledTransaction.description} (Agendado)`,
+          date: now,
+          goal_id: scheduledTransaction.goal_id,
+          account_id: scheduledTransaction.account_id,
+          ...await resolveAccountCurrency(scheduledTransaction.account_id, now)
+        });
+
+      if (transactionError) throw transactionError;
+    }
 
     // Mark current transaction as paid
     const { error: updateError } = await supabase
@@ -245,46 +534,8 @@ export const markAsPaid = async (
 
     if (updateError) throw updateError;
 
-    // For recurring transactions, create a new scheduled transaction for the next occurrence
-    if (scheduledTransaction.recurrence && scheduledTransaction.recurrence !== 'once') {
-      const currentDate = new Date(scheduledTransaction.next_execution_date || scheduledTransaction.scheduled_date);
-      
-      // Calculate next execution date
-      switch (scheduledTransaction.recurrence) {
-        case 'daily':
-          currentDate.setDate(currentDate.getDate() + 1);
-          break;
-        case 'weekly':
-          currentDate.setDate(currentDate.getDate() + 7);
-          break;
-        case 'monthly':
-          currentDate.setMonth(currentDate.getMonth() + 1);
-          break;
-        case 'yearly':
-          currentDate.setFullYear(currentDate.getFullYear() + 1);
-          break;
-      }
-
-      const nextExecutionDate = currentDate.toISOString();
-
-      // Create new scheduled transaction for next occurrence
-      const { error: nextTransactionError } = await supabase
-        .from("poupeja_scheduled_transactions")
-        .insert({
-          user_id: session.user.id,
-          type: scheduledTransaction.type,
-          amount: scheduledTransaction.amount,
-          category_id: scheduledTransaction.category_id,
-          description: scheduledTransaction.description,
-          scheduled_date: nextExecutionDate,
-          recurrence: scheduledTransaction.recurrence,
-          goal_id: scheduledTransaction.goal_id,
-          status: 'pending',
-          next_execution_date: nextExecutionDate
-        });
-
-      if (nextTransactionError) throw nextTransactionError;
-    }
+    // For recurring transactions, create the next occurrence unless the series ended
+    await createNextOccurrences(scheduledTransaction);
 
     return true;
   } catch (error) {
@@ -293,6 +544,33 @@ export const markAsPaid = async (
   }
 };
 
+// Skips one occurrence of a series: nothing is posted for it and the series goes on
+export const skipOccurrence = async (transactionId: string): Promise<boolean> => {
+  try {
+    const { data: scheduledTransaction, error: fetchError } = await supabase
+      .from("poupeja_scheduled_transactions")
+      .select("*")
+      .eq("id", transactionId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const { error: updateError } = await supabase
+      .from("poupeja_scheduled_transactions")
+      .update({ status: 'skipped', updated_at: new Date().toISOString() })
+      .eq("id", transactionId);
+
+    if (updateError) throw updateError;
+
+    await createNextOccurrences(scheduledTransaction);
+
+    return true;
+  } catch (error) {
+    console.error("Error skipping scheduled transaction:", error);
+    return false;
+  }
+};
+
 export const deleteScheduledTransaction = async (id: string): Promise<boolean> => {
   try {
     const { error } = await supabase
@@ -0,0 +1,35 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+// Tags are stored lowercase with dashes instead of spaces ("Trip Lisbon" -> "trip-lisbon")
+export const normalizeTag = (tag: string): string =>
+  tag
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/[\s,]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+
+export const normalizeTags = (tags: string[] | undefined | null): string[] => {
+  if (!tags) return [];
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+};
+
+// Tags already used on transactions and card purchases, most used first
+export const getUserTags = async (): Promise<TagUsage[]> => {
+  try {
+    const { data, error } = await supabase.rpc("get_user_tags");
+
+    if (error) throw error;
+
+    return (data || []).map((row) => ({ tag: row.tag, count: Number(row.usage_count) }));
+  } catch (error) {
+    console.error("Error fetching user tags:", error);
+    return [];
+  }
+};
@@ -1,45 +1,216 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { Transaction } from "@/types";
+import { Tables } from "@/integrations/supabase/types";
+import { Transaction, TransactionType } from "@/types";
 import { v4 as uuidv4 } from "uuid";
+import { SPLITS_SELECT, SplitRow, mapSplits, validateSplits, replaceSplits } from "@/services/transactionSplitService";
+import { normalizeTags } from "@/services/tagService";
+import { ATTACHMENTS_SELECT, UploadRow, mapAttachments, getAttachments, linkAttachments } from "@/services/attachmentService";
+import { getRuleForTransaction, isUncategorized } from "@/services/categoryRuleService";
+import { recalculateGoalAmounts } from "@/services/goalService";
+import { moveTransactionsToTrash } from "@/services/trashService";
+import { findExchangeRate, getBaseCurrency, getExchangeRates, lookupExchangeRate } from "@/services/exchangeRateService";
+
+const validateTransferAccounts = async (sourceAccountId?: string, destinationAccountId?: string) => {
+  if (!sourceAccountId || !destinationAccountId) {
+    throw new Error("Transfers require both a source and a destination account");
+  }
+  if (sourceAccountId === destinationAccountId) {
+    throw new Error("Source and destination accounts must be different");
+  }
 
-export const getTransactions = async (): Promise<Transaction[]> => {
-  try {
-    const { data, error } = await supabase
-      .from("poupeja_transactions")
-      .select(`
-        *,
-        category:poupeja_categories(id, name, icon, color, type),
-        account:poupeja_accounts(id, name, bank_name)
-      `)
-      .order("date", { ascending: false });
+  // Both accounts must be the user's (only their own accounts are visible to them)
+  const { data: accounts, error } = await supabase
+    .from("poupeja_accounts")
+    .select("id")
+    .in("id", [sourceAccountId, destinationAccountId]);
 
-    if (error) throw error;
+  if (error) throw error;
+  if (!accounts || accounts.length !== 2) {
+    throw new Error("Invalid accounts or access denied");
+  }
+};
 
-    console.log("Raw transaction data from Supabase:", data?.slice(0, 2)); // Debug: mostrar primeiras 2 transações
-
-    return data.map((item) => ({
-      id: item.id,
-      type: item.type as 'income' | 'expense',
-      amount: item.amount,
-      category: item.category?.name || "Outros",
-      categoryIcon: item.category?.icon || "circle",
-      categoryColor: item.category?.color || "#607D8B",
-      description: item.description || "",
-      date: item.date,
-      goalId: item.goal_id || undefined,
-      creditCardId: item.credit_card_id || undefined,
-      category_id: item.category_id,
-      account_id: item.account_id,
-      accountId: item.account_id,
-      accountName: item.account ? 
-        `${item.account.name}${item.account.bank_name ? ` • ${item.account.bank_name}` : ''}` : 
-        undefined
-    }));
-  } catch (error) {
-    console.error("Error fetching transactions:", error);
-    return [];
+// A transaction is recorded in the currency of its account, with the rate to the base currency
+// at that moment. The rate sent by the form is kept when it was given for the same currencies;
+// otherwise the stored rate for the transaction date is used
+const resolveCurrency = async (transaction: Omit<Transaction, "id">) => {
+  const accountId = transaction.accountId || transaction.account_id;
+  const destinationAccountId = transaction.type === "transfer"
+    ? transaction.destinationAccountId || transaction.destination_account_id
+    : undefined;
+  const accountIds = [accountId, destinationAccountId].filter(Boolean) as string[];
+
+  const { data: accounts } = accountIds.length > 0
+    ? await supabase.from("poupeja_accounts").select("id, currency").in("id", accountIds)
+    : { data: [] };
+
+  // Entries without an account are recorded in the base currency
+  const baseCurrency = getBaseCurrency();
+  const accountCurrency = accounts?.find(account => account.id === accountId)?.currency;
+  const currency = accountCurrency || transaction.currency || baseCurrency;
+  const destinationCurrency = accounts?.find(account => account.id === destinationAccountId)?.currency;
+  if (destinationCurrency && destinationCurrency !== currency) {
+    throw new Error("Transfers between accounts in different currencies are not supported");
   }
+
+  const givenRate = transaction.currency === currency && (transaction.baseCurrency || baseCurrency) === baseCurrency
+    ? transaction.exchangeRate
+    : undefined;
+  const exchangeRate = currency === baseCurrency
+    ? 1
+    : givenRate || await lookupExchangeRate(currency, baseCurrency, transaction.date);
+
+  if (!exchangeRate) {
+    throw new Error(`No exchange rate from ${currency} to ${baseCurrency}`);
+  }
+
+  return { currency, exchange_rate: exchangeRate, base_currency: baseCurrency };
+};
+
+type TransactionRow = Tables<"poupeja_transactions">;
+
+export const mapTransactionCurrency = (item: Pick<TransactionRow, "currency" | "exchange_rate" | "base_currency">) => ({
+  currency: item.currency || "BRL",
+  exchangeRate: Number(item.exchange_rate ?? 1),
+  baseCurrency: item.base_currency || "BRL"
+});
+
+const TRANSACTION_SELECT = `
+  *,
+  category:poupeja_categories(id, name, icon, color, type),
+  account:poupeja_accounts!account_id(id, name, bank_name),
+  destination_account:poupeja_accounts!destination_account_id(id, name, bank_name),
+  ${SPLITS_SELECT},
+  ${ATTACHMENTS_SELECT}
+`;
+
+type AccountNameColumns = Pick<Tables<"poupeja_accounts">, "name" | "bank_name">;
+
+// A row selected with TRANSACTION_SELECT
+type TransactionWithRelations = TransactionRow & {
+  category: Pick<Tables<"poupeja_categories">, "name" | "icon" | "color"> | null;
+  account: AccountNameColumns | null;
+  destination_account: AccountNameColumns | null;
+  splits: SplitRow[] | null;
+  attachments: UploadRow[] | null;
+};
+
+const mapTransactionRow = (item: TransactionWithRelations): Transaction => ({
+  id: item.id,
+  type: item.type as TransactionType,
+  amount: item.amount,
+  category: item.category?.name || (item.type === 'transfer' ? "Transferência" : "Outros"),
+  categoryIcon: item.category?.icon || (item.type === 'transfer' ? "arrow-left-right" : "circle"),
+  categoryColor: item.category?.color || "#607D8B",
+  description: item.description || "",
+  date: item.date,
+  goalId: item.goal_id || undefined,
+  creditCardId: item.credit_card_id || undefined,
+  category_id: item.category_id,
+  account_id: item.account_id,
+  accountId: item.account_id,
+  accountName: item.account ? 
+    `${item.account.name}${item.account.bank_name ? ` • ${item.account.bank_name}` : ''}` : 
+    undefined,
+  destination_account_id: item.destination_account_id,
+  destinationAccountId: item.destination_account_id || undefined,
+  destinationAccountName: item.destination_account ?
+    `${item.destination_account.name}${item.destination_account.bank_name ? ` • ${item.destination_account.bank_name}` : ''}` :
+    undefined,
+  splits: mapSplits(item.splits),
+  tags: item.tags || [],
+  externalId: item.external_id || undefined,
+  ...mapTransactionCurrency(item),
+  attachments: mapAttachments(item.attachments)
+});
+
+// Every transaction between two dates (YYYY-MM-DD, inclusive), newest first
+export const getTransactions = async (startDate: string, endDate: string): Promise<Transaction[]> => {
+  const { data, error } = await supabase
+    .from("poupeja_transactions")
+    .select(TRANSACTION_SELECT)
+    .gte("date", startDate)
+    .lte("date", `${endDate}T23:59:59`)
+    .order("date", { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(mapTransactionRow);
+};
+
+export const TRANSACTIONS_PAGE_SIZE = 50;
+
+// Filters for the paginated listing. Dates are YYYY-MM-DD and inclusive.
+export interface TransactionFilters {
+  startDate?: string;
+  endDate?: string;
+  type?: TransactionType;
+  categoryId?: string; // matches the main category or any split line
+  accountId?: string; // source or destination (transfers)
+  creditCardId?: string;
+  search?: string; // description, case-insensitive
+  tag?: string;
+}
+
+export type TransactionSortColumn = "date" | "amount" | "description";
+
+export interface TransactionSort {
+  column: TransactionSortColumn;
+  ascending: boolean;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  total: number;
+  nextPage?: number;
+}
+
+// Typed % and _ are matched literally, not as LIKE wildcards
+const escapeLike = (value: string) => value.replace(/[%_\\]/g, (char) => `\\${char}`);
+
+export const getTransactionsPage = async (
+  filters: TransactionFilters = {},
+  sort: TransactionSort = { column: "date", ascending: false },
+  page = 0,
+  pageSize = TRANSACTIONS_PAGE_SIZE
+): Promise<TransactionPage> => {
+  let query = supabase
+    .from("poupeja_transactions")
+    .select(TRANSACTION_SELECT, { count: "exact" });
+
+  if (filters.startDate) query = query.gte("date", filters.startDate);
+  if (filters.endDate) query = query.lte("date", `${filters.endDate}T23:59:59`);
+  if (filters.type) query = query.eq("type", filters.type);
+  if (filters.creditCardId) query = query.eq("credit_card_id", filters.creditCardId);
+  if (filters.tag) query = query.contains("tags", [filters.tag]);
+  if (filters.accountId) {
+    query = query.or(`account_id.eq.${filters.accountId},destination_account_id.eq.${filters.accountId}`);
+  }
+  if (filters.search?.trim()) {
+    query = query.ilike("description", `%${escapeLike(filters.search.trim())}%`);
+  }
+
+  if (filters.categoryId) {
+    // Transações divididas guardam as categorias nas linhas de split: o campo calculado
+    // transaction_category_ids reúne a categoria principal e as dos splits
+    query = query.contains("transaction_category_ids", [filters.categoryId]);
+  }
+
+  const from = page * pageSize;
+  const { data, error, count } = await query
+    .order(sort.column, { ascending: sort.ascending })
+    .order("id", { ascending: sort.ascending })
+    .range(from, from + pageSize - 1);
+
+  if (error) throw error;
+
+  const total = count ?? 0;
+  return {
+    transactions: (data || []).map(mapTransactionRow),
+    total,
+    nextPage: from + pageSize < total ? page + 1 : undefined
+  };
 };
 
 export const addTransaction = async (transaction: Omit<Transaction, "id">): Promise<Transaction | null> => {
@@ -54,22 +225,102 @@ export const addTransaction = async (transaction: Omit<Transaction, "id">): Prom
     const userId = authData.user.id;
     const newId = uuidv4();
 
+    // Transferência entre contas: uma única linha com conta de origem e destino,
+    // sem categoria, para não inflar os totais de receitas e despesas
+    if (transaction.type === 'transfer') {
+      const destinationAccountId = transaction.destinationAccountId || transaction.destination_account_id;
+      await validateTransferAccounts(transaction.accountId, destinationAccountId);
+
+      const { data, error } = await supabase
+        .from("poupeja_transactions")
+        .insert({
+          id: newId,
+          type: 'transfer',
+          amount: transaction.amount,
+          category_id: null,
+          description: transaction.description,
+          date: transaction.date,
+          account_id: transaction.accountId,
+          destination_account_id: destinationAccountId,
+          tags: normalizeTags(transaction.tags),
+          ...await resolveCurrency(transaction),
+          user_id: userId
+        })
+        .select(`
+          *,
+          category:poupeja_categories(id, name, icon, color, type),
+          account:poupeja_accounts!account_id(id, name, bank_name),
+          destination_account:poupeja_accounts!destination_account_id(id, name, bank_name)
+        `)
+        .single();
+
+      if (error) throw error;
+
+      // Receipts uploaded while the form was open
+      await linkAttachments((transaction.attachments || []).map(a => a.id), { transactionId: newId });
+
+      return {
+        id: data.id,
+        type: 'transfer',
+        amount: data.amount,
+        category: "Transferência",
+        categoryIcon: "arrow-left-right",
+        categoryColor: "#607D8B",
+        description: data.description || "",
+        date: data.date,
+        accountId: data.account_id || undefined,
+        account_id: data.account_id,
+        accountName: data.account ?
+          `${data.account.name}${data.account.bank_name ? ` • ${data.account.bank_name}` : ''}` :
+          undefined,
+        destination_account_id: data.destination_account_id,
+        destinationAccountId: data.destination_account_id || undefined,
+        destinationAccountName: data.destination_account ?
+          `${data.destination_account.name}${data.destination_account.bank_name ? ` • ${data.destination_account.bank_name}` : ''}` :
+          undefined,
+        tags: data.tags || [],
+        ...mapTransactionCurrency(data),
+        attachments: transaction.attachments
+      };
+    }
+
+    const creditCardId = transaction.creditCardId && transaction.creditCardId !== 'none' ? transaction.creditCardId : undefined;
+
+    // Auto-categorization rules: the first matching rule replaces a missing or "Outros"
+    // category, fills an empty goal and adds its tags (split transactions keep their lines)
+    const rule = transaction.splits?.length ? undefined : await getRuleForTransaction({
+      type: transaction.type,
+      description: transaction.description,
+      amount: transaction.amount,
+      accountId: transaction.accountId,
+      creditCardId
+    });
+    const tags = normalizeTags([...(transaction.tags || []), ...(rule?.tags || [])]);
+
     // Se for uma despesa com cartão de crédito (e creditCardId não for undefined), criar compra no cartão
-    if (transaction.type === 'expense' && transaction.creditCardId && transaction.creditCardId !== 'none') {
+    if (transaction.type === 'expense' && creditCardId) {
       console.log("Creating credit card purchase instead of direct transaction");
       
       // Import creditCardService here to avoid circular dependencies
       const { creditCardService } = await import('@/services/creditCardService');
       
+      let purchaseCategoryId = transaction.splits?.[0]?.categoryId || transaction.category_id;
+      if (rule?.categoryId && await isUncategorized(purchaseCategoryId)) {
+        purchaseCategoryId = rule.categoryId;
+      }
+
       const purchaseData = {
-        card_id: transaction.creditCardId,
+        card_id: creditCardId,
         description: transaction.description || 'Compra no cartão',
         amount: transaction.amount,
         purchase_date: transaction.date.split('T')[0], // Convert to date only
         installments: 1,
         installment_amount: transaction.amount,
         is_installment: false,
-        category_id: transaction.category_id
+        category_id: purchaseCategoryId,
+        splits: transaction.splits,
+        tags,
+        attachments: transaction.attachments
       };
       
       const purchase = await creditCardService.createPurchase(purchaseData);
@@ -87,8 +338,11 @@ export const addTransaction = async (transaction: Omit<Transaction, "id">): Prom
     // Fluxo normal para transações sem cartão de crédito ou receitas
     console.log("Creating normal transaction (no credit card or income)");
     
+    validateSplits(transaction.splits, transaction.amount);
+
     // Get category ID - if it's already an ID, use it directly, otherwise find by name
-    let categoryId = transaction.category_id || transaction.category;
+    // (split transactions keep the first line's category as the main one)
+    let categoryId = transaction.splits?.[0]?.categoryId || transaction.category_id || transaction.category;
     
     // Check if the category is actually a category ID by trying to find it
     const { data: categoryCheck } = await supabase
@@ -120,12 +374,17 @@ export const addTransaction = async (transaction: Omit<Transaction, "id">): Prom
         
         if (defaultCategory) {
           categoryId = defaultCategory.id;
-        } else {
+        } else if (!rule?.categoryId) {
           throw new Error(`No valid category found for ${transaction.type}`);
         }
       }
     }
 
+    if (rule?.categoryId && await isUncategorized(categoryId)) {
+      categoryId = rule.categoryId;
+    }
+    const goalId = transaction.goalId || rule?.goalId;
+
     const { data, error } = await supabase
       .from("poupeja_transactions")
       .insert({
@@ -135,24 +394,34 @@ export const addTransaction = async (transaction: Omit<Transaction, "id">): Prom
         category_id: categoryId,
         description: transaction.description,
         date: transaction.date,
-        goal_id: transaction.goalId,
+        goal_id: goalId,
         account_id: transaction.accountId,
+        tags,
+        ...await resolveCurrency(transaction),
         user_id: userId
       })
       .select(`
         *,
         category:poupeja_categories(id, name, icon, color, type),
-        account:poupeja_accounts(id, name, bank_name)
+        account:poupeja_accounts!account_id(id, name, bank_name),
+        destination_account:poupeja_accounts!destination_account_id(id, name, bank_name)
       `)
       .single();
 
     if (error) throw error;
 
+    const splits = transaction.splits?.length
+      ? await replaceSplits({ transactionId: newId }, transaction.splits)
+      : undefined;
+
+    // Receipts uploaded while the form was open
+    await linkAttachments((transaction.attachments || []).map(a => a.id), { transactionId: newId });
+
     // If this is an income transaction linked to a goal, update the goal's current amount
-    if (transaction.type === 'income' && transaction.goalId) {
+    if (transaction.type === 'income' && goalId) {
       console.log("Updating goal current amount for income transaction");
       const { error: goalError } = await supabase.rpc('update_goal_amount', {
-        p_goal_id: transaction.goalId,
+        p_goal_id: goalId,
         p_amount_change: transaction.amount
       });
       
@@ -165,10 +434,10 @@ export const addTransaction = async (transaction: Omit<Transaction, "id">): Prom
 
     return {
       id: data.id,
-      type: data.type as 'income' | 'expense',
+      type: data.type as TransactionType,
       amount: data.amount,
-      category: data.category?.name || "Outros",
-      categoryIcon: data.category?.icon || "circle",
+      category: data.category?.name || (data.type === 'transfer' ? "Transferência" : "Outros"),
+      categoryIcon: data.category?.icon || (data.type === 'transfer' ? "arrow-left-right" : "circle"),
       categoryColor: data.category?.color || "#607D8B",
       description: data.description || "",
       date: data.date,
@@ -179,7 +448,16 @@ export const addTransaction = async (transaction: Omit<Transaction, "id">): Prom
       credit_card_id: data.credit_card_id,
       accountName: data.account ? 
         `${data.account.name}${data.account.bank_name ? ` • ${data.account.bank_name}` : ''}` : 
-        undefined
+        undefined,
+      destination_account_id: data.destination_account_id,
+      destinationAccountId: data.destination_account_id || undefined,
+      destinationAccountName: data.destination_account ?
+        `${data.destination_account.name}${data.destination_account.bank_name ? ` • ${data.destination_account.bank_name}` : ''}` :
+        undefined,
+      splits,
+      tags: data.tags || [],
+      ...mapTransactionCurrency(data),
+      attachments: transaction.attachments
     };
   } catch (error) {
     console.error("Error adding transaction:", error);
@@ -212,7 +490,11 @@ export const updateTransaction = async (transaction: Transaction): Promise<Trans
         installments: 1,
         installment_amount: transaction.amount,
         is_installment: false,
-        category_id: transaction.category_id || transaction.category
+        category_id: transaction.splits?.[0]?.categoryId || transaction.category_id || transaction.category,
+        splits: transaction.splits,
+        tags: normalizeTags(transaction.tags),
+        // Receipts move to the purchase before the transaction (and its uploads) are deleted
+        attachments: await getAttachments({ transactionId: transaction.id })
       };
       
       const purchase = await creditCardService.createPurchase(purchaseData);
@@ -235,46 +517,59 @@ export const updateTransaction = async (transaction: Transaction): Promise<Trans
       throw new Error("Failed to convert to credit card purchase");
     }
 
+    const isTransfer = transaction.type === 'transfer';
+    const destinationAccountId = isTransfer
+      ? transaction.destinationAccountId || transaction.destination_account_id
+      : null;
+    if (isTransfer) {
+      await validateTransferAccounts(transaction.accountId || transaction.account_id, destinationAccountId);
+    } else {
+      validateSplits(transaction.splits, transaction.amount);
+    }
+
     // Get category ID - if it's already an ID, use it directly, otherwise find by name
-    let categoryId = transaction.category_id || transaction.category;
+    // Transfers have no category
+    let categoryId = isTransfer ? null : transaction.splits?.[0]?.categoryId || transaction.category_id || transaction.category;
     
-    // Check if the category is actually a category ID by trying to find it
-    const { data: categoryCheck } = await supabase
-      .from("poupeja_categories")
-      .select("id")
-      .eq("id", categoryId)
-      .single();
-    
-    if (!categoryCheck) {
-      // If not found by ID, try to find by name
-      const { data: categoryByName } = await supabase
+    if (!isTransfer) {
+      // Check if the category is actually a category ID by trying to find it
+      const { data: categoryCheck } = await supabase
         .from("poupeja_categories")
         .select("id")
-        .eq("name", categoryId)
-        .eq("type", transaction.type)
+        .eq("id", categoryId)
         .single();
+    
+      if (!categoryCheck) {
+        // If not found by ID, try to find by name
+        const { data: categoryByName } = await supabase
+          .from("poupeja_categories")
+          .select("id")
+          .eq("name", categoryId)
+          .eq("type", transaction.type)
+          .single();
       
-      if (categoryByName) {
-        categoryId = categoryByName.id;
-      } else {
-        // Get user ID for proper fallback
-        const { data: authData } = await supabase.auth.getUser();
-        const userId = authData?.user?.id;
+        if (categoryByName) {
+          categoryId = categoryByName.id;
+        } else {
+          // Get user ID for proper fallback
+          const { data: authData } = await supabase.auth.getUser();
+          const userId = authData?.user?.id;
         
-        if (userId) {
-          // Fallback to finding any "Outros" category for this user and type
-          const { data: defaultCategory } = await supabase
-            .from("poupeja_categories")
-            .select("id")
-            .eq("name", "Outros")
-            .eq("type", transaction.type)
-            .eq("user_id", userId)
-            .single();
+          if (userId) {
+            // Fallback to finding any "Outros" category for this user and type
+            const { data: defaultCategory } = await supabase
+              .from("poupeja_categories")
+              .select("id")
+              .eq("name", "Outros")
+              .eq("type", transaction.type)
+              .eq("user_id", userId)
+              .single();
           
-          if (defaultCategory) {
-            categoryId = defaultCategory.id;
-          } else {
-            throw new Error(`No valid category found for ${transaction.type}`);
+            if (defaultCategory) {
+              categoryId = defaultCategory.id;
+            } else {
+              throw new Error(`No valid category found for ${transaction.type}`);
+            }
           }
         }
       }
@@ -289,20 +584,29 @@ export const updateTransaction = async (transaction: Transaction): Promise<Trans
         category_id: categoryId,
         description: transaction.description,
         date: transaction.date,
-        goal_id: transaction.goalId,
+        goal_id: isTransfer ? null : transaction.goalId,
         account_id: transaction.accountId || transaction.account_id,
-        credit_card_id: creditCardId === 'none' ? null : creditCardId
+        destination_account_id: destinationAccountId,
+        credit_card_id: isTransfer || creditCardId === 'none' ? null : creditCardId,
+        // Tags are left untouched when the caller doesn't send them
+        tags: transaction.tags === undefined ? undefined : normalizeTags(transaction.tags),
+        ...await resolveCurrency(transaction)
       })
       .eq("id", transaction.id)
       .select(`
         *,
         category:poupeja_categories(id, name, icon, color, type),
-        account:poupeja_accounts(id, name, bank_name)
+        account:poupeja_accounts!account_id(id, name, bank_name),
+        destination_account:poupeja_accounts!destination_account_id(id, name, bank_name),
+        ${ATTACHMENTS_SELECT}
       `)
       .single();
 
     if (error) throw error;
 
+    // Transfers have no category, so they never keep split lines
+    const splits = await replaceSplits({ transactionId: transaction.id }, isTransfer ? undefined : transaction.splits);
+
     // Update goal amounts if needed
     if (oldTransaction) {
       // If old transaction was income and linked to a goal, subtract the old amount
@@ -324,10 +628,10 @@ export const updateTransaction = async (transaction: Transaction): Promise<Trans
 
     return {
       id: data.id,
-      type: data.type as 'income' | 'expense',
+      type: data.type as TransactionType,
       amount: data.amount,
-      category: data.category?.name || "Outros",
-      categoryIcon: data.category?.icon || "circle",
+      category: data.category?.name || (data.type === 'transfer' ? "Transferência" : "Outros"),
+      categoryIcon: data.category?.icon || (data.type === 'transfer' ? "arrow-left-right" : "circle"),
       categoryColor: data.category?.color || "#607D8B",
       description: data.description || "",
       date: data.date,
@@ -338,7 +642,16 @@ export const updateTransaction = async (transaction: Transaction): Promise<Trans
       credit_card_id: data.credit_card_id,
       accountName: data.account ? 
         `${data.account.name}${data.account.bank_name ? ` • ${data.account.bank_name}` : ''}` : 
-        undefined
+        undefined,
+      destination_account_id: data.destination_account_id,
+      destinationAccountId: data.destination_account_id || undefined,
+      destinationAccountName: data.destination_account ?
+        `${data.destination_account.name}${data.destination_account.bank_name ? ` • ${data.destination_account.bank_name}` : ''}` :
+        undefined,
+      splits,
+      tags: data.tags || [],
+      ...mapTransactionCurrency(data),
+      attachments: mapAttachments(data.attachments)
     };
   } catch (error) {
     console.error("Error updating transaction:", error);
@@ -346,21 +659,80 @@ export const updateTransaction = async (transaction: Transaction): Promise<Trans
   }
 };
 
-export const deleteTransaction = async (id: string): Promise<boolean> => {
-  try {
-    // First, get the transaction to check if it's linked to a goal
-    const { data: transactionToDelete } = await supabase
-      .from("poupeja_transactions")
-      .select("goal_id, amount, type")
-      .eq("id", id)
-      .single();
+// Bulk insert of imported statement lines (OFX). Lines without a category go to
+// the user's "Outros" category of their type. Returns how many rows were created.
+export const importTransactions = async (transactions: Omit<Transaction, "id">[]): Promise<number> => {
+  if (transactions.length === 0) return 0;
 
-    const { error } = await supabase
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) {
+    throw new Error("You must be logged in to import transactions");
+  }
+  const userId = authData.user.id;
+
+  const { data: defaultCategories } = await supabase
+    .from("poupeja_categories")
+    .select("id, type")
+    .eq("name", "Outros")
+    .eq("user_id", userId);
+
+  const defaultCategoryId = (type: string) =>
+    defaultCategories?.find((category) => category.type === type)?.id || null;
+
+  // Each row is recorded in its account currency with the stored rate of its date
+  const accountIds = Array.from(new Set(
+    transactions.map((transaction) => transaction.accountId || transaction.account_id).filter(Boolean)
+  )) as string[];
+  const { data: accounts } = await supabase
+    .from("poupeja_accounts")
+    .select("id, currency")
+    .in("id", accountIds);
+  const rates = await getExchangeRates();
+  const baseCurrency = getBaseCurrency();
+
+  const currencyFields = (transaction: Omit<Transaction, "id">) => {
+    const accountId = transaction.accountId || transaction.account_id;
+    const currency = accounts?.find((account) => account.id === accountId)?.currency || baseCurrency;
+    const exchangeRate = findExchangeRate(rates, currency, baseCurrency, transaction.date);
+    if (exchangeRate === null) {
+      throw new Error(`No exchange rate from ${currency} to ${baseCurrency}`);
+    }
+    return { currency, exchange_rate: exchangeRate, base_currency: baseCurrency };
+  };
+
+  const rows = transactions.map((transaction) => ({
+    type: transaction.type,
+    amount: transaction.amount,
+    category_id: transaction.category_id || defaultCategoryId(transaction.type),
+    description: transaction.description,
+    date: transaction.date,
+    account_id: transaction.accountId || transaction.account_id,
+    external_id: transaction.externalId || null,
+    tags: normalizeTags(transaction.tags),
+    ...currencyFields(transaction),
+    user_id: userId
+  }));
+
+  // Inserção em lotes para extratos grandes
+  const BATCH_SIZE = 500;
+  let created = 0;
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { data, error } = await supabase
       .from("poupeja_transactions")
-      .delete()
-      .eq("id", id);
+      .insert(rows.slice(i, i + BATCH_SIZE))
+      .select("id");
 
     if (error) throw error;
+    created += data?.length || 0;
+  }
+
+  return created;
+};
+
+export const deleteTransaction = async (id: string): Promise<boolean> => {
+  try {
+    // Moved to the trash (restorable for 30 days); returns the deleted row
+    const [transactionToDelete] = await moveTransactionsToTrash([id]);
 
     // If this was an income transaction linked to a goal, subtract the amount from the goal
     if (transactionToDelete && transactionToDelete.type === 'income' && transactionToDelete.goal_id) {
@@ -381,19 +753,8 @@ export const deleteMultipleTransactions = async (ids: string[]): Promise<boolean
   try {
     if (ids.length === 0) return true;
 
-    // First, get all transactions that will be deleted to check for goal updates
-    const { data: transactionsToDelete } = await supabase
-      .from("poupeja_transactions")
-      .select("id, goal_id, amount, type")
-      .in("id", ids);
-
-    // Delete all transactions
-    const { error } = await supabase
-      .from("poupeja_transactions")
-      .delete()
-      .in("id", ids);
-
-    if (error) throw error;
+    // Move all transactions to the trash, keeping the deleted rows for goal updates
+    const transactionsToDelete = await moveTransactionsToTrash(ids);
 
     // Update goal amounts for any income transactions that were linked to goals
     if (transactionsToDelete) {
@@ -413,3 +774,203 @@ export const deleteMultipleTransactions = async (ids: string[]): Promise<boolean
     return false;
   }
 };
+
+// Bulk edit: fields left undefined are not changed. goalId null unlinks the goal and
+// creditCardId moves expenses to that card (they become card purchases).
+export interface TransactionBulkChanges {
+  categoryId?: string;
+  accountId?: string;
+  goalId?: string | null;
+  date?: string;
+  creditCardId?: string;
+}
+
+export interface TransactionBulkResult {
+  updated: number;
+  // Rows where none of the changes apply (e.g. a category of the other type, a transfer and a goal,
+  // an account in another currency)
+  skipped: number;
+}
+
+const BULK_BATCH_SIZE = 500;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+interface BulkRow {
+  id: string;
+  type: string;
+  amount: number;
+  description: string | null;
+  date: string;
+  category_id: string | null;
+  destination_account_id: string | null;
+  currency: string;
+  tags: string[] | null;
+  splits?: { id: string }[];
+  attachments?: { id: string }[];
+}
+
+// Converts expenses into purchases of a card in one batch. Split lines and receipts
+// move to the purchase; bills and the card limit are updated once at the end.
+const moveTransactionsToCard = async (rows: BulkRow[], cardId: string, changes: TransactionBulkChanges, categoryType?: string) => {
+  const { creditCardService } = await import('@/services/creditCardService');
+
+  const purchases = rows.map(row => ({
+    id: uuidv4(),
+    card_id: cardId,
+    description: row.description || 'Compra no cartão',
+    amount: row.amount,
+    purchase_date: (changes.date || row.date).split('T')[0],
+    installments: 1,
+    installment_amount: row.amount,
+    is_installment: false,
+    category_id: changes.categoryId && categoryType === 'expense' && !row.splits?.length
+      ? changes.categoryId
+      : row.category_id,
+    tags: row.tags || []
+  }));
+
+  for (const batch of chunk(purchases, BULK_BATCH_SIZE)) {
+    const { error } = await supabase.from("credit_card_purchases").insert(batch);
+    if (error) throw error;
+  }
+
+  for (const [index, row] of rows.entries()) {
+    const purchaseId = purchases[index].id;
+    if (row.splits?.length) {
+      const { error } = await supabase
+        .from("poupeja_transaction_splits")
+        .update({ transaction_id: null, purchase_id: purchaseId })
+        .eq("transaction_id", row.id);
+      if (error) throw error;
+    }
+    await linkAttachments((row.attachments || []).map(a => a.id), { purchaseId });
+  }
+
+  for (const batch of chunk(rows.map(row => row.id), BULK_BATCH_SIZE)) {
+    const { error } = await supabase.from("poupeja_transactions").delete().in("id", batch);
+    if (error) throw error;
+  }
+
+  const { error: billError } = await supabase.rpc('auto_generate_credit_card_bills', {
+    card_id_param: cardId
+  });
+  if (billError) console.error("Error generating credit card bills:", billError);
+
+  await creditCardService.updateCardLimits(cardId);
+};
+
+// Applies the same changes to many transactions with as few queries as possible:
+// rows that end up with identical changes are updated together, and goal amounts
+// are recalculated once at the end instead of per row.
+export const bulkUpdateTransactions = async (
+  ids: string[],
+  changes: TransactionBulkChanges
+): Promise<TransactionBulkResult> => {
+  if (ids.length === 0) return { updated: 0, skipped: 0 };
+
+  const rows: BulkRow[] = [];
+  for (const batch of chunk(ids, BULK_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("poupeja_transactions")
+      .select("id, type, amount, description, date, category_id, destination_account_id, currency, tags, splits:poupeja_transaction_splits(id), attachments:poupeja_uploads(id)")
+      .in("id", batch);
+    if (error) throw error;
+    rows.push(...(data || []));
+  }
+
+  // A category only applies to transactions of its own type
+  let categoryType: string | undefined;
+  if (changes.categoryId) {
+    const { data: category, error } = await supabase
+      .from("poupeja_categories")
+      .select("type")
+      .eq("id", changes.categoryId)
+      .single();
+    if (error) throw error;
+    categoryType = category.type;
+  }
+
+  // Amounts are in the account currency, so they only move to accounts in the same currency
+  let accountCurrency: string | undefined;
+  if (changes.accountId) {
+    const { data: account, error } = await supabase
+      .from("poupeja_accounts")
+      .select("currency")
+      .eq("id", changes.accountId)
+      .single();
+    if (error) throw error;
+    accountCurrency = account.currency;
+  }
+
+  const groups = new Map<string, { values: Record<string, unknown>; ids: string[] }>();
+  const toCard: BulkRow[] = [];
+  let skipped = 0;
+  let goalsChanged = false;
+
+  for (const row of rows) {
+    const isTransfer = row.type === 'transfer';
+
+    if (changes.creditCardId) {
+      if (row.type === 'expense') {
+        toCard.push(row);
+      } else {
+        skipped++;
+      }
+      continue;
+    }
+
+    const values: Record<string, unknown> = {};
+    if (changes.date) values.date = changes.date;
+    // A transfer can't have the same source and destination account
+    if (changes.accountId && row.currency === accountCurrency &&
+      !(isTransfer && row.destination_account_id === changes.accountId)) {
+      values.account_id = changes.accountId;
+    }
+    if (!isTransfer) {
+      // Split transactions keep their lines (and the first line's category)
+      if (changes.categoryId && categoryType === row.type && !row.splits?.length) {
+        values.category_id = changes.categoryId;
+      }
+      if (changes.goalId !== undefined) {
+        values.goal_id = changes.goalId;
+        if (row.type === 'income') goalsChanged = true;
+      }
+    }
+
+    if (Object.keys(values).length === 0) {
+      skipped++;
+      continue;
+    }
+
+    const key = JSON.stringify(values);
+    const group = groups.get(key) || { values, ids: [] };
+    group.ids.push(row.id);
+    groups.set(key, group);
+  }
+
+  let updated = 0;
+  for (const { values, ids: groupIds } of groups.values()) {
+    for (const batch of chunk(groupIds, BULK_BATCH_SIZE)) {
+      const { error } = await supabase.from("poupeja_transactions").update(values).in("id", batch);
+      if (error) throw error;
+      updated += batch.length;
+    }
+  }
+
+  if (changes.creditCardId && toCard.length > 0) {
+    await moveTransactionsToCard(toCard, changes.creditCardId, changes, categoryType);
+    updated += toCard.length;
+  }
+
+  // Goal amounts are derived from the linked income transactions: recalculate once
+  if (goalsChanged) {
+    await recalculateGoalAmounts();
+  }
+
+  return { updated, skipped };
+};
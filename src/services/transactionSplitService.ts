@@ -0,0 +1,79 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TransactionSplit } from "@/types";
+
+// Embed for selects on poupeja_transactions and credit_card_purchases
+export const SPLITS_SELECT = "splits:poupeja_transaction_splits(id, amount, category_id, category:poupeja_categories(id, name, icon, color))";
+
+export interface SplitRow {
+  id: string;
+  amount: number;
+  category_id: string | null;
+  category?: { name?: string; icon?: string; color?: string } | null;
+}
+
+export const mapSplits = (rows: SplitRow[] | null | undefined): TransactionSplit[] | undefined => {
+  if (!rows || rows.length === 0) return undefined;
+
+  return rows.map((row) => ({
+    id: row.id,
+    categoryId: row.category_id,
+    category: row.category?.name || "Outros",
+    categoryIcon: row.category?.icon || "circle",
+    categoryColor: row.category?.color || "#607D8B",
+    amount: Number(row.amount)
+  }));
+};
+
+// A split needs at least two lines, each with a category, adding up to the total (to the cent)
+export const validateSplits = (splits: TransactionSplit[] | undefined, total: number) => {
+  if (!splits || splits.length === 0) return;
+
+  if (splits.length < 2) {
+    throw new Error("A split needs at least two category lines");
+  }
+  if (splits.some((split) => !split.categoryId || !(split.amount > 0))) {
+    throw new Error("Every split line needs a category and a positive amount");
+  }
+
+  const totalCents = splits.reduce((sum, split) => sum + Math.round(split.amount * 100), 0);
+  if (totalCents !== Math.round(total * 100)) {
+    throw new Error("Split amounts must add up to the transaction total");
+  }
+};
+
+// Replace the split lines of a transaction or credit card purchase.
+// An empty list removes the split, leaving the single category_id in place.
+export const replaceSplits = async (
+  owner: { transactionId?: string; purchaseId?: string },
+  splits: TransactionSplit[] | undefined
+): Promise<TransactionSplit[] | undefined> => {
+  const column = owner.transactionId ? "transaction_id" : "purchase_id";
+  const ownerId = owner.transactionId || owner.purchaseId;
+  if (!ownerId) throw new Error("Split owner is required");
+
+  const { error: deleteError } = await supabase
+    .from("poupeja_transaction_splits")
+    .delete()
+    .eq(column, ownerId);
+
+  if (deleteError) throw deleteError;
+
+  if (!splits || splits.length === 0) return undefined;
+
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) throw new Error("Not authenticated");
+
+  const { data, error } = await supabase
+    .from("poupeja_transaction_splits")
+    .insert(splits.map((split) => ({
+      user_id: authData.user.id,
+      transaction_id: owner.transactionId || null,
+      purchase_id: owner.purchaseId || null,
+      category_id: split.categoryId,
+      amount: split.amount
+    })))
+    .select("id, amount, category_id, category:poupeja_categories(id, name, icon, color)");
+
+  if (error) throw error;
+  return mapSplits(data);
+};
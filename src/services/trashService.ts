@@ -0,0 +1,285 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+import { TrashItem, TrashItemType } from "@/types";
+import { linkAttachments, deleteAttachments } from "@/services/attachmentService";
+
+// Deleted transactions and card purchases are moved to poupeja_trash: the original row
+// is removed (so bills, limits and goals only see what exists) and a snapshot with its
+// split lines and receipts is kept until expires_at (30 days, set by the database).
+
+type TransactionRow = Tables<"poupeja_transactions">;
+type PurchaseRow = Tables<"credit_card_purchases">;
+type SplitRow = Tables<"poupeja_transaction_splits">;
+
+interface TrashSnapshot {
+  row: TransactionRow | PurchaseRow;
+  splits: SplitRow[];
+  attachmentIds: string[];
+}
+
+type SnapshotSource<T> = T & {
+  splits?: SplitRow[] | null;
+  attachments?: { id: string }[] | null;
+};
+
+const SNAPSHOT_SELECT = "*, splits:poupeja_transaction_splits(*), attachments:poupeja_uploads(id)";
+
+const getSnapshot = (entry: Tables<"poupeja_trash">) => entry.data as unknown as TrashSnapshot;
+
+const mapTrashRow = (entry: Tables<"poupeja_trash">): TrashItem => {
+  const { row } = getSnapshot(entry);
+  const isTransaction = entry.item_type === "transaction";
+
+  return {
+    id: entry.id,
+    itemType: entry.item_type as TrashItemType,
+    itemId: entry.item_id,
+    type: isTransaction ? (row as TransactionRow).type as TrashItem["type"] : "expense",
+    description: row.description || "",
+    amount: row.amount,
+    date: isTransaction ? (row as TransactionRow).date : (row as PurchaseRow).purchase_date,
+    deletedAt: entry.deleted_at,
+    expiresAt: entry.expires_at
+  };
+};
+
+const ownerOf = (itemType: string, itemId: string) =>
+  itemType === "transaction" ? { transactionId: itemId } : { purchaseId: itemId };
+
+// Snapshot the rows into the trash, detach their receipts (uploads would cascade with
+// the owner) and delete the originals. Returns the deleted rows.
+const moveToTrash = async <T extends TransactionRow | PurchaseRow>(
+  itemType: TrashItemType,
+  rows: SnapshotSource<T>[],
+  deleteRows: () => PromiseLike<{ error: unknown }>
+): Promise<T[]> => {
+  if (rows.length === 0) return [];
+
+  const { data: authData } = await supabase.auth.getUser();
+  if (!authData?.user) throw new Error("Not authenticated");
+
+  const entries = rows.map(({ splits, attachments, ...row }) => ({
+    user_id: authData.user.id,
+    item_type: itemType,
+    item_id: row.id,
+    data: {
+      row,
+      splits: splits || [],
+      attachmentIds: (attachments || []).map(attachment => attachment.id)
+    } as unknown as Json
+  }));
+
+  const { data: trashRows, error: trashError } = await supabase
+    .from("poupeja_trash")
+    .insert(entries)
+    .select("id");
+
+  if (trashError) throw trashError;
+
+  const attachmentIds = rows.flatMap(row => (row.attachments || []).map(attachment => attachment.id));
+  await linkAttachments(attachmentIds, {});
+
+  const { error } = await deleteRows();
+
+  if (error) {
+    // Put everything back the way it was: receipts on their owner, nothing in the trash
+    for (const row of rows) {
+      await linkAttachments((row.attachments || []).map(attachment => attachment.id), ownerOf(itemType, row.id));
+    }
+    await supabase.from("poupeja_trash").delete().in("id", (trashRows || []).map(row => row.id));
+    throw error;
+  }
+
+  return rows.map(({ splits: _splits, attachments: _attachments, ...row }) => row as unknown as T);
+};
+
+export const moveTransactionsToTrash = async (ids: string[]): Promise<TransactionRow[]> => {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("poupeja_transactions")
+    .select(SNAPSHOT_SELECT)
+    .in("id", ids);
+
+  if (error) throw error;
+
+  return moveToTrash<TransactionRow>(
+    "transaction",
+    (data || []) as unknown as SnapshotSource<TransactionRow>[],
+    () => supabase.from("poupeja_transactions").delete().in("id", ids)
+  );
+};
+
+export const movePurchasesToTrash = async (ids: string[]): Promise<PurchaseRow[]> => {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("credit_card_purchases")
+    .select(SNAPSHOT_SELECT)
+    .in("id", ids);
+
+  if (error) throw error;
+
+  return moveToTrash<PurchaseRow>(
+    "purchase",
+    (data || []) as unknown as SnapshotSource<PurchaseRow>[],
+    () => supabase.from("credit_card_purchases").delete().in("id", ids)
+  );
+};
+
+// Re-insert the snapshots with their original ids, then re-apply what the delete undid:
+// goal amounts of income transactions and the bills/limits of the cards.
+const restoreEntries = async (entries: Tables<"poupeja_trash">[]): Promise<number> => {
+  const cardIds = new Set<string>();
+
+  for (const entry of entries) {
+    const { row, splits, attachmentIds } = getSnapshot(entry);
+
+    if (entry.item_type === "transaction") {
+      const transaction = row as TransactionRow;
+      const { error } = await supabase.from("poupeja_transactions").insert(transaction);
+      if (error) throw error;
+
+      if (transaction.type === "income" && transaction.goal_id) {
+        await supabase.rpc("update_goal_amount", {
+          p_goal_id: transaction.goal_id,
+          p_amount_change: transaction.amount
+        });
+      }
+    } else {
+      // The bill may be gone: installments and bill totals come back through the triggers
+      const purchase = row as PurchaseRow;
+      const { error } = await supabase
+        .from("credit_card_purchases")
+        .insert({ ...purchase, bill_id: null });
+      if (error) throw error;
+
+      if (purchase.card_id) cardIds.add(purchase.card_id);
+    }
+
+    if (splits.length > 0) {
+      const { error } = await supabase.from("poupeja_transaction_splits").insert(splits);
+      if (error) throw error;
+    }
+
+    await linkAttachments(attachmentIds, ownerOf(entry.item_type, entry.item_id));
+
+    const { error } = await supabase.from("poupeja_trash").delete().eq("id", entry.id);
+    if (error) throw error;
+  }
+
+  if (cardIds.size > 0) {
+    // Import creditCardService here to avoid circular dependencies
+    const { creditCardService } = await import("@/services/creditCardService");
+
+    for (const cardId of cardIds) {
+      const { error: billError } = await supabase.rpc("auto_generate_credit_card_bills", {
+        card_id_param: cardId
+      });
+      if (billError) {
+        console.error("Error generating bills for restored purchases:", billError);
+      }
+      await creditCardService.updateCardLimits(cardId);
+    }
+  }
+
+  return entries.length;
+};
+
+export const restoreTrashItems = async (trashIds: string[]): Promise<number> => {
+  if (trashIds.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from("poupeja_trash")
+    .select("*")
+    .in("id", trashIds);
+
+  if (error) throw error;
+  return restoreEntries(data || []);
+};
+
+// Undo right after a delete: the caller only knows the ids of the deleted rows
+export const restoreDeletedItems = async (itemType: TrashItemType, itemIds: string[]): Promise<number> => {
+  if (itemIds.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from("poupeja_trash")
+    .select("*")
+    .eq("item_type", itemType)
+    .in("item_id", itemIds);
+
+  if (error) throw error;
+  return restoreEntries(data || []);
+};
+
+// Permanent removal: the receipts (files and rows) go with the trash entries
+const discardEntries = async (entries: Tables<"poupeja_trash">[]) => {
+  if (entries.length === 0) return;
+
+  const attachmentIds = entries.flatMap(entry => getSnapshot(entry).attachmentIds || []);
+  if (attachmentIds.length > 0) {
+    const { data: uploads, error: uploadsError } = await supabase
+      .from("poupeja_uploads")
+      .select("id, file_path")
+      .in("id", attachmentIds);
+
+    if (uploadsError) throw uploadsError;
+    await deleteAttachments((uploads || []).map(upload => ({ id: upload.id, filePath: upload.file_path })));
+  }
+
+  const { error } = await supabase
+    .from("poupeja_trash")
+    .delete()
+    .in("id", entries.map(entry => entry.id));
+
+  if (error) throw error;
+};
+
+export const deleteTrashItems = async (trashIds: string[]): Promise<void> => {
+  if (trashIds.length === 0) return;
+
+  const { data, error } = await supabase
+    .from("poupeja_trash")
+    .select("*")
+    .in("id", trashIds);
+
+  if (error) throw error;
+  await discardEntries(data || []);
+};
+
+export const emptyTrash = async (): Promise<void> => {
+  const { data, error } = await supabase
+    .from("poupeja_trash")
+    .select("*");
+
+  if (error) throw error;
+  await discardEntries(data || []);
+};
+
+export const purgeExpiredTrash = async (): Promise<void> => {
+  const { data, error } = await supabase
+    .from("poupeja_trash")
+    .select("*")
+    .lt("expires_at", new Date().toISOString());
+
+  if (error) throw error;
+  await discardEntries(data || []);
+};
+
+export const getTrashItems = async (): Promise<TrashItem[]> => {
+  try {
+    // Expired items are removed whenever the trash is opened
+    await purgeExpiredTrash().catch(error => console.error("Error purging expired trash:", error));
+
+    const { data, error } = await supabase
+      .from("poupeja_trash")
+      .select("*")
+      .order("deleted_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapTrashRow);
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    return [];
+  }
+};
@@ -26,7 +26,10 @@ const en = {
     clearAll: "Clear All",
     confirmDelete: "Are you sure you want to delete?",
     income: "Income",
-    expense: "Expense"
+    expense: "Expense",
+    transfer: "Transfer",
+    optional: "Optional",
+    type: "Type"
   },
   theme: {
     light: "Light",
@@ -36,6 +39,20 @@ const en = {
   currency: {
     title: "Currency",
     description: "Choose your preferred currency",
+    baseCurrencyHint: "Base currency: dashboard and report totals are converted to it",
+    exchangeRate: "Exchange rate",
+    missingRatesTitle: "Missing exchange rates",
+    missingRatesDescription: "transactions kept their previous conversion because there is no rate to",
+    rebaseError: "Could not convert the transactions to the new base currency",
+    ratesTitle: "Exchange rates",
+    ratesDescription: "Rates used to convert transactions in other currencies to the base currency",
+    from: "From",
+    to: "To",
+    globalRate: "Global rate",
+    globalRateHint: "Applies to every user who hasn't saved their own rate",
+    global: "Global",
+    noRates: "No exchange rates yet",
+    rateSaved: "Exchange rate saved",
   },
   language: {
     title: "Language",
@@ -52,6 +69,8 @@ const en = {
     expenses: "Expenses",
     plans: "Plans",
     accounts: "Accounts",
+    trash: "Trash",
+    budgets: "Budgets",
   },
   plans: {
     title: "Subscription Plans",
@@ -151,11 +170,46 @@ const en = {
     recent: "Recent Transactions",
     deleted: "Transaction deleted",
     addExpense: "Add Expense",
+    addTransfer: "Add Transfer",
+    editTransfer: "Edit Transfer",
+    sourceAccount: "Source account",
+    destinationAccount: "Destination account",
+    splitCategories: "Split across categories",
+    addSplitLine: "Add category",
+    splitRemaining: "Remaining",
+    tags: "Tags",
+    tagsPlaceholder: "Type a tag and press Enter",
+    allTags: "All tags",
+    filterByTag: "Filter by tag",
+    attachments: "Receipts",
+    addAttachment: "Attach receipt",
+    uploadingAttachment: "Uploading...",
+    openAttachment: "Open in new tab",
     type: "Type",
     date: "Date",
     category: "Category",
     selectCategory: "Select Category",
     amountPlaceholder: "Enter amount",
+    loadMore: "Load more",
+    searchPlaceholder: "Search description...",
+    sortBy: "Sort by",
+    sortNewest: "Newest first",
+    sortOldest: "Oldest first",
+    sortHighest: "Highest amount",
+    sortLowest: "Lowest amount",
+    sortDescription: "Description (A-Z)",
+    allTypes: "All types",
+    allCategories: "All categories",
+    found: "transaction(s) found",
+    bulkEditTitle: "Bulk edit transactions",
+    bulkEditDescription: "transaction(s) selected. Only the fields you change are applied.",
+    keepUnchanged: "Don't change",
+    removeGoal: "Remove goal",
+    moveToCard: "Move to card",
+    moveToCardHint: "Expenses become card purchases; income and transfers are not changed.",
+    bulkEditApply: "Apply",
+    bulkEdited: "transaction(s) updated",
+    bulkEditSkipped: "with no applicable changes",
   },
   income: {
     title: "Income",
@@ -209,6 +263,157 @@ const en = {
     wasUpdated: "was updated successfully!",
     manageCategories: "Manage your categories",
   },
+  rules: {
+    title: 'Categorization rules',
+    description: 'Transactions without a category (or in "Outros") are classified by the first matching rule, including the ones sent through WhatsApp.',
+    add: 'New rule',
+    edit: 'Edit rule',
+    noData: 'No rules yet.',
+    name: 'Rule name',
+    priority: 'Priority',
+    priorityHint: 'Lower numbers are evaluated first',
+    active: 'Active',
+    inactive: 'Inactive',
+    when: 'When',
+    then: 'Apply',
+    contains: 'Description contains',
+    regex: 'Regular expression',
+    pattern: 'Text to look for',
+    patternPlaceholder: 'e.g. ifood',
+    invalidPattern: 'Invalid regular expression',
+    minAmount: 'Minimum amount',
+    maxAmount: 'Maximum amount',
+    anyAccount: 'Any account',
+    anyCard: 'Any card',
+    keepCategory: "Don't change",
+    tagsPlaceholder: 'Comma separated',
+    nothingToApply: 'Choose a category, tags or a goal for the rule to apply',
+    saved: 'Rule saved!',
+    deleted: 'Rule deleted!',
+    deleteConfirmation: 'Delete this rule?',
+    deleteWarning: 'Transactions it already classified are not changed.',
+    rerun: 'Re-run rules',
+    rerunDescription: 'Applies the current rules to transactions and card purchases already recorded.',
+    onlyUncategorized: 'Only the ones in "Outros" (keep categories and goals chosen by hand)',
+    rerunDone: 'entries updated',
+    suggestTitle: 'Create a rule?',
+    suggestDescription: 'Automatically classify the next transactions similar to',
+    createRule: 'Create rule',
+  },
+  trash: {
+    title: "Trash",
+    description: "Deleted transactions and purchases stay here for 30 days before being permanently removed.",
+    noData: "The trash is empty",
+    purchase: "Card",
+    deletedOn: "deleted on",
+    daysLeft: "days left",
+    restore: "Restore",
+    restored: "Item restored",
+    restoreError: "Could not restore the item",
+    undo: "Undo",
+    movedToTrash: "Moved to the trash. You can restore it for 30 days.",
+    deleteForever: "Delete permanently",
+    deleteForeverWarning: "The item and its receipts will be removed and cannot be recovered.",
+    deletedForever: "Item permanently deleted",
+    empty: "Empty trash",
+    emptyWarning: "All items in the trash and their receipts will be permanently removed.",
+    emptied: "Trash emptied",
+  },
+  history: {
+    title: "History",
+    noData: "No changes recorded",
+    actions: {
+      CREATE: "Created",
+      UPDATE: "Changed",
+      DELETE: "Deleted",
+    },
+    sources: {
+      web: "App",
+      n8n: "WhatsApp/n8n",
+      admin: "Administrator",
+      system: "System",
+    },
+    records: {
+      transaction: "Transaction",
+      scheduled_transaction: "Scheduled",
+      goal: "Goal",
+      purchase: "Purchase",
+      payment: "Payment",
+    },
+    fields: {
+      amount: "Amount",
+      installment_amount: "Installment amount",
+      paid_amount: "Paid amount",
+      current_amount: "Current amount",
+      target_amount: "Target amount",
+      date: "Date",
+      purchase_date: "Purchase date",
+      payment_date: "Payment date",
+      scheduled_date: "Scheduled date",
+      paid_date: "Paid date",
+      deadline: "Deadline",
+      start_date: "Start",
+      end_date: "End",
+      description: "Description",
+      name: "Name",
+      merchant: "Merchant",
+      notes: "Notes",
+      type: "Type",
+      status: "Status",
+      recurrence: "Recurrence",
+      payment_method: "Payment method",
+      installments: "Installments",
+      tags: "Tags",
+      category_id: "Category",
+      account_id: "Account",
+      destination_account_id: "Destination account",
+      goal_id: "Goal",
+    },
+  },
+  budgets: {
+    title: "Budgets",
+    description: "Monthly spending limit per category, compared with what was already spent and what is committed.",
+    add: "New budget",
+    edit: "Edit budget",
+    planned: "Planned",
+    spent: "Spent",
+    committed: "Committed",
+    committedHint: "Pending scheduled expenses and purchases on unpaid card bills",
+    remaining: "Available",
+    over: "Over budget",
+    ofPlanned: "of planned",
+    totalPlanned: "Total planned",
+    noBudgets: "No budgets defined",
+    noBudgetsHint: "Set how much you want to spend each month in each expense category.",
+    monthlyAmount: "Monthly amount",
+    selectCategory: "Select a category",
+    saved: "Budget saved",
+    deleted: "Budget deleted",
+    deleteWarning: "The budget of this category will be removed. Transactions are not changed.",
+    warningTitle: "Budget close to the limit",
+    exceededTitle: "Budget exceeded",
+    viewAll: "View budgets",
+    limitsMode: "Category limits",
+  },
+  envelopes: {
+    title: "Envelopes",
+    description: "Assign all of the month's income to categories. Spending draws the envelope down and the leftover rolls over to next month or goes to a goal.",
+    income: "Income this month",
+    allocated: "Assigned",
+    readyToAssign: "Ready to assign",
+    readyToAssignHint: "Assign until it reaches zero",
+    overAssigned: "You assigned more than the income available",
+    carried: "From last month",
+    leftover: "Leftover",
+    rollover: "Roll over to next month",
+    sweepTo: "Send to",
+    pendingSweep: "to send to the goal",
+    copyPrevious: "Copy from last month",
+    copied: "Envelopes copied",
+    envelopesCopied: "envelopes copied from last month",
+    closeMonth: "Close month",
+    swept: "Leftovers sent to the goals",
+  },
   reports: {
     title: "Reports",
     generateReport: "Generate Report",
@@ -227,6 +432,7 @@ const en = {
     incomeReport: "Income Report",
     expenseReport: "Expense Report",
     categoryReport: "Category Report",
+    tagTotals: "Totals by Tag",
   },
   goals: {
     title: "Goals",
@@ -288,6 +494,38 @@ const en = {
     notificationSettings: "Notification Settings",
     preferences: "Preferences",
   },
+  calendarFeed: {
+    tab: "Calendar",
+    title: "Calendar (.ics)",
+    description: "See scheduled transactions, bill due dates and goal deadlines in Google Calendar, Apple Calendar or Outlook",
+    subscription: "Subscription address",
+    subscriptionHint: "Add this address as a calendar from URL. Changes show up on the calendar's next refresh (a few hours). Anyone with the address can see your schedule: don't share it",
+    noSubscription: "Create an address to subscribe to your financial schedule from your calendar app",
+    create: "Create address",
+    copy: "Copy address",
+    copied: "Address copied",
+    lastAccessed: "Last accessed by a calendar",
+    neverAccessed: "No calendar has accessed this address yet",
+    regenerate: "Generate new address",
+    confirmRegenerate: "The current address will stop working and subscribed calendars will no longer update. Continue?",
+    revoke: "Revoke",
+    confirmRevoke: "Revoke the address? Subscribed calendars will no longer update",
+    revoked: "Address revoked",
+    download: ".ics file",
+    downloadHint: "One-off import, without automatic updates",
+    downloadButton: "Download .ics",
+  },
+  holidays: {
+    title: "Holidays",
+    description: "Due dates on a weekend or holiday move to a business day. Add your city's municipal and state holidays",
+    name: "Holiday name",
+    recurring: "Repeats every year",
+    recurringHint: "E.g. the city's anniversary",
+    yearly: "Yearly",
+    added: "Holiday added",
+    noHolidays: "No holidays added",
+    national: "National holidays",
+  },
   settings: {
     title: "Settings",
     preferences: "Preferences",
@@ -323,6 +561,56 @@ const en = {
     title: "Offline",
     description: "You are currently offline. Some features may not be available.",
   },
+  import: {
+    ofxTitle: "Import OFX Statement",
+    chooseFile: "Choose .ofx file",
+    bankStatement: "Account statement",
+    cardStatement: "Credit card statement",
+    targetAccount: "Import into account",
+    targetCard: "Import into card",
+    selectTarget: "Select",
+    incomeCategory: "Income category",
+    expenseCategory: "Expense category",
+    defaultCategory: "Other (default)",
+    selected: "selected",
+    duplicatesFound: "already exist or look similar",
+    duplicateFitId: "Duplicate (FITID)",
+    possibleDuplicate: "Possible duplicate",
+    emptyStatement: "No entries found in the file",
+    importButton: "Import",
+    success: "Import finished",
+    importedCount: "entry(ies) imported",
+    csvTitle: "Import CSV Spreadsheet",
+    chooseCsvFile: "Choose .csv file",
+    profile: "Import profile",
+    noProfile: "None (detect columns)",
+    profileSaved: "Profile saved",
+    saveAsProfile: "Save mapping as profile",
+    lines: "lines",
+    line: "Line",
+    moreLines: "lines not shown in the preview",
+    delimiter: "Separator",
+    dateFormat: "Date format",
+    numberFormat: "Amount format",
+    hasHeader: "First line is the header",
+    notMapped: "Do not import",
+    negativeIsExpense: "Negative amounts are expenses",
+    defaultAccount: "Default account (when the line has none)",
+    createMissingCategories: "Create missing categories",
+    categoriesCreated: "category(ies) created",
+    withErrors: "with errors",
+    back: "Back",
+    next: "Next",
+    fields: {
+      date: "Date",
+      amount: "Amount",
+      description: "Description",
+      category: "Category",
+      account: "Account",
+      type: "Type (income/expense)",
+      tags: "Tags"
+    }
+  },
   schedule: {
     title: "Schedules",
     paymentSchedule: "Payment Schedule",
@@ -361,7 +649,72 @@ const en = {
     manageFixedExpenses: "Manage your recurring expenses",
     deleted: "Deleted",
     transactionDeleted: "Scheduled transaction deleted successfully",
-    confirmDeleteSchedule: "Are you sure you want to delete this scheduled transaction?"
+    confirmDeleteSchedule: "Are you sure you want to delete this scheduled transaction?",
+    every: "Every",
+    repeatEvery: "Repeat every",
+    intervalUnit: {
+      daily: "days",
+      weekly: "weeks",
+      monthly: "months",
+      yearly: "years"
+    },
+    onWeekdays: "On",
+    repeatOn: "Repeat on",
+    dayOfMonth: "Day of the month",
+    lastDayOfMonth: "Last day of the month",
+    businessDayOfMonth: "Nth business day",
+    lastBusinessDay: "Last business day",
+    day: "Day",
+    businessDay: "Business day",
+    businessDayNumber: "Which business day",
+    ends: "Ends",
+    endsNever: "Never",
+    endsOnDate: "On a date",
+    endsAfterCount: "After N times",
+    endDate: "End date",
+    occurrences: "Occurrences",
+    times: "times",
+    until: "until",
+    endDateBeforeStart: "The end date must be after the scheduled date",
+    autoDebit: "Automatic debit",
+    autoDebitHint: "Posted as a transaction automatically on its date, without marking it as paid",
+    paymentSource: "Paid with",
+    noPaymentSource: "No account",
+    accounts: "Accounts",
+    creditCards: "Credit cards",
+    creditCardHint: "When paid, it becomes a purchase on the card bill for its date",
+    skipped: "Skipped",
+    skip: "Skip",
+    skipOccurrence: "Skip this occurrence",
+    occurrenceSkipped: "Occurrence skipped",
+    occurrenceSkippedDescription: "Nothing was posted and the series goes on",
+    movedFrom: "Moved from",
+    seriesAmount: "Series amount",
+    editRecurring: "Edit recurring transaction",
+    editRecurringDescription: "Which occurrences should the changes apply to? Only the date and the amount can change for a single occurrence; the repetition changes with the series",
+    editScope: {
+      this: "Only this occurrence",
+      following: "This and following occurrences",
+      all: "All open occurrences"
+    },
+    listView: "List",
+    monthView: "Month",
+    weekView: "Week",
+    previous: "Previous",
+    next: "Next",
+    more: "more",
+    billDue: "Bill due",
+    goalDeadline: "Goal deadline",
+    projectedBalance: "Projected balance",
+    projectedBalanceHint: "The amount in the corner of each day is the projected balance at the end of the day. Drag an open scheduled transaction to another day to reschedule it",
+    rescheduled: "Scheduled transaction rescheduled",
+    nonBusinessDay: "On a weekend or holiday",
+    businessDayAdjustment: {
+      none: "Keep the date",
+      next: "Next business day",
+      previous: "Previous business day"
+    },
+    dueOn: "due on"
   }
 };
 
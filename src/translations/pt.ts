@@ -28,6 +28,7 @@ export default {
     viewAll: 'Ver Todas',
     income: 'Receita',
     expense: 'Despesa',
+    transfer: 'Transferência',
     all: 'Todas',
     status: 'Status',
     noData: 'Nenhum dado disponível',
@@ -50,6 +51,20 @@ export default {
   currency: {
     title: "Moeda",
     description: "Escolha sua moeda preferida",
+    baseCurrencyHint: "Moeda base: totais do painel e relatórios são convertidos para ela",
+    exchangeRate: "Cotação",
+    missingRatesTitle: "Cotações em falta",
+    missingRatesDescription: "transações mantiveram a conversão anterior por falta de cotação para",
+    rebaseError: "Não foi possível converter as transações para a nova moeda base",
+    ratesTitle: "Cotações",
+    ratesDescription: "Cotações usadas para converter transações em outras moedas para a moeda base",
+    from: "De",
+    to: "Para",
+    globalRate: "Cotação global",
+    globalRateHint: "Vale para todos os usuários que não cadastraram a própria cotação",
+    global: "Global",
+    noRates: "Nenhuma cotação cadastrada",
+    rateSaved: "Cotação salva",
   },
   language: {
     title: "Idioma",
@@ -66,6 +81,8 @@ export default {
     expenses: "Despesas",
     plans: "Planos",
     accounts: "Contas",
+    trash: "Lixeira",
+    budgets: "Orçamentos",
   },
   auth: {
     login: "Entrar",
@@ -108,6 +125,9 @@ export default {
     mustBePositive: "Deve ser um valor positivo",
     positive: "Deve ser um valor positivo",
     nonNegative: "Deve ser um valor não negativo",
+    sameAccount: "A conta de destino deve ser diferente da conta de origem",
+    splitMinLines: "Divida em pelo menos duas categorias",
+    splitTotal: "A soma das categorias deve ser igual ao valor total",
   },
   pwa: {
     install: "Instalar App",
@@ -212,6 +232,21 @@ export default {
     editTransaction: 'Editar Transação',
     editIncome: 'Editar Receita',
     editExpense: 'Editar Despesa',
+    addTransfer: 'Adicionar Transferência',
+    editTransfer: 'Editar Transferência',
+    sourceAccount: 'Conta de origem',
+    destinationAccount: 'Conta de destino',
+    splitCategories: 'Dividir em categorias',
+    addSplitLine: 'Adicionar categoria',
+    splitRemaining: 'Restante',
+    tags: 'Tags',
+    tagsPlaceholder: 'Digite uma tag e pressione Enter',
+    allTags: 'Todas as tags',
+    filterByTag: 'Filtrar por tag',
+    attachments: 'Comprovantes',
+    addAttachment: 'Anexar comprovante',
+    uploadingAttachment: 'Enviando...',
+    openAttachment: 'Abrir em nova aba',
     deleteTransaction: 'Excluir Transação',
     deleteSuccess: 'Transação excluída com sucesso',
     deleteError: 'Erro ao excluir transação',
@@ -226,6 +261,26 @@ export default {
     addSuccess: 'Transação adicionada com sucesso!',
     updateSuccess: 'Transação atualizada com sucesso!',
     amountPlaceholder: 'Digite o valor', // Adicione esta linha
+    loadMore: 'Carregar mais',
+    searchPlaceholder: 'Buscar na descrição...',
+    sortBy: 'Ordenar por',
+    sortNewest: 'Mais recentes',
+    sortOldest: 'Mais antigas',
+    sortHighest: 'Maior valor',
+    sortLowest: 'Menor valor',
+    sortDescription: 'Descrição (A-Z)',
+    allTypes: 'Todos os tipos',
+    allCategories: 'Todas as categorias',
+    found: 'transação(ões) encontrada(s)',
+    bulkEditTitle: 'Editar transações em lote',
+    bulkEditDescription: 'transação(ões) selecionada(s). Só os campos alterados são aplicados.',
+    keepUnchanged: 'Não alterar',
+    removeGoal: 'Remover meta',
+    moveToCard: 'Mover para o cartão',
+    moveToCardHint: 'As despesas viram compras no cartão; receitas e transferências não são alteradas.',
+    bulkEditApply: 'Aplicar',
+    bulkEdited: 'transação(ões) atualizada(s)',
+    bulkEditSkipped: 'sem alterações aplicáveis',
   },
   income: {
     title: "Receitas",
@@ -288,6 +343,157 @@ export default {
     other: 'Outros',
     manageCategories: 'Gerencie suas categorias',
   },
+  rules: {
+    title: 'Regras de categorização',
+    description: 'Transações sem categoria (ou em "Outros") são classificadas pela primeira regra que combinar, inclusive as que chegam pelo WhatsApp.',
+    add: 'Nova regra',
+    edit: 'Editar regra',
+    noData: 'Nenhuma regra cadastrada.',
+    name: 'Nome da regra',
+    priority: 'Prioridade',
+    priorityHint: 'Menor número é avaliado primeiro',
+    active: 'Ativa',
+    inactive: 'Inativa',
+    when: 'Quando',
+    then: 'Aplicar',
+    contains: 'Descrição contém',
+    regex: 'Expressão regular',
+    pattern: 'Texto procurado',
+    patternPlaceholder: 'ex.: ifood',
+    invalidPattern: 'Expressão regular inválida',
+    minAmount: 'Valor mínimo',
+    maxAmount: 'Valor máximo',
+    anyAccount: 'Qualquer conta',
+    anyCard: 'Qualquer cartão',
+    keepCategory: 'Não alterar',
+    tagsPlaceholder: 'Separadas por vírgula',
+    nothingToApply: 'Escolha uma categoria, tags ou meta para a regra aplicar',
+    saved: 'Regra salva!',
+    deleted: 'Regra excluída!',
+    deleteConfirmation: 'Excluir esta regra?',
+    deleteWarning: 'Transações já classificadas por ela não são alteradas.',
+    rerun: 'Reaplicar regras',
+    rerunDescription: 'Aplica as regras atuais às transações e compras no cartão já lançadas.',
+    onlyUncategorized: 'Somente as que estão em "Outros" (sem sobrescrever categorias e metas escolhidas)',
+    rerunDone: 'lançamentos atualizados',
+    suggestTitle: 'Criar uma regra?',
+    suggestDescription: 'Classificar automaticamente as próximas transações parecidas com',
+    createRule: 'Criar regra',
+  },
+  trash: {
+    title: 'Lixeira',
+    description: 'Transações e compras excluídas ficam aqui por 30 dias antes de serem apagadas definitivamente.',
+    noData: 'A lixeira está vazia',
+    purchase: 'Cartão',
+    deletedOn: 'excluída em',
+    daysLeft: 'dias restantes',
+    restore: 'Restaurar',
+    restored: 'Item restaurado',
+    restoreError: 'Não foi possível restaurar o item',
+    undo: 'Desfazer',
+    movedToTrash: 'Movida para a lixeira. Você pode restaurá-la por 30 dias.',
+    deleteForever: 'Excluir definitivamente',
+    deleteForeverWarning: 'O item e seus comprovantes serão apagados e não poderão ser recuperados.',
+    deletedForever: 'Item excluído definitivamente',
+    empty: 'Esvaziar lixeira',
+    emptyWarning: 'Todos os itens da lixeira e seus comprovantes serão apagados definitivamente.',
+    emptied: 'Lixeira esvaziada',
+  },
+  history: {
+    title: 'Histórico',
+    noData: 'Nenhuma alteração registrada',
+    actions: {
+      CREATE: 'Criado',
+      UPDATE: 'Alterado',
+      DELETE: 'Excluído',
+    },
+    sources: {
+      web: 'App',
+      n8n: 'WhatsApp/n8n',
+      admin: 'Administrador',
+      system: 'Sistema',
+    },
+    records: {
+      transaction: 'Transação',
+      scheduled_transaction: 'Agendamento',
+      goal: 'Meta',
+      purchase: 'Compra',
+      payment: 'Pagamento',
+    },
+    fields: {
+      amount: 'Valor',
+      installment_amount: 'Valor da parcela',
+      paid_amount: 'Valor pago',
+      current_amount: 'Valor atual',
+      target_amount: 'Valor da meta',
+      date: 'Data',
+      purchase_date: 'Data da compra',
+      payment_date: 'Data do pagamento',
+      scheduled_date: 'Data agendada',
+      paid_date: 'Data de pagamento',
+      deadline: 'Prazo',
+      start_date: 'Início',
+      end_date: 'Fim',
+      description: 'Descrição',
+      name: 'Nome',
+      merchant: 'Estabelecimento',
+      notes: 'Observações',
+      type: 'Tipo',
+      status: 'Status',
+      recurrence: 'Recorrência',
+      payment_method: 'Forma de pagamento',
+      installments: 'Parcelas',
+      tags: 'Tags',
+      category_id: 'Categoria',
+      account_id: 'Conta',
+      destination_account_id: 'Conta de destino',
+      goal_id: 'Meta',
+    },
+  },
+  budgets: {
+    title: 'Orçamentos',
+    description: 'Limite mensal de gastos por categoria, comparado com o que já foi gasto e o que está comprometido.',
+    add: 'Novo orçamento',
+    edit: 'Editar orçamento',
+    planned: 'Planejado',
+    spent: 'Gasto',
+    committed: 'Comprometido',
+    committedHint: 'Despesas agendadas pendentes e compras em faturas de cartão não pagas',
+    remaining: 'Disponível',
+    over: 'Acima do orçamento',
+    ofPlanned: 'do planejado',
+    totalPlanned: 'Total planejado',
+    noBudgets: 'Nenhum orçamento definido',
+    noBudgetsHint: 'Defina quanto quer gastar por mês em cada categoria de despesa.',
+    monthlyAmount: 'Valor mensal',
+    selectCategory: 'Selecione uma categoria',
+    saved: 'Orçamento salvo',
+    deleted: 'Orçamento excluído',
+    deleteWarning: 'O orçamento desta categoria será removido. As transações não são alteradas.',
+    warningTitle: 'Orçamento perto do limite',
+    exceededTitle: 'Orçamento estourado',
+    viewAll: 'Ver orçamentos',
+    limitsMode: 'Limites por categoria',
+  },
+  envelopes: {
+    title: 'Envelopes',
+    description: 'Distribua toda a receita do mês entre as categorias. Os gastos consomem o envelope e a sobra passa para o mês seguinte ou vai para uma meta.',
+    income: 'Receita do mês',
+    allocated: 'Distribuído',
+    readyToAssign: 'A distribuir',
+    readyToAssignHint: 'Distribua até chegar a zero',
+    overAssigned: 'Você distribuiu mais do que a receita disponível',
+    carried: 'Do mês anterior',
+    leftover: 'Sobra',
+    rollover: 'Passa para o próximo mês',
+    sweepTo: 'Enviar para',
+    pendingSweep: 'a enviar para a meta',
+    copyPrevious: 'Copiar do mês anterior',
+    copied: 'Envelopes copiados',
+    envelopesCopied: 'envelopes copiados do mês anterior',
+    closeMonth: 'Fechar mês',
+    swept: 'Sobras enviadas para as metas',
+  },
   goals: {
     title: 'Metas',
     yourGoals: 'Suas Metas',
@@ -376,6 +582,7 @@ export default {
     expensesOnly: "Apenas Despesas",
     startDate: "Data de Início",
     endDate: "Data de Fim",
+    tagTotals: "Totais por Tag",
     downloadCSV: "Baixar CSV",
     downloadPDF: "Baixar PDF",
     totalIncome: "Total de Receitas",
@@ -423,6 +630,38 @@ export default {
     notificationSettings: "Configurações de Notificação",
     preferences: "Preferências",
   },
+  calendarFeed: {
+    tab: "Calendário",
+    title: "Calendário (.ics)",
+    description: "Veja agendamentos, vencimentos de faturas e prazos de metas no Google Agenda, Apple Calendar ou Outlook",
+    subscription: "Endereço de assinatura",
+    subscriptionHint: "Adicione este endereço como calendário por URL. As alterações aparecem na próxima atualização do calendário (algumas horas). Quem tiver o endereço vê sua agenda: não compartilhe",
+    noSubscription: "Crie um endereço para assinar sua agenda financeira no aplicativo de calendário",
+    create: "Criar endereço",
+    copy: "Copiar endereço",
+    copied: "Endereço copiado",
+    lastAccessed: "Último acesso do calendário",
+    neverAccessed: "Nenhum calendário acessou este endereço ainda",
+    regenerate: "Gerar novo endereço",
+    confirmRegenerate: "O endereço atual vai parar de funcionar e os calendários assinados deixam de ser atualizados. Continuar?",
+    revoke: "Revogar",
+    confirmRevoke: "Revogar o endereço? Os calendários assinados deixam de ser atualizados",
+    revoked: "Endereço revogado",
+    download: "Arquivo .ics",
+    downloadHint: "Importação única, sem atualizações automáticas",
+    downloadButton: "Baixar .ics",
+  },
+  holidays: {
+    title: "Feriados",
+    description: "Vencimentos em fim de semana ou feriado passam para o dia útil. Cadastre os feriados municipais e estaduais da sua cidade",
+    name: "Nome do feriado",
+    recurring: "Repete todo ano",
+    recurringHint: "Ex.: aniversário da cidade",
+    yearly: "Anual",
+    added: "Feriado cadastrado",
+    noHolidays: "Nenhum feriado cadastrado",
+    national: "Feriados nacionais",
+  },
   login: {
     title: "Entrar",
     email: "E-mail",
@@ -514,6 +753,121 @@ export default {
     alreadyPaid: 'Já Pago',
     needAttention: 'Precisa Atenção',
     confirmDeleteSchedule: 'Tem certeza que deseja excluir este agendamento?',
+    every: 'A cada',
+    repeatEvery: 'Repetir a cada',
+    intervalUnit: {
+      daily: 'dias',
+      weekly: 'semanas',
+      monthly: 'meses',
+      yearly: 'anos',
+    },
+    onWeekdays: 'Nos dias',
+    repeatOn: 'Repetir em',
+    dayOfMonth: 'Dia do mês',
+    lastDayOfMonth: 'Último dia do mês',
+    businessDayOfMonth: 'N-ésimo dia útil',
+    lastBusinessDay: 'Último dia útil',
+    day: 'Dia',
+    businessDay: 'Dia útil',
+    businessDayNumber: 'Qual dia útil',
+    ends: 'Termina',
+    endsNever: 'Nunca',
+    endsOnDate: 'Em uma data',
+    endsAfterCount: 'Após N vezes',
+    endDate: 'Data final',
+    occurrences: 'Ocorrências',
+    times: 'vezes',
+    until: 'até',
+    endDateBeforeStart: 'A data final deve ser depois da data agendada',
+    autoDebit: 'Débito automático',
+    autoDebitHint: 'Lançado como transação automaticamente na data, sem precisar marcar como pago',
+    paymentSource: 'Pago com',
+    noPaymentSource: 'Nenhuma conta',
+    accounts: 'Contas',
+    creditCards: 'Cartões de crédito',
+    creditCardHint: 'Ao pagar, vira uma compra na fatura do cartão referente à data',
+    skipped: 'Pulado',
+    skip: 'Pular',
+    skipOccurrence: 'Pular esta ocorrência',
+    occurrenceSkipped: 'Ocorrência pulada',
+    occurrenceSkippedDescription: 'Nada foi lançado e a série continua',
+    movedFrom: 'Remarcado de',
+    seriesAmount: 'Valor da série',
+    editRecurring: 'Editar agendamento recorrente',
+    editRecurringDescription: 'A quais ocorrências as alterações se aplicam? Só a data e o valor mudam numa única ocorrência; a repetição muda com a série',
+    editScope: {
+      this: 'Somente esta ocorrência',
+      following: 'Esta e as próximas ocorrências',
+      all: 'Todas as ocorrências em aberto',
+    },
+    listView: 'Lista',
+    monthView: 'Mês',
+    weekView: 'Semana',
+    previous: 'Anterior',
+    next: 'Próximo',
+    more: 'mais',
+    billDue: 'Vencimento da fatura',
+    goalDeadline: 'Prazo da meta',
+    projectedBalance: 'Saldo previsto',
+    projectedBalanceHint: 'O valor no canto de cada dia é o saldo previsto ao fim do dia. Arraste um agendamento em aberto para outro dia para remarcá-lo',
+    rescheduled: 'Agendamento remarcado',
+    nonBusinessDay: 'Em fim de semana ou feriado',
+    businessDayAdjustment: {
+      none: 'Manter a data',
+      next: 'Próximo dia útil',
+      previous: 'Dia útil anterior',
+    },
+    dueOn: 'vence em',
+  },
+  import: {
+    ofxTitle: 'Importar Extrato OFX',
+    chooseFile: 'Escolher arquivo .ofx',
+    bankStatement: 'Extrato de conta',
+    cardStatement: 'Fatura de cartão',
+    targetAccount: 'Importar para a conta',
+    targetCard: 'Importar para o cartão',
+    selectTarget: 'Selecione',
+    incomeCategory: 'Categoria das receitas',
+    expenseCategory: 'Categoria das despesas',
+    defaultCategory: 'Outros (padrão)',
+    selected: 'selecionadas',
+    duplicatesFound: 'já existentes ou parecidas',
+    duplicateFitId: 'Duplicada (FITID)',
+    possibleDuplicate: 'Possível duplicata',
+    emptyStatement: 'Nenhum lançamento encontrado no arquivo',
+    importButton: 'Importar',
+    success: 'Importação concluída',
+    importedCount: 'lançamento(s) importado(s)',
+    csvTitle: 'Importar Planilha CSV',
+    chooseCsvFile: 'Escolher arquivo .csv',
+    profile: 'Perfil de importação',
+    noProfile: 'Nenhum (detectar colunas)',
+    profileSaved: 'Perfil salvo',
+    saveAsProfile: 'Salvar mapeamento como perfil',
+    lines: 'linhas',
+    line: 'Linha',
+    moreLines: 'linhas não exibidas na prévia',
+    delimiter: 'Separador',
+    dateFormat: 'Formato da data',
+    numberFormat: 'Formato do valor',
+    hasHeader: 'A primeira linha é o cabeçalho',
+    notMapped: 'Não importar',
+    negativeIsExpense: 'Valores negativos são despesas',
+    defaultAccount: 'Conta padrão (quando a linha não tem conta)',
+    createMissingCategories: 'Criar categorias que não existem',
+    categoriesCreated: 'categoria(s) criada(s)',
+    withErrors: 'com erro',
+    back: 'Voltar',
+    next: 'Avançar',
+    fields: {
+      date: 'Data',
+      amount: 'Valor',
+      description: 'Descrição',
+      category: 'Categoria',
+      account: 'Conta',
+      type: 'Tipo (receita/despesa)',
+      tags: 'Tags',
+    },
   },
   errors: {
     pageNotFound: "404 - Página não encontrada",
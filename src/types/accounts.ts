@@ -8,6 +8,27 @@ export interface Account {
   agency?: string | null;
   type: 'checking' | 'savings' | 'cash' | 'credit_card' | string;
   is_default: boolean;
+  currency?: string; // moeda da conta; as transações da conta são lançadas nela
+  opening_balance?: number;
+  opening_balance_date?: string | null; // YYYY-MM-DD, saldo inicial vale a partir desta data
   created_at?: string;
   updated_at?: string;
 }
+
+// Saldo informado pelo banco ao final do dia checkpoint_date
+export interface AccountCheckpoint {
+  id: string;
+  user_id?: string;
+  account_id: string;
+  balance: number;
+  checkpoint_date: string; // YYYY-MM-DD
+  notes?: string | null;
+  created_at?: string;
+}
+
+// Saldos ao final de um dia (get_account_balances): por conta, na moeda da conta, e o das
+// transações sem conta cadastrada, na moeda base
+export interface AccountBalances {
+  byAccount: Record<string, number>;
+  unassigned: number;
+}
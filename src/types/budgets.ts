@@ -0,0 +1,74 @@
+// Monthly spending limit of an expense category (poupeja_budgets), the same every month
+export interface Budget {
+  id: string;
+  categoryId: string;
+  amount: number;
+}
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+// Planned vs actual of a category in one month. Committed spending is what is already
+// due but not paid yet: pending scheduled expenses and purchases on unpaid card bills
+export interface BudgetProgress {
+  budget: Budget;
+  category: string;
+  categoryIcon: string;
+  categoryColor: string;
+  spent: number;
+  committed: number;
+  remaining: number;
+  // (spent + committed) / planned, in percent (not capped at 100)
+  percentage: number;
+  status: BudgetStatus;
+}
+
+// Card purchase amount of a category in a month, split lines expanded
+export interface CardCategorySpending {
+  categoryId: string | null;
+  amount: number;
+  purchaseDate: string;
+  // The purchase is on a bill that is not paid yet
+  isCommitted: boolean;
+}
+
+// Envelope (zero-based) mode: how much of the month's income goes to a category
+// (poupeja_envelopes). One row per category and month
+export type EnvelopeLeftoverAction = 'rollover' | 'sweep';
+
+export interface Envelope {
+  id: string;
+  categoryId: string;
+  month: string; // YYYY-MM-01
+  allocated: number;
+  leftoverAction: EnvelopeLeftoverAction;
+  // Goal that receives the leftover when the action is 'sweep'
+  goalId?: string;
+  sweptAmount: number;
+  sweptAt?: string;
+}
+
+export interface EnvelopeBalance {
+  categoryId: string;
+  category: string;
+  categoryIcon: string;
+  categoryColor: string;
+  envelope?: Envelope;
+  // Leftover rolled over from the previous month
+  carried: number;
+  allocated: number;
+  spent: number;
+  // carried + allocated - spent (negative when overspent)
+  available: number;
+  // Leftover waiting to be swept to the goal (past months with the 'sweep' action)
+  pendingSweep: number;
+}
+
+export interface EnvelopeMonthSummary {
+  balances: EnvelopeBalance[];
+  income: number;
+  // Unassigned income of the previous months (negative when they assigned more than it)
+  carried: number;
+  allocated: number;
+  // Income not assigned to any envelope yet; the goal is zero
+  readyToAssign: number;
+}
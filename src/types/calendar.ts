@@ -0,0 +1,30 @@
+import { ScheduledTransaction } from './index';
+
+export type CalendarView = 'month' | 'week';
+
+// scheduled: expense or income scheduled transaction; payday: scheduled income;
+// bill: credit card bill due date; goal: goal deadline
+export type CalendarEventKind = 'scheduled' | 'payday' | 'bill' | 'goal';
+
+export interface CalendarEvent {
+  id: string;
+  kind: CalendarEventKind;
+  date: string; // YYYY-MM-DD
+  title: string;
+  // Signed effect on the balance (income positive, expenses and bills negative). Goals and
+  // expenses paid with a credit card don't move the balance on their day
+  amount: number;
+  balanceAmount: number;
+  color: string;
+  // The occurrence behind a scheduled event. Projected occurrences of a series (not created yet)
+  // have none and can't be moved
+  scheduledTransaction?: ScheduledTransaction;
+  projected?: boolean;
+}
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  events: CalendarEvent[];
+  // Balance at the end of the day, from today on (past days have none)
+  projectedBalance?: number;
+}
@@ -9,3 +9,24 @@ export interface Category {
   icon: string;
   isDefault?: boolean;
 }
+
+export type CategoryRuleMatchType = 'contains' | 'regex';
+
+// Auto-categorization rule: when a new transaction matches (description, amount range,
+// account, card), it receives the rule's category, tags and goal
+export interface CategoryRule {
+  id: string;
+  name: string;
+  priority: number;
+  isActive: boolean;
+  transactionType: 'income' | 'expense';
+  matchType: CategoryRuleMatchType;
+  pattern: string;
+  minAmount?: number;
+  maxAmount?: number;
+  accountId?: string;
+  creditCardId?: string;
+  categoryId?: string;
+  tags: string[];
+  goalId?: string;
+}
@@ -1,3 +1,5 @@
+import { Attachment, BusinessDayAdjustment, TransactionSplit } from './index';
+
 export interface CreditCard {
   id: string;
   user_id: string;
@@ -9,6 +11,8 @@ export interface CreditCard {
   used_limit: number;
   closing_day: number;
   due_day: number;
+  // Bills due on a weekend or holiday are due on the next business day by default
+  business_day_adjustment?: BusinessDayAdjustment;
   interest_rate?: number;
   annual_fee?: number;
   is_active: boolean;
@@ -29,8 +33,13 @@ export interface CreditCardBill {
   paid_amount: number;
   remaining_amount: number;
   minimum_payment: number;
+  // Unpaid balance of the previous bill, charged here with its interest and late fee
+  previous_balance?: number;
   interest_amount: number;
   late_fee: number;
+  // Balance moved to the next bill when this one went overdue
+  carried_amount?: number;
+  carried_to_bill_id?: string;
   status: 'open' | 'closed' | 'paid' | 'overdue';
   payment_date?: string;
   notes?: string;
@@ -38,6 +47,11 @@ export interface CreditCardBill {
   updated_at: string;
 }
 
+// Bill with the name and color of its card, for views that show bills of every card
+export interface CreditCardBillWithCard extends CreditCardBill {
+  card?: Pick<CreditCard, 'id' | 'name' | 'color'> | null;
+}
+
 export interface CreditCardPurchase {
   id: string;
   card_id: string;
@@ -49,8 +63,14 @@ export interface CreditCardPurchase {
   installments: number;
   installment_amount: number;
   is_installment: boolean;
+  // One per future bill, generated by the database for installment purchases
+  installment_list?: CreditCardInstallment[];
   merchant?: string;
   transaction_id?: string;
+  external_id?: string;
+  splits?: TransactionSplit[];
+  tags?: string[];
+  attachments?: Attachment[];
   created_at: string;
   updated_at: string;
 }
@@ -75,6 +95,7 @@ export interface CreditCardPayment {
   payment_method: string;
   transaction_id?: string;
   notes?: string;
+  attachments?: Attachment[];
   created_at: string;
 }
 
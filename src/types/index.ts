@@ -1,11 +1,11 @@
 
-export type TransactionType = 'income' | 'expense';
+export type TransactionType = 'income' | 'expense' | 'transfer';
 
 export type TimeRange = 'today' | 'yesterday' | '7days' | '14days' | '30days' | 'custom';
 
 export interface Transaction {
   id: string;
-  type: 'income' | 'expense';
+  type: TransactionType;
   amount: number;
   category: string;
   categoryIcon?: string;
@@ -16,18 +16,103 @@ export interface Transaction {
   // Accounts
   accountId?: string;
   accountName?: string;
+  // Transfers (accountId is the source account)
+  destinationAccountId?: string;
+  destinationAccountName?: string;
   // Credit Cards
   creditCardId?: string;
   creditCardName?: string;
+  // Category split lines (amounts sum to the total)
+  splits?: TransactionSplit[];
+  // Free-form labels, stored normalized (lowercase, no spaces)
+  tags?: string[];
+  // Receipts and documents (poupeja_uploads)
+  attachments?: Attachment[];
+  // Identifier from an imported statement (OFX FITID)
+  externalId?: string;
+  // Currency of the amount (the account currency) and the rate used to convert it
+  // to the base currency at the time it was recorded (base amount = amount * exchangeRate)
+  currency?: string;
+  exchangeRate?: number;
+  baseCurrency?: string;
   // Database fields for compatibility
   category_id?: string;
   goal_id?: string;
   account_id?: string;
+  destination_account_id?: string;
   credit_card_id?: string;
   user_id?: string;
   created_at?: string;
 }
 
+export interface Attachment {
+  id: string;
+  fileName: string;
+  filePath: string;
+  fileSize?: number;
+  mimeType?: string;
+  url: string;
+  createdAt?: string;
+}
+
+export interface TransactionSplit {
+  id?: string;
+  categoryId: string;
+  category?: string;
+  categoryIcon?: string;
+  categoryColor?: string;
+  amount: number;
+}
+
+// Deleted transaction or card purchase kept in the trash (poupeja_trash) until it expires
+export type TrashItemType = 'transaction' | 'purchase';
+
+export interface TrashItem {
+  id: string;
+  itemType: TrashItemType;
+  itemId: string;
+  type: TransactionType;
+  description: string;
+  amount: number;
+  date: string;
+  deletedAt: string;
+  expiresAt: string;
+}
+
+// Change history of financial records (poupeja_record_history), written by a database trigger
+export type RecordHistoryType = 'transaction' | 'scheduled_transaction' | 'goal' | 'purchase' | 'payment';
+export type RecordHistoryAction = 'CREATE' | 'UPDATE' | 'DELETE';
+export type RecordHistorySource = 'web' | 'n8n' | 'admin' | 'system';
+
+export interface RecordFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RecordHistoryEntry {
+  id: string;
+  recordType: RecordHistoryType;
+  recordId: string;
+  action: RecordHistoryAction;
+  source: RecordHistorySource;
+  changedAt: string;
+  changedBy?: string;
+  // Description (or name) of the record at the time of the change
+  label: string;
+  changes: RecordFieldChange[];
+}
+
+// Exchange rate (poupeja_exchange_rates): 1 fromCurrency = rate toCurrency on rateDate.
+// Rates without a user are global and maintained by admins
+export interface ExchangeRate {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  rateDate: string; // YYYY-MM-DD
+  isGlobal: boolean;
+}
 
 export interface Goal {
   id: string;
@@ -49,6 +134,40 @@ export interface Goal {
   updated_at?: string;
 }
 
+export type RecurrenceFrequency = 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// RRULE-style repetition of a scheduled transaction (FREQ, INTERVAL, BYDAY, BYMONTHDAY,
+// BYSETPOS, UNTIL and COUNT)
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months/years
+  byWeekday?: number[]; // 0 = Sunday ... 6 = Saturday
+  byMonthDay?: number; // 1-31, or -1 for the last day; shorter months use their last day
+  bySetPos?: number; // Nth of the byWeekday days in the month (5 with Mon-Fri = 5th business day, -1 = last)
+  until?: string; // YYYY-MM-DD, last day an occurrence can fall on
+  count?: number; // Total number of occurrences
+}
+
+// The currency selected in the preferences is the base currency: dashboard and report totals
+// are converted to it
+export type Currency = 'USD' | 'BRL' | 'EUR';
+
+// Which occurrences of a recurring series an edit applies to
+export type OccurrenceEditScope = 'this' | 'following' | 'all';
+
+// What happens to a due date on a weekend or holiday: kept, moved to the next business day
+// (boletos, card bills) or to the previous one (e.g. salaries)
+export type BusinessDayAdjustment = 'none' | 'next' | 'previous';
+
+// National holidays are computed (see holidayUtils); municipal and state ones are added by the user
+export interface Holiday {
+  id?: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  recurring: boolean; // Same day every year
+  national?: boolean;
+}
+
 export interface ScheduledTransaction {
   id: string;
   type: 'income' | 'expense';
@@ -58,9 +177,23 @@ export interface ScheduledTransaction {
   categoryColor?: string;
   description?: string;
   scheduledDate: string; // ISO date string
-  recurrence?: 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+  recurrence?: RecurrenceFrequency;
+  recurrenceRule?: RecurrenceRule;
+  occurrenceNumber?: number; // Position of this occurrence in its series, starting at 1
+  seriesId?: string; // Shared by the occurrences of a recurring series
+  autoDebit?: boolean; // Posted automatically on its date by the daily job
+  businessDayAdjustment?: BusinessDayAdjustment; // scheduledDate is already adjusted; originalDate keeps the series day
+  // Where the money comes from (or goes to): an account or, for expenses, a credit card
+  accountId?: string;
+  accountName?: string;
+  creditCardId?: string;
+  creditCardName?: string;
   goalId?: string; // Optional reference to a goal
-  status?: 'pending' | 'paid' | 'overdue' | 'upcoming';
+  status?: 'pending' | 'paid' | 'overdue' | 'upcoming' | 'skipped';
+  // Set when only this occurrence was moved (by the user or to a business day) or has another
+  // amount: what the series says
+  originalDate?: string; // YYYY-MM-DD
+  originalAmount?: number;
   paidDate?: string; // ISO date string
   paidAmount?: number;
   lastExecutionDate?: string; // ISO date string
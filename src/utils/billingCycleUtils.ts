@@ -0,0 +1,72 @@
+import { addDays, addMonths, differenceInCalendarDays, getDaysInMonth, startOfDay } from 'date-fns';
+import { CreditCard } from '@/types/creditCards';
+import { formatRecurrenceDate, toRecurrenceDate } from './recurrenceUtils';
+
+// The database has the same rules (credit_card_bill_reference and get_or_create_credit_card_bill,
+// migrations 20251020080000 and 20251020100000) — keep both in sync:
+//  - a bill closes on the closing day of its reference month, or on the last day of months
+//    that don't have it (closing day 31 closes on 28/02), and purchases made on the closing
+//    day itself are still on it
+//  - it opens the day after the previous bill closed
+//  - it's due on the due day of the same month, or of the next month when the due day is not
+//    after the closing day. Weekends and holidays are skipped when the bill is saved.
+
+export type BillingCycleCard = Pick<CreditCard, 'closing_day' | 'due_day'>;
+
+export interface BillingCycle {
+  referenceMonth: number;
+  referenceYear: number;
+  // YYYY-MM-DD
+  openingDate: string;
+  closingDate: string;
+  dueDate: string;
+}
+
+// The day of the month, or the last day of months that don't have it
+const dayOfMonth = (monthStart: Date, day: number): Date =>
+  new Date(monthStart.getFullYear(), monthStart.getMonth(), Math.min(day, getDaysInMonth(monthStart)));
+
+// The bill of the reference month (1-12)
+export const getBillingCycleForReference = (
+  card: BillingCycleCard,
+  referenceYear: number,
+  referenceMonth: number
+): BillingCycle => {
+  const monthStart = new Date(referenceYear, referenceMonth - 1, 1);
+  const closingDate = dayOfMonth(monthStart, card.closing_day);
+  const previousClosingDate = dayOfMonth(addMonths(monthStart, -1), card.closing_day);
+  const dueDate = dayOfMonth(card.due_day > card.closing_day ? monthStart : addMonths(monthStart, 1), card.due_day);
+
+  return {
+    referenceMonth,
+    referenceYear,
+    openingDate: formatRecurrenceDate(addDays(previousClosingDate, 1)),
+    closingDate: formatRecurrenceDate(closingDate),
+    dueDate: formatRecurrenceDate(dueDate),
+  };
+};
+
+// The bill a purchase made on the date goes to
+export const getBillingCycle = (card: BillingCycleCard, purchaseDate: Date = new Date()): BillingCycle => {
+  const monthStart = new Date(purchaseDate.getFullYear(), purchaseDate.getMonth(), 1);
+  const closingDate = dayOfMonth(monthStart, card.closing_day);
+  const reference = startOfDay(purchaseDate) > closingDate ? addMonths(monthStart, 1) : monthStart;
+
+  return getBillingCycleForReference(card, reference.getFullYear(), reference.getMonth() + 1);
+};
+
+// Best day to buy: the first day of the next bill, which gives the longest time until the
+// purchase is due. Counted from the date (today when it is the first day of a bill).
+export const getBestPurchaseDay = (card: BillingCycleCard, from: Date = new Date()) => {
+  const today = startOfDay(from);
+  const current = getBillingCycle(card, today);
+  const date = formatRecurrenceDate(today) === current.openingDate
+    ? today
+    : addDays(toRecurrenceDate(current.closingDate), 1);
+
+  return {
+    date,
+    isToday: differenceInCalendarDays(date, today) === 0,
+    cycle: getBillingCycle(card, date),
+  };
+};
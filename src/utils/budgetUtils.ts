@@ -0,0 +1,214 @@
+import { addMonths, endOfMonth, format, isBefore, startOfMonth, subMonths } from 'date-fns';
+import { ScheduledTransaction, Transaction } from '@/types';
+import { Category } from '@/types/categories';
+import { Budget, BudgetProgress, BudgetStatus, CardCategorySpending, Envelope, EnvelopeBalance, EnvelopeMonthSummary } from '@/types/budgets';
+import { calculateCategorySummaries, calculateTotalIncome, createLocalDate, expandTransactionSplits, getBaseAmount } from './transactionUtils';
+import { isSettledOccurrence } from './recurrenceUtils';
+
+// Alert thresholds, in percent of the planned amount
+export const BUDGET_WARNING_PERCENTAGE = 80;
+export const BUDGET_EXCEEDED_PERCENTAGE = 100;
+
+export const getBudgetStatus = (percentage: number): BudgetStatus => {
+  if (percentage >= BUDGET_EXCEEDED_PERCENTAGE) return 'exceeded';
+  if (percentage >= BUDGET_WARNING_PERCENTAGE) return 'warning';
+  return 'ok';
+};
+
+const isInMonth = (date: string, month: Date) => {
+  const value = createLocalDate(date);
+  return value >= startOfMonth(month) && value <= endOfMonth(month);
+};
+
+interface BudgetProgressInput {
+  budgets: Budget[];
+  categories: Category[];
+  month: Date;
+  // Any period: only the ones of the month are used
+  transactions: Transaction[];
+  scheduledTransactions?: ScheduledTransaction[];
+  cardSpending?: CardCategorySpending[];
+}
+
+// Planned vs actual per budgeted category. Spending comes from the expense transactions
+// (calculateCategorySummaries, split lines included) and the purchases on paid card bills;
+// pending scheduled expenses of the month and purchases on unpaid bills are committed
+export const calculateBudgetProgress = ({
+  budgets,
+  categories,
+  month,
+  transactions,
+  scheduledTransactions = [],
+  cardSpending = []
+}: BudgetProgressInput): BudgetProgress[] => {
+  const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+
+  const spent = new Map<string, number>();
+  calculateCategorySummaries(transactions.filter(t => isInMonth(t.date, month)), 'expense')
+    .forEach(summary => spent.set(summary.category, summary.amount));
+
+  const committed = new Map<string, number>();
+  const add = (totals: Map<string, number>, category: string | undefined, amount: number) => {
+    if (!category) return;
+    totals.set(category, (totals.get(category) || 0) + amount);
+  };
+
+  cardSpending
+    .filter(item => isInMonth(item.purchaseDate, month))
+    .forEach(item => {
+      const category = item.categoryId ? categoryNames.get(item.categoryId) : undefined;
+      add(item.isCommitted ? committed : spent, category, item.amount);
+    });
+
+  scheduledTransactions
+    .filter(item => item.type === 'expense' && !isSettledOccurrence(item) && isInMonth(item.scheduledDate, month))
+    .forEach(item => add(committed, item.category, item.amount));
+
+  return budgets
+    .map(budget => {
+      const category = categories.find(item => item.id === budget.categoryId);
+      if (!category) return null;
+
+      const categorySpent = spent.get(category.name) || 0;
+      const categoryCommitted = committed.get(category.name) || 0;
+      const percentage = budget.amount > 0
+        ? Math.round(((categorySpent + categoryCommitted) / budget.amount) * 100)
+        : 0;
+
+      return {
+        budget,
+        category: category.name,
+        categoryIcon: category.icon,
+        categoryColor: category.color,
+        spent: categorySpent,
+        committed: categoryCommitted,
+        remaining: budget.amount - categorySpent - categoryCommitted,
+        percentage,
+        status: getBudgetStatus(percentage)
+      };
+    })
+    .filter((progress): progress is BudgetProgress => progress !== null)
+    .sort((a, b) => b.percentage - a.percentage);
+};
+
+// Consecutive closed months, counting back from last month, that ended with every budget
+// within its limit (up to `months`)
+export const countMonthsWithinBudget = (
+  input: Omit<BudgetProgressInput, 'month' | 'scheduledTransactions'>,
+  months: number,
+  today = new Date()
+): number => {
+  if (input.budgets.length === 0) return 0;
+
+  let count = 0;
+  while (count < months) {
+    const month = subMonths(today, count + 1);
+    const withinBudget = calculateBudgetProgress({ ...input, month }).every(progress => progress.remaining >= 0);
+    if (!withinBudget) break;
+    count++;
+  }
+  return count;
+};
+
+// Envelope months are stored as the first day of the month (YYYY-MM-01)
+export const getEnvelopeMonth = (month: Date) => format(startOfMonth(month), 'yyyy-MM-dd');
+
+interface EnvelopeMonthInput {
+  envelopes: Envelope[];
+  categories: Category[];
+  month: Date;
+  transactions: Transaction[];
+  // Card purchases since the first envelope month: a purchase draws the envelope when it is made
+  cardSpending?: CardCategorySpending[];
+  today?: Date;
+}
+
+// Envelope balances of a month. Each envelope starts from the leftover rolled over from the
+// previous month (months with the 'sweep' action send it to the goal instead), receives the
+// month's allocation and is drawn down by the category's expenses and card purchases. Income
+// left unassigned (or assigned beyond the income) since the first month is still to assign
+export const calculateEnvelopeMonth = ({
+  envelopes,
+  categories,
+  month,
+  transactions,
+  cardSpending = [],
+  today = new Date()
+}: EnvelopeMonthInput): EnvelopeMonthSummary => {
+  const monthKey = getEnvelopeMonth(month);
+  const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+
+  // Spending per month and category name
+  const spent = new Map<string, number>();
+  const addSpent = (date: string, category: string | undefined, amount: number) => {
+    if (!category) return;
+    const key = `${getEnvelopeMonth(createLocalDate(date))}|${category}`;
+    spent.set(key, (spent.get(key) || 0) + amount);
+  };
+  expandTransactionSplits(transactions)
+    .filter(t => t.type === 'expense')
+    .forEach(t => addSpent(t.date, t.category, getBaseAmount(t)));
+  cardSpending.forEach(item => addSpent(item.purchaseDate, item.categoryId ? categoryNames.get(item.categoryId) : undefined, item.amount));
+
+  const envelopesByKey = new Map(envelopes.map(envelope => [`${envelope.month}|${envelope.categoryId}`, envelope]));
+  const firstMonth = createLocalDate(
+    envelopes.reduce((first, envelope) => (envelope.month < first ? envelope.month : first), monthKey)
+  );
+  const isPastMonth = isBefore(endOfMonth(month), today);
+
+  const balances = categories
+    .filter(category => category.type === 'expense')
+    .map((category): EnvelopeBalance => {
+      let carried = 0;
+
+      // Leftovers of the previous months, one month at a time
+      for (let current = firstMonth; getEnvelopeMonth(current) < monthKey; current = addMonths(current, 1)) {
+        const key = getEnvelopeMonth(current);
+        const envelope = envelopesByKey.get(`${key}|${category.id}`);
+        const available = carried + (envelope?.allocated || 0) - (spent.get(`${key}|${category.name}`) || 0);
+        carried = envelope?.leftoverAction === 'sweep' ? 0 : Math.max(available, 0);
+      }
+
+      const envelope = envelopesByKey.get(`${monthKey}|${category.id}`);
+      const allocated = envelope?.allocated || 0;
+      const categorySpent = spent.get(`${monthKey}|${category.name}`) || 0;
+      const available = carried + allocated - categorySpent;
+
+      return {
+        categoryId: category.id,
+        category: category.name,
+        categoryIcon: category.icon,
+        categoryColor: category.color,
+        envelope,
+        carried,
+        allocated,
+        spent: categorySpent,
+        available,
+        pendingSweep: isPastMonth && envelope?.leftoverAction === 'sweep'
+          ? Math.max(available - envelope.sweptAmount, 0)
+          : 0
+      };
+    });
+
+  // Income minus the envelope allocations of each month before this one
+  let carried = 0;
+  for (let current = firstMonth; getEnvelopeMonth(current) < monthKey; current = addMonths(current, 1)) {
+    const key = getEnvelopeMonth(current);
+    const monthIncome = calculateTotalIncome(transactions.filter(t => isInMonth(t.date, current)));
+    const monthAllocated = envelopes
+      .filter(envelope => envelope.month === key)
+      .reduce((sum, envelope) => sum + envelope.allocated, 0);
+    carried += monthIncome - monthAllocated;
+  }
+
+  const income = calculateTotalIncome(transactions.filter(t => isInMonth(t.date, month)));
+  const allocated = balances.reduce((sum, balance) => sum + balance.allocated, 0);
+
+  return {
+    balances,
+    income,
+    carried,
+    allocated,
+    readyToAssign: carried + income - allocated
+  };
+};
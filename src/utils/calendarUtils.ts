@@ -0,0 +1,166 @@
+import { eachDayOfInterval, endOfMonth, endOfWeek, startOfMonth, startOfWeek } from 'date-fns';
+import { Goal, Holiday, ScheduledTransaction } from '@/types';
+import { CalendarDay, CalendarEvent, CalendarView } from '@/types/calendar';
+import { CreditCardBillWithCard } from '@/types/creditCards';
+import { adjustToBusinessDay } from './holidayUtils';
+import { formatRecurrenceDate, getNextOccurrence, isSettledOccurrence, toRecurrenceDate } from './recurrenceUtils';
+
+export const PAYDAY_COLOR = '#16A34A';
+
+// A series that goes on forever still stops at a sane number of projected occurrences
+const MAX_PROJECTED_OCCURRENCES = 400;
+
+// Whole weeks (Sunday to Saturday) covering the month, or the week of the date
+export const getCalendarRange = (view: CalendarView, date: Date): { start: Date; end: Date } => (
+  view === 'month'
+    ? { start: startOfWeek(startOfMonth(date)), end: endOfWeek(endOfMonth(date)) }
+    : { start: startOfWeek(date), end: endOfWeek(date) }
+);
+
+const toScheduledEvent = (transaction: ScheduledTransaction, date: string, projected = false): CalendarEvent => {
+  const amount = transaction.type === 'income' ? transaction.amount : -transaction.amount;
+  // Paid occurrences are in the balance already; card expenses go to the bill instead
+  const movesBalance = !isSettledOccurrence(transaction) && !transaction.creditCardId;
+
+  return {
+    id: projected ? `${transaction.seriesId || transaction.id}:${date}` : transaction.id,
+    kind: transaction.type === 'income' ? 'payday' : 'scheduled',
+    date,
+    title: transaction.description || transaction.category,
+    amount,
+    balanceAmount: movesBalance ? amount : 0,
+    color: transaction.type === 'income' ? PAYDAY_COLOR : transaction.categoryColor || '#607D8B',
+    scheduledTransaction: projected ? undefined : transaction,
+    projected,
+  };
+};
+
+// Only the next occurrence of a series exists as a row: the later ones up to `until` are
+// projected from the last one, with the series date and amount, moved to a business day the
+// same way the occurrence will be when it is created
+const projectSeries = (
+  scheduledTransactions: ScheduledTransaction[],
+  until: string,
+  holidays: Holiday[]
+): CalendarEvent[] => {
+  const latestBySeries = new Map<string, ScheduledTransaction>();
+  for (const transaction of scheduledTransactions) {
+    const key = transaction.seriesId || transaction.id;
+    const latest = latestBySeries.get(key);
+    if (!latest || (transaction.occurrenceNumber || 1) > (latest.occurrenceNumber || 1)) {
+      latestBySeries.set(key, transaction);
+    }
+  }
+
+  const events: CalendarEvent[] = [];
+  for (const latest of latestBySeries.values()) {
+    if (!latest.recurrenceRule || latest.recurrenceRule.frequency === 'once') continue;
+
+    const series: ScheduledTransaction = {
+      ...latest,
+      amount: latest.originalAmount ?? latest.amount,
+      status: 'pending',
+    };
+    let current = toRecurrenceDate(latest.originalDate || latest.scheduledDate);
+    let occurrenceNumber = latest.occurrenceNumber || 1;
+
+    for (let count = 0; count < MAX_PROJECTED_OCCURRENCES; count++) {
+      const next = getNextOccurrence(latest.recurrenceRule, current, occurrenceNumber, holidays);
+      if (!next || formatRecurrenceDate(next) > until) break;
+
+      const dueDate = adjustToBusinessDay(next, latest.businessDayAdjustment, holidays);
+      events.push(toScheduledEvent(series, formatRecurrenceDate(dueDate), true));
+      current = next;
+      occurrenceNumber += 1;
+    }
+  }
+
+  return events;
+};
+
+interface CalendarEventsInput {
+  scheduledTransactions: ScheduledTransaction[];
+  bills: CreditCardBillWithCard[];
+  goals: Goal[];
+  // Last day shown (YYYY-MM-DD): series are projected up to it
+  until: string;
+  // The user's own holidays, for projected occurrences on a non-business day
+  holidays?: Holiday[];
+}
+
+export const buildCalendarEvents = ({
+  scheduledTransactions,
+  bills,
+  goals,
+  until,
+  holidays = [],
+}: CalendarEventsInput): CalendarEvent[] => {
+  const scheduledEvents = scheduledTransactions
+    .filter(transaction => transaction.status !== 'skipped')
+    .map(transaction => toScheduledEvent(transaction, transaction.scheduledDate.slice(0, 10)));
+
+  const billEvents = bills.map((bill): CalendarEvent => {
+    const isPaid = bill.status === 'paid' || bill.remaining_amount <= 0;
+    return {
+      id: bill.id,
+      kind: 'bill',
+      date: bill.due_date.slice(0, 10),
+      title: bill.card?.name || '',
+      amount: -(isPaid ? bill.total_amount : bill.remaining_amount),
+      balanceAmount: isPaid ? 0 : -bill.remaining_amount,
+      color: bill.card?.color || '#6B7280',
+    };
+  });
+
+  const goalEvents = goals
+    .filter(goal => goal.deadline || goal.endDate)
+    .map((goal): CalendarEvent => ({
+      id: goal.id,
+      kind: 'goal',
+      date: (goal.deadline || goal.endDate || '').slice(0, 10),
+      title: goal.name,
+      amount: goal.targetAmount - goal.currentAmount,
+      balanceAmount: 0,
+      color: goal.color,
+    }));
+
+  return [...scheduledEvents, ...projectSeries(scheduledTransactions, until, holidays), ...billEvents, ...goalEvents];
+};
+
+// The days from `start` to `end` with their events and, from today on, the balance at the end
+// of each day: the current balance plus everything due up to that day. Items past their date
+// that are still open are expected to happen, so they count today
+export const buildCalendarDays = (
+  start: Date,
+  end: Date,
+  events: CalendarEvent[],
+  currentBalance: number,
+  today: Date = new Date()
+): CalendarDay[] => {
+  const todayKey = formatRecurrenceDate(today);
+  const startKey = formatRecurrenceDate(start);
+
+  const eventsByDay = new Map<string, CalendarEvent[]>();
+  const dueByDay = new Map<string, number>();
+  for (const event of events) {
+    eventsByDay.set(event.date, [...(eventsByDay.get(event.date) || []), event]);
+    if (!event.balanceAmount) continue;
+    const dueDay = event.date < todayKey ? todayKey : event.date;
+    dueByDay.set(dueDay, (dueByDay.get(dueDay) || 0) + event.balanceAmount);
+  }
+
+  // Views that start after today carry what is due before their first day
+  let balance = currentBalance;
+  for (const [day, amount] of dueByDay) {
+    if (day < startKey) balance += amount;
+  }
+
+  return eachDayOfInterval({ start, end }).map(day => {
+    const date = formatRecurrenceDate(day);
+    const dayEvents = eventsByDay.get(date) || [];
+    if (date < todayKey) return { date, events: dayEvents };
+
+    balance += dueByDay.get(date) || 0;
+    return { date, events: dayEvents, projectedBalance: balance };
+  });
+};
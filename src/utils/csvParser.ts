@@ -0,0 +1,120 @@
+// CSV parsing helpers for the spreadsheet importer.
+// Exports from Brazilian apps (Mobills, Organizze, Excel em pt-BR) usually come with ';'
+// as separator, decimal comma and dd/MM/yyyy dates; our own downloadCSV uses ','.
+
+export type CSVDelimiter = ',' | ';' | '\t';
+export type CSVNumberFormat = 'br' | 'us'; // 1.234,56 | 1,234.56
+export type CSVDateFormat = 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'yyyy-MM-dd';
+
+export const CSV_DATE_FORMATS: CSVDateFormat[] = ['dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd'];
+
+// Files saved by Excel in pt-BR are Windows-1252; anything that is valid UTF-8 stays UTF-8
+export const decodeCSVFile = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+// Picks the separator that splits the first line into the most columns
+export const detectDelimiter = (content: string): CSVDelimiter => {
+  const firstLine = content.split(/\r?\n/)[0] || '';
+  const candidates: CSVDelimiter[] = [';', ',', '\t'];
+  return candidates.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  , ',' as CSVDelimiter);
+};
+
+// RFC 4180: quoted fields may contain the delimiter, line breaks and "" as an escaped quote
+export const parseCSV = (content: string, delimiter: CSVDelimiter = detectDelimiter(content)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  // Blank lines (common at the end of exported files)
+  return rows.filter(cells => cells.some(cell => cell !== ''));
+};
+
+// Accepts currency symbols, spaces, "(10,00)" and trailing "-" as negative values
+export const parseCSVAmount = (value: string, format: CSVNumberFormat): number => {
+  if (!value) return NaN;
+  let text = value.replace(/[^\d,.\-()]/g, '');
+  const negative = /^\(.*\)$/.test(text) || text.endsWith('-') || text.startsWith('-');
+  text = text.replace(/[()-]/g, '');
+
+  text = format === 'br'
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+
+  const amount = parseFloat(text);
+  if (isNaN(amount)) return NaN;
+  return negative ? -amount : amount;
+};
+
+// Returns YYYY-MM-DD, or undefined when the value does not match the format.
+// Two-digit years are read as 20xx; a time part after the date is ignored.
+export const parseCSVDate = (value: string, format: CSVDateFormat): string | undefined => {
+  const parts = value.trim().split(/[\s T]/)[0].split(/[/.-]/).map(part => parseInt(part, 10));
+  if (parts.length !== 3 || parts.some(isNaN)) return undefined;
+
+  let [day, month, year] = [0, 0, 0];
+  if (format === 'dd/MM/yyyy') [day, month, year] = parts;
+  else if (format === 'MM/dd/yyyy') [month, day, year] = parts;
+  else [year, month, day] = parts;
+
+  if (year < 100) year += 2000;
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return undefined;
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Guesses the date format from sample values: a first part > 12 means day-first, etc.
+export const detectDateFormat = (samples: string[]): CSVDateFormat => {
+  const valid = (format: CSVDateFormat) => samples.every(sample => !sample || parseCSVDate(sample, format));
+  return CSV_DATE_FORMATS.find(valid) || 'dd/MM/yyyy';
+};
+
+// "1.234,56" or "-45,90" look Brazilian; "1,234.56" or "45.90" look American
+export const detectNumberFormat = (samples: string[]): CSVNumberFormat => {
+  const brazilian = samples.filter(sample => /,\d{1,2}\s*-?\)?$/.test(sample.trim())).length;
+  const american = samples.filter(sample => /\.\d{1,2}\s*-?\)?$/.test(sample.trim())).length;
+  return american > brazilian ? 'us' : 'br';
+};
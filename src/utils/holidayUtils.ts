@@ -0,0 +1,111 @@
+import { addDays, getDay } from 'date-fns';
+import { BusinessDayAdjustment, Holiday, ScheduledTransaction } from '@/types';
+import { formatRecurrenceDate, toRecurrenceDate } from './recurrenceUtils';
+
+// The database has the same rules (is_business_day and adjust_to_business_day in migration
+// 20251020070000), used for card bills and by the daily job — keep both in sync.
+
+export const BUSINESS_DAY_ADJUSTMENTS: BusinessDayAdjustment[] = ['none', 'next', 'previous'];
+
+// No run of weekends and holidays is longer than this
+const MAX_ADJUSTMENT_DAYS = 14;
+
+const FIXED_NATIONAL_HOLIDAYS: [string, string][] = [
+  ['01-01', 'Confraternização Universal'],
+  ['04-21', 'Tiradentes'],
+  ['05-01', 'Dia do Trabalho'],
+  ['09-07', 'Independência do Brasil'],
+  ['10-12', 'Nossa Senhora Aparecida'],
+  ['11-02', 'Finados'],
+  ['11-15', 'Proclamação da República'],
+  ['12-25', 'Natal'],
+];
+
+// Days after Easter Sunday. Carnival and Corpus Christi are not official holidays everywhere,
+// but banks are closed, so boletos and bills move all the same
+const EASTER_HOLIDAYS: [number, string][] = [
+  [-48, 'Carnaval'],
+  [-47, 'Carnaval'],
+  [-2, 'Sexta-feira Santa'],
+  [60, 'Corpus Christi'],
+];
+
+// Easter Sunday of the year (Meeus/Jones/Butcher algorithm)
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+const nationalHolidaysByYear = new Map<number, Holiday[]>();
+
+export const getNationalHolidays = (year: number): Holiday[] => {
+  const cached = nationalHolidaysByYear.get(year);
+  if (cached) return cached;
+
+  const fixed = FIXED_NATIONAL_HOLIDAYS.map(([monthDay, name]) => ({ date: `${year}-${monthDay}`, name }));
+  // Consciência Negra is a national holiday since 2024
+  if (year >= 2024) fixed.push({ date: `${year}-11-20`, name: 'Consciência Negra' });
+
+  const easter = getEasterSunday(year);
+  const movable = EASTER_HOLIDAYS.map(([offset, name]) => ({
+    date: formatRecurrenceDate(addDays(easter, offset)),
+    name,
+  }));
+
+  const holidays = [...fixed, ...movable]
+    .map(holiday => ({ ...holiday, recurring: false, national: true }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  nationalHolidaysByYear.set(year, holidays);
+  return holidays;
+};
+
+// The holiday on the date, national or one of the user's (recurring ones match every year)
+export const getHoliday = (date: Date, customHolidays: Holiday[] = []): Holiday | undefined => {
+  const day = formatRecurrenceDate(date);
+  return getNationalHolidays(date.getFullYear()).find(holiday => holiday.date === day)
+    || customHolidays.find(holiday =>
+      holiday.date === day || (holiday.recurring && holiday.date.slice(5) === day.slice(5))
+    );
+};
+
+export const isBusinessDay = (date: Date, customHolidays: Holiday[] = []): boolean => {
+  const weekday = getDay(date);
+  return weekday !== 0 && weekday !== 6 && !getHoliday(date, customHolidays);
+};
+
+export const adjustToBusinessDay = (
+  date: Date,
+  adjustment: BusinessDayAdjustment = 'none',
+  customHolidays: Holiday[] = []
+): Date => {
+  if (adjustment === 'none') return date;
+
+  const step = adjustment === 'next' ? 1 : -1;
+  let result = date;
+  for (let attempt = 0; attempt < MAX_ADJUSTMENT_DAYS && !isBusinessDay(result, customHolidays); attempt++) {
+    result = addDays(result, step);
+  }
+  return result;
+};
+
+// The day (YYYY-MM-DD) a scheduled transaction is really due. New occurrences are stored on
+// it already, but older ones and those moved by hand can still fall on a weekend or holiday
+export const getEffectiveDueDay = (
+  transaction: Pick<ScheduledTransaction, 'scheduledDate' | 'businessDayAdjustment'>,
+  customHolidays: Holiday[] = []
+): string => formatRecurrenceDate(
+  adjustToBusinessDay(toRecurrenceDate(transaction.scheduledDate), transaction.businessDayAdjustment, customHolidays)
+);
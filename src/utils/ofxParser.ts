@@ -0,0 +1,104 @@
+// OFX (Open Financial Exchange) statement parser.
+// Handles both OFX 1.x (SGML, tags without closing elements) and OFX 2.x (XML),
+// which is what Brazilian banks export for checking accounts and credit cards.
+
+export type OFXStatementKind = 'bank' | 'creditcard';
+
+export interface OFXTransaction {
+  fitId: string;
+  type: string; // TRNTYPE: DEBIT, CREDIT, PAYMENT, ...
+  date: string; // YYYY-MM-DD
+  amount: number; // signed: negative = money out
+  name: string;
+  memo: string;
+}
+
+export interface OFXStatement {
+  kind: OFXStatementKind;
+  bankId?: string;
+  accountId?: string;
+  currency?: string;
+  startDate?: string;
+  endDate?: string;
+  transactions: OFXTransaction[];
+}
+
+// Most Brazilian banks still send OFX 1.x files in Windows-1252
+export const decodeOFXFile = (buffer: ArrayBuffer): string => {
+  const header = new TextDecoder('ascii').decode(buffer.slice(0, 512));
+  const isUtf8 = /ENCODING:\s*UTF-?8/i.test(header) || /encoding="utf-8"/i.test(header);
+  return new TextDecoder(isUtf8 ? 'utf-8' : 'windows-1252').decode(buffer);
+};
+
+// Value of a leaf element: <TAG>value (SGML) or <TAG>value</TAG> (XML)
+const getTagValue = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+};
+
+// OFX dates: YYYYMMDD[HHMMSS[.XXX]][[-3:BRT]] — only the calendar date matters here
+const parseOFXDate = (value?: string): string | undefined => {
+  if (!value || value.length < 8) return undefined;
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+};
+
+// Some banks use a decimal comma ("-45,90")
+const parseOFXAmount = (value?: string): number => {
+  if (!value) return NaN;
+  const normalized = value.includes(',') && !value.includes('.')
+    ? value.replace(',', '.')
+    : value.replace(/,/g, '');
+  return parseFloat(normalized);
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'");
+
+export const parseOFX = (content: string): OFXStatement => {
+  if (!/<OFX>/i.test(content)) {
+    throw new Error('Arquivo OFX inválido');
+  }
+
+  const kind: OFXStatementKind = /<CREDITCARDMSGSRSV1>|<CCSTMTRS>/i.test(content) ? 'creditcard' : 'bank';
+  const accountBlock = content.match(/<(BANKACCTFROM|CCACCTFROM)>([\s\S]*?)<\/\1>/i)?.[2] || content;
+  const transactionList = content.match(/<BANKTRANLIST>([\s\S]*?)<\/BANKTRANLIST>/i)?.[1] || '';
+
+  const transactions: OFXTransaction[] = [];
+  const transactionRegex = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = transactionRegex.exec(transactionList)) !== null) {
+    const block = match[1];
+    const amount = parseOFXAmount(getTagValue(block, 'TRNAMT'));
+    const date = parseOFXDate(getTagValue(block, 'DTPOSTED'));
+    if (isNaN(amount) || !date) continue;
+
+    const name = decodeEntities(getTagValue(block, 'NAME') || '');
+    const memo = decodeEntities(getTagValue(block, 'MEMO') || '');
+
+    transactions.push({
+      // Without FITID, fall back to a stable key so re-importing the same file still matches
+      fitId: getTagValue(block, 'FITID') || `${date}|${amount}|${name || memo}`,
+      type: (getTagValue(block, 'TRNTYPE') || (amount < 0 ? 'DEBIT' : 'CREDIT')).toUpperCase(),
+      date,
+      amount,
+      name,
+      memo
+    });
+  }
+
+  return {
+    kind,
+    bankId: getTagValue(accountBlock, 'BANKID'),
+    accountId: getTagValue(accountBlock, 'ACCTID'),
+    currency: getTagValue(content, 'CURDEF'),
+    startDate: parseOFXDate(getTagValue(transactionList, 'DTSTART')),
+    endDate: parseOFXDate(getTagValue(transactionList, 'DTEND')),
+    transactions
+  };
+};
@@ -0,0 +1,170 @@
+import { addDays, addMonths, addWeeks, addYears, format, getDaysInMonth, startOfWeek } from 'date-fns';
+import { Holiday, RecurrenceFrequency, RecurrenceRule, ScheduledTransaction } from '@/types';
+import { createLocalDate } from './transactionUtils';
+import { isBusinessDay } from './holidayUtils';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['once', 'daily', 'weekly', 'monthly', 'yearly'];
+
+// Monday to Friday: with bySetPos they give the Nth (or last) business day of the month
+export const BUSINESS_WEEKDAYS = [1, 2, 3, 4, 5];
+
+// "Nth business day" rules skip holidays too, like the due date adjustment
+export const isBusinessDayRule = (rule: RecurrenceRule): boolean =>
+  !!rule.bySetPos
+  && rule.byWeekday?.length === BUSINESS_WEEKDAYS.length
+  && BUSINESS_WEEKDAYS.every(weekday => rule.byWeekday?.includes(weekday));
+
+// Rules like "5th Friday" skip the months that don't have one, but never loop forever
+const MAX_PERIODS = 120;
+
+// Scheduled dates are stored as timestamps at UTC midnight: the calendar day is the date part
+export const toRecurrenceDate = (value: string): Date => createLocalDate(value.slice(0, 10));
+
+export const formatRecurrenceDate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// A date on the given weekday (7 January 2024 was a Sunday), to print localized weekday names
+export const getWeekdayDate = (weekday: number): Date => new Date(2024, 0, 7 + weekday);
+
+// Fills in what the rule leaves implicit from the first date, so the series keeps its day:
+// weekly rules repeat on the start weekday and monthly/yearly rules on the start day of the month
+export const normalizeRecurrenceRule = (rule: RecurrenceRule, startDate: Date): RecurrenceRule => {
+  const normalized: RecurrenceRule = {
+    frequency: rule.frequency,
+    interval: Math.max(1, Math.floor(rule.interval || 1)),
+    until: rule.until || undefined,
+    count: rule.count && rule.count > 0 ? Math.floor(rule.count) : undefined
+  };
+
+  if (rule.frequency === 'weekly') {
+    normalized.byWeekday = rule.byWeekday?.length
+      ? [...new Set(rule.byWeekday)].sort((a, b) => a - b)
+      : [startDate.getDay()];
+  }
+
+  if (rule.frequency === 'monthly' && rule.bySetPos && rule.byWeekday?.length) {
+    normalized.byWeekday = [...new Set(rule.byWeekday)].sort((a, b) => a - b);
+    normalized.bySetPos = rule.bySetPos;
+  } else if (rule.frequency === 'monthly' || rule.frequency === 'yearly') {
+    normalized.byMonthDay = rule.byMonthDay || startDate.getDate();
+  }
+
+  return normalized;
+};
+
+// The day a monthly/yearly rule falls on in the given month, if the month has one
+const getMonthOccurrence = (rule: RecurrenceRule, year: number, month: number, holidays: Holiday[]): Date | null => {
+  const daysInMonth = getDaysInMonth(new Date(year, month, 1));
+
+  if (rule.bySetPos && rule.byWeekday?.length) {
+    const byWeekday = rule.byWeekday;
+    const matches: Date[] = [];
+    const isMatch = isBusinessDayRule(rule)
+      ? (date: Date) => isBusinessDay(date, holidays)
+      : (date: Date) => byWeekday.includes(date.getDay());
+    for (let day = 1; day <= daysInMonth; day++) {
+      const date = new Date(year, month, day);
+      if (isMatch(date)) matches.push(date);
+    }
+    const index = rule.bySetPos > 0 ? rule.bySetPos - 1 : matches.length + rule.bySetPos;
+    return matches[index] || null;
+  }
+
+  // The 31st of a 30-day month is its last day, instead of spilling into the next month
+  const monthDay = rule.byMonthDay && rule.byMonthDay > 0 ? Math.min(rule.byMonthDay, daysInMonth) : daysInMonth;
+  return new Date(year, month, monthDay);
+};
+
+// First date of the series on or after `from` (inclusive) or strictly after it, ignoring
+// the end of the series. `from` is expected to be an occurrence when not inclusive, since
+// the interval is counted from its day, week, month or year
+const findOccurrence = (rule: RecurrenceRule, from: Date, inclusive: boolean, holidays: Holiday[]): Date | null => {
+  const isCandidate = (date: Date | null): date is Date =>
+    !!date && (inclusive ? date.getTime() >= from.getTime() : date.getTime() > from.getTime());
+
+  switch (rule.frequency) {
+    case 'daily':
+      return inclusive ? from : addDays(from, rule.interval);
+
+    case 'weekly': {
+      const weekdays = rule.byWeekday || [from.getDay()];
+      const laterThisWeek = weekdays.find(weekday => (inclusive ? weekday >= from.getDay() : weekday > from.getDay()));
+      if (laterThisWeek !== undefined) return addDays(from, laterThisWeek - from.getDay());
+      return addDays(addWeeks(startOfWeek(from), rule.interval), weekdays[0]);
+    }
+
+    case 'monthly':
+    case 'yearly': {
+      const step = rule.frequency === 'monthly' ? addMonths : addYears;
+      for (let period = 0; period <= MAX_PERIODS; period++) {
+        // Months that don't have the day (e.g. a 5th Friday) are skipped, not the whole interval
+        const month = step(new Date(from.getFullYear(), from.getMonth(), 1), period * rule.interval);
+        const occurrence = getMonthOccurrence(rule, month.getFullYear(), month.getMonth(), holidays);
+        if (isCandidate(occurrence)) return occurrence;
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+};
+
+const isAfterUntil = (rule: RecurrenceRule, date: Date) => !!rule.until && formatRecurrenceDate(date) > rule.until;
+
+// Paid and skipped occurrences are done: they no longer count as due or committed
+export const isSettledOccurrence = (transaction: Pick<ScheduledTransaction, 'status'>): boolean =>
+  transaction.status === 'paid' || transaction.status === 'skipped';
+
+// First occurrence on or after the chosen start date: "5th business day" starting on the
+// 1st falls a few days later. `holidays` are the user's own, for business day rules
+export const getFirstOccurrence = (rule: RecurrenceRule, startDate: Date, holidays: Holiday[] = []): Date => {
+  const normalized = normalizeRecurrenceRule(rule, startDate);
+  return findOccurrence(normalized, startDate, true, holidays) || startDate;
+};
+
+// The occurrence after `current` (the `occurrenceNumber`-th of the series), or null when the
+// series is over: one-off, the count was reached or the next date is past the end date
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  current: Date,
+  occurrenceNumber = 1,
+  holidays: Holiday[] = []
+): Date | null => {
+  if (rule.frequency === 'once') return null;
+  if (rule.count && occurrenceNumber >= rule.count) return null;
+
+  const next = findOccurrence(normalizeRecurrenceRule(rule, current), current, false, holidays);
+  if (!next || isAfterUntil(rule, next)) return null;
+  return next;
+};
+
+// Human-readable rule for badges and details, e.g. "Every 2 weeks · Mon, Fri · 12 times"
+export const describeRecurrence = (
+  rule: RecurrenceRule,
+  t: (key: string) => string,
+  formatDate: (date: Date, formatString: string) => string
+): string => {
+  if (rule.frequency === 'once') return t('schedule.once');
+
+  const parts = [
+    rule.interval > 1
+      ? `${t('schedule.every')} ${rule.interval} ${t(`schedule.intervalUnit.${rule.frequency}`)}`
+      : t(`schedule.${rule.frequency}`)
+  ];
+
+  if (rule.frequency === 'weekly' && rule.byWeekday?.length) {
+    parts.push(rule.byWeekday.map(weekday => formatDate(getWeekdayDate(weekday), 'EEE')).join(', '));
+  } else if (rule.frequency === 'monthly' && rule.bySetPos) {
+    parts.push(rule.bySetPos === -1 ? t('schedule.lastBusinessDay') : `${t('schedule.businessDay')} ${rule.bySetPos}`);
+  } else if (rule.frequency === 'monthly' && rule.byMonthDay) {
+    parts.push(rule.byMonthDay === -1 ? t('schedule.lastDayOfMonth') : `${t('schedule.day')} ${rule.byMonthDay}`);
+  }
+
+  if (rule.count) {
+    parts.push(`${rule.count} ${t('schedule.times')}`);
+  } else if (rule.until) {
+    parts.push(`${t('schedule.until')} ${formatDate(createLocalDate(rule.until), 'dd/MM/yyyy')}`);
+  }
+
+  return parts.join(' · ');
+};
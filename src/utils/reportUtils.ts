@@ -1,5 +1,7 @@
 
 import { Transaction, ReportFormat } from '@/types';
+import { calculateTotalExpenses, calculateTotalIncome, expandTransactionSplits, formatCurrency, getBaseAmount } from '@/utils/transactionUtils';
+import { getBaseCurrency } from '@/services/exchangeRateService';
 import { toast } from '@/components/ui/use-toast';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
@@ -9,7 +11,8 @@ export const generateReportData = (
   reportType: string,
   startDate: Date | undefined,
   endDate: Date | undefined,
-  accountId?: string
+  accountId?: string,
+  tag?: string
 ): Transaction[] => {
   // Filter transactions by date range
   let filteredTransactions = transactions;
@@ -22,7 +25,15 @@ export const generateReportData = (
   }
   // Filter by account if provided
   if (accountId && accountId !== 'all') {
-    filteredTransactions = filteredTransactions.filter(t => t.accountId === accountId || t.account_id === accountId);
+    filteredTransactions = filteredTransactions.filter(t =>
+      t.accountId === accountId ||
+      t.account_id === accountId ||
+      (t.type === 'transfer' && t.destinationAccountId === accountId)
+    );
+  }
+  // Filter by tag if provided
+  if (tag && tag !== 'all') {
+    filteredTransactions = filteredTransactions.filter(t => t.tags?.includes(tag));
   }
   
   // Further filter by report type
@@ -37,16 +48,21 @@ export const generateReportData = (
 
 export const downloadCSV = (data: Transaction[]): void => {
   // Create CSV content
-  const headers = ['Data', 'Tipo', 'Categoria', 'Conta', 'Descrição', 'Valor'];
+  const headers = ['Data', 'Tipo', 'Categoria', 'Conta', 'Descrição', 'Tags', 'Valor', 'Moeda', 'Cotação', `Valor (${getBaseCurrency()})`];
   const csvContent = [
     headers.join(','),
-    ...data.map(item => [
+    // Transações divididas saem com uma linha por categoria
+    ...expandTransactionSplits(data).map(item => [
       new Date(item.date).toLocaleDateString(),
       item.type,
       item.category,
       `"${(item.accountName ?? item.accountId ?? item.account_id ?? 'Sem conta').toString().replace(/"/g, '""')}"`,
       `"${(item.description ?? '').replace(/"/g, '""')}"`, // Escape quotes
-      item.amount
+      `"${(item.tags ?? []).join(' ')}"`,
+      item.amount,
+      item.currency ?? '',
+      item.exchangeRate ?? 1,
+      getBaseAmount(item).toFixed(2)
     ].join(','))
   ].join('\n');
   
@@ -84,27 +100,29 @@ export const downloadPDF = (data: Transaction[], companyName?: string): void =>
     doc.setFontSize(12);
     doc.text(`Gerado em: ${new Date().toLocaleDateString('pt-BR')}`, 20, 35);
     
-    // Calculate totals
-    const totalIncome = data.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0);
-    const totalExpenses = data.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
+    // Calculate totals (in the base currency)
+    const baseCurrency = getBaseCurrency();
+    const totalIncome = calculateTotalIncome(data);
+    const totalExpenses = calculateTotalExpenses(data);
     const balance = totalIncome - totalExpenses;
     
     // Add summary
     doc.setFontSize(14);
     doc.text('Resumo:', 20, 50);
     doc.setFontSize(12);
-    doc.text(`Total de Receitas: R$ ${totalIncome.toFixed(2)}`, 20, 60);
-    doc.text(`Total de Despesas: R$ ${totalExpenses.toFixed(2)}`, 20, 70);
-    doc.text(`Saldo: R$ ${balance.toFixed(2)}`, 20, 80);
+    doc.text(`Total de Receitas: ${formatCurrency(totalIncome, baseCurrency)}`, 20, 60);
+    doc.text(`Total de Despesas: ${formatCurrency(totalExpenses, baseCurrency)}`, 20, 70);
+    doc.text(`Saldo: ${formatCurrency(balance, baseCurrency)}`, 20, 80);
     
     // Prepare table data
-    const tableData = data.map(transaction => [
+    // Transações divididas saem com uma linha por categoria
+    const tableData = expandTransactionSplits(data).map(transaction => [
       new Date(transaction.date).toLocaleDateString('pt-BR'),
-      transaction.type === 'income' ? 'Receita' : 'Despesa',
+      transaction.type === 'income' ? 'Receita' : transaction.type === 'transfer' ? 'Transferência' : 'Despesa',
       transaction.category,
       (transaction.accountName ?? transaction.accountId ?? transaction.account_id ?? 'Sem conta'),
       transaction.description ?? '',
-      `R$ ${transaction.amount.toFixed(2)}`
+      formatCurrency(transaction.amount, transaction.currency)
     ]);
     
     // Create table
@@ -133,6 +151,40 @@ export const downloadPDF = (data: Transaction[], companyName?: string): void =>
         5: { cellWidth: 30, halign: 'right' }, // Valor
       },
     });
+
+    // Links para os comprovantes anexados
+    const withAttachments = data.filter(transaction => transaction.attachments?.length);
+    if (withAttachments.length > 0) {
+      const pageHeight = doc.internal.pageSize.getHeight();
+      let y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 15;
+      const ensureSpace = () => {
+        if (y > pageHeight - 20) {
+          doc.addPage();
+          y = 20;
+        }
+      };
+
+      ensureSpace();
+      doc.setFontSize(14);
+      doc.text('Comprovantes:', 20, y);
+      y += 8;
+      doc.setFontSize(10);
+
+      withAttachments.forEach(transaction => {
+        ensureSpace();
+        doc.setTextColor(0, 0, 0);
+        doc.text(`${new Date(transaction.date).toLocaleDateString('pt-BR')} - ${transaction.description || transaction.category}`, 20, y);
+        y += 6;
+
+        transaction.attachments!.forEach(attachment => {
+          ensureSpace();
+          doc.setTextColor(66, 139, 202);
+          doc.textWithLink(attachment.fileName, 25, y, { url: attachment.url });
+          y += 6;
+        });
+      });
+      doc.setTextColor(0, 0, 0);
+    }
     
     // Save the PDF
     const fileName = companyName 
@@ -1,4 +1,5 @@
-import { Transaction, TimeRange } from '../types';
+import { Currency, Transaction, TimeRange } from '../types';
+import { Account, AccountBalances } from '../types/accounts';
 
 // Get today's date at midnight
 const getTodayStart = () => {
@@ -100,40 +101,89 @@ export const filterTransactionsByTimeRange = (
   }
 };
 
-// Calculate total income
+// Amount in the base currency, converted with the rate recorded on the transaction
+export const getBaseAmount = (transaction: Transaction): number =>
+  transaction.amount * (transaction.exchangeRate ?? 1);
+
+// Calculate total income (in the base currency)
 export const calculateTotalIncome = (transactions: Transaction[]): number => {
   return transactions
     .filter((t) => t.type === 'income')
-    .reduce((sum, t) => sum + t.amount, 0);
+    .reduce((sum, t) => sum + getBaseAmount(t), 0);
 };
 
-// Calculate total expenses
+// Calculate total expenses (in the base currency)
 export const calculateTotalExpenses = (transactions: Transaction[]): number => {
   return transactions
     .filter((t) => t.type === 'expense')
-    .reduce((sum, t) => sum + t.amount, 0);
+    .reduce((sum, t) => sum + getBaseAmount(t), 0);
+};
+
+// Calculate balance (income - expenses). Transfers only move money between accounts,
+// so they are counted only when looking at a single account. A single account balance
+// stays in the account currency; otherwise amounts are converted to the base currency
+export const calculateBalance = (transactions: Transaction[], accountId?: string): number => {
+  return transactions.reduce((balance, t) => {
+    const amount = accountId ? t.amount : getBaseAmount(t);
+    if (t.type === 'income') return balance + amount;
+    if (t.type === 'expense') return balance - amount;
+    if (t.type === 'transfer' && accountId) {
+      if (t.destinationAccountId === accountId) return balance + t.amount;
+      if (t.accountId === accountId) return balance - t.amount;
+    }
+    return balance;
+  }, 0);
+};
+
+// Converts an amount in some currency to the base currency (see useExchangeRates)
+export type BaseCurrencyConverter = (amount: number, currency: string, date?: string) => number;
+
+// Combined balance of several accounts from the balances calculated in the database
+// (useAccountBalances), plus the transactions without a known account when `withUnassigned`.
+// Balances of accounts in another currency are converted with `toBaseCurrency` when given
+export const sumAccountBalances = (
+  accounts: Account[],
+  balances: AccountBalances,
+  options: { asOf?: string; toBaseCurrency?: BaseCurrencyConverter; withUnassigned?: boolean } = {}
+): number => {
+  const { asOf, toBaseCurrency, withUnassigned = true } = options;
+
+  return accounts.reduce((sum, account) => {
+    const balance = balances.byAccount[account.id] || 0;
+    return sum + (toBaseCurrency && account.currency ? toBaseCurrency(balance, account.currency, asOf) : balance);
+  }, withUnassigned ? balances.unassigned : 0);
+};
+
+// Day the dashboard balance of a month is taken: the end of past months, today for the
+// current and future months (future transactions are not counted)
+export const getMonthBalanceDate = (selectedMonth: Date, now = new Date()): Date => {
+  const selectedMonthEnd = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth() + 1, 0);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return selectedMonthEnd < today ? selectedMonthEnd : today;
 };
 
 // NEW: Calculate month-specific financial data
 export const calculateMonthlyFinancialData = (
-  allTransactions: Transaction[],
-  selectedMonth: Date
+  transactions: Transaction[],
+  selectedMonth: Date,
+  options: {
+    accountId?: string;
+    accounts?: Account[];
+    // Balances at getMonthBalanceDate(selectedMonth)
+    balances?: AccountBalances;
+    toBaseCurrency?: BaseCurrencyConverter;
+  } = {}
 ) => {
-  const now = new Date();
-  const currentMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+  const { accountId, balances, toBaseCurrency } = options;
+  const accounts = options.accounts && accountId
+    ? options.accounts.filter(a => a.id === accountId)
+    : options.accounts || [];
+
   const selectedMonthStart = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth(), 1);
   const selectedMonthEnd = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth() + 1, 0, 23, 59, 59);
-  
-  console.log('calculateMonthlyFinancialData:', {
-    selectedMonth: selectedMonth.toDateString(),
-    currentMonth: currentMonth.toDateString(),
-    selectedMonthStart: selectedMonthStart.toDateString(),
-    selectedMonthEnd: selectedMonthEnd.toDateString(),
-    totalTransactions: allTransactions.length
-  });
-  
+
   // Filter transactions for the selected month only
-  const monthTransactions = allTransactions.filter(transaction => {
+  const monthTransactions = transactions.filter(transaction => {
     const transactionDate = createLocalDate(transaction.date as any);
     return transactionDate >= selectedMonthStart && transactionDate <= selectedMonthEnd;
   });
@@ -141,54 +191,23 @@ export const calculateMonthlyFinancialData = (
   // Calculate income and expenses for the selected month
   const monthlyIncome = calculateTotalIncome(monthTransactions);
   const monthlyExpenses = calculateTotalExpenses(monthTransactions);
-  
-  let accumulatedBalance = 0;
-  
-  // Calculate accumulated balance based on month type
-  if (selectedMonthStart < currentMonth) {
-    // PREVIOUS MONTHS: Show balance of that specific month only
-    // This represents the balance that was available at the end of that month
-    const transactionsUpToSelectedMonth = allTransactions.filter(transaction => {
-      const transactionDate = createLocalDate(transaction.date as any);
-      return transactionDate <= selectedMonthEnd;
-    });
-    accumulatedBalance = calculateTotalIncome(transactionsUpToSelectedMonth) - calculateTotalExpenses(transactionsUpToSelectedMonth);
-    console.log('Previous month calculation:', { transactionsCount: transactionsUpToSelectedMonth.length, balance: accumulatedBalance });
-    
-  } else if (selectedMonthStart.getTime() === currentMonth.getTime()) {
-    // CURRENT MONTH: Balance = all transactions up to current month (accumulated balance)
-    const currentDateEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59);
-    const transactionsUpToCurrent = allTransactions.filter(transaction => {
-      const transactionDate = createLocalDate(transaction.date as any);
-      return transactionDate <= currentDateEnd;
-    });
-    accumulatedBalance = calculateTotalIncome(transactionsUpToCurrent) - calculateTotalExpenses(transactionsUpToCurrent);
-    console.log('Current month calculation:', { transactionsCount: transactionsUpToCurrent.length, balance: accumulatedBalance });
-    
-  } else {
-    // FUTURE MONTHS: Show current accumulated balance (will be transported to future)
-    // No future transactions should be counted
-    const currentDateEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59);
-    const transactionsUpToCurrent = allTransactions.filter(transaction => {
-      const transactionDate = createLocalDate(transaction.date as any);
-      return transactionDate <= currentDateEnd;
-    });
-    accumulatedBalance = calculateTotalIncome(transactionsUpToCurrent) - calculateTotalExpenses(transactionsUpToCurrent);
-    console.log('Future month calculation:', { transactionsCount: transactionsUpToCurrent.length, balance: accumulatedBalance });
-    
-    // For future months, income and expenses should be only what's already registered for that future month
-    // (the monthlyIncome and monthlyExpenses calculated above are correct)
-  }
-  
-  const result = {
+
+  // Accumulated balance at the end of past months, or today for the current and future months.
+  // Each account starts from its last checkpoint (or opening balance), see get_account_balances
+  const accumulatedBalance = balances
+    ? sumAccountBalances(accounts, balances, {
+        asOf: formatDateForInput(getMonthBalanceDate(selectedMonth).toISOString()),
+        toBaseCurrency,
+        withUnassigned: !accountId
+      })
+    : 0;
+
+  return {
     monthlyIncome,
     monthlyExpenses,
     accumulatedBalance,
     monthTransactions
   };
-  
-  console.log('Final monthly calculation result:', result);
-  return result;
 };
 
 // NEW: Get transactions for specific month range
@@ -219,11 +238,14 @@ export const getGoalsForMonth = (goals: any[], selectedMonth: Date) => {
   });
 };
 
+export const CURRENCIES: Currency[] = ['BRL', 'USD', 'EUR'];
+
 // Format currency based on the selected currency type
 export const formatCurrency = (amount: number, currency = 'BRL'): string => {
   const currencyOptions: { [key: string]: { locale: string, currency: string } } = {
     USD: { locale: 'pt-BR', currency: 'USD' },
-    BRL: { locale: 'pt-BR', currency: 'BRL' }
+    BRL: { locale: 'pt-BR', currency: 'BRL' },
+    EUR: { locale: 'pt-BR', currency: 'EUR' }
   };
 
   const options = currencyOptions[currency] || currencyOptions.BRL;
@@ -235,6 +257,12 @@ export const formatCurrency = (amount: number, currency = 'BRL'): string => {
   }).format(amount);
 };
 
+// Converted amount shown next to transactions recorded in another currency (e.g. "≈ R$ 512,30")
+export const formatBaseAmount = (transaction: Transaction): string | null => {
+  if (!transaction.currency || !transaction.baseCurrency || transaction.currency === transaction.baseCurrency) return null;
+  return `≈ ${formatCurrency(getBaseAmount(transaction), transaction.baseCurrency)}`;
+};
+
 // Format date to readable string - fixed to pt-BR with timezone handling
 export const formatDate = (dateString: string): string => {
   // Parse the date string manually to avoid timezone issues
@@ -283,20 +311,44 @@ export const formatDateForInput = (dateString: string): string => {
   return `${year}-${month}-${day}`;
 };
 
+// Expand split transactions into one entry per category line, so category totals
+// and exports see each line with its own category and amount
+export const expandTransactionSplits = (transactions: Transaction[]): Transaction[] => {
+  return transactions.flatMap((t) => {
+    if (!t.splits || t.splits.length === 0) return [t];
+
+    return t.splits.map((split) => ({
+      ...t,
+      category: split.category || t.category,
+      categoryIcon: split.categoryIcon || t.categoryIcon,
+      categoryColor: split.categoryColor || t.categoryColor,
+      category_id: split.categoryId,
+      amount: split.amount,
+      splits: undefined
+    }));
+  });
+};
+
+// Category label for display: split transactions list all their categories
+export const getCategoryLabel = (transaction: Transaction): string => {
+  if (!transaction.splits || transaction.splits.length === 0) return transaction.category;
+  return transaction.splits.map((split) => split.category || transaction.category).join(' / ');
+};
+
 // Function to calculate category summaries
 export const calculateCategorySummaries = (
   transactions: Transaction[],
   type: 'income' | 'expense'
 ) => {
-  const filteredTransactions = transactions.filter((t) => t.type === type);
-  const totalAmount = filteredTransactions.reduce((sum, t) => sum + t.amount, 0);
+  const filteredTransactions = expandTransactionSplits(transactions).filter((t) => t.type === type);
+  const totalAmount = filteredTransactions.reduce((sum, t) => sum + getBaseAmount(t), 0);
   
   // Group by category
   const categories = filteredTransactions.reduce((acc, t) => {
     if (!acc[t.category]) {
       acc[t.category] = 0;
     }
-    acc[t.category] += t.amount;
+    acc[t.category] += getBaseAmount(t);
     return acc;
   }, {} as Record<string, number>);
   
@@ -314,3 +366,25 @@ export const calculateCategorySummaries = (
     color: colors[index % colors.length],
   }));
 };
+
+// Totals per tag. A transaction with several tags counts in each of them,
+// so these totals don't add up to the overall income/expenses.
+export const calculateTagSummaries = (transactions: Transaction[]) => {
+  const tags = transactions.reduce((acc, t) => {
+    if (t.type === 'transfer') return acc;
+
+    (t.tags || []).forEach((tag) => {
+      if (!acc[tag]) {
+        acc[tag] = { tag, income: 0, expenses: 0 };
+      }
+      if (t.type === 'income') {
+        acc[tag].income += getBaseAmount(t);
+      } else {
+        acc[tag].expenses += getBaseAmount(t);
+      }
+    });
+    return acc;
+  }, {} as Record<string, { tag: string; income: number; expenses: number }>);
+
+  return Object.values(tags).sort((a, b) => (b.income + b.expenses) - (a.income + a.expenses));
+};
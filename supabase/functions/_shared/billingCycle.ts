@@ -0,0 +1,59 @@
+// Bill a credit card purchase goes to, computed with the same rules as the app
+// (src/utils/billingCycleUtils.ts) — keep both in sync. Dates are calendar days (YYYY-MM-DD)
+// handled in UTC, so the server timezone doesn't shift them.
+
+export interface BillingCycleCard {
+  closing_day: number
+  due_day: number
+}
+
+export interface BillingCycle {
+  referenceMonth: number
+  referenceYear: number
+  openingDate: string
+  closingDate: string
+  dueDate: string
+}
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10)
+
+const getDaysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+
+// The day of the month (0-11, may overflow into other years), or the last day of months that
+// don't have it
+const dayOfMonth = (year: number, month: number, day: number): Date => {
+  const monthStart = new Date(Date.UTC(year, month, 1))
+  const lastDay = getDaysInMonth(monthStart.getUTCFullYear(), monthStart.getUTCMonth())
+  return new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth(), Math.min(day, lastDay)))
+}
+
+// The bill of the reference month (1-12)
+export const getBillingCycleForReference = (
+  card: BillingCycleCard,
+  referenceYear: number,
+  referenceMonth: number
+): BillingCycle => {
+  const month = referenceMonth - 1
+  const closingDate = dayOfMonth(referenceYear, month, card.closing_day)
+  const openingDate = dayOfMonth(referenceYear, month - 1, card.closing_day)
+  openingDate.setUTCDate(openingDate.getUTCDate() + 1)
+  const dueDate = dayOfMonth(referenceYear, card.due_day > card.closing_day ? month : month + 1, card.due_day)
+
+  return {
+    referenceMonth,
+    referenceYear,
+    openingDate: toDay(openingDate),
+    closingDate: toDay(closingDate),
+    dueDate: toDay(dueDate)
+  }
+}
+
+// The bill a purchase made on the day (YYYY-MM-DD) goes to. Purchases made on the closing day
+// itself are still on the bill that closes
+export const getBillingCycle = (card: BillingCycleCard, purchaseDay: string): BillingCycle => {
+  const [year, month] = purchaseDay.slice(0, 10).split('-').map(Number)
+  const closingDate = toDay(dayOfMonth(year, month - 1, card.closing_day))
+  const reference = new Date(Date.UTC(year, purchaseDay.slice(0, 10) > closingDate ? month : month - 1, 1))
+
+  return getBillingCycleForReference(card, reference.getUTCFullYear(), reference.getUTCMonth() + 1)
+}
@@ -0,0 +1,87 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.0'
+
+// Auto-categorization rules (poupeja_category_rules), evaluated the same way as in the
+// app (src/services/categoryRuleService.ts) — keep both in sync.
+
+export interface CategoryRuleRow {
+  id: string
+  priority: number
+  is_active: boolean
+  transaction_type: string
+  match_type: string
+  pattern: string
+  min_amount: number | null
+  max_amount: number | null
+  account_id: string | null
+  credit_card_id: string | null
+  category_id: string | null
+  tags: string[] | null
+  goal_id: string | null
+}
+
+export interface RuleSubject {
+  type: string
+  description?: string | null
+  amount: number
+  accountId?: string | null
+  creditCardId?: string | null
+}
+
+const normalizeText = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim()
+
+const matchesRule = (rule: CategoryRuleRow, subject: RuleSubject): boolean => {
+  if (!rule.is_active || rule.transaction_type !== subject.type) return false
+
+  const amount = Math.abs(subject.amount)
+  if (rule.min_amount !== null && amount < rule.min_amount) return false
+  if (rule.max_amount !== null && amount > rule.max_amount) return false
+  if (rule.account_id && rule.account_id !== subject.accountId) return false
+  if (rule.credit_card_id && rule.credit_card_id !== subject.creditCardId) return false
+
+  if (!rule.pattern) return true
+  const description = subject.description || ''
+
+  if (rule.match_type === 'regex') {
+    // An invalid expression never matches instead of failing the request
+    try {
+      return new RegExp(rule.pattern, 'i').test(description)
+    } catch {
+      return false
+    }
+  }
+
+  return normalizeText(description).includes(normalizeText(rule.pattern))
+}
+
+// First active rule of the user that matches, by priority (lowest first).
+// Errors are logged and treated as "no rule" so the transaction is still created.
+export const findMatchingRule = async (supabase: SupabaseClient, userId: string, subject: RuleSubject): Promise<CategoryRuleRow | null> => {
+  const { data: rules, error } = await supabase
+    .from('poupeja_category_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('priority')
+    .order('created_at')
+
+  if (error) {
+    console.error('Error loading category rules:', error)
+    return null
+  }
+
+  return (rules as CategoryRuleRow[]).find((rule) => matchesRule(rule, subject)) || null
+}
+
+// "Outros" (or no category at all) is what a rule is allowed to replace
+export const isUncategorized = async (supabase: SupabaseClient, categoryId?: string | null): Promise<boolean> => {
+  if (!categoryId) return true
+
+  const { data } = await supabase
+    .from('poupeja_categories')
+    .select('name')
+    .eq('id', categoryId)
+    .maybeSingle()
+
+  return !data || data.name === 'Outros'
+}
@@ -0,0 +1,84 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.0'
+
+// Currency of a transaction and its rate to the base currency, resolved the same way as in
+// the app (src/services/exchangeRateService.ts and transactionService) — keep both in sync.
+
+export interface ExchangeRateRow {
+  user_id: string | null
+  from_currency: string
+  to_currency: string
+  rate: number
+  rate_date: string
+}
+
+export interface CurrencyFields {
+  currency: string
+  exchange_rate: number
+  base_currency: string
+}
+
+// Latest rate on or before the date (the oldest one when every rate is newer), read directly
+// or inverted. The user's own rates win over the global ones of the same day
+const findExchangeRate = (rates: ExchangeRateRow[], from: string, to: string, date: string): number | null => {
+  if (from === to) return 1
+
+  const dateKey = date.slice(0, 10)
+  const candidates = rates
+    .filter((rate) =>
+      (rate.from_currency === from && rate.to_currency === to) ||
+      (rate.from_currency === to && rate.to_currency === from)
+    )
+    .sort((a, b) => b.rate_date.localeCompare(a.rate_date) || Number(a.user_id === null) - Number(b.user_id === null))
+
+  const match = candidates.find((rate) => rate.rate_date <= dateKey) || candidates[candidates.length - 1]
+  if (!match) return null
+  return match.from_currency === from ? Number(match.rate) : 1 / Number(match.rate)
+}
+
+// The base currency is a preference kept in the browser; here it is the one recorded on the
+// user's latest transaction (BRL when there is none)
+const getBaseCurrency = async (supabase: SupabaseClient, userId: string): Promise<string> => {
+  const { data } = await supabase
+    .from('poupeja_transactions')
+    .select('base_currency')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return data?.base_currency || 'BRL'
+}
+
+// The transaction is recorded in its account currency (the base currency without an account).
+// A rate sent in the request wins over the stored ones; null means there is no rate to use
+export const resolveCurrency = async (
+  supabase: SupabaseClient,
+  userId: string,
+  accountCurrency: string | null | undefined,
+  date: string,
+  requestedRate?: number
+): Promise<CurrencyFields | null> => {
+  const baseCurrency = await getBaseCurrency(supabase, userId)
+  const currency = accountCurrency || baseCurrency
+
+  if (currency === baseCurrency) {
+    return { currency, exchange_rate: 1, base_currency: baseCurrency }
+  }
+  if (requestedRate && requestedRate > 0) {
+    return { currency, exchange_rate: requestedRate, base_currency: baseCurrency }
+  }
+
+  // Service role: RLS doesn't apply, so only the user's own and the global rates are read
+  const { data: rates, error } = await supabase
+    .from('poupeja_exchange_rates')
+    .select('user_id, from_currency, to_currency, rate, rate_date')
+    .or(`user_id.eq.${userId},user_id.is.null`)
+
+  if (error) {
+    console.error('Error loading exchange rates:', error)
+    return null
+  }
+
+  const exchangeRate = findExchangeRate(rates as ExchangeRateRow[], currency, baseCurrency, date)
+  return exchangeRate === null ? null : { currency, exchange_rate: exchangeRate, base_currency: baseCurrency }
+}
@@ -0,0 +1,90 @@
+// Minimal iCalendar (RFC 5545) writer for all-day events. Calendar apps match events by UID:
+// an event keeps its UID across feed refreshes, so edits move it, CANCELLED hides it and an
+// event missing from the feed is removed.
+
+export interface CalendarFeedEvent {
+  uid: string
+  day: string // YYYY-MM-DD
+  summary: string
+  description?: string
+  cancelled?: boolean
+  // Bumped whenever the source row changes, so clients replace their copy
+  lastModified?: string | null
+}
+
+const CRLF = '\r\n'
+const MAX_LINE_OCTETS = 75
+
+const escapeText = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n')
+
+// Long lines are folded at 75 octets (not characters) with CRLF + space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line
+
+  const parts: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts.join(`${CRLF} `)
+}
+
+const toDateValue = (day: string) => day.slice(0, 10).replace(/-/g, '')
+
+const toDateTimeValue = (value: string | Date) =>
+  new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+const nextDay = (day: string) => {
+  const [year, month, date] = day.slice(0, 10).split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, date + 1)).toISOString().slice(0, 10)
+}
+
+// SEQUENCE must grow when an event changes: seconds since the epoch of the last change
+const toSequence = (lastModified?: string | null) =>
+  lastModified ? Math.floor(new Date(lastModified).getTime() / 1000) : 0
+
+export const buildCalendar = (name: string, events: CalendarFeedEvent[], now: Date = new Date()): string => {
+  const stamp = toDateTimeValue(now)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Poupeja//Agenda financeira//PT',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Hint for subscribed calendars: refresh every few hours
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+  ]
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toDateValue(event.day)}`,
+      `DTEND;VALUE=DATE:${toDateValue(nextDay(event.day))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `SEQUENCE:${toSequence(event.lastModified)}`,
+      `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+      'TRANSP:TRANSPARENT'
+    )
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${toDateTimeValue(event.lastModified)}`)
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join(CRLF) + CRLF
+}
@@ -0,0 +1,162 @@
+// Next occurrence of a recurring scheduled transaction, computed with the same rules as the
+// app (src/utils/recurrenceUtils.ts) — keep both in sync. Dates are calendar days (YYYY-MM-DD)
+// handled in UTC, so the server timezone doesn't shift them.
+
+export interface RecurrenceRule {
+  frequency: string
+  interval: number
+  byWeekday?: number[] // 0 = Sunday ... 6 = Saturday
+  byMonthDay?: number // 1-31, or -1 for the last day
+  bySetPos?: number // Nth of the byWeekday days in the month (-1 = last)
+  until?: string
+  count?: number
+}
+
+export interface RecurrenceRow {
+  recurrence: string | null
+  recurrence_interval: number | null
+  recurrence_by_weekday: number[] | null
+  recurrence_by_month_day: number | null
+  recurrence_by_set_pos: number | null
+  recurrence_until: string | null
+  recurrence_count: number | null
+}
+
+// Whether the day (YYYY-MM-DD) is a business day for the user: not a weekend, national or
+// Easter holiday nor one of their own holidays (is_business_day in the database)
+export type BusinessDayCheck = (day: string) => Promise<boolean>
+
+// Monday to Friday: with bySetPos they give the Nth (or last) business day of the month
+const BUSINESS_WEEKDAYS = [1, 2, 3, 4, 5]
+
+// Rules like "5th Friday" skip the months that don't have one, but never loop forever
+const MAX_PERIODS = 120
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const mapRecurrenceRule = (row: RecurrenceRow): RecurrenceRule => ({
+  frequency: row.recurrence || 'once',
+  interval: row.recurrence_interval || 1,
+  byWeekday: row.recurrence_by_weekday?.length ? row.recurrence_by_weekday : undefined,
+  byMonthDay: row.recurrence_by_month_day || undefined,
+  bySetPos: row.recurrence_by_set_pos || undefined,
+  until: row.recurrence_until || undefined,
+  count: row.recurrence_count || undefined
+})
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10)
+
+const toDate = (day: string): Date => {
+  const [year, month, date] = day.slice(0, 10).split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, date))
+}
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS)
+
+const getDaysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+
+// Weekly rules repeat on the current weekday and monthly/yearly rules on the current day of
+// the month when the rule doesn't say
+const normalizeRecurrenceRule = (rule: RecurrenceRule, current: Date): RecurrenceRule => {
+  const normalized: RecurrenceRule = {
+    frequency: rule.frequency,
+    interval: Math.max(1, Math.floor(rule.interval || 1)),
+    until: rule.until,
+    count: rule.count
+  }
+
+  if (rule.frequency === 'weekly') {
+    normalized.byWeekday = rule.byWeekday?.length
+      ? [...new Set(rule.byWeekday)].sort((a, b) => a - b)
+      : [current.getUTCDay()]
+  }
+
+  if (rule.frequency === 'monthly' && rule.bySetPos && rule.byWeekday?.length) {
+    normalized.byWeekday = [...new Set(rule.byWeekday)].sort((a, b) => a - b)
+    normalized.bySetPos = rule.bySetPos
+  } else if (rule.frequency === 'monthly' || rule.frequency === 'yearly') {
+    normalized.byMonthDay = rule.byMonthDay || current.getUTCDate()
+  }
+
+  return normalized
+}
+
+// "Nth business day" rules skip holidays too, like the due date adjustment
+const isBusinessDayRule = (rule: RecurrenceRule): boolean =>
+  !!rule.bySetPos &&
+  rule.byWeekday?.length === BUSINESS_WEEKDAYS.length &&
+  BUSINESS_WEEKDAYS.every((weekday) => rule.byWeekday?.includes(weekday))
+
+const getMonthOccurrence = async (
+  rule: RecurrenceRule,
+  year: number,
+  month: number,
+  isBusinessDay: BusinessDayCheck
+): Promise<Date | null> => {
+  const daysInMonth = getDaysInMonth(year, month)
+
+  if (rule.bySetPos && rule.byWeekday?.length) {
+    const checkHolidays = isBusinessDayRule(rule)
+    const matches: Date[] = []
+    for (let day = 1; day <= daysInMonth; day++) {
+      const date = new Date(Date.UTC(year, month, day))
+      if (!rule.byWeekday.includes(date.getUTCDay())) continue
+      if (checkHolidays && !(await isBusinessDay(toDay(date)))) continue
+      matches.push(date)
+    }
+    const index = rule.bySetPos > 0 ? rule.bySetPos - 1 : matches.length + rule.bySetPos
+    return matches[index] || null
+  }
+
+  // The 31st of a 30-day month is its last day
+  const monthDay = rule.byMonthDay && rule.byMonthDay > 0 ? Math.min(rule.byMonthDay, daysInMonth) : daysInMonth
+  return new Date(Date.UTC(year, month, monthDay))
+}
+
+const findNextDate = async (rule: RecurrenceRule, current: Date, isBusinessDay: BusinessDayCheck): Promise<Date | null> => {
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(current, rule.interval)
+
+    case 'weekly': {
+      const weekdays = rule.byWeekday || [current.getUTCDay()]
+      const laterThisWeek = weekdays.find((weekday) => weekday > current.getUTCDay())
+      if (laterThisWeek !== undefined) return addDays(current, laterThisWeek - current.getUTCDay())
+      const weekStart = addDays(current, -current.getUTCDay())
+      return addDays(weekStart, rule.interval * 7 + weekdays[0])
+    }
+
+    case 'monthly':
+    case 'yearly': {
+      const monthsPerPeriod = rule.frequency === 'monthly' ? rule.interval : rule.interval * 12
+      const firstMonth = current.getUTCFullYear() * 12 + current.getUTCMonth()
+      for (let period = 0; period <= MAX_PERIODS; period++) {
+        const month = firstMonth + period * monthsPerPeriod
+        const occurrence = await getMonthOccurrence(rule, Math.floor(month / 12), month % 12, isBusinessDay)
+        if (occurrence && occurrence.getTime() > current.getTime()) return occurrence
+      }
+      return null
+    }
+
+    default:
+      return null
+  }
+}
+
+// The occurrence after `currentDay` (the `occurrenceNumber`-th of the series), or null when
+// the series is over: one-off, the count was reached or the next date is past the end date
+export const getNextOccurrence = async (
+  rule: RecurrenceRule,
+  currentDay: string,
+  occurrenceNumber: number,
+  isBusinessDay: BusinessDayCheck
+): Promise<string | null> => {
+  if (rule.frequency === 'once') return null
+  if (rule.count && occurrenceNumber >= rule.count) return null
+
+  const current = toDate(currentDay)
+  const next = await findNextDate(normalizeRecurrenceRule(rule, current), current, isBusinessDay)
+  if (!next) return null
+
+  const nextDay = toDay(next)
+  return rule.until && nextDay > rule.until ? null : nextDay
+}
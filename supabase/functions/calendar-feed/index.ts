@@ -0,0 +1,192 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.0'
+import { buildCalendar, CalendarFeedEvent } from '../_shared/icalendar.ts'
+
+// iCalendar (.ics) feed of a user's scheduled transactions, credit card bill due dates and
+// goal deadlines. Two ways in:
+//  - GET ?token=<feed token>: what Google/Apple Calendar subscribe to. Calendar apps can't
+//    log in, so the token (poupeja_calendar_feeds, revocable from the profile page) is the
+//    credential and the JWT check is off for this function (see config.toml)
+//  - GET with the user's Authorization header: the one-off download from the app
+// UIDs come from the row ids, so edits, skips (CANCELLED) and deletions reach the
+// subscribed calendars on their next refresh.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+}
+
+const UID_DOMAIN = 'poupeja.app';
+// Past events older than this are left out of the feed
+const HISTORY_DAYS = 365;
+
+// Columns selected below
+interface ScheduledEventRow {
+  id: string;
+  type: string;
+  amount: number;
+  description: string | null;
+  scheduled_date: string;
+  status: string | null;
+  paid_date: string | null;
+  updated_at: string | null;
+  category: { name: string } | null;
+}
+
+interface BillEventRow {
+  id: string;
+  due_date: string;
+  status: string | null;
+  total_amount: number;
+  remaining_amount: number;
+  updated_at: string | null;
+  card: { name: string; user_id: string };
+}
+
+interface GoalEventRow {
+  id: string;
+  name: string;
+  target_amount: number;
+  current_amount: number | null;
+  deadline: string | null;
+  end_date: string | null;
+  updated_at: string | null;
+}
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+);
+
+const formatAmount = (amount: number) =>
+  Number(amount || 0).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const resolveUserId = async (supabase: SupabaseClient, req: Request): Promise<string | null> => {
+  const token = new URL(req.url).searchParams.get('token');
+  if (token) {
+    const { data: feed } = await supabase
+      .from('poupeja_calendar_feeds')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('token', token)
+      .select('user_id')
+      .maybeSingle();
+    return feed?.user_id || null;
+  }
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return null;
+  const { data: userData, error } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+  return error ? null : userData.user?.id || null;
+};
+
+const getScheduledEvents = async (supabase: SupabaseClient, userId: string, since: string): Promise<CalendarFeedEvent[]> => {
+  const { data, error } = await supabase
+    .from('poupeja_scheduled_transactions')
+    .select('id, type, amount, description, scheduled_date, status, paid_date, updated_at, category:poupeja_categories(name)')
+    .eq('user_id', userId)
+    .gte('scheduled_date', `${since}T00:00:00.000Z`)
+    .order('scheduled_date');
+
+  if (error) throw error;
+
+  return ((data || []) as ScheduledEventRow[]).map((row) => {
+    const title = row.description || row.category?.name || (row.type === 'income' ? 'Receita' : 'Despesa');
+    const isPaid = row.status === 'paid';
+    return {
+      uid: `scheduled-${row.id}@${UID_DOMAIN}`,
+      day: row.scheduled_date.slice(0, 10),
+      summary: `${isPaid ? '[Pago] ' : ''}${title} (${row.type === 'income' ? '+' : '-'}${formatAmount(row.amount)})`,
+      description: [
+        row.type === 'income' ? 'Receita agendada' : 'Despesa agendada',
+        row.category?.name ? `Categoria: ${row.category.name}` : null,
+        isPaid && row.paid_date ? `Pago em ${row.paid_date.slice(0, 10).split('-').reverse().join('/')}` : null,
+      ].filter(Boolean).join('\n'),
+      // A skipped occurrence is gone from the calendar, not just marked
+      cancelled: row.status === 'skipped',
+      lastModified: row.updated_at,
+    };
+  });
+};
+
+const getBillEvents = async (supabase: SupabaseClient, userId: string, since: string): Promise<CalendarFeedEvent[]> => {
+  const { data, error } = await supabase
+    .from('credit_card_bills')
+    .select('id, due_date, status, total_amount, remaining_amount, updated_at, card:credit_cards!inner(name, user_id)')
+    .eq('card.user_id', userId)
+    .gte('due_date', since)
+    .order('due_date');
+
+  if (error) throw error;
+
+  return ((data || []) as BillEventRow[]).map((bill) => {
+    const isPaid = bill.status === 'paid';
+    return {
+      uid: `bill-${bill.id}@${UID_DOMAIN}`,
+      day: bill.due_date,
+      summary: `${isPaid ? '[Paga] ' : ''}Fatura ${bill.card.name} (${formatAmount(isPaid ? bill.total_amount : bill.remaining_amount)})`,
+      description: `Vencimento da fatura do cartão ${bill.card.name}\nTotal: ${formatAmount(bill.total_amount)}`,
+      lastModified: bill.updated_at,
+    };
+  });
+};
+
+const getGoalEvents = async (supabase: SupabaseClient, userId: string): Promise<CalendarFeedEvent[]> => {
+  const { data, error } = await supabase
+    .from('poupeja_goals')
+    .select('id, name, target_amount, current_amount, deadline, end_date, updated_at')
+    .eq('user_id', userId)
+    .or('deadline.not.is.null,end_date.not.is.null');
+
+  if (error) throw error;
+
+  return ((data || []) as GoalEventRow[]).map((goal) => ({
+    uid: `goal-${goal.id}@${UID_DOMAIN}`,
+    // Only goals with a deadline or an end date are selected
+    day: (goal.deadline || goal.end_date || '').slice(0, 10),
+    summary: `Prazo da meta: ${goal.name}`,
+    description: `Guardado: ${formatAmount(goal.current_amount || 0)} de ${formatAmount(goal.target_amount)}`,
+    lastModified: goal.updated_at,
+  }));
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const userId = await resolveUserId(supabase, req);
+    if (!userId) {
+      return jsonResponse({ error: 'Invalid or revoked calendar token' }, 401);
+    }
+
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const [scheduled, bills, goals] = await Promise.all([
+      getScheduledEvents(supabase, userId, since),
+      getBillEvents(supabase, userId, since),
+      getGoalEvents(supabase, userId),
+    ]);
+
+    const calendar = buildCalendar('Poupeja - Agenda financeira', [...scheduled, ...bills, ...goals]);
+    return new Response(calendar, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="poupeja.ics"',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return jsonResponse({ error: (error instanceof Error && error.message) || 'Internal server error' }, 500);
+  }
+});
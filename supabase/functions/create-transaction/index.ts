@@ -1,4 +1,7 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.0'
+import { getBillingCycle } from '../_shared/billingCycle.ts'
+import { findMatchingRule, isUncategorized } from '../_shared/categoryRules.ts'
+import { resolveCurrency } from '../_shared/exchangeRates.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,7 +10,7 @@ const corsHeaders = {
 }
 
 interface TransactionRequest {
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'transfer';
   amount: number;
   category_id?: string;
   category?: string;
@@ -15,10 +18,35 @@ interface TransactionRequest {
   date: string;
   goal_id?: string;
   account_id?: string;
+  destination_account_id?: string;
   credit_card_id?: string;
+  // Array or comma-separated string ("trip-lisbon, reimbursable")
+  tags?: string[] | string;
+  // Rate to the base currency when the account is in another currency
+  // (defaults to the stored rate for the date)
+  exchange_rate?: number;
   user_id: string;
 }
 
+const missingRateResponse = () => new Response(
+  JSON.stringify({ error: 'No exchange rate from the account currency to the base currency; send exchange_rate' }),
+  { 
+    status: 400, 
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+  }
+);
+
+// Same normalization as the app: lowercase, dashes instead of spaces, no duplicates
+const normalizeTags = (tags?: string[] | string): string[] => {
+  if (!tags) return [];
+  const list = Array.isArray(tags) ? tags : tags.split(',');
+  const normalized = list
+    .map((tag) => String(tag).trim().replace(/^#+/, '').toLowerCase()
+      .replace(/[\s,]+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, ''))
+    .filter(Boolean);
+  return Array.from(new Set(normalized));
+};
+
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -37,15 +65,19 @@ Deno.serve(async (req) => {
 
   try {
     // Initialize Supabase client with service role key
+    // (x-audit-source marks the changes as coming from n8n in poupeja_record_history)
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { global: { headers: { 'x-audit-source': 'n8n' } } }
     );
 
     const transactionData: TransactionRequest = await req.json();
     
     console.log('n8n transaction request:', transactionData);
 
+    const tags = normalizeTags(transactionData.tags);
+
     // Validate required fields
     if (!transactionData.user_id || !transactionData.type || !transactionData.amount) {
       return new Response(
@@ -57,6 +89,129 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Transfers move money between two accounts of the user: a single row, no category
+    if (transactionData.type === 'transfer') {
+      console.log('Creating transfer between accounts for n8n');
+
+      const sourceAccountId = transactionData.account_id;
+      const destinationAccountId = transactionData.destination_account_id;
+
+      if (!sourceAccountId || !destinationAccountId) {
+        return new Response(
+          JSON.stringify({ error: 'Missing required fields for transfer: account_id, destination_account_id' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      if (sourceAccountId === destinationAccountId) {
+        return new Response(
+          JSON.stringify({ error: 'Source and destination accounts must be different' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      // Validate that both accounts belong to the user
+      const { data: accounts, error: accountsError } = await supabase
+        .from('poupeja_accounts')
+        .select('id, currency')
+        .in('id', [sourceAccountId, destinationAccountId])
+        .eq('user_id', transactionData.user_id);
+
+      if (accountsError || !accounts || accounts.length !== 2) {
+        console.error('Transfer accounts validation error:', accountsError);
+        return new Response(
+          JSON.stringify({ error: 'Invalid accounts or access denied' }),
+          { 
+            status: 403, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      // The amount is in the source account currency, so both accounts must share it
+      if (accounts[0].currency !== accounts[1].currency) {
+        return new Response(
+          JSON.stringify({ error: 'Transfers between accounts in different currencies are not supported' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      const transferCurrency = await resolveCurrency(
+        supabase,
+        transactionData.user_id,
+        accounts[0].currency,
+        transactionData.date,
+        transactionData.exchange_rate
+      );
+      if (!transferCurrency) return missingRateResponse();
+
+      const { data: transfer, error: transferError } = await supabase
+        .from('poupeja_transactions')
+        .insert({
+          type: 'transfer',
+          amount: transactionData.amount,
+          category_id: null,
+          description: transactionData.description || 'Transferência via n8n',
+          date: transactionData.date,
+          account_id: sourceAccountId,
+          destination_account_id: destinationAccountId,
+          tags,
+          ...transferCurrency,
+          user_id: transactionData.user_id
+        })
+        .select()
+        .single();
+
+      if (transferError) {
+        console.error('Error creating transfer:', transferError);
+        return new Response(
+          JSON.stringify({ error: 'Failed to create transfer', details: transferError.message }),
+          { 
+            status: 500, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      console.log('Transfer created successfully:', transfer.id);
+      return new Response(
+        JSON.stringify({ 
+          success: true, 
+          type: 'transfer',
+          transaction_id: transfer.id,
+          message: 'Transfer created successfully' 
+        }),
+        { 
+          status: 200, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+
+    // Auto-categorization rules: the first matching rule replaces a missing or "Outros"
+    // category, fills an empty goal and adds its tags
+    const rule = await findMatchingRule(supabase, transactionData.user_id, {
+      type: transactionData.type,
+      description: transactionData.description,
+      amount: transactionData.amount,
+      accountId: transactionData.account_id,
+      creditCardId: transactionData.type === 'expense' ? transactionData.credit_card_id : null
+    });
+    const ruleTags = rule ? normalizeTags([...tags, ...(rule.tags || [])]) : tags;
+
+    if (rule) {
+      console.log('Category rule matched:', rule.id);
+    }
+
     // If this is an expense with credit_card_id, create a credit card purchase
     if (transactionData.type === 'expense' && transactionData.credit_card_id) {
       console.log('Creating credit card purchase for n8n transaction');
@@ -64,7 +219,7 @@ Deno.serve(async (req) => {
       // Validate that the credit card belongs to the user
       const { data: creditCard, error: cardError } = await supabase
         .from('credit_cards')
-        .select('id, user_id')
+        .select('id, user_id, closing_day, due_day')
         .eq('id', transactionData.credit_card_id)
         .eq('user_id', transactionData.user_id)
         .single();
@@ -80,18 +235,60 @@ Deno.serve(async (req) => {
         );
       }
 
+      let purchaseCategoryId = transactionData.category_id || null;
+      if (rule?.category_id && await isUncategorized(supabase, purchaseCategoryId)) {
+        purchaseCategoryId = rule.category_id;
+      }
+
+      // The bill the purchase goes to, by the card's closing and due days
+      const purchaseDate = transactionData.date.split('T')[0];
+      const cycle = getBillingCycle(creditCard, purchaseDate);
+
+      const { data: existingBill } = await supabase
+        .from('credit_card_bills')
+        .select('id')
+        .eq('card_id', transactionData.credit_card_id)
+        .eq('reference_month', cycle.referenceMonth)
+        .eq('reference_year', cycle.referenceYear)
+        .maybeSingle();
+
+      let bill = existingBill;
+      if (!bill) {
+        // The due date moves to a business day when the bill is saved
+        const { data: newBill, error: newBillError } = await supabase
+          .from('credit_card_bills')
+          .insert({
+            card_id: transactionData.credit_card_id,
+            reference_month: cycle.referenceMonth,
+            reference_year: cycle.referenceYear,
+            opening_date: cycle.openingDate,
+            closing_date: cycle.closingDate,
+            due_date: cycle.dueDate,
+            status: 'open'
+          })
+          .select('id')
+          .single();
+
+        if (newBillError) {
+          console.error('Error creating credit card bill:', newBillError);
+        }
+        bill = newBill;
+      }
+
       // Create credit card purchase
       const { data: purchase, error: purchaseError } = await supabase
         .from('credit_card_purchases')
         .insert({
           card_id: transactionData.credit_card_id,
+          bill_id: bill?.id || null,
           description: transactionData.description || 'Compra via n8n',
           amount: transactionData.amount,
-          purchase_date: transactionData.date.split('T')[0],
+          purchase_date: purchaseDate,
           installments: 1,
           installment_amount: transactionData.amount,
           is_installment: false,
-          category_id: transactionData.category_id
+          category_id: purchaseCategoryId,
+          tags: ruleTags
         })
         .select()
         .single();
@@ -123,6 +320,13 @@ Deno.serve(async (req) => {
           success: true, 
           type: 'credit_card_purchase',
           purchase_id: purchase.id,
+          bill: {
+            id: bill?.id || null,
+            reference_month: cycle.referenceMonth,
+            reference_year: cycle.referenceYear,
+            closing_date: cycle.closingDate,
+            due_date: cycle.dueDate
+          },
           message: 'Credit card purchase created successfully' 
         }),
         { 
@@ -165,7 +369,7 @@ Deno.serve(async (req) => {
       
       if (defaultCategory) {
         categoryId = defaultCategory.id;
-      } else {
+      } else if (!rule?.category_id) {
         return new Response(
           JSON.stringify({ error: `No valid category found for ${transactionData.type}` }),
           { 
@@ -176,6 +380,31 @@ Deno.serve(async (req) => {
       }
     }
 
+    if (rule?.category_id && await isUncategorized(supabase, categoryId)) {
+      categoryId = rule.category_id;
+    }
+    const goalId = transactionData.goal_id || rule?.goal_id || null;
+
+    // Recorded in the account currency with the rate to the base currency
+    let accountCurrency: string | null = null;
+    if (transactionData.account_id) {
+      const { data: account } = await supabase
+        .from('poupeja_accounts')
+        .select('currency')
+        .eq('id', transactionData.account_id)
+        .eq('user_id', transactionData.user_id)
+        .maybeSingle();
+      accountCurrency = account?.currency || null;
+    }
+    const currencyFields = await resolveCurrency(
+      supabase,
+      transactionData.user_id,
+      accountCurrency,
+      transactionData.date,
+      transactionData.exchange_rate
+    );
+    if (!currencyFields) return missingRateResponse();
+
     // Create the transaction
     const { data: transaction, error: transactionError } = await supabase
       .from('poupeja_transactions')
@@ -185,8 +414,10 @@ Deno.serve(async (req) => {
         category_id: categoryId,
         description: transactionData.description || '',
         date: transactionData.date,
-        goal_id: transactionData.goal_id || null,
+        goal_id: goalId,
         account_id: transactionData.account_id || null,
+        tags: ruleTags,
+        ...currencyFields,
         user_id: transactionData.user_id
       })
       .select()
@@ -204,10 +435,10 @@ Deno.serve(async (req) => {
     }
 
     // If this is an income transaction linked to a goal, update the goal's current amount
-    if (transactionData.type === 'income' && transactionData.goal_id) {
+    if (transactionData.type === 'income' && goalId) {
       console.log('Updating goal current amount for income transaction');
       const { error: goalError } = await supabase.rpc('update_goal_amount', {
-        p_goal_id: transactionData.goal_id,
+        p_goal_id: goalId,
         p_amount_change: transactionData.amount
       });
       
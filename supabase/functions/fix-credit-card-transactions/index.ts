@@ -13,9 +13,11 @@ serve(async (req) => {
   }
 
   try {
+    // x-audit-source: as correções aparecem como "admin" no histórico dos registros
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { global: { headers: { 'x-audit-source': 'admin' } } }
     )
 
     // Verificar se o usuário é admin
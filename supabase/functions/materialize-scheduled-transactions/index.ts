@@ -0,0 +1,331 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.0'
+import { resolveCurrency } from '../_shared/exchangeRates.ts'
+import { type BusinessDayCheck, getNextOccurrence, mapRecurrenceRule } from '../_shared/recurrence.ts'
+
+// Daily job (see migration 20251020030000 for the cron schedule), called with the service
+// role key. For every user:
+//  1. recurring series whose latest open occurrence is due get their next occurrences, up to
+//     the first one after today, so the schedule advances even when nobody opens the app
+//  2. open automatic-debit occurrences due up to today are posted (as transactions in their
+//     account, or as purchases on their credit card bill) and paid
+//  3. the remaining open occurrences before today become overdue
+// Each step looks at the current state first (and occurrences are unique per series), so
+// running it again on the same day changes nothing. Send { "today": "YYYY-MM-DD" } to run it
+// with a fixed clock.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// "Today" for users of the app, not for the server
+const TIME_ZONE = 'America/Sao_Paulo';
+const OPEN_STATUSES = 'status.is.null,status.in.(pending,upcoming,overdue)';
+const PAGE_SIZE = 1000;
+// A series that wasn't processed for a long time still stops at a sane number of new rows
+const MAX_NEW_OCCURRENCES = 400;
+
+interface ScheduledRow {
+  id: string;
+  user_id: string;
+  type: string;
+  amount: number;
+  category_id: string | null;
+  description: string | null;
+  goal_id: string | null;
+  account_id: string | null;
+  credit_card_id: string | null;
+  scheduled_date: string;
+  status: string | null;
+  auto_debit: boolean;
+  series_id: string;
+  occurrence_number: number;
+  original_date: string | null;
+  original_amount: number | null;
+  recurrence: string | null;
+  recurrence_interval: number | null;
+  recurrence_by_weekday: number[] | null;
+  recurrence_by_month_day: number | null;
+  recurrence_by_set_pos: number | null;
+  recurrence_until: string | null;
+  recurrence_count: number | null;
+  business_day_adjustment: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+);
+
+const getToday = () => new Date().toLocaleDateString('en-CA', { timeZone: TIME_ZONE });
+
+// Open occurrences on or before the day (PostgREST returns at most 1000 rows per request)
+const fetchOpenOccurrences = async (supabase: SupabaseClient, untilDay: string): Promise<ScheduledRow[]> => {
+  const rows: ScheduledRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('poupeja_scheduled_transactions')
+      .select('*')
+      .or(OPEN_STATUSES)
+      .lte('scheduled_date', `${untilDay}T23:59:59.999Z`)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+  }
+};
+
+// The day the occurrence is due when the series day is a weekend or holiday (same rules as
+// holidayUtils in the app, including the user's own holidays)
+const adjustToBusinessDay = async (supabase: SupabaseClient, row: ScheduledRow, day: string): Promise<string> => {
+  if (!row.business_day_adjustment || row.business_day_adjustment === 'none') return day;
+
+  const { data, error } = await supabase.rpc('adjust_to_business_day', {
+    day,
+    adjustment: row.business_day_adjustment,
+    user_id_param: row.user_id,
+  });
+  if (error) throw error;
+  return data || day;
+};
+
+// For "Nth business day" rules, with the user's own holidays. Each day is asked once per run
+const createBusinessDayCheck = (supabase: SupabaseClient, userId: string): BusinessDayCheck => {
+  const cache = new Map<string, Promise<boolean>>();
+  return (day) => {
+    let result = cache.get(day);
+    if (!result) {
+      result = supabase.rpc('is_business_day', { day, user_id_param: userId }).then(({ data, error }) => {
+        if (error) throw error;
+        return data !== false;
+      });
+      cache.set(day, result);
+    }
+    return result;
+  };
+};
+
+// Step 1: starts from the latest due open occurrence of each series. Rows that already exist
+// (created by an earlier run or by "mark as paid" in the app) are left untouched
+const rollSeriesForward = async (supabase: SupabaseClient, openRows: ScheduledRow[], today: string): Promise<number> => {
+  const latestBySeries = new Map<string, ScheduledRow>();
+  for (const row of openRows) {
+    if (!row.recurrence || row.recurrence === 'once') continue;
+    const latest = latestBySeries.get(row.series_id);
+    if (!latest || row.occurrence_number > latest.occurrence_number) {
+      latestBySeries.set(row.series_id, row);
+    }
+  }
+
+  const newRows = [];
+  const businessDayChecks = new Map<string, BusinessDayCheck>();
+  for (const row of latestBySeries.values()) {
+    if (!businessDayChecks.has(row.user_id)) {
+      businessDayChecks.set(row.user_id, createBusinessDayCheck(supabase, row.user_id));
+    }
+    const isBusinessDay = businessDayChecks.get(row.user_id) as BusinessDayCheck;
+    const rule = mapRecurrenceRule(row);
+    // The series goes on from what the rule says, not from an occurrence moved by the user
+    let day = row.original_date || row.scheduled_date.slice(0, 10);
+    let occurrenceNumber = row.occurrence_number;
+
+    for (let created = 0; day <= today && created < MAX_NEW_OCCURRENCES; created++) {
+      const nextDay = await getNextOccurrence(rule, day, occurrenceNumber, isBusinessDay);
+      if (!nextDay) break;
+
+      occurrenceNumber += 1;
+      day = nextDay;
+      // Stored on the day it is due; the series day stays in original_date
+      const dueDay = await adjustToBusinessDay(supabase, row, nextDay);
+      newRows.push({
+        user_id: row.user_id,
+        type: row.type,
+        amount: row.original_amount ?? row.amount,
+        category_id: row.category_id,
+        description: row.description,
+        goal_id: row.goal_id,
+        account_id: row.account_id,
+        credit_card_id: row.credit_card_id,
+        scheduled_date: `${dueDay}T00:00:00.000Z`,
+        next_execution_date: `${dueDay}T00:00:00.000Z`,
+        original_date: dueDay === nextDay ? null : nextDay,
+        status: 'pending',
+        auto_debit: row.auto_debit,
+        series_id: row.series_id,
+        occurrence_number: occurrenceNumber,
+        recurrence: row.recurrence,
+        recurrence_interval: row.recurrence_interval,
+        recurrence_by_weekday: row.recurrence_by_weekday,
+        recurrence_by_month_day: row.recurrence_by_month_day,
+        recurrence_by_set_pos: row.recurrence_by_set_pos,
+        recurrence_until: row.recurrence_until,
+        recurrence_count: row.recurrence_count,
+        business_day_adjustment: row.business_day_adjustment,
+      });
+    }
+  }
+
+  if (newRows.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('poupeja_scheduled_transactions')
+    .upsert(newRows, { onConflict: 'series_id,occurrence_number', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw error;
+  return data?.length || 0;
+};
+
+// Same as creditCardService.updateCardLimits in the app
+const updateCardLimits = async (supabase: SupabaseClient, cardId: string) => {
+  const { error } = await supabase.rpc('update_credit_card_limits', { card_id_param: cardId });
+  if (error) console.error('Error updating card limits:', error);
+};
+
+// A purchase on the card bill of the occurrence's day, or a transaction in the account (in
+// its currency). Returns the error message when nothing was posted
+const postOccurrence = async (supabase: SupabaseClient, row: ScheduledRow): Promise<string | null> => {
+  const day = row.scheduled_date.slice(0, 10);
+  const description = `${row.description || ''} (Débito automático)`.trim();
+
+  if (row.credit_card_id && row.type === 'expense') {
+    const { error } = await supabase
+      .from('credit_card_purchases')
+      .insert({
+        card_id: row.credit_card_id,
+        description,
+        amount: row.amount,
+        purchase_date: day,
+        installments: 1,
+        installment_amount: row.amount,
+        is_installment: false,
+        category_id: row.category_id,
+        tags: [],
+      });
+    if (error) return error.message;
+
+    const { error: billError } = await supabase.rpc('auto_generate_credit_card_bills', {
+      card_id_param: row.credit_card_id
+    });
+    if (billError) console.error('Error generating credit card bills:', billError);
+    await updateCardLimits(supabase, row.credit_card_id);
+    return null;
+  }
+
+  const { data: account } = row.account_id
+    ? await supabase.from('poupeja_accounts').select('currency').eq('id', row.account_id).maybeSingle()
+    : { data: null };
+  const currency = await resolveCurrency(supabase, row.user_id, account?.currency, day);
+  if (!currency) return `No exchange rate for ${account?.currency}`;
+
+  const { error } = await supabase
+    .from('poupeja_transactions')
+    .insert({
+      user_id: row.user_id,
+      type: row.type,
+      amount: row.amount,
+      category_id: row.category_id,
+      description,
+      date: row.scheduled_date,
+      goal_id: row.goal_id,
+      account_id: row.account_id,
+      ...currency,
+    });
+  return error ? error.message : null;
+};
+
+// Step 2: the occurrence is claimed (marked as paid only while it is still open) before the
+// transaction or purchase is posted, so two runs can't post it twice
+const postAutomaticDebits = async (supabase: SupabaseClient, openRows: ScheduledRow[], errors: string[]): Promise<number> => {
+  let posted = 0;
+
+  for (const row of openRows.filter((item) => item.auto_debit)) {
+    const { data: claimed, error: claimError } = await supabase
+      .from('poupeja_scheduled_transactions')
+      .update({
+        status: 'paid',
+        paid_date: row.scheduled_date,
+        paid_amount: row.amount,
+        last_execution_date: row.scheduled_date,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', row.id)
+      .or(OPEN_STATUSES)
+      .select('id');
+
+    if (claimError) {
+      errors.push(`${row.id}: ${claimError.message}`);
+      continue;
+    }
+    if (!claimed?.length) continue;
+
+    const postError = await postOccurrence(supabase, row);
+    if (postError) {
+      // Back to open: the next run tries again
+      await supabase
+        .from('poupeja_scheduled_transactions')
+        .update({ status: row.status, paid_date: null, paid_amount: null, last_execution_date: null })
+        .eq('id', row.id);
+      errors.push(`${row.id}: ${postError}`);
+      continue;
+    }
+
+    posted += 1;
+  }
+
+  return posted;
+};
+
+// Step 3
+const markOverdue = async (supabase: SupabaseClient, today: string): Promise<number> => {
+  const { data, error } = await supabase
+    .from('poupeja_scheduled_transactions')
+    .update({ status: 'overdue', updated_at: new Date().toISOString() })
+    .or('status.is.null,status.in.(pending,upcoming)')
+    .lt('scheduled_date', `${today}T00:00:00.000Z`)
+    .select('id');
+
+  if (error) throw error;
+  return data?.length || 0;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  // Touches every user's schedule: only the cron job (service role) may call it
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (body.today && !/^\d{4}-\d{2}-\d{2}$/.test(body.today)) {
+      return jsonResponse({ error: 'today must be a YYYY-MM-DD date' }, 400);
+    }
+    const today: string = body.today || getToday();
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+    const errors: string[] = [];
+
+    const created = await rollSeriesForward(supabase, await fetchOpenOccurrences(supabase, today), today);
+    // Read again: the occurrences created above can be due already
+    const posted = await postAutomaticDebits(supabase, await fetchOpenOccurrences(supabase, today), errors);
+    const overdue = await markOverdue(supabase, today);
+
+    console.log('Scheduled transactions materialized:', { today, created, posted, overdue, errors: errors.length });
+    return jsonResponse({ success: errors.length === 0, today, created, posted, overdue, errors });
+  } catch (error) {
+    console.error('Error materializing scheduled transactions:', error);
+    return jsonResponse({ error: (error instanceof Error && error.message) || 'Internal server error' }, 500);
+  }
+});
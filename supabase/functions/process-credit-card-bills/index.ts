@@ -0,0 +1,70 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.0'
+
+// Daily job (see migration 20251020090000 for the cron schedule), called with the service
+// role key. The bill lifecycle itself lives in process_credit_card_bills:
+//  1. open bills past their closing date close (or are paid already, when nothing is owed)
+//  2. closed bills past their due date with a balance become overdue; the balance moves to
+//     the next bill with revolving interest, plus the late fee when less than the minimum
+//     payment was paid
+//  3. closed bills with nothing left to pay after their due date are paid
+// Running it again on the same day changes nothing. Send { "today": "YYYY-MM-DD" } to run it
+// with a fixed clock, and { "card_id": "..." } to process a single card.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// "Today" for users of the app, not for the server
+const TIME_ZONE = 'America/Sao_Paulo';
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+);
+
+const getToday = () => new Date().toLocaleDateString('en-CA', { timeZone: TIME_ZONE });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  // Touches every user's bills: only the cron job (service role) may call it
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (body.today && !/^\d{4}-\d{2}-\d{2}$/.test(body.today)) {
+      return jsonResponse({ error: 'today must be a YYYY-MM-DD date' }, 400);
+    }
+    const today: string = body.today || getToday();
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+    const { data, error } = await supabase.rpc('process_credit_card_bills', {
+      today,
+      card_id_param: body.card_id || null,
+    });
+
+    if (error) throw error;
+
+    const result = data?.[0] || { closed_count: 0, overdue_count: 0, carried_total: 0 };
+    const closed = result.closed_count;
+    const overdue = result.overdue_count;
+    const carried = Number(result.carried_total);
+
+    console.log('Credit card bills processed:', { today, closed, overdue, carried });
+    return jsonResponse({ success: true, today, closed, overdue, carried });
+  } catch (error) {
+    console.error('Error processing credit card bills:', error);
+    return jsonResponse({ error: (error instanceof Error && error.message) || 'Internal server error' }, 500);
+  }
+});
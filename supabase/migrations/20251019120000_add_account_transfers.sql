@@ -0,0 +1,86 @@
+-- Transferências entre contas como tipo de transação
+-- Uma transferência é uma única linha em poupeja_transactions com type = 'transfer':
+-- account_id é a conta de origem e destination_account_id a conta de destino.
+
+-- 1) Conta de destino
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'poupeja_transactions' AND column_name = 'destination_account_id'
+  ) THEN
+    ALTER TABLE public.poupeja_transactions ADD COLUMN destination_account_id UUID NULL;
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'poupeja_transactions_destination_account_fk'
+  ) THEN
+    ALTER TABLE public.poupeja_transactions
+      ADD CONSTRAINT poupeja_transactions_destination_account_fk
+      FOREIGN KEY (destination_account_id)
+      REFERENCES public.poupeja_accounts(id)
+      ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_transactions' AND indexname = 'idx_transactions_destination_account_id'
+  ) THEN
+    CREATE INDEX idx_transactions_destination_account_id ON public.poupeja_transactions(destination_account_id);
+  END IF;
+END $$;
+
+-- 2) Aceitar o tipo 'transfer'
+ALTER TABLE public.poupeja_transactions
+DROP CONSTRAINT IF EXISTS poupeja_transactions_type_check;
+
+ALTER TABLE public.poupeja_transactions
+ADD CONSTRAINT poupeja_transactions_type_check
+CHECK (type IN ('income', 'expense', 'transfer'));
+
+-- 3) Conta de destino só existe em transferências e precisa ser diferente da origem
+-- (contas excluídas viram NULL por causa do ON DELETE SET NULL, por isso os NULLs são aceitos)
+ALTER TABLE public.poupeja_transactions
+DROP CONSTRAINT IF EXISTS poupeja_transactions_transfer_accounts_check;
+
+ALTER TABLE public.poupeja_transactions
+ADD CONSTRAINT poupeja_transactions_transfer_accounts_check
+CHECK (
+  (type = 'transfer' OR destination_account_id IS NULL)
+  AND (account_id IS NULL OR destination_account_id IS NULL OR account_id <> destination_account_id)
+);
+
+-- 4) As duas contas de uma transferência precisam ser do dono da transação (as políticas da
+-- tabela só conferem o user_id da linha)
+CREATE OR REPLACE FUNCTION public.check_transfer_accounts_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.destination_account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM poupeja_accounts
+    WHERE id = NEW.destination_account_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Destination account does not belong to the user';
+  END IF;
+
+  IF NEW.type = 'transfer' AND NEW.account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM poupeja_accounts
+    WHERE id = NEW.account_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Source account does not belong to the user';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS check_transfer_accounts_owner ON public.poupeja_transactions;
+CREATE TRIGGER check_transfer_accounts_owner
+  BEFORE INSERT OR UPDATE OF user_id, type, account_id, destination_account_id ON public.poupeja_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_transfer_accounts_owner();
@@ -0,0 +1,101 @@
+-- Saldo inicial e pontos de conciliação das contas
+-- O saldo de uma conta parte do último ponto de conciliação (ou do saldo inicial)
+-- e soma apenas as transações posteriores a ele.
+
+-- 1) Saldo inicial em poupeja_accounts
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'poupeja_accounts' AND column_name = 'opening_balance'
+  ) THEN
+    ALTER TABLE public.poupeja_accounts ADD COLUMN opening_balance NUMERIC NOT NULL DEFAULT 0;
+  END IF;
+
+  -- Data a partir da qual o saldo inicial vale (transações anteriores são ignoradas no saldo)
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'poupeja_accounts' AND column_name = 'opening_balance_date'
+  ) THEN
+    ALTER TABLE public.poupeja_accounts ADD COLUMN opening_balance_date DATE NULL;
+  END IF;
+END $$;
+
+-- 2) Pontos de conciliação: saldo informado pelo banco ao final do dia checkpoint_date
+CREATE TABLE IF NOT EXISTS public.poupeja_account_checkpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  account_id UUID NOT NULL REFERENCES public.poupeja_accounts(id) ON DELETE CASCADE,
+  balance NUMERIC NOT NULL,
+  checkpoint_date DATE NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.poupeja_account_checkpoints ENABLE ROW LEVEL SECURITY;
+
+-- Policies
+DO $$ BEGIN
+  -- SELECT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_account_checkpoints' AND policyname = 'Users can view their own account checkpoints'
+  ) THEN
+    CREATE POLICY "Users can view their own account checkpoints"
+    ON public.poupeja_account_checkpoints
+    FOR SELECT
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- INSERT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_account_checkpoints' AND policyname = 'Users can insert their own account checkpoints'
+  ) THEN
+    CREATE POLICY "Users can insert their own account checkpoints"
+    ON public.poupeja_account_checkpoints
+    FOR INSERT
+    WITH CHECK (
+      auth.uid() = user_id
+      AND EXISTS (
+        SELECT 1 FROM public.poupeja_accounts a
+        WHERE a.id = account_id AND a.user_id = auth.uid()
+      )
+    );
+  END IF;
+
+  -- UPDATE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_account_checkpoints' AND policyname = 'Users can update their own account checkpoints'
+  ) THEN
+    CREATE POLICY "Users can update their own account checkpoints"
+    ON public.poupeja_account_checkpoints
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    -- O ponto não pode ser movido para a conta de outro usuário
+    WITH CHECK (
+      auth.uid() = user_id
+      AND EXISTS (
+        SELECT 1 FROM public.poupeja_accounts a
+        WHERE a.id = account_id AND a.user_id = auth.uid()
+      )
+    );
+  END IF;
+
+  -- DELETE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_account_checkpoints' AND policyname = 'Users can delete their own account checkpoints'
+  ) THEN
+    CREATE POLICY "Users can delete their own account checkpoints"
+    ON public.poupeja_account_checkpoints
+    FOR DELETE
+    USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- Busca do último ponto de conciliação por conta
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_account_checkpoints' AND indexname = 'idx_account_checkpoints_account_date'
+  ) THEN
+    CREATE INDEX idx_account_checkpoints_account_date ON public.poupeja_account_checkpoints(account_id, checkpoint_date DESC);
+  END IF;
+END $$;
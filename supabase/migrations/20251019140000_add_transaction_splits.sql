@@ -0,0 +1,76 @@
+-- Divisão de uma transação (ou compra no cartão) em várias categorias
+-- Cada linha pertence a uma transação OU a uma compra no cartão, e a soma das linhas
+-- é igual ao valor total. O category_id da transação/compra continua apontando para a
+-- primeira linha, para manter compatibilidade com quem ainda lê uma única categoria.
+
+CREATE TABLE IF NOT EXISTS public.poupeja_transaction_splits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  transaction_id UUID NULL REFERENCES public.poupeja_transactions(id) ON DELETE CASCADE,
+  purchase_id UUID NULL REFERENCES public.credit_card_purchases(id) ON DELETE CASCADE,
+  category_id UUID NULL REFERENCES public.poupeja_categories(id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT poupeja_transaction_splits_owner_check
+    CHECK ((transaction_id IS NOT NULL) <> (purchase_id IS NOT NULL))
+);
+
+-- Enable RLS
+ALTER TABLE public.poupeja_transaction_splits ENABLE ROW LEVEL SECURITY;
+
+-- Policies
+DO $$ BEGIN
+  -- SELECT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_transaction_splits' AND policyname = 'Users can view their own transaction splits'
+  ) THEN
+    CREATE POLICY "Users can view their own transaction splits"
+    ON public.poupeja_transaction_splits
+    FOR SELECT
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- INSERT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_transaction_splits' AND policyname = 'Users can insert their own transaction splits'
+  ) THEN
+    CREATE POLICY "Users can insert their own transaction splits"
+    ON public.poupeja_transaction_splits
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  -- UPDATE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_transaction_splits' AND policyname = 'Users can update their own transaction splits'
+  ) THEN
+    CREATE POLICY "Users can update their own transaction splits"
+    ON public.poupeja_transaction_splits
+    FOR UPDATE
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- DELETE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_transaction_splits' AND policyname = 'Users can delete their own transaction splits'
+  ) THEN
+    CREATE POLICY "Users can delete their own transaction splits"
+    ON public.poupeja_transaction_splits
+    FOR DELETE
+    USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_transaction_splits' AND indexname = 'idx_transaction_splits_transaction_id'
+  ) THEN
+    CREATE INDEX idx_transaction_splits_transaction_id ON public.poupeja_transaction_splits(transaction_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_transaction_splits' AND indexname = 'idx_transaction_splits_purchase_id'
+  ) THEN
+    CREATE INDEX idx_transaction_splits_purchase_id ON public.poupeja_transaction_splits(purchase_id);
+  END IF;
+END $$;
@@ -0,0 +1,57 @@
+-- Tags livres em transações e compras no cartão
+-- Rótulos transversais às categorias (ex.: "viagem-lisboa", "reembolsavel").
+-- As tags são gravadas já normalizadas (minúsculas, sem espaços) pela aplicação.
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'poupeja_transactions' AND column_name = 'tags'
+  ) THEN
+    ALTER TABLE public.poupeja_transactions ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'credit_card_purchases' AND column_name = 'tags'
+  ) THEN
+    ALTER TABLE public.credit_card_purchases ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+-- Filtro por tag (tags @> ARRAY['...'])
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_transactions' AND indexname = 'idx_transactions_tags'
+  ) THEN
+    CREATE INDEX idx_transactions_tags ON public.poupeja_transactions USING GIN (tags);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'credit_card_purchases' AND indexname = 'idx_credit_card_purchases_tags'
+  ) THEN
+    CREATE INDEX idx_credit_card_purchases_tags ON public.credit_card_purchases USING GIN (tags);
+  END IF;
+END $$;
+
+-- Tags já usadas pelo usuário, das mais usadas para as menos usadas (autocomplete)
+CREATE OR REPLACE FUNCTION public.get_user_tags()
+RETURNS TABLE (tag TEXT, usage_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT t.tag, COUNT(*) AS usage_count
+  FROM (
+    SELECT unnest(tx.tags) AS tag
+    FROM public.poupeja_transactions tx
+    WHERE tx.user_id = auth.uid()
+    UNION ALL
+    SELECT unnest(p.tags) AS tag
+    FROM public.credit_card_purchases p
+    JOIN public.credit_cards c ON c.id = p.card_id
+    WHERE c.user_id = auth.uid()
+  ) t
+  GROUP BY t.tag
+  ORDER BY usage_count DESC, t.tag;
+$$;
@@ -0,0 +1,114 @@
+-- Comprovantes (fotos/PDFs) anexados a transações, compras no cartão e pagamentos de fatura
+-- Reaproveita poupeja_uploads: cada upload pertence a no máximo um desses registros.
+-- Os arquivos ficam no bucket 'uploads'; a aplicação remove os arquivos do storage
+-- antes de excluir o registro, e as linhas de poupeja_uploads saem em cascata.
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'poupeja_uploads' AND column_name = 'transaction_id'
+  ) THEN
+    ALTER TABLE public.poupeja_uploads
+      ADD COLUMN transaction_id UUID NULL REFERENCES public.poupeja_transactions(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'poupeja_uploads' AND column_name = 'purchase_id'
+  ) THEN
+    ALTER TABLE public.poupeja_uploads
+      ADD COLUMN purchase_id UUID NULL REFERENCES public.credit_card_purchases(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'poupeja_uploads' AND column_name = 'payment_id'
+  ) THEN
+    ALTER TABLE public.poupeja_uploads
+      ADD COLUMN payment_id UUID NULL REFERENCES public.credit_card_payments(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'poupeja_uploads_single_owner_check'
+  ) THEN
+    ALTER TABLE public.poupeja_uploads
+      ADD CONSTRAINT poupeja_uploads_single_owner_check
+      CHECK (num_nonnulls(transaction_id, purchase_id, payment_id) <= 1);
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_uploads' AND indexname = 'idx_poupeja_uploads_transaction_id'
+  ) THEN
+    CREATE INDEX idx_poupeja_uploads_transaction_id ON public.poupeja_uploads(transaction_id) WHERE transaction_id IS NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_uploads' AND indexname = 'idx_poupeja_uploads_purchase_id'
+  ) THEN
+    CREATE INDEX idx_poupeja_uploads_purchase_id ON public.poupeja_uploads(purchase_id) WHERE purchase_id IS NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_uploads' AND indexname = 'idx_poupeja_uploads_payment_id'
+  ) THEN
+    CREATE INDEX idx_poupeja_uploads_payment_id ON public.poupeja_uploads(payment_id) WHERE payment_id IS NOT NULL;
+  END IF;
+END $$;
+
+-- register_upload passa a aceitar o registro ao qual o arquivo pertence.
+-- A função é SECURITY DEFINER, então confere que o registro é do próprio usuário.
+DROP FUNCTION IF EXISTS public.register_upload(TEXT, TEXT, INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.register_upload(
+  p_file_name TEXT,
+  p_file_path TEXT,
+  p_file_size INTEGER DEFAULT NULL,
+  p_mime_type TEXT DEFAULT NULL,
+  p_purpose TEXT DEFAULT 'general',
+  p_transaction_id UUID DEFAULT NULL,
+  p_purchase_id UUID DEFAULT NULL,
+  p_payment_id UUID DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  upload_id UUID;
+BEGIN
+  IF p_transaction_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.poupeja_transactions WHERE id = p_transaction_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF p_purchase_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.credit_card_purchases p
+    JOIN public.credit_cards c ON c.id = p.card_id
+    WHERE p.id = p_purchase_id AND c.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Purchase not found';
+  END IF;
+
+  IF p_payment_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.credit_card_payments pay
+    JOIN public.credit_card_bills b ON b.id = pay.bill_id
+    JOIN public.credit_cards c ON c.id = b.card_id
+    WHERE pay.id = p_payment_id AND c.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  INSERT INTO public.poupeja_uploads (
+    user_id, file_name, file_path, file_size, mime_type, purpose,
+    transaction_id, purchase_id, payment_id
+  ) VALUES (
+    auth.uid(), p_file_name, p_file_path, p_file_size, p_mime_type, p_purpose,
+    p_transaction_id, p_purchase_id, p_payment_id
+  ) RETURNING id INTO upload_id;
+
+  RETURN upload_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.register_upload(TEXT, TEXT, INTEGER, TEXT, TEXT, UUID, UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.register_upload(TEXT, TEXT, INTEGER, TEXT, TEXT, UUID, UUID, UUID) IS 'Registra um upload no banco de dados, opcionalmente vinculado a uma transação, compra ou pagamento';
@@ -0,0 +1,37 @@
+-- Identificador externo de lançamentos importados (FITID do OFX)
+-- Usado para não importar duas vezes o mesmo lançamento de um extrato.
+-- O FITID só é único dentro da conta/cartão de origem.
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'poupeja_transactions' AND column_name = 'external_id'
+  ) THEN
+    ALTER TABLE public.poupeja_transactions ADD COLUMN external_id TEXT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'credit_card_purchases' AND column_name = 'external_id'
+  ) THEN
+    ALTER TABLE public.credit_card_purchases ADD COLUMN external_id TEXT NULL;
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_transactions' AND indexname = 'idx_transactions_account_external_id'
+  ) THEN
+    CREATE UNIQUE INDEX idx_transactions_account_external_id
+      ON public.poupeja_transactions(account_id, external_id)
+      WHERE external_id IS NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'credit_card_purchases' AND indexname = 'idx_credit_card_purchases_card_external_id'
+  ) THEN
+    CREATE UNIQUE INDEX idx_credit_card_purchases_card_external_id
+      ON public.credit_card_purchases(card_id, external_id)
+      WHERE external_id IS NOT NULL;
+  END IF;
+END $$;
@@ -0,0 +1,66 @@
+-- Perfis de importação CSV: mapeamento de colunas e formatos salvos pelo usuário
+-- (ex.: "Mobills", "Organizze", "Planilha antiga") para reutilizar em importações futuras.
+
+CREATE TABLE IF NOT EXISTS public.poupeja_import_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  -- { delimiter, dateFormat, numberFormat, hasHeader, columns: { date, amount, ... }, ... }
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT poupeja_import_profiles_user_name_key UNIQUE (user_id, name)
+);
+
+-- Enable RLS
+ALTER TABLE public.poupeja_import_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Policies
+DO $$ BEGIN
+  -- SELECT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_import_profiles' AND policyname = 'Users can view their own import profiles'
+  ) THEN
+    CREATE POLICY "Users can view their own import profiles"
+    ON public.poupeja_import_profiles
+    FOR SELECT
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- INSERT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_import_profiles' AND policyname = 'Users can insert their own import profiles'
+  ) THEN
+    CREATE POLICY "Users can insert their own import profiles"
+    ON public.poupeja_import_profiles
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  -- UPDATE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_import_profiles' AND policyname = 'Users can update their own import profiles'
+  ) THEN
+    CREATE POLICY "Users can update their own import profiles"
+    ON public.poupeja_import_profiles
+    FOR UPDATE
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- DELETE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_import_profiles' AND policyname = 'Users can delete their own import profiles'
+  ) THEN
+    CREATE POLICY "Users can delete their own import profiles"
+    ON public.poupeja_import_profiles
+    FOR DELETE
+    USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- Trigger para updated_at
+DROP TRIGGER IF EXISTS update_poupeja_import_profiles_updated_at ON public.poupeja_import_profiles;
+CREATE TRIGGER update_poupeja_import_profiles_updated_at
+  BEFORE UPDATE ON public.poupeja_import_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,50 @@
+-- Índices para a listagem paginada de transações (filtros e ordenação no servidor)
+-- A lista busca páginas com .range() ordenadas por data, filtrando por período, tipo,
+-- categoria, conta, cartão e texto na descrição.
+
+-- Busca por texto (ILIKE '%termo%') usa índice trigram
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+DO $$ BEGIN
+  -- Página padrão: transações do usuário da mais recente para a mais antiga (id desempata)
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_transactions' AND indexname = 'idx_transactions_user_date'
+  ) THEN
+    CREATE INDEX idx_transactions_user_date ON public.poupeja_transactions(user_id, date DESC, id DESC);
+  END IF;
+
+  -- Filtro por tipo dentro do período
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_transactions' AND indexname = 'idx_transactions_user_type_date'
+  ) THEN
+    CREATE INDEX idx_transactions_user_type_date ON public.poupeja_transactions(user_id, type, date DESC);
+  END IF;
+
+  -- Filtro por conta ordenado por data (substitui o índice simples em account_id nas consultas da lista)
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_transactions' AND indexname = 'idx_transactions_account_date'
+  ) THEN
+    CREATE INDEX idx_transactions_account_date ON public.poupeja_transactions(account_id, date DESC);
+  END IF;
+
+  -- Filtro por cartão
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_transactions' AND indexname = 'idx_transactions_credit_card_id'
+  ) THEN
+    CREATE INDEX idx_transactions_credit_card_id ON public.poupeja_transactions(credit_card_id) WHERE credit_card_id IS NOT NULL;
+  END IF;
+
+  -- Busca por texto na descrição
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_transactions' AND indexname = 'idx_transactions_description_trgm'
+  ) THEN
+    CREATE INDEX idx_transactions_description_trgm ON public.poupeja_transactions USING GIN (description gin_trgm_ops);
+  END IF;
+
+  -- Filtro por categoria também olha as linhas de divisão
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'poupeja_transaction_splits' AND indexname = 'idx_transaction_splits_category_id'
+  ) THEN
+    CREATE INDEX idx_transaction_splits_category_id ON public.poupeja_transaction_splits(category_id);
+  END IF;
+END $$;
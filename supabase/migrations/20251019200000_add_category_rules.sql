@@ -0,0 +1,82 @@
+-- Regras de categorização automática: quando a descrição (e opcionalmente valor, conta
+-- ou cartão) de uma transação casa com a regra, ela recebe categoria, tags e meta.
+-- Avaliadas no app (addTransaction) e na função create-transaction (WhatsApp/n8n).
+
+CREATE TABLE IF NOT EXISTS public.poupeja_category_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  -- Menor número é avaliado primeiro; vale a primeira regra que casar
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('income', 'expense')),
+  match_type TEXT NOT NULL DEFAULT 'contains' CHECK (match_type IN ('contains', 'regex')),
+  -- Texto procurado na descrição (ou expressão regular); vazio casa com qualquer descrição
+  pattern TEXT NOT NULL DEFAULT '',
+  min_amount NUMERIC,
+  max_amount NUMERIC,
+  account_id UUID REFERENCES public.poupeja_accounts(id) ON DELETE SET NULL,
+  credit_card_id UUID REFERENCES public.credit_cards(id) ON DELETE SET NULL,
+  -- O que a regra aplica
+  category_id UUID REFERENCES public.poupeja_categories(id) ON DELETE CASCADE,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  goal_id UUID REFERENCES public.poupeja_goals(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_user_priority
+  ON public.poupeja_category_rules(user_id, priority);
+
+-- Enable RLS
+ALTER TABLE public.poupeja_category_rules ENABLE ROW LEVEL SECURITY;
+
+-- Policies
+DO $$ BEGIN
+  -- SELECT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_category_rules' AND policyname = 'Users can view their own category rules'
+  ) THEN
+    CREATE POLICY "Users can view their own category rules"
+    ON public.poupeja_category_rules
+    FOR SELECT
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- INSERT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_category_rules' AND policyname = 'Users can insert their own category rules'
+  ) THEN
+    CREATE POLICY "Users can insert their own category rules"
+    ON public.poupeja_category_rules
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  -- UPDATE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_category_rules' AND policyname = 'Users can update their own category rules'
+  ) THEN
+    CREATE POLICY "Users can update their own category rules"
+    ON public.poupeja_category_rules
+    FOR UPDATE
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- DELETE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_category_rules' AND policyname = 'Users can delete their own category rules'
+  ) THEN
+    CREATE POLICY "Users can delete their own category rules"
+    ON public.poupeja_category_rules
+    FOR DELETE
+    USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- Trigger para updated_at
+DROP TRIGGER IF EXISTS update_poupeja_category_rules_updated_at ON public.poupeja_category_rules;
+CREATE TRIGGER update_poupeja_category_rules_updated_at
+  BEFORE UPDATE ON public.poupeja_category_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
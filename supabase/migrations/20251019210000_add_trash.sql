@@ -0,0 +1,67 @@
+-- Lixeira: transações e compras de cartão excluídas ficam guardadas por 30 dias e podem
+-- ser restauradas. O registro original é removido (faturas, limites e metas continuam
+-- calculados só com o que existe) e o snapshot vai para data:
+--   { "row": {...}, "splits": [...], "attachmentIds": [...] }
+-- Os comprovantes ficam sem dono até a restauração ou a remoção definitiva.
+
+CREATE TABLE IF NOT EXISTS public.poupeja_trash (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  item_type TEXT NOT NULL CHECK (item_type IN ('transaction', 'purchase')),
+  item_id UUID NOT NULL,
+  data JSONB NOT NULL,
+  deleted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT (now() + INTERVAL '30 days')
+);
+
+CREATE INDEX IF NOT EXISTS idx_trash_user_deleted_at
+  ON public.poupeja_trash(user_id, deleted_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_trash_item
+  ON public.poupeja_trash(item_type, item_id);
+
+-- Enable RLS
+ALTER TABLE public.poupeja_trash ENABLE ROW LEVEL SECURITY;
+
+-- Policies
+DO $$ BEGIN
+  -- SELECT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_trash' AND policyname = 'Users can view their own trash'
+  ) THEN
+    CREATE POLICY "Users can view their own trash"
+    ON public.poupeja_trash
+    FOR SELECT
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- INSERT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_trash' AND policyname = 'Users can insert their own trash'
+  ) THEN
+    CREATE POLICY "Users can insert their own trash"
+    ON public.poupeja_trash
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  -- UPDATE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_trash' AND policyname = 'Users can update their own trash'
+  ) THEN
+    CREATE POLICY "Users can update their own trash"
+    ON public.poupeja_trash
+    FOR UPDATE
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- DELETE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_trash' AND policyname = 'Users can delete their own trash'
+  ) THEN
+    CREATE POLICY "Users can delete their own trash"
+    ON public.poupeja_trash
+    FOR DELETE
+    USING (auth.uid() = user_id);
+  END IF;
+END $$;
@@ -0,0 +1,167 @@
+-- Histórico de alterações dos registros financeiros do usuário, no mesmo modelo de
+-- poupeja_settings_history: cada INSERT/UPDATE/DELETE em transações, agendamentos, metas,
+-- compras e pagamentos de cartão gera uma linha com o antes/depois e a origem da mudança.
+--
+-- Origem (source):
+--   web    — usuário autenticado (app, RPCs e funções chamadas com o token do usuário)
+--   n8n    — função create-transaction (envia o header x-audit-source: n8n)
+--   admin  — ferramentas administrativas (fix-credit-card-transactions)
+--   system — triggers e rotinas sem usuário nem header de origem
+
+-- 1. TABELA DE HISTÓRICO
+-- ========================================================================
+CREATE TABLE IF NOT EXISTS public.poupeja_record_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Dono do registro (compras e pagamentos: dono do cartão)
+  user_id UUID NOT NULL,
+  record_type TEXT NOT NULL CHECK (record_type IN ('transaction', 'scheduled_transaction', 'goal', 'purchase', 'payment')),
+  -- Sem FK: o histórico continua disponível depois que o registro é excluído
+  record_id UUID NOT NULL,
+  -- Cartão da compra/pagamento, para a linha do tempo do cartão
+  card_id UUID,
+  old_data JSONB,
+  new_data JSONB,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'web' CHECK (source IN ('web', 'n8n', 'admin', 'system')),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  action TEXT NOT NULL CHECK (action IN ('CREATE', 'UPDATE', 'DELETE'))
+);
+
+-- 2. ÍNDICES
+-- ========================================================================
+CREATE INDEX IF NOT EXISTS idx_record_history_record
+  ON public.poupeja_record_history(record_type, record_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_record_history_card
+  ON public.poupeja_record_history(card_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_record_history_user_changed_at
+  ON public.poupeja_record_history(user_id, changed_at);
+
+-- 3. RLS (somente leitura: as linhas são gravadas pelo trigger)
+-- ========================================================================
+ALTER TABLE public.poupeja_record_history ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_record_history' AND policyname = 'Users can view their own record history'
+  ) THEN
+    CREATE POLICY "Users can view their own record history"
+    ON public.poupeja_record_history
+    FOR SELECT
+    USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_record_history' AND policyname = 'Admins can view all record history'
+  ) THEN
+    CREATE POLICY "Admins can view all record history"
+    ON public.poupeja_record_history
+    FOR SELECT
+    USING (public.is_admin());
+  END IF;
+END $$;
+
+-- 4. TRIGGER DE AUDITORIA
+-- ========================================================================
+-- TG_ARGV[0] é o record_type da tabela
+CREATE OR REPLACE FUNCTION public.audit_record_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_record_type TEXT := TG_ARGV[0];
+  v_old JSONB;
+  v_new JSONB;
+  v_row JSONB;
+  v_card_id UUID;
+  v_user_id UUID;
+  v_headers JSONB;
+  v_source TEXT;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+  v_row := COALESCE(v_new, v_old);
+
+  -- Só mudanças reais: um UPDATE que só mexe em updated_at não entra no histórico
+  IF TG_OP = 'UPDATE' AND (v_old - 'updated_at') = (v_new - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_record_type = 'purchase' THEN
+    v_card_id := (v_row->>'card_id')::UUID;
+  ELSIF v_record_type = 'payment' THEN
+    SELECT card_id INTO v_card_id
+    FROM public.credit_card_bills
+    WHERE id = (v_row->>'bill_id')::UUID;
+  END IF;
+
+  IF v_record_type IN ('purchase', 'payment') THEN
+    SELECT user_id INTO v_user_id
+    FROM public.credit_cards
+    WHERE id = v_card_id;
+  ELSE
+    v_user_id := (v_row->>'user_id')::UUID;
+  END IF;
+
+  -- Cartão já excluído (exclusão em cascata): o dono é quem está excluindo
+  v_user_id := COALESCE(v_user_id, auth.uid());
+  IF v_user_id IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- O header de origem só vale para chamadas sem usuário (service role)
+  IF auth.uid() IS NOT NULL THEN
+    v_source := 'web';
+  ELSE
+    v_headers := NULLIF(current_setting('request.headers', true), '')::JSONB;
+    v_source := COALESCE(v_headers->>'x-audit-source', 'system');
+    IF v_source NOT IN ('n8n', 'admin', 'system') THEN
+      v_source := 'system';
+    END IF;
+  END IF;
+
+  INSERT INTO public.poupeja_record_history (
+    user_id, record_type, record_id, card_id, old_data, new_data, changed_by, source, action
+  ) VALUES (
+    v_user_id,
+    v_record_type,
+    (v_row->>'id')::UUID,
+    v_card_id,
+    v_old,
+    v_new,
+    auth.uid(),
+    v_source,
+    CASE TG_OP WHEN 'INSERT' THEN 'CREATE' WHEN 'UPDATE' THEN 'UPDATE' ELSE 'DELETE' END
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS audit_poupeja_transactions_changes ON public.poupeja_transactions;
+CREATE TRIGGER audit_poupeja_transactions_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.poupeja_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.audit_record_changes('transaction');
+
+DROP TRIGGER IF EXISTS audit_poupeja_scheduled_transactions_changes ON public.poupeja_scheduled_transactions;
+CREATE TRIGGER audit_poupeja_scheduled_transactions_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.poupeja_scheduled_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.audit_record_changes('scheduled_transaction');
+
+DROP TRIGGER IF EXISTS audit_poupeja_goals_changes ON public.poupeja_goals;
+CREATE TRIGGER audit_poupeja_goals_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.poupeja_goals
+  FOR EACH ROW EXECUTE FUNCTION public.audit_record_changes('goal');
+
+DROP TRIGGER IF EXISTS audit_credit_card_purchases_changes ON public.credit_card_purchases;
+CREATE TRIGGER audit_credit_card_purchases_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.credit_card_purchases
+  FOR EACH ROW EXECUTE FUNCTION public.audit_record_changes('purchase');
+
+DROP TRIGGER IF EXISTS audit_credit_card_payments_changes ON public.credit_card_payments;
+CREATE TRIGGER audit_credit_card_payments_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.credit_card_payments
+  FOR EACH ROW EXECUTE FUNCTION public.audit_record_changes('payment');
+
+COMMENT ON TABLE public.poupeja_record_history IS 'Histórico de mudanças em transações, agendamentos, metas e compras/pagamentos de cartão';
@@ -0,0 +1,173 @@
+-- Multimoeda: cada conta tem a sua moeda e cada transação guarda a moeda em que foi feita,
+-- a moeda base do usuário no momento do lançamento e a cotação usada na conversão
+-- (valor na moeda base = amount * exchange_rate). Contas e transações antigas ficam na moeda
+-- preferida do usuário (poupeja_users.preferred_currency, BRL quando não há) com cotação 1.
+-- As cotações ficam em poupeja_exchange_rates: linhas com user_id são do usuário e linhas
+-- sem user_id são globais, mantidas pelos administradores.
+
+DO $$
+DECLARE
+  new_columns BOOLEAN := NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'poupeja_transactions' AND column_name = 'currency'
+  );
+BEGIN
+  ALTER TABLE public.poupeja_accounts
+    ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'BRL';
+
+  ALTER TABLE public.poupeja_transactions
+    ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'BRL',
+    ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+    ADD COLUMN IF NOT EXISTS base_currency TEXT NOT NULL DEFAULT 'BRL';
+
+  -- Só na primeira execução: os lançamentos existentes foram feitos na moeda preferida
+  IF new_columns AND EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'poupeja_users' AND column_name = 'preferred_currency'
+  ) THEN
+    UPDATE public.poupeja_accounts a
+    SET currency = u.preferred_currency
+    FROM public.poupeja_users u
+    WHERE u.id = a.user_id AND u.preferred_currency IS NOT NULL AND u.preferred_currency <> 'BRL';
+
+    UPDATE public.poupeja_transactions t
+    SET currency = u.preferred_currency, base_currency = u.preferred_currency
+    FROM public.poupeja_users u
+    WHERE u.id = t.user_id AND u.preferred_currency IS NOT NULL AND u.preferred_currency <> 'BRL';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.poupeja_exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  rate_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (from_currency <> to_currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair_date
+  ON public.poupeja_exchange_rates(from_currency, to_currency, rate_date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_user
+  ON public.poupeja_exchange_rates(user_id);
+
+-- Enable RLS
+ALTER TABLE public.poupeja_exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Policies
+DO $$ BEGIN
+  -- SELECT: próprias cotações e as globais
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_exchange_rates' AND policyname = 'Users can view their own and global exchange rates'
+  ) THEN
+    CREATE POLICY "Users can view their own and global exchange rates"
+    ON public.poupeja_exchange_rates
+    FOR SELECT
+    USING (user_id IS NULL OR auth.uid() = user_id);
+  END IF;
+
+  -- INSERT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_exchange_rates' AND policyname = 'Users can insert their own exchange rates'
+  ) THEN
+    CREATE POLICY "Users can insert their own exchange rates"
+    ON public.poupeja_exchange_rates
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  -- UPDATE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_exchange_rates' AND policyname = 'Users can update their own exchange rates'
+  ) THEN
+    CREATE POLICY "Users can update their own exchange rates"
+    ON public.poupeja_exchange_rates
+    FOR UPDATE
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- DELETE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_exchange_rates' AND policyname = 'Users can delete their own exchange rates'
+  ) THEN
+    CREATE POLICY "Users can delete their own exchange rates"
+    ON public.poupeja_exchange_rates
+    FOR DELETE
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- Cotações globais: só administradores
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_exchange_rates' AND policyname = 'Admins can manage global exchange rates'
+  ) THEN
+    CREATE POLICY "Admins can manage global exchange rates"
+    ON public.poupeja_exchange_rates
+    FOR ALL
+    USING (user_id IS NULL AND public.is_admin())
+    WITH CHECK (user_id IS NULL AND public.is_admin());
+  END IF;
+END $$;
+
+-- Cotação para converter 1 from_currency_param em to_currency_param numa data, com as mesmas
+-- regras do app (findExchangeRate em src/services/exchangeRateService.ts): a mais recente até a
+-- data (a mais antiga quando todas são posteriores), direta ou invertida. As cotações do
+-- usuário valem mais que as globais do mesmo dia. NULL quando não há cotação
+CREATE OR REPLACE FUNCTION public.find_exchange_rate(
+  from_currency_param TEXT,
+  to_currency_param TEXT,
+  on_date DATE
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN from_currency_param = to_currency_param THEN 1 ELSE (
+    SELECT CASE WHEN r.from_currency = from_currency_param THEN r.rate ELSE 1 / r.rate END
+    FROM public.poupeja_exchange_rates r
+    WHERE ((r.from_currency = from_currency_param AND r.to_currency = to_currency_param)
+        OR (r.from_currency = to_currency_param AND r.to_currency = from_currency_param))
+      AND (r.user_id IS NULL OR r.user_id = auth.uid())
+    ORDER BY
+      (r.rate_date <= on_date) DESC,
+      CASE WHEN r.rate_date <= on_date THEN r.rate_date END DESC,
+      r.rate_date ASC,
+      (r.user_id IS NULL) ASC,
+      r.created_at DESC
+    LIMIT 1
+  ) END;
+$$;
+
+-- Troca da moeda base: grava em cada transação do usuário a cotação para a nova moeda, numa
+-- única atualização no banco. As que não têm cotação conhecida mantêm a conversão anterior
+-- e são contadas em missing_count
+CREATE OR REPLACE FUNCTION public.rebase_transactions(new_base_currency TEXT)
+RETURNS TABLE (updated_count INTEGER, missing_count INTEGER)
+LANGUAGE sql
+VOLATILE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH rates AS (
+    SELECT t.id, public.find_exchange_rate(t.currency, new_base_currency, t.date::date) AS rate
+    FROM public.poupeja_transactions t
+    WHERE t.user_id = auth.uid() AND t.base_currency <> new_base_currency
+  ),
+  changed AS (
+    UPDATE public.poupeja_transactions t
+    SET exchange_rate = r.rate, base_currency = new_base_currency
+    FROM rates r
+    WHERE t.id = r.id AND r.rate IS NOT NULL
+    RETURNING t.id
+  )
+  SELECT
+    (SELECT COUNT(*) FROM changed)::INTEGER,
+    (SELECT COUNT(*) FROM rates WHERE rate IS NULL)::INTEGER;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rebase_transactions(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rebase_transactions(TEXT) TO authenticated;
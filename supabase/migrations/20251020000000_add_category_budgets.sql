@@ -0,0 +1,69 @@
+-- Orçamentos mensais por categoria de despesa: o valor planejado vale para todos os meses
+-- e é comparado no app com o gasto real e o comprometido (agendamentos e faturas em aberto).
+
+CREATE TABLE IF NOT EXISTS public.poupeja_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  category_id UUID NOT NULL REFERENCES public.poupeja_categories(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Um orçamento por categoria
+  UNIQUE (user_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_budgets_user
+  ON public.poupeja_budgets(user_id);
+
+-- Enable RLS
+ALTER TABLE public.poupeja_budgets ENABLE ROW LEVEL SECURITY;
+
+-- Policies
+DO $$ BEGIN
+  -- SELECT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_budgets' AND policyname = 'Users can view their own budgets'
+  ) THEN
+    CREATE POLICY "Users can view their own budgets"
+    ON public.poupeja_budgets
+    FOR SELECT
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- INSERT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_budgets' AND policyname = 'Users can insert their own budgets'
+  ) THEN
+    CREATE POLICY "Users can insert their own budgets"
+    ON public.poupeja_budgets
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  -- UPDATE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_budgets' AND policyname = 'Users can update their own budgets'
+  ) THEN
+    CREATE POLICY "Users can update their own budgets"
+    ON public.poupeja_budgets
+    FOR UPDATE
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- DELETE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_budgets' AND policyname = 'Users can delete their own budgets'
+  ) THEN
+    CREATE POLICY "Users can delete their own budgets"
+    ON public.poupeja_budgets
+    FOR DELETE
+    USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- Trigger para updated_at
+DROP TRIGGER IF EXISTS update_poupeja_budgets_updated_at ON public.poupeja_budgets;
+CREATE TRIGGER update_poupeja_budgets_updated_at
+  BEFORE UPDATE ON public.poupeja_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
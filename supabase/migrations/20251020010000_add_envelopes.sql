@@ -0,0 +1,82 @@
+-- Modo envelope (orçamento base zero): a receita do mês é distribuída entre envelopes
+-- (categorias de despesa), os gastos da categoria consomem o envelope e a sobra do mês
+-- passa para o mês seguinte ou é transferida para uma meta no fechamento do mês.
+
+CREATE TABLE IF NOT EXISTS public.poupeja_envelopes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  category_id UUID NOT NULL REFERENCES public.poupeja_categories(id) ON DELETE CASCADE,
+  -- Primeiro dia do mês da distribuição
+  month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  allocated NUMERIC NOT NULL DEFAULT 0 CHECK (allocated >= 0),
+  -- O que fazer com a sobra no fim do mês
+  leftover_action TEXT NOT NULL DEFAULT 'rollover' CHECK (leftover_action IN ('rollover', 'sweep')),
+  goal_id UUID REFERENCES public.poupeja_goals(id) ON DELETE SET NULL,
+  -- Valor já transferido para a meta (preenchido no fechamento do mês)
+  swept_amount NUMERIC NOT NULL DEFAULT 0,
+  swept_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, category_id, month),
+  CHECK (leftover_action = 'rollover' OR goal_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_envelopes_user_month
+  ON public.poupeja_envelopes(user_id, month);
+
+CREATE INDEX IF NOT EXISTS idx_envelopes_goal
+  ON public.poupeja_envelopes(goal_id)
+  WHERE goal_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.poupeja_envelopes ENABLE ROW LEVEL SECURITY;
+
+-- Policies
+DO $$ BEGIN
+  -- SELECT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_envelopes' AND policyname = 'Users can view their own envelopes'
+  ) THEN
+    CREATE POLICY "Users can view their own envelopes"
+    ON public.poupeja_envelopes
+    FOR SELECT
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- INSERT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_envelopes' AND policyname = 'Users can insert their own envelopes'
+  ) THEN
+    CREATE POLICY "Users can insert their own envelopes"
+    ON public.poupeja_envelopes
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  -- UPDATE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_envelopes' AND policyname = 'Users can update their own envelopes'
+  ) THEN
+    CREATE POLICY "Users can update their own envelopes"
+    ON public.poupeja_envelopes
+    FOR UPDATE
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- DELETE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_envelopes' AND policyname = 'Users can delete their own envelopes'
+  ) THEN
+    CREATE POLICY "Users can delete their own envelopes"
+    ON public.poupeja_envelopes
+    FOR DELETE
+    USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- Trigger para updated_at
+DROP TRIGGER IF EXISTS update_poupeja_envelopes_updated_at ON public.poupeja_envelopes;
+CREATE TRIGGER update_poupeja_envelopes_updated_at
+  BEFORE UPDATE ON public.poupeja_envelopes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,30 @@
+-- Regras de recorrência no estilo RRULE para os agendamentos: a coluna recurrence continua
+-- sendo a frequência (once, daily, weekly, monthly, yearly) e as novas colunas detalham o
+-- intervalo, os dias da semana, o dia do mês, a posição (ex.: 5º dia útil) e o fim da série.
+
+ALTER TABLE public.poupeja_scheduled_transactions
+  -- A cada N dias/semanas/meses/anos
+  ADD COLUMN IF NOT EXISTS recurrence_interval INTEGER NOT NULL DEFAULT 1 CHECK (recurrence_interval >= 1),
+  -- Dias da semana (0 = domingo ... 6 = sábado)
+  ADD COLUMN IF NOT EXISTS recurrence_by_weekday INTEGER[],
+  -- Dia do mês (1 a 31, ou -1 para o último dia); meses mais curtos usam o último dia
+  ADD COLUMN IF NOT EXISTS recurrence_by_month_day INTEGER CHECK (
+    recurrence_by_month_day IS NULL OR recurrence_by_month_day = -1 OR recurrence_by_month_day BETWEEN 1 AND 31
+  ),
+  -- N-ésimo dia do mês entre os dias da semana escolhidos (5 com seg-sex = 5º dia útil, -1 = último)
+  ADD COLUMN IF NOT EXISTS recurrence_by_set_pos INTEGER CHECK (
+    recurrence_by_set_pos IS NULL OR recurrence_by_set_pos = -1 OR recurrence_by_set_pos BETWEEN 1 AND 23
+  ),
+  -- Fim da série: data limite ou quantidade de ocorrências
+  ADD COLUMN IF NOT EXISTS recurrence_until DATE,
+  ADD COLUMN IF NOT EXISTS recurrence_count INTEGER CHECK (recurrence_count IS NULL OR recurrence_count >= 1),
+  -- Posição desta ocorrência na série (1 = primeira)
+  ADD COLUMN IF NOT EXISTS occurrence_number INTEGER NOT NULL DEFAULT 1;
+
+-- Agendamentos mensais e anuais existentes passam a repetir no dia original, em vez de
+-- escorregar para o dia 28 depois de passar por fevereiro
+UPDATE public.poupeja_scheduled_transactions
+SET recurrence_by_month_day = EXTRACT(DAY FROM scheduled_date)::INTEGER
+WHERE recurrence IN ('monthly', 'yearly')
+  AND recurrence_by_month_day IS NULL
+  AND recurrence_by_set_pos IS NULL;
@@ -0,0 +1,63 @@
+-- Processamento diário dos agendamentos no servidor (função materialize-scheduled-transactions):
+-- as séries recorrentes avançam mesmo sem o app aberto, os vencidos viram "overdue" e os
+-- agendamentos em débito automático são lançados como transação no dia do vencimento.
+
+DO $$
+DECLARE
+  new_columns BOOLEAN := NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'poupeja_scheduled_transactions' AND column_name = 'series_id'
+  );
+BEGIN
+  ALTER TABLE public.poupeja_scheduled_transactions
+    -- Lançado automaticamente no vencimento, sem precisar marcar como pago
+    ADD COLUMN IF NOT EXISTS auto_debit BOOLEAN NOT NULL DEFAULT false,
+    -- Ocorrências da mesma série recorrente compartilham o series_id
+    ADD COLUMN IF NOT EXISTS series_id UUID NOT NULL DEFAULT gen_random_uuid();
+
+  -- Só na primeira execução: antes, marcar como pago criava a próxima ocorrência como uma
+  -- cópia (mesmo usuário, tipo, descrição, categoria e recorrência). Cada cadeia dessas vira
+  -- uma série, numerada pela data, para "esta e as seguintes" e "todas" alcançarem as outras
+  IF new_columns THEN
+    WITH chains AS (
+      SELECT
+        id,
+        FIRST_VALUE(series_id) OVER chain AS chain_series_id,
+        ROW_NUMBER() OVER chain AS position
+      FROM public.poupeja_scheduled_transactions
+      WHERE recurrence IS NOT NULL AND recurrence <> 'once'
+      WINDOW chain AS (
+        PARTITION BY user_id, type, description, category_id, recurrence
+        ORDER BY scheduled_date, created_at, id
+      )
+    )
+    UPDATE public.poupeja_scheduled_transactions s
+    SET series_id = chains.chain_series_id, occurrence_number = chains.position
+    FROM chains
+    WHERE chains.id = s.id;
+  END IF;
+END $$;
+
+-- Cada ocorrência de uma série existe uma única vez: o app (marcar como pago) e a função
+-- podem criar a próxima ocorrência sem duplicá-la
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_transactions_series_occurrence
+  ON public.poupeja_scheduled_transactions(series_id, occurrence_number);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_transactions_open_date
+  ON public.poupeja_scheduled_transactions(scheduled_date)
+  WHERE status IS NULL OR status IN ('pending', 'upcoming', 'overdue');
+
+-- Agendamento diário (requer as extensões pg_cron e pg_net; substitua a URL do projeto e a
+-- service role key antes de executar):
+--
+-- SELECT cron.schedule(
+--   'materialize-scheduled-transactions',
+--   '15 3 * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/materialize-scheduled-transactions',
+--     headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer <service-role-key>'),
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
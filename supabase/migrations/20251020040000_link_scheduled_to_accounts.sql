@@ -0,0 +1,29 @@
+-- Agendamentos podem indicar de onde sai (ou para onde vai) o dinheiro: uma conta ou,
+-- para despesas, um cartão de crédito. Ao pagar, a transação é lançada na conta ou vira
+-- uma compra na fatura do cartão.
+
+ALTER TABLE public.poupeja_scheduled_transactions
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.poupeja_accounts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS credit_card_id UUID REFERENCES public.credit_cards(id) ON DELETE SET NULL;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'poupeja_scheduled_transactions_payment_source_check'
+  ) THEN
+    -- Conta ou cartão, nunca os dois; cartão só para despesas
+    ALTER TABLE public.poupeja_scheduled_transactions
+      ADD CONSTRAINT poupeja_scheduled_transactions_payment_source_check
+      CHECK (
+        (account_id IS NULL OR credit_card_id IS NULL)
+        AND (credit_card_id IS NULL OR type = 'expense')
+      );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_transactions_account
+  ON public.poupeja_scheduled_transactions(account_id)
+  WHERE account_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_transactions_credit_card
+  ON public.poupeja_scheduled_transactions(credit_card_id)
+  WHERE credit_card_id IS NOT NULL;
@@ -0,0 +1,12 @@
+-- Exceções por ocorrência em séries recorrentes: pular uma ocorrência (status 'skipped'),
+-- mudar a data ou o valor só daquela vez. A ocorrência guarda a data e o valor da série,
+-- e as próximas ocorrências continuam a partir deles, não da exceção.
+
+ALTER TABLE public.poupeja_scheduled_transactions
+  -- Data que a regra dava para a ocorrência, quando ela foi remarcada
+  ADD COLUMN IF NOT EXISTS original_date DATE,
+  -- Valor da série, quando só esta ocorrência tem outro valor
+  ADD COLUMN IF NOT EXISTS original_amount NUMERIC;
+
+COMMENT ON COLUMN public.poupeja_scheduled_transactions.status IS
+  'pending, upcoming, overdue, paid ou skipped (ocorrência pulada, sem lançamento)';
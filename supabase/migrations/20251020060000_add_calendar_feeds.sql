@@ -0,0 +1,49 @@
+-- Feed iCalendar (.ics) dos agendamentos, vencimentos de faturas e prazos de metas
+-- (função calendar-feed). Google/Apple Calendar assinam a URL com o token, sem login: quem
+-- tem o token lê a agenda do usuário, por isso ele pode ser trocado ou revogado no perfil.
+
+CREATE TABLE IF NOT EXISTS public.poupeja_calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE,
+  -- 64 caracteres hexadecimais aleatórios (dois UUID v4, sem depender do pgcrypto)
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Último acesso de um aplicativo de calendário
+  last_accessed_at TIMESTAMPTZ
+);
+
+-- Enable RLS
+ALTER TABLE public.poupeja_calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Policies (a função lê o token com a service role; trocar o token = excluir e criar outro)
+DO $$ BEGIN
+  -- SELECT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_calendar_feeds' AND policyname = 'Users can view their own calendar feed'
+  ) THEN
+    CREATE POLICY "Users can view their own calendar feed"
+    ON public.poupeja_calendar_feeds
+    FOR SELECT
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- INSERT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_calendar_feeds' AND policyname = 'Users can insert their own calendar feed'
+  ) THEN
+    CREATE POLICY "Users can insert their own calendar feed"
+    ON public.poupeja_calendar_feeds
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  -- DELETE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_calendar_feeds' AND policyname = 'Users can delete their own calendar feed'
+  ) THEN
+    CREATE POLICY "Users can delete their own calendar feed"
+    ON public.poupeja_calendar_feeds
+    FOR DELETE
+    USING (auth.uid() = user_id);
+  END IF;
+END $$;
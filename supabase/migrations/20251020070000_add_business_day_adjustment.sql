@@ -0,0 +1,203 @@
+-- Dias úteis: boletos e faturas que vencem em fim de semana ou feriado podem ser pagos no
+-- próximo dia útil. Feriados nacionais são calculados (incluindo os móveis, a partir da
+-- Páscoa) e o usuário cadastra os municipais/estaduais em poupeja_holidays.
+-- O app calcula o mesmo em src/utils/holidayUtils.ts: mantenha os dois em sincronia.
+
+CREATE TABLE IF NOT EXISTS public.poupeja_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  holiday_date DATE NOT NULL,
+  name TEXT NOT NULL,
+  -- Repete todo ano no mesmo dia (ex.: aniversário da cidade)
+  recurring BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT poupeja_holidays_user_date_key UNIQUE (user_id, holiday_date)
+);
+
+-- Enable RLS
+ALTER TABLE public.poupeja_holidays ENABLE ROW LEVEL SECURITY;
+
+-- Policies
+DO $$ BEGIN
+  -- SELECT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_holidays' AND policyname = 'Users can view their own holidays'
+  ) THEN
+    CREATE POLICY "Users can view their own holidays"
+    ON public.poupeja_holidays
+    FOR SELECT
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- INSERT
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_holidays' AND policyname = 'Users can insert their own holidays'
+  ) THEN
+    CREATE POLICY "Users can insert their own holidays"
+    ON public.poupeja_holidays
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  -- DELETE
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'poupeja_holidays' AND policyname = 'Users can delete their own holidays'
+  ) THEN
+    CREATE POLICY "Users can delete their own holidays"
+    ON public.poupeja_holidays
+    FOR DELETE
+    USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- O que fazer quando o vencimento cai em dia não útil: 'none' (manter a data), 'next'
+-- (próximo dia útil) ou 'previous' (dia útil anterior, ex.: salário)
+ALTER TABLE public.poupeja_scheduled_transactions
+  ADD COLUMN IF NOT EXISTS business_day_adjustment TEXT NOT NULL DEFAULT 'none';
+
+-- Faturas de cartão vencidas em dia não útil são pagas sem encargos no próximo dia útil
+ALTER TABLE public.credit_cards
+  ADD COLUMN IF NOT EXISTS business_day_adjustment TEXT NOT NULL DEFAULT 'next';
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'poupeja_scheduled_transactions_business_day_adjustment_check'
+  ) THEN
+    ALTER TABLE public.poupeja_scheduled_transactions
+      ADD CONSTRAINT poupeja_scheduled_transactions_business_day_adjustment_check
+      CHECK (business_day_adjustment IN ('none', 'next', 'previous'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'credit_cards_business_day_adjustment_check'
+  ) THEN
+    ALTER TABLE public.credit_cards
+      ADD CONSTRAINT credit_cards_business_day_adjustment_check
+      CHECK (business_day_adjustment IN ('none', 'next', 'previous'));
+  END IF;
+END $$;
+
+-- Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher)
+CREATE OR REPLACE FUNCTION public.easter_sunday(year_val INTEGER)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+AS $function$
+DECLARE
+  a INTEGER := year_val % 19;
+  b INTEGER := year_val / 100;
+  c INTEGER := year_val % 100;
+  d INTEGER := b / 4;
+  e INTEGER := b % 4;
+  f INTEGER := (b + 8) / 25;
+  g INTEGER := (b - f + 1) / 3;
+  h INTEGER := (19 * a + b - d - g + 15) % 30;
+  i INTEGER := c / 4;
+  k INTEGER := c % 4;
+  l INTEGER := (32 + 2 * e + 2 * i - h - k) % 7;
+  m INTEGER := (a + 11 * h + 22 * l) / 451;
+BEGIN
+  RETURN make_date(year_val, (h + l - 7 * m + 114) / 31, ((h + l - 7 * m + 114) % 31) + 1);
+END;
+$function$;
+
+-- Fim de semana, feriado nacional (inclusive Carnaval, Sexta-feira Santa e Corpus Christi,
+-- em que os bancos não abrem) ou feriado cadastrado pelo usuário
+CREATE OR REPLACE FUNCTION public.is_business_day(day DATE, user_id_param UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $function$
+DECLARE
+  easter DATE := public.easter_sunday(EXTRACT(YEAR FROM day)::INTEGER);
+BEGIN
+  IF EXTRACT(ISODOW FROM day) IN (6, 7) THEN
+    RETURN false;
+  END IF;
+
+  IF to_char(day, 'MM-DD') IN ('01-01', '04-21', '05-01', '09-07', '10-12', '11-02', '11-15', '12-25') THEN
+    RETURN false;
+  END IF;
+
+  -- Consciência Negra é feriado nacional desde 2024
+  IF to_char(day, 'MM-DD') = '11-20' AND EXTRACT(YEAR FROM day) >= 2024 THEN
+    RETURN false;
+  END IF;
+
+  IF day IN (easter - 48, easter - 47, easter - 2, easter + 60) THEN
+    RETURN false;
+  END IF;
+
+  RETURN NOT EXISTS (
+    SELECT 1 FROM poupeja_holidays
+    WHERE user_id = user_id_param
+    AND (
+      holiday_date = day
+      OR (recurring AND to_char(holiday_date, 'MM-DD') = to_char(day, 'MM-DD'))
+    )
+  );
+END;
+$function$;
+
+-- Data de vencimento efetiva segundo o ajuste ('none', 'next' ou 'previous')
+CREATE OR REPLACE FUNCTION public.adjust_to_business_day(day DATE, adjustment TEXT, user_id_param UUID)
+RETURNS DATE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $function$
+DECLARE
+  result DATE := day;
+  step INTEGER := CASE adjustment WHEN 'next' THEN 1 WHEN 'previous' THEN -1 ELSE 0 END;
+BEGIN
+  IF step = 0 OR user_id_param IS NULL THEN
+    RETURN day;
+  END IF;
+
+  -- Nenhuma sequência de dias não úteis passa de duas semanas
+  FOR attempt IN 1..14 LOOP
+    EXIT WHEN public.is_business_day(result, user_id_param);
+    result := result + step;
+  END LOOP;
+
+  RETURN result;
+END;
+$function$;
+
+-- Toda fatura criada (pela função auto_generate_credit_card_bills ou pelo app) já nasce com
+-- o vencimento no dia útil, conforme o ajuste do cartão
+CREATE OR REPLACE FUNCTION public.adjust_credit_card_bill_due_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+DECLARE
+  card_record RECORD;
+BEGIN
+  SELECT user_id, business_day_adjustment INTO card_record FROM credit_cards WHERE id = NEW.card_id;
+  IF FOUND THEN
+    NEW.due_date := public.adjust_to_business_day(NEW.due_date, card_record.business_day_adjustment, card_record.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS adjust_credit_card_bill_due_date ON public.credit_card_bills;
+CREATE TRIGGER adjust_credit_card_bill_due_date
+  BEFORE INSERT ON public.credit_card_bills
+  FOR EACH ROW
+  EXECUTE FUNCTION public.adjust_credit_card_bill_due_date();
+
+-- Faturas em aberto que já existem passam para o dia útil; as marcadas como vencidas por
+-- causa de um vencimento em fim de semana ou feriado voltam a "fechada"
+UPDATE public.credit_card_bills b
+SET due_date = public.adjust_to_business_day(b.due_date, c.business_day_adjustment, c.user_id)
+FROM public.credit_cards c
+WHERE c.id = b.card_id
+AND b.status <> 'paid';
+
+UPDATE public.credit_card_bills
+SET status = 'closed'
+WHERE status = 'overdue'
+AND due_date >= CURRENT_DATE;
@@ -0,0 +1,311 @@
+-- Compras parceladas ("12x sem juros"): cada parcela vai para a fatura do seu mês, a
+-- fatura soma as parcelas (nunca o valor cheio da compra) e o limite é liberado conforme
+-- as faturas com as parcelas são pagas.
+
+-- Primeiro dia do mês de referência da fatura em que entra uma compra feita na data. Mesma
+-- regra de auto_generate_credit_card_bills: depois do dia de fechamento, fatura seguinte
+CREATE OR REPLACE FUNCTION public.credit_card_bill_reference(purchase_date DATE, closing_day INTEGER)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT CASE
+    WHEN EXTRACT(DAY FROM purchase_date) <= closing_day THEN date_trunc('month', purchase_date)::DATE
+    ELSE (date_trunc('month', purchase_date) + INTERVAL '1 month')::DATE
+  END;
+$function$;
+
+-- Compra parcelada nunca fica presa a uma fatura: quem vai para as faturas são as parcelas
+CREATE OR REPLACE FUNCTION public.normalize_credit_card_purchase()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  NEW.is_installment := NEW.installments > 1;
+
+  IF NEW.installments > 1 THEN
+    NEW.bill_id := NULL;
+    NEW.installment_amount := ROUND(NEW.amount / NEW.installments, 2);
+  ELSE
+    NEW.installment_amount := NEW.amount;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS normalize_credit_card_purchase ON public.credit_card_purchases;
+CREATE TRIGGER normalize_credit_card_purchase
+  BEFORE INSERT OR UPDATE ON public.credit_card_purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_credit_card_purchase();
+
+-- Gera (ou refaz) as parcelas em aberto de uma compra. A parcela N entra N-1 faturas depois
+-- da primeira e tem como data o fechamento da sua fatura. Parcelas já pagas ficam como estão
+-- e o restante é dividido entre as demais; os centavos do arredondamento vão para a última.
+-- As parcelas novas ficam sem fatura até auto_generate_credit_card_bills
+CREATE OR REPLACE FUNCTION public.spread_credit_card_installments(purchase_id_param UUID)
+RETURNS void
+LANGUAGE plpgsql
+AS $function$
+DECLARE
+  purchase_record RECORD;
+  card_closing_day INTEGER;
+  first_reference DATE;
+  installment_reference DATE;
+  paid_count INTEGER;
+  paid_total NUMERIC;
+  parcel NUMERIC;
+BEGIN
+  SELECT id, card_id, amount, installments, purchase_date INTO purchase_record
+  FROM credit_card_purchases
+  WHERE id = purchase_id_param;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF purchase_record.installments <= 1 THEN
+    DELETE FROM credit_card_installments WHERE purchase_id = purchase_record.id;
+    RETURN;
+  END IF;
+
+  DELETE FROM credit_card_installments WHERE purchase_id = purchase_record.id AND NOT COALESCE(is_paid, false);
+
+  SELECT COUNT(*), COALESCE(SUM(amount), 0) INTO paid_count, paid_total
+  FROM credit_card_installments
+  WHERE purchase_id = purchase_record.id;
+
+  IF paid_count >= purchase_record.installments THEN
+    RETURN;
+  END IF;
+
+  SELECT closing_day INTO card_closing_day FROM credit_cards WHERE id = purchase_record.card_id;
+  first_reference := public.credit_card_bill_reference(purchase_record.purchase_date, card_closing_day);
+  parcel := ROUND((purchase_record.amount - paid_total) / (purchase_record.installments - paid_count), 2);
+
+  FOR i IN 1..purchase_record.installments LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM credit_card_installments WHERE purchase_id = purchase_record.id AND installment_number = i
+    );
+
+    installment_reference := (first_reference + INTERVAL '1 month' * (i - 1))::DATE;
+
+    INSERT INTO credit_card_installments (purchase_id, installment_number, amount, due_date, bill_id)
+    VALUES (
+      purchase_record.id,
+      i,
+      CASE
+        WHEN i = purchase_record.installments
+          THEN purchase_record.amount - paid_total - parcel * (purchase_record.installments - paid_count - 1)
+        ELSE parcel
+      END,
+      public.safe_make_date(
+        EXTRACT(YEAR FROM installment_reference)::INTEGER,
+        EXTRACT(MONTH FROM installment_reference)::INTEGER,
+        card_closing_day
+      ),
+      NULL
+    );
+  END LOOP;
+END;
+$function$;
+
+-- Refaz as parcelas quando valor, parcelas, data ou cartão da compra mudam
+CREATE OR REPLACE FUNCTION public.generate_installments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.amount = OLD.amount
+    AND NEW.installments = OLD.installments
+    AND NEW.purchase_date = OLD.purchase_date
+    AND NEW.card_id IS NOT DISTINCT FROM OLD.card_id THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.spread_credit_card_installments(NEW.id);
+
+  -- Na criação, trigger_auto_generate_bills_on_purchase coloca as parcelas nas faturas
+  IF TG_OP = 'UPDATE' THEN
+    PERFORM public.auto_generate_credit_card_bills(NEW.card_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS generate_installments_on_purchase ON public.credit_card_purchases;
+CREATE TRIGGER generate_installments_on_purchase
+  AFTER INSERT OR UPDATE OF amount, installments, purchase_date, card_id ON public.credit_card_purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.generate_installments();
+
+-- Totais e status de uma fatura: compras à vista da fatura mais as parcelas que caem nela.
+-- Parcelas de uma fatura paga ficam pagas (e voltam a abertas se um pagamento é removido).
+-- `today` é a data usada para o status (a do processamento, quando chamada por ele)
+CREATE OR REPLACE FUNCTION public.recalculate_credit_card_bill(bill_id_param UUID, today DATE DEFAULT CURRENT_DATE)
+RETURNS void
+LANGUAGE plpgsql
+AS $function$
+DECLARE
+  bill_record RECORD;
+BEGIN
+  UPDATE credit_card_bills
+  SET
+    total_amount = (
+      SELECT COALESCE(SUM(amount), 0)
+      FROM credit_card_purchases
+      WHERE bill_id = bill_id_param
+      AND installments <= 1
+    ) + (
+      SELECT COALESCE(SUM(amount), 0)
+      FROM credit_card_installments
+      WHERE bill_id = bill_id_param
+    ),
+    paid_amount = (
+      SELECT COALESCE(SUM(amount), 0)
+      FROM credit_card_payments
+      WHERE bill_id = bill_id_param
+    ),
+    updated_at = NOW()
+  WHERE id = bill_id_param;
+
+  UPDATE credit_card_bills
+  SET
+    remaining_amount = total_amount - paid_amount,
+    minimum_payment = GREATEST(total_amount * 0.15, 50.00),
+    status = CASE
+      WHEN total_amount - paid_amount <= 0 THEN 'paid'
+      WHEN due_date < today AND total_amount - paid_amount > 0 THEN 'overdue'
+      WHEN closing_date < today THEN 'closed'
+      ELSE 'open'
+    END
+  WHERE id = bill_id_param
+  RETURNING status, payment_date INTO bill_record;
+
+  IF FOUND THEN
+    UPDATE credit_card_installments
+    SET
+      is_paid = bill_record.status = 'paid',
+      payment_date = CASE WHEN bill_record.status = 'paid' THEN COALESCE(bill_record.payment_date, today) END
+    WHERE bill_id = bill_id_param
+    AND COALESCE(is_paid, false) IS DISTINCT FROM (bill_record.status = 'paid');
+  END IF;
+END;
+$function$;
+
+-- Uma parcela ou compra que muda de fatura (antecipação, edição) atualiza as duas faturas
+CREATE OR REPLACE FUNCTION public.update_bill_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.bill_id IS NOT NULL THEN
+      PERFORM public.recalculate_credit_card_bill(NEW.bill_id);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.bill_id IS NOT NULL THEN
+    PERFORM public.recalculate_credit_card_bill(OLD.bill_id);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.bill_id IS NOT NULL AND NEW.bill_id IS DISTINCT FROM OLD.bill_id THEN
+    PERFORM public.recalculate_credit_card_bill(NEW.bill_id);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+-- Limite usado: o que ainda falta pagar das faturas em aberto, mais compras e parcelas que
+-- ainda não têm fatura. Uma compra parcelada ocupa o valor cheio e libera cada parcela
+-- quando a fatura dela é paga.
+CREATE OR REPLACE FUNCTION public.update_credit_card_limits(card_id_param UUID)
+RETURNS void
+LANGUAGE plpgsql
+AS $function$
+DECLARE
+  used NUMERIC := 0;
+BEGIN
+  SELECT
+    (
+      SELECT COALESCE(SUM(GREATEST(remaining_amount, 0)), 0)
+      FROM credit_card_bills
+      WHERE card_id = card_id_param
+      AND status <> 'paid'
+    ) + (
+      SELECT COALESCE(SUM(amount), 0)
+      FROM credit_card_purchases
+      WHERE card_id = card_id_param
+      AND bill_id IS NULL
+      AND installments <= 1
+    ) + (
+      SELECT COALESCE(SUM(ci.amount), 0)
+      FROM credit_card_installments ci
+      JOIN credit_card_purchases cp ON cp.id = ci.purchase_id
+      WHERE cp.card_id = card_id_param
+      AND ci.bill_id IS NULL
+      AND NOT COALESCE(ci.is_paid, false)
+    )
+  INTO used;
+
+  UPDATE credit_cards
+  SET
+    used_limit = used,
+    available_limit = GREATEST(0, total_limit - used),
+    updated_at = now()
+  WHERE id = card_id_param;
+END;
+$function$;
+
+-- Pagamentos e mudanças nas faturas também mexem no limite
+CREATE OR REPLACE FUNCTION public.update_card_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF COALESCE(NEW.card_id, OLD.card_id) IS NOT NULL THEN
+    PERFORM public.update_credit_card_limits(COALESCE(NEW.card_id, OLD.card_id));
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+-- Dados existentes: parcelas de faturas já pagas ficam pagas, as compras parceladas saem das
+-- faturas (quem vai para elas são as parcelas) e têm as parcelas em aberto refeitas, uma por
+-- fatura. Depois as faturas e os limites de cada cartão são recalculados
+UPDATE public.credit_card_installments ci
+SET is_paid = true, payment_date = COALESCE(b.payment_date, b.updated_at::DATE)
+FROM public.credit_card_bills b
+WHERE b.id = ci.bill_id
+AND b.status = 'paid'
+AND NOT COALESCE(ci.is_paid, false);
+
+UPDATE public.credit_card_purchases
+SET bill_id = NULL
+WHERE installments > 1 AND bill_id IS NOT NULL;
+
+DO $$
+DECLARE
+  purchase_record RECORD;
+  card_record RECORD;
+  bill_record RECORD;
+BEGIN
+  FOR purchase_record IN SELECT id FROM public.credit_card_purchases WHERE installments > 1 OR is_installment LOOP
+    PERFORM public.spread_credit_card_installments(purchase_record.id);
+  END LOOP;
+
+  FOR card_record IN SELECT id FROM public.credit_cards LOOP
+    PERFORM public.auto_generate_credit_card_bills(card_record.id);
+
+    FOR bill_record IN SELECT id FROM public.credit_card_bills WHERE card_id = card_record.id LOOP
+      PERFORM public.recalculate_credit_card_bill(bill_record.id);
+    END LOOP;
+
+    PERFORM public.update_credit_card_limits(card_record.id);
+  END LOOP;
+END $$;
@@ -0,0 +1,344 @@
+-- Ciclo de vida das faturas (função process-credit-card-bills, diária): a fatura fecha
+-- depois do dia de fechamento, vence depois do vencimento e o que não foi pago vai para a
+-- fatura seguinte como saldo anterior, com juros do rotativo (taxa mensal do cartão) e
+-- multa de 2% quando nem o pagamento mínimo foi feito. Tudo depende só dos dados e da data
+-- recebida, então rodar de novo no mesmo dia não muda nada.
+
+ALTER TABLE public.credit_card_bills
+  -- Saldo não pago da fatura anterior, lançado nesta
+  ADD COLUMN IF NOT EXISTS previous_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+  -- Saldo desta fatura que foi para a seguinte depois do vencimento
+  ADD COLUMN IF NOT EXISTS carried_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  -- Fatura que recebeu esse saldo
+  ADD COLUMN IF NOT EXISTS carried_to_bill_id UUID REFERENCES public.credit_card_bills(id) ON DELETE SET NULL;
+
+-- Fatura do cartão no mês de referência, criada (aberta) se ainda não existir. Mesmas datas
+-- de auto_generate_credit_card_bills: vencimento no mês seguinte quando o dia de vencimento
+-- não passa do dia de fechamento
+CREATE OR REPLACE FUNCTION public.get_or_create_credit_card_bill(card_id_param UUID, reference DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  card_record RECORD;
+  bill_id UUID;
+  bill_month INTEGER := EXTRACT(MONTH FROM reference)::INTEGER;
+  bill_year INTEGER := EXTRACT(YEAR FROM reference)::INTEGER;
+  bill_closing_date DATE;
+  bill_due_date DATE;
+BEGIN
+  SELECT id INTO bill_id
+  FROM credit_card_bills
+  WHERE card_id = card_id_param
+  AND reference_month = bill_month
+  AND reference_year = bill_year;
+
+  IF bill_id IS NOT NULL THEN
+    RETURN bill_id;
+  END IF;
+
+  SELECT closing_day, due_day INTO card_record FROM credit_cards WHERE id = card_id_param;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Card not found: %', card_id_param;
+  END IF;
+
+  bill_closing_date := safe_make_date(bill_year, bill_month, card_record.closing_day);
+  IF card_record.due_day <= card_record.closing_day THEN
+    bill_due_date := safe_make_date(
+      EXTRACT(YEAR FROM reference + INTERVAL '1 month')::INTEGER,
+      EXTRACT(MONTH FROM reference + INTERVAL '1 month')::INTEGER,
+      card_record.due_day
+    );
+  ELSE
+    bill_due_date := safe_make_date(bill_year, bill_month, card_record.due_day);
+  END IF;
+
+  INSERT INTO credit_card_bills (
+    card_id, reference_month, reference_year, opening_date, closing_date, due_date, status
+  ) VALUES (
+    card_id_param,
+    bill_month,
+    bill_year,
+    (bill_closing_date - INTERVAL '1 month' + INTERVAL '1 day')::DATE,
+    bill_closing_date,
+    bill_due_date,
+    'open'
+  )
+  RETURNING id INTO bill_id;
+
+  RETURN bill_id;
+END;
+$function$;
+
+-- Compras e parcelas sem fatura vão para a fatura do seu mês (as datas e o status das
+-- faturas ficam com get_or_create_credit_card_bill e process_credit_card_bills)
+CREATE OR REPLACE FUNCTION public.auto_generate_credit_card_bills(card_id_param UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  card_closing_day INTEGER;
+  card_user_id UUID;
+  item RECORD;
+BEGIN
+  SELECT closing_day, user_id INTO card_closing_day, card_user_id FROM credit_cards WHERE id = card_id_param;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Card not found: %', card_id_param;
+  END IF;
+
+  -- Roda como dono da função: um usuário só mexe nas faturas dos próprios cartões (o service
+  -- role, sem auth.uid(), processa qualquer um)
+  IF auth.uid() IS NOT NULL AND card_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Card not found: %', card_id_param;
+  END IF;
+
+  -- A data da parcela é o fechamento da sua fatura
+  FOR item IN
+    SELECT ci.id, ci.due_date
+    FROM credit_card_installments ci
+    JOIN credit_card_purchases cp ON cp.id = ci.purchase_id
+    WHERE cp.card_id = card_id_param AND ci.bill_id IS NULL
+  LOOP
+    UPDATE credit_card_installments
+    SET bill_id = public.get_or_create_credit_card_bill(card_id_param, date_trunc('month', item.due_date)::DATE)
+    WHERE id = item.id;
+  END LOOP;
+
+  FOR item IN
+    SELECT id, purchase_date
+    FROM credit_card_purchases
+    WHERE card_id = card_id_param AND bill_id IS NULL AND installments <= 1
+  LOOP
+    UPDATE credit_card_purchases
+    SET bill_id = public.get_or_create_credit_card_bill(
+      card_id_param,
+      public.credit_card_bill_reference(item.purchase_date, card_closing_day)
+    )
+    WHERE id = item.id;
+  END LOOP;
+
+  FOR item IN SELECT id FROM credit_card_bills WHERE card_id = card_id_param LOOP
+    PERFORM public.recalculate_credit_card_bill(item.id);
+  END LOOP;
+END;
+$function$;
+
+-- Total: compras à vista, parcelas, saldo anterior, juros e multa. Em aberto: o total menos
+-- os pagamentos e o que foi para a fatura seguinte. Só pagamentos mudam o status aqui (para
+-- "paga", ou de volta quando um pagamento é removido); fechar e vencer é com
+-- process_credit_card_bills. O mínimo é 15% do total (pelo menos R$ 50, nunca mais que o total).
+-- Um pagamento atrasado numa fatura vencida sai do saldo que ela levou para a seguinte (e volta
+-- para ele se o pagamento é removido), para o mesmo valor não ser cobrado duas vezes. O que
+-- passar do devido fica como saldo negativo (crédito) da fatura paga. `today` é a data usada
+-- para reabrir a fatura e marcar as parcelas pagas (a de process_credit_card_bills, quando
+-- chamada por ela)
+CREATE OR REPLACE FUNCTION public.recalculate_credit_card_bill(bill_id_param UUID, today DATE DEFAULT CURRENT_DATE)
+RETURNS void
+LANGUAGE plpgsql
+AS $function$
+DECLARE
+  bill_record RECORD;
+  carry_record RECORD;
+  outstanding NUMERIC;
+BEGIN
+  UPDATE credit_card_bills
+  SET
+    total_amount = (
+      SELECT COALESCE(SUM(amount), 0)
+      FROM credit_card_purchases
+      WHERE bill_id = bill_id_param
+      AND installments <= 1
+    ) + (
+      SELECT COALESCE(SUM(amount), 0)
+      FROM credit_card_installments
+      WHERE bill_id = bill_id_param
+    ) + previous_balance + interest_amount + late_fee,
+    paid_amount = (
+      SELECT COALESCE(SUM(amount), 0)
+      FROM credit_card_payments
+      WHERE bill_id = bill_id_param
+    ),
+    updated_at = NOW()
+  WHERE id = bill_id_param;
+
+  SELECT total_amount, paid_amount, carried_amount, carried_to_bill_id INTO carry_record
+  FROM credit_card_bills
+  WHERE id = bill_id_param;
+
+  IF carry_record.carried_to_bill_id IS NOT NULL THEN
+    outstanding := GREATEST(carry_record.total_amount - carry_record.paid_amount, 0);
+
+    IF outstanding <> carry_record.carried_amount THEN
+      UPDATE credit_card_bills
+      SET carried_amount = outstanding
+      WHERE id = bill_id_param;
+
+      UPDATE credit_card_bills
+      SET previous_balance = GREATEST(previous_balance + outstanding - carry_record.carried_amount, 0)
+      WHERE id = carry_record.carried_to_bill_id;
+
+      PERFORM public.recalculate_credit_card_bill(carry_record.carried_to_bill_id, today);
+    END IF;
+  END IF;
+
+  UPDATE credit_card_bills
+  SET
+    remaining_amount = total_amount - paid_amount - carried_amount,
+    minimum_payment = LEAST(total_amount, GREATEST(ROUND(total_amount * 0.15, 2), 50.00)),
+    status = CASE
+      WHEN total_amount > 0 AND total_amount - paid_amount <= 0 THEN 'paid'
+      WHEN status = 'paid' AND total_amount - paid_amount > 0 AND carried_to_bill_id IS NOT NULL THEN 'overdue'
+      WHEN status = 'paid' AND total_amount - paid_amount > 0 THEN
+        CASE WHEN closing_date >= today THEN 'open' ELSE 'closed' END
+      ELSE status
+    END
+  WHERE id = bill_id_param
+  RETURNING status, payment_date INTO bill_record;
+
+  IF FOUND THEN
+    UPDATE credit_card_installments
+    SET
+      is_paid = bill_record.status = 'paid',
+      payment_date = CASE WHEN bill_record.status = 'paid' THEN COALESCE(bill_record.payment_date, today) END
+    WHERE bill_id = bill_id_param
+    AND COALESCE(is_paid, false) IS DISTINCT FROM (bill_record.status = 'paid');
+  END IF;
+END;
+$function$;
+
+-- Processa as faturas na data `today` (de um cartão ou de todos):
+--  1. abertas cujo fechamento já passou fecham (as sem nada a pagar ficam pagas)
+--  2. fechadas cujo vencimento já passou e ainda têm saldo vencem: o saldo vai para a fatura
+--     seguinte, com juros do rotativo pró-rata do vencimento até o fechamento dela e multa
+--     de 2% se o pagamento não chegou ao mínimo
+--  3. fechadas sem saldo depois do vencimento ficam pagas
+CREATE OR REPLACE FUNCTION public.process_credit_card_bills(today DATE DEFAULT CURRENT_DATE, card_id_param UUID DEFAULT NULL)
+RETURNS TABLE(closed_count INTEGER, overdue_count INTEGER, carried_total NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  bill_record RECORD;
+  next_bill RECORD;
+  unpaid NUMERIC;
+  interest NUMERIC;
+  fee NUMERIC;
+  carried_in_pass INTEGER;
+BEGIN
+  closed_count := 0;
+  overdue_count := 0;
+  carried_total := 0;
+
+  UPDATE credit_card_bills
+  SET
+    status = CASE WHEN total_amount - paid_amount - carried_amount <= 0 THEN 'paid' ELSE 'closed' END,
+    updated_at = NOW()
+  WHERE status = 'open'
+  AND closing_date < today
+  AND (card_id_param IS NULL OR card_id = card_id_param);
+  GET DIAGNOSTICS closed_count = ROW_COUNT;
+
+  -- Uma fatura que recebe saldo pode já ter vencido também (a função ficou dias sem rodar):
+  -- repete até não sobrar nenhuma
+  LOOP
+    carried_in_pass := 0;
+    FOR bill_record IN
+      SELECT b.*, COALESCE(c.interest_rate, 0) AS card_interest_rate
+      FROM credit_card_bills b
+      JOIN credit_cards c ON c.id = b.card_id
+      WHERE b.status = 'closed'
+      AND b.due_date < today
+      AND b.total_amount - b.paid_amount - b.carried_amount > 0
+      AND (card_id_param IS NULL OR b.card_id = card_id_param)
+      ORDER BY b.due_date
+    LOOP
+      unpaid := bill_record.total_amount - bill_record.paid_amount - bill_record.carried_amount;
+
+      SELECT id, closing_date INTO next_bill
+      FROM credit_card_bills
+      WHERE id = public.get_or_create_credit_card_bill(
+        bill_record.card_id,
+        (make_date(bill_record.reference_year, bill_record.reference_month, 1) + INTERVAL '1 month')::DATE
+      );
+
+      interest := ROUND(
+        unpaid * bill_record.card_interest_rate / 100 * GREATEST(next_bill.closing_date - bill_record.due_date, 0) / 30.0,
+        2
+      );
+      fee := CASE WHEN bill_record.paid_amount < bill_record.minimum_payment THEN ROUND(unpaid * 0.02, 2) ELSE 0 END;
+
+      UPDATE credit_card_bills
+      SET
+        status = 'overdue',
+        carried_amount = carried_amount + unpaid,
+        carried_to_bill_id = next_bill.id,
+        updated_at = NOW()
+      WHERE id = bill_record.id;
+
+      UPDATE credit_card_bills
+      SET
+        previous_balance = previous_balance + unpaid,
+        interest_amount = interest_amount + interest,
+        late_fee = late_fee + fee
+      WHERE id = next_bill.id;
+
+      PERFORM public.recalculate_credit_card_bill(bill_record.id, today);
+      PERFORM public.recalculate_credit_card_bill(next_bill.id, today);
+
+      overdue_count := overdue_count + 1;
+      carried_in_pass := carried_in_pass + 1;
+      carried_total := carried_total + unpaid;
+    END LOOP;
+    EXIT WHEN carried_in_pass = 0;
+  END LOOP;
+
+  UPDATE credit_card_bills
+  SET status = 'paid', updated_at = NOW()
+  WHERE status = 'closed'
+  AND due_date < today
+  AND total_amount - paid_amount - carried_amount <= 0
+  AND (card_id_param IS NULL OR card_id = card_id_param);
+
+  RETURN NEXT;
+END;
+$function$;
+
+-- Só o servidor (service role) cria faturas avulsas e processa o ciclo de todos os cartões
+REVOKE EXECUTE ON FUNCTION public.get_or_create_credit_card_bill(UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_credit_card_bills(DATE, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_or_create_credit_card_bill(UUID, DATE) TO service_role;
+GRANT EXECUTE ON FUNCTION public.process_credit_card_bills(DATE, UUID) TO service_role;
+
+-- O app chama auto_generate_credit_card_bills para os cartões do usuário logado; sem login
+-- não há auth.uid() para conferir o dono do cartão
+REVOKE EXECUTE ON FUNCTION public.auto_generate_credit_card_bills(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.auto_generate_credit_card_bills(UUID) TO authenticated, service_role;
+
+-- Faturas antigas nunca passaram por esse processo e muitas foram pagas fora do app: as que
+-- já venceram ficam como vencidas, sem levar saldo nem encargos para as seguintes. "Hoje" é o
+-- mesmo do processamento diário (o dia no fuso dos usuários, não no do servidor)
+UPDATE public.credit_card_bills
+SET status = 'overdue'
+WHERE status IN ('open', 'closed')
+AND due_date < (NOW() AT TIME ZONE 'America/Sao_Paulo')::DATE
+AND remaining_amount > 0;
+
+-- Agendamento diário (requer as extensões pg_cron e pg_net; substitua a URL do projeto e a
+-- service role key antes de executar):
+--
+-- SELECT cron.schedule(
+--   'process-credit-card-bills',
+--   '30 3 * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/process-credit-card-bills',
+--     headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer <service-role-key>'),
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
@@ -0,0 +1,77 @@
+-- Ciclo da fatura, nas mesmas regras do app (src/utils/billingCycleUtils.ts). A fatura abre
+-- no dia seguinte ao fechamento da anterior: com fechamento no dia 30, a de fevereiro (que
+-- fecha em 28/02) abre em 31/01, e não em 29/01 como dava o fechamento menos um mês.
+
+-- Fatura do cartão no mês de referência, criada (aberta) se ainda não existir. Vencimento no
+-- mês seguinte quando o dia de vencimento não passa do dia de fechamento
+CREATE OR REPLACE FUNCTION public.get_or_create_credit_card_bill(card_id_param UUID, reference DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  card_record RECORD;
+  bill_id UUID;
+  bill_month INTEGER := EXTRACT(MONTH FROM reference)::INTEGER;
+  bill_year INTEGER := EXTRACT(YEAR FROM reference)::INTEGER;
+  bill_closing_date DATE;
+  bill_due_date DATE;
+BEGIN
+  SELECT id INTO bill_id
+  FROM credit_card_bills
+  WHERE card_id = card_id_param
+  AND reference_month = bill_month
+  AND reference_year = bill_year;
+
+  IF bill_id IS NOT NULL THEN
+    RETURN bill_id;
+  END IF;
+
+  SELECT closing_day, due_day INTO card_record FROM credit_cards WHERE id = card_id_param;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Card not found: %', card_id_param;
+  END IF;
+
+  bill_closing_date := safe_make_date(bill_year, bill_month, card_record.closing_day);
+  IF card_record.due_day <= card_record.closing_day THEN
+    bill_due_date := safe_make_date(
+      EXTRACT(YEAR FROM reference + INTERVAL '1 month')::INTEGER,
+      EXTRACT(MONTH FROM reference + INTERVAL '1 month')::INTEGER,
+      card_record.due_day
+    );
+  ELSE
+    bill_due_date := safe_make_date(bill_year, bill_month, card_record.due_day);
+  END IF;
+
+  INSERT INTO credit_card_bills (
+    card_id, reference_month, reference_year, opening_date, closing_date, due_date, status
+  ) VALUES (
+    card_id_param,
+    bill_month,
+    bill_year,
+    safe_make_date(
+      EXTRACT(YEAR FROM reference - INTERVAL '1 month')::INTEGER,
+      EXTRACT(MONTH FROM reference - INTERVAL '1 month')::INTEGER,
+      card_record.closing_day
+    ) + 1,
+    bill_closing_date,
+    bill_due_date,
+    'open'
+  )
+  RETURNING id INTO bill_id;
+
+  RETURN bill_id;
+END;
+$function$;
+
+-- Faturas em aberto com a abertura calculada pela regra antiga
+UPDATE public.credit_card_bills b
+SET opening_date = public.safe_make_date(
+  EXTRACT(YEAR FROM make_date(b.reference_year, b.reference_month, 1) - INTERVAL '1 month')::INTEGER,
+  EXTRACT(MONTH FROM make_date(b.reference_year, b.reference_month, 1) - INTERVAL '1 month')::INTEGER,
+  c.closing_day
+) + 1
+FROM public.credit_cards c
+WHERE c.id = b.card_id
+AND b.status = 'open';
@@ -0,0 +1,104 @@
+-- Agregados de transações calculados no banco, para que o app não precise carregar todo o
+-- histórico: saldos das contas e filtro por categoria (inclusive linhas de split)
+
+-- 1) Categorias de uma transação: a principal e as das linhas de split.
+-- Campo calculado do PostgREST: filtre com transaction_category_ids=cs.{id}
+CREATE OR REPLACE FUNCTION public.transaction_category_ids(t public.poupeja_transactions)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT ARRAY(
+    SELECT t.category_id WHERE t.category_id IS NOT NULL
+    UNION
+    SELECT s.category_id
+    FROM public.poupeja_transaction_splits s
+    WHERE s.transaction_id = t.id AND s.category_id IS NOT NULL
+  );
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_category
+  ON public.poupeja_transaction_splits(category_id, transaction_id);
+
+-- 2) Saldo de cada conta do usuário ao final do dia as_of (useAccountBalances no app):
+--  - parte do último ponto de conciliação até as_of (somando só as transações depois dele)
+--    ou, sem ponto, do saldo inicial (somando as transações a partir de opening_balance_date)
+--  - receitas somam, despesas subtraem, transferências saem da origem e entram no destino
+--  - o saldo fica na moeda da conta
+-- Com before_as_of_checkpoints, pontos de conciliação do próprio dia as_of são ignorados (saldo
+-- calculado para conferir uma nova conciliação). A linha com account_id NULL soma, na moeda
+-- base, as receitas menos as despesas sem conta cadastrada.
+CREATE OR REPLACE FUNCTION public.get_account_balances(
+  as_of DATE DEFAULT CURRENT_DATE,
+  before_as_of_checkpoints BOOLEAN DEFAULT false
+)
+RETURNS TABLE (account_id UUID, balance NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH starts AS (
+    SELECT
+      a.id,
+      COALESCE(cp.balance, a.opening_balance, 0) AS start_amount,
+      cp.checkpoint_date,
+      CASE WHEN cp.id IS NULL THEN a.opening_balance_date END AS opening_date
+    FROM public.poupeja_accounts a
+    LEFT JOIN LATERAL (
+      SELECT c.id, c.balance, c.checkpoint_date
+      FROM public.poupeja_account_checkpoints c
+      WHERE c.account_id = a.id
+        AND (c.checkpoint_date < as_of OR (c.checkpoint_date = as_of AND NOT before_as_of_checkpoints))
+      ORDER BY c.checkpoint_date DESC, c.created_at DESC
+      LIMIT 1
+    ) cp ON true
+    WHERE a.user_id = auth.uid()
+  )
+  SELECT
+    s.id AS account_id,
+    s.start_amount + COALESCE((
+      SELECT SUM(
+        CASE
+          WHEN tx.type = 'income' AND tx.account_id = s.id THEN tx.amount
+          WHEN tx.type = 'expense' AND tx.account_id = s.id THEN -tx.amount
+          WHEN tx.type = 'transfer' AND tx.destination_account_id = s.id THEN tx.amount
+          WHEN tx.type = 'transfer' AND tx.account_id = s.id THEN -tx.amount
+          ELSE 0
+        END
+      )
+      FROM public.poupeja_transactions tx
+      WHERE tx.user_id = auth.uid()
+        AND (tx.account_id = s.id OR (tx.type = 'transfer' AND tx.destination_account_id = s.id))
+        AND tx.date::date <= as_of
+        AND (s.checkpoint_date IS NULL OR tx.date::date > s.checkpoint_date)
+        AND (s.opening_date IS NULL OR tx.date::date >= s.opening_date)
+    ), 0) AS balance
+  FROM starts s
+
+  UNION ALL
+
+  SELECT
+    NULL::UUID AS account_id,
+    COALESCE(SUM(
+      CASE tx.type
+        WHEN 'income' THEN tx.amount * COALESCE(tx.exchange_rate, 1)
+        WHEN 'expense' THEN -tx.amount * COALESCE(tx.exchange_rate, 1)
+        ELSE 0
+      END
+    ), 0) AS balance
+  FROM public.poupeja_transactions tx
+  WHERE tx.user_id = auth.uid()
+    AND tx.date::date <= as_of
+    AND (tx.account_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM public.poupeja_accounts a WHERE a.id = tx.account_id AND a.user_id = auth.uid()
+    ));
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_poupeja_transactions_user_date
+  ON public.poupeja_transactions(user_id, date);
+
+REVOKE EXECUTE ON FUNCTION public.get_account_balances(DATE, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_account_balances(DATE, BOOLEAN) TO authenticated;